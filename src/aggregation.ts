@@ -0,0 +1,541 @@
+import { ValidationError } from './errors';
+import type { QueryFilter, QueryGroup } from './types';
+import type { NestedValue } from './types/nested-paths';
+
+/**
+ * `'$field'` or `'$nested.field'`: the value of a field of the current
+ * document
+ */
+export type FieldReference = `$${string}`;
+
+/**
+ * Computed value inside `$group` and `$project`. Plain strings, numbers,
+ * booleans and null are literals; wrap strings starting with `$` in
+ * `$literal`.
+ */
+export type AggregateExpression =
+    | FieldReference
+    | string
+    | number
+    | boolean
+    | null
+    | { $literal: any }
+    | { $add: readonly AggregateExpression[] }
+    | { $subtract: readonly [AggregateExpression, AggregateExpression] }
+    | { $multiply: readonly AggregateExpression[] }
+    | { $divide: readonly [AggregateExpression, AggregateExpression] }
+    | { $mod: readonly [AggregateExpression, AggregateExpression] }
+    | { $concat: readonly AggregateExpression[] }
+    | { $toUpper: AggregateExpression }
+    | { $toLower: AggregateExpression }
+    | { $size: AggregateExpression }
+    | { $ifNull: readonly [AggregateExpression, AggregateExpression] }
+    | { $eq: readonly [AggregateExpression, AggregateExpression] }
+    | { $ne: readonly [AggregateExpression, AggregateExpression] }
+    | { $gt: readonly [AggregateExpression, AggregateExpression] }
+    | { $gte: readonly [AggregateExpression, AggregateExpression] }
+    | { $lt: readonly [AggregateExpression, AggregateExpression] }
+    | { $lte: readonly [AggregateExpression, AggregateExpression] }
+    | {
+          $cond:
+              | {
+                    if: AggregateExpression;
+                    then: AggregateExpression;
+                    else: AggregateExpression;
+                }
+              | readonly [
+                    AggregateExpression,
+                    AggregateExpression,
+                    AggregateExpression,
+                ];
+      }
+    | { readonly [field: string]: AggregateExpression };
+
+export type AccumulatorName =
+    | '$sum'
+    | '$avg'
+    | '$min'
+    | '$max'
+    | '$first'
+    | '$last'
+    | '$push'
+    | '$addToSet'
+    | '$count';
+
+export type Accumulator =
+    | { $sum: AggregateExpression }
+    | { $avg: AggregateExpression }
+    | { $min: AggregateExpression }
+    | { $max: AggregateExpression }
+    | { $first: AggregateExpression }
+    | { $last: AggregateExpression }
+    | { $push: AggregateExpression }
+    | { $addToSet: AggregateExpression }
+    | { $count: Record<string, never> };
+
+export type MatchCondition =
+    | string
+    | number
+    | boolean
+    | null
+    | {
+          $eq?: any;
+          $ne?: any;
+          $gt?: any;
+          $gte?: any;
+          $lt?: any;
+          $lte?: any;
+          $in?: readonly any[];
+          $nin?: readonly any[];
+          $exists?: boolean;
+      };
+
+/**
+ * Mongo-style filter: fields map to a value (equality) or an operator
+ * object, and `$and` / `$or` combine nested filters
+ */
+export type MatchFilter = {
+    readonly $and?: readonly MatchFilter[];
+    readonly $or?: readonly MatchFilter[];
+    readonly [field: string]:
+        MatchCondition | readonly MatchFilter[] | undefined;
+};
+
+export type UnwindOptions = {
+    path: FieldReference;
+    preserveNullAndEmptyArrays?: boolean;
+};
+
+export type LookupOptions = {
+    from: string;
+    localField: string;
+    foreignField: string;
+    as: string;
+};
+
+export type PipelineStage =
+    | { $match: MatchFilter }
+    | {
+          $group: {
+              readonly _id: AggregateExpression;
+              readonly [field: string]: AggregateExpression | Accumulator;
+          };
+      }
+    | {
+          $project: {
+              readonly [field: string]: 0 | 1 | boolean | AggregateExpression;
+          };
+      }
+    | { $unwind: FieldReference | UnwindOptions }
+    | { $sort: { readonly [field: string]: 1 | -1 } }
+    | { $limit: number }
+    | { $skip: number }
+    | { $lookup: LookupOptions }
+    | { $count: string };
+
+export type PipelineStageName =
+    | '$match'
+    | '$group'
+    | '$project'
+    | '$unwind'
+    | '$sort'
+    | '$limit'
+    | '$skip'
+    | '$lookup'
+    | '$count';
+
+export const PIPELINE_STAGES: PipelineStageName[] = [
+    '$match',
+    '$group',
+    '$project',
+    '$unwind',
+    '$sort',
+    '$limit',
+    '$skip',
+    '$lookup',
+    '$count',
+];
+
+export const ACCUMULATORS: AccumulatorName[] = [
+    '$sum',
+    '$avg',
+    '$min',
+    '$max',
+    '$first',
+    '$last',
+    '$push',
+    '$addToSet',
+    '$count',
+];
+
+/* ───────────── output type inference ───────────── */
+
+type FieldType<T, P extends string> = P extends keyof T
+    ? T[P]
+    : [NestedValue<T, P>] extends [never]
+      ? unknown
+      : NestedValue<T, P>;
+
+/**
+ * Type an expression evaluates to against documents of type T
+ */
+export type ExpressionOutput<T, E> = E extends `$${infer P}`
+    ? FieldType<T, P>
+    : E extends string
+      ? string
+      : E extends number
+        ? number
+        : E extends boolean
+          ? boolean
+          : E extends null
+            ? null
+            : E extends { $literal: infer L }
+              ? L
+              : E extends
+                      | { $add: any }
+                      | { $subtract: any }
+                      | { $multiply: any }
+                      | { $divide: any }
+                      | { $mod: any }
+                      | { $size: any }
+                ? number
+                : E extends
+                        { $concat: any } | { $toUpper: any } | { $toLower: any }
+                  ? string
+                  : E extends
+                          | { $eq: any }
+                          | { $ne: any }
+                          | { $gt: any }
+                          | { $gte: any }
+                          | { $lt: any }
+                          | { $lte: any }
+                    ? boolean
+                    : E extends { $ifNull: readonly [infer A, infer B] }
+                      ? | NonNullable<ExpressionOutput<T, A>>
+                        | ExpressionOutput<T, B>
+                      : E extends { $cond: { then: infer A; else: infer B } }
+                        ? ExpressionOutput<T, A> | ExpressionOutput<T, B>
+                        : E extends { $cond: readonly [any, infer A, infer B] }
+                          ? ExpressionOutput<T, A> | ExpressionOutput<T, B>
+                          : E extends object
+                            ? {
+                                  -readonly [K in keyof E]: ExpressionOutput<
+                                      T,
+                                      E[K]
+                                  >;
+                              }
+                            : unknown;
+
+type AccumulatorOutput<T, A> = A extends { $sum: any } | { $avg: any }
+    ? number
+    : A extends { $count: any }
+      ? number
+      : A extends { $min: infer E } | { $max: infer E }
+        ? ExpressionOutput<T, E>
+        : A extends { $first: infer E } | { $last: infer E }
+          ? ExpressionOutput<T, E>
+          : A extends { $push: infer E } | { $addToSet: infer E }
+            ? ExpressionOutput<T, E>[]
+            : ExpressionOutput<T, A>;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type ArrayItem<V> = V extends readonly (infer U)[] ? U : V;
+
+type UnwindOutput<T, P> = P extends `$${infer F}`
+    ? F extends keyof T
+        ? Simplify<Omit<T, F> & { [K in F]: ArrayItem<T[F]> }>
+        : T
+    : T;
+
+type ExcludedFields<P> = {
+    [K in keyof P]: P[K] extends 0 | false ? K : never;
+}[keyof P];
+
+type IdType<T> = T extends { _id: infer I } ? I : unknown;
+
+type ProjectedId<T, P> = P extends { _id: 0 | false }
+    ? {}
+    : P extends { _id: infer E }
+      ? E extends 1 | true
+          ? { _id: IdType<T> }
+          : { _id: ExpressionOutput<T, E> }
+      : { _id: IdType<T> };
+
+type ProjectOutput<T, P> = [Exclude<keyof P, ExcludedFields<P>>] extends [never]
+    ? Simplify<Omit<T, ExcludedFields<P> & keyof T>>
+    : Simplify<
+          ProjectedId<T, P> & {
+              -readonly [K in Exclude<keyof P, '_id'>]: P[K] extends 1 | true
+                  ? K extends string
+                      ? FieldType<T, K>
+                      : unknown
+                  : ExpressionOutput<T, P[K]>;
+          }
+      >;
+
+/**
+ * Shape of the documents a single stage emits for input documents of type T
+ */
+export type StageOutput<T, S> = S extends { $group: infer G }
+    ? Simplify<
+          {
+              _id: ExpressionOutput<T, G extends { _id: infer I } ? I : null>;
+          } & {
+              -readonly [K in Exclude<keyof G, '_id'>]: AccumulatorOutput<
+                  T,
+                  G[K]
+              >;
+          }
+      >
+    : S extends { $project: infer P }
+      ? ProjectOutput<T, P>
+      : S extends { $unwind: infer U }
+        ? UnwindOutput<T, U extends { path: infer P } ? P : U>
+        : S extends { $lookup: { as: infer A extends string } }
+          ? Simplify<Omit<T, A> & { [K in A]: Record<string, any>[] }>
+          : S extends { $count: infer N extends string }
+            ? { [K in N]: number }
+            : T;
+
+/**
+ * Shape of the documents a whole pipeline returns. Pipelines that are not
+ * tuple literals fall back to plain records.
+ */
+export type PipelineOutput<
+    T,
+    S extends readonly unknown[],
+> = number extends S['length']
+    ? Record<string, any>
+    : S extends readonly [infer Head, ...infer Rest]
+      ? PipelineOutput<StageOutput<T, Head>, Rest>
+      : T;
+
+/* ───────────── validation ───────────── */
+
+const FIELD_PATH = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z0-9_]+)*$/;
+const OUTPUT_FIELD = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Check a dot path before it is embedded in a JSON path literal
+ */
+export function assertFieldPath(path: string, context: string): void {
+    if (typeof path !== 'string' || !FIELD_PATH.test(path)) {
+        throw new ValidationError(`Invalid field path '${path}' in ${context}`);
+    }
+}
+
+/**
+ * Check a single-level output field name (group keys, project keys, `as`)
+ */
+export function assertOutputField(name: string, context: string): void {
+    if (typeof name !== 'string' || !OUTPUT_FIELD.test(name)) {
+        throw new ValidationError(
+            `Invalid output field '${name}' in ${context}`
+        );
+    }
+}
+
+/**
+ * The operator key of a single-key `{ $op: ... }` object, or undefined for
+ * anything else
+ */
+export function getOperator(value: unknown): string | undefined {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return undefined;
+    }
+    const keys = Object.keys(value);
+    return keys.length === 1 && keys[0]!.startsWith('$') ? keys[0] : undefined;
+}
+
+/**
+ * Check stage names and the shape of each stage. Expressions are checked
+ * while they are compiled.
+ */
+export function validatePipeline(pipeline: readonly PipelineStage[]): void {
+    if (!Array.isArray(pipeline)) {
+        throw new ValidationError('Aggregation pipeline must be an array');
+    }
+    pipeline.forEach((stage: any, index) => {
+        const name = getOperator(stage);
+        if (!name || !PIPELINE_STAGES.includes(name as PipelineStageName)) {
+            throw new ValidationError(
+                `Pipeline stage ${index} must be an object with one of ${PIPELINE_STAGES.join(', ')}`
+            );
+        }
+        const spec = stage[name];
+        const context = `${name} (stage ${index})`;
+        const isObject =
+            !!spec && typeof spec === 'object' && !Array.isArray(spec);
+
+        switch (name as PipelineStageName) {
+            case '$match':
+            case '$project':
+                if (!isObject) {
+                    throw new ValidationError(`${context} must be an object`);
+                }
+                break;
+            case '$group':
+                if (!isObject || !('_id' in spec)) {
+                    throw new ValidationError(
+                        `${context} must be an object with an _id`
+                    );
+                }
+                for (const [field, accumulator] of Object.entries(spec)) {
+                    if (field === '_id') continue;
+                    assertOutputField(field, context);
+                    const operator = getOperator(accumulator);
+                    if (
+                        !operator ||
+                        !ACCUMULATORS.includes(operator as AccumulatorName)
+                    ) {
+                        throw new ValidationError(
+                            `${context} field '${field}' must use one of ${ACCUMULATORS.join(', ')}`
+                        );
+                    }
+                }
+                break;
+            case '$unwind': {
+                const path = typeof spec === 'string' ? spec : spec?.path;
+                if (typeof path !== 'string' || !path.startsWith('$')) {
+                    throw new ValidationError(
+                        `${context} path must be a field reference like '$tags'`
+                    );
+                }
+                assertFieldPath(path.slice(1), context);
+                break;
+            }
+            case '$sort':
+                if (!isObject || Object.keys(spec).length === 0) {
+                    throw new ValidationError(
+                        `${context} must name at least one field`
+                    );
+                }
+                for (const [field, direction] of Object.entries(spec)) {
+                    assertFieldPath(field, context);
+                    if (direction !== 1 && direction !== -1) {
+                        throw new ValidationError(
+                            `${context} direction for '${field}' must be 1 or -1`
+                        );
+                    }
+                }
+                break;
+            case '$limit':
+                if (!Number.isInteger(spec) || spec <= 0) {
+                    throw new ValidationError(
+                        `${context} must be a positive integer`
+                    );
+                }
+                break;
+            case '$skip':
+                if (!Number.isInteger(spec) || spec < 0) {
+                    throw new ValidationError(
+                        `${context} must be a non-negative integer`
+                    );
+                }
+                break;
+            case '$lookup':
+                if (!isObject || typeof spec.from !== 'string') {
+                    throw new ValidationError(
+                        `${context} requires from, localField, foreignField and as`
+                    );
+                }
+                assertFieldPath(spec.localField, context);
+                assertFieldPath(spec.foreignField, context);
+                assertOutputField(spec.as, context);
+                break;
+            case '$count':
+                assertOutputField(spec, context);
+                break;
+        }
+    });
+}
+
+/* ───────────── $match ───────────── */
+
+const MATCH_OPERATORS: Record<string, QueryFilter['operator']> = {
+    $eq: 'eq',
+    $ne: 'neq',
+    $gt: 'gt',
+    $gte: 'gte',
+    $lt: 'lt',
+    $lte: 'lte',
+    $in: 'in',
+    $nin: 'nin',
+    $exists: 'exists',
+};
+
+/**
+ * Convert a Mongo-style filter into the query builder's filters. Fields
+ * are ANDed; a plain value is an equality test and `null` matches missing
+ * fields.
+ */
+export function matchToFilters(
+    match: MatchFilter
+): (QueryFilter | QueryGroup)[] {
+    if (!match || typeof match !== 'object' || Array.isArray(match)) {
+        throw new ValidationError('$match filter must be an object');
+    }
+    const filters: (QueryFilter | QueryGroup)[] = [];
+
+    for (const [key, condition] of Object.entries(match)) {
+        if (condition === undefined) continue;
+        if (key === '$and' || key === '$or') {
+            if (!Array.isArray(condition) || condition.length === 0) {
+                throw new ValidationError(
+                    `${key} must be a non-empty array of filters`
+                );
+            }
+            filters.push({
+                type: key === '$and' ? 'and' : 'or',
+                filters: condition.map((nested: MatchFilter) => ({
+                    type: 'and' as const,
+                    filters: matchToFilters(nested),
+                })),
+            });
+            continue;
+        }
+        assertFieldPath(key, '$match');
+
+        if (
+            condition === null ||
+            typeof condition !== 'object' ||
+            condition instanceof Date ||
+            Array.isArray(condition)
+        ) {
+            filters.push(
+                condition === null
+                    ? { field: key, operator: 'exists', value: false }
+                    : { field: key, operator: 'eq', value: condition }
+            );
+            continue;
+        }
+
+        for (const [name, value] of Object.entries(condition)) {
+            const operator = MATCH_OPERATORS[name];
+            if (!operator) {
+                throw new ValidationError(
+                    `Unknown $match operator '${name}' for field '${key}'`
+                );
+            }
+            if (
+                (operator === 'in' || operator === 'nin') &&
+                !Array.isArray(value)
+            ) {
+                throw new ValidationError(
+                    `${name} for field '${key}' must be an array`
+                );
+            }
+            filters.push(
+                value === null && (operator === 'eq' || operator === 'neq')
+                    ? {
+                          field: key,
+                          operator: 'exists',
+                          value: operator === 'neq',
+                      }
+                    : { field: key, operator, value }
+            );
+        }
+    }
+    return filters;
+}
@@ -0,0 +1,206 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { stringifyDoc } from './json-utils';
+
+export interface ChangeEvent<T = any> {
+    /** 'initial' for the first emission of a subscription, 'change' afterwards */
+    type: 'initial' | 'change';
+    /** The full result set of the watched query after the write */
+    results: T[];
+    added: T[];
+    changed: T[];
+    removed: T[];
+}
+
+export type ChangeCallback<T = any> = (
+    event: ChangeEvent<T>
+) => void | Promise<void>;
+
+export interface ChangeSubscription {
+    /** Resolves once the initial result set has been delivered */
+    ready: Promise<void>;
+    unsubscribe(): void;
+}
+
+interface Watcher {
+    collectionName: string;
+    run: () => Promise<any[]>;
+    callback: ChangeCallback;
+    snapshot?: Map<string, { doc: any; serialized: string }>;
+    queue: Promise<void>;
+    // A refresh is queued but has not started yet
+    pending: boolean;
+    active: boolean;
+}
+
+/**
+ * Collections written by a transaction that has not committed yet
+ */
+interface Batch {
+    collections: Set<string>;
+}
+
+/**
+ * Tracks live query subscriptions and re-evaluates them after writes.
+ *
+ * Every write path in Collection calls notify() with its collection name;
+ * each watcher on that collection re-runs its query and diffs the result
+ * against the previous snapshot by _id. Refreshes run in the background, one
+ * at a time per watcher, so writes never wait for subscriber callbacks and
+ * callbacks may write themselves. Writes made inside batch() are held back
+ * and flushed once it resolves; writes from other async code are not.
+ */
+export class ChangeFeed {
+    private watchers = new Set<Watcher>();
+    private batches = new AsyncLocalStorage<Batch>();
+
+    subscribe<T>(
+        collectionName: string,
+        run: () => Promise<T[]>,
+        callback: ChangeCallback<T>
+    ): ChangeSubscription {
+        const watcher: Watcher = {
+            collectionName,
+            run,
+            callback,
+            queue: Promise.resolve(),
+            pending: false,
+            active: true,
+        };
+        this.watchers.add(watcher);
+
+        return {
+            ready: this.schedule(watcher),
+            unsubscribe: () => {
+                watcher.active = false;
+                this.watchers.delete(watcher);
+            },
+        };
+    }
+
+    hasWatchers(collectionName: string): boolean {
+        for (const watcher of this.watchers) {
+            if (watcher.collectionName === collectionName) return true;
+        }
+        return false;
+    }
+
+    /**
+     * Queue a refresh of every watcher on the collection; returns without
+     * waiting for it
+     */
+    notify(collectionName: string): void {
+        if (!this.hasWatchers(collectionName)) return;
+
+        const batch = this.batches.getStore();
+        if (batch) {
+            batch.collections.add(collectionName);
+            return;
+        }
+
+        for (const watcher of this.watchers) {
+            if (watcher.collectionName === collectionName) {
+                this.schedule(watcher);
+            }
+        }
+    }
+
+    /**
+     * Run fn with notifications from its async context held back until it
+     * resolves. Nested batches hand their collections to the enclosing one;
+     * a rejected batch drops them, since its writes were rolled back.
+     */
+    async batch<T>(fn: () => Promise<T>): Promise<T> {
+        const batch: Batch = { collections: new Set() };
+        const result = await this.batches.run(batch, fn);
+        for (const collectionName of batch.collections) {
+            this.notify(collectionName);
+        }
+        return result;
+    }
+
+    clear(): void {
+        for (const watcher of this.watchers) {
+            watcher.active = false;
+        }
+        this.watchers.clear();
+    }
+
+    private schedule(watcher: Watcher): Promise<void> {
+        // A queued refresh that has not started will see this write as well
+        if (watcher.pending) return watcher.queue;
+        watcher.pending = true;
+
+        // Leave the caller's batch so callbacks that write are delivered
+        watcher.queue = this.batches.exit(() =>
+            watcher.queue
+                .then(() => {
+                    watcher.pending = false;
+                    return this.refresh(watcher);
+                })
+                .catch((error) => {
+                    console.warn(
+                        `Change feed refresh failed for collection '${watcher.collectionName}':`,
+                        error
+                    );
+                })
+        );
+        return watcher.queue;
+    }
+
+    private async refresh(watcher: Watcher): Promise<void> {
+        if (!watcher.active) return;
+
+        const results = await watcher.run();
+        const next = new Map<string, { doc: any; serialized: string }>();
+        for (const doc of results) {
+            next.set(String(doc?._id), {
+                doc,
+                serialized: stringifyDoc(doc),
+            });
+        }
+
+        const previous = watcher.snapshot;
+        watcher.snapshot = next;
+
+        if (!previous) {
+            await watcher.callback({
+                type: 'initial',
+                results,
+                added: [],
+                changed: [],
+                removed: [],
+            });
+            return;
+        }
+
+        const added: any[] = [];
+        const changed: any[] = [];
+        const removed: any[] = [];
+
+        for (const [id, entry] of next) {
+            const before = previous.get(id);
+            if (!before) {
+                added.push(entry.doc);
+            } else if (before.serialized !== entry.serialized) {
+                changed.push(entry.doc);
+            }
+        }
+        for (const [id, entry] of previous) {
+            if (!next.has(id)) removed.push(entry.doc);
+        }
+
+        if (added.length === 0 && changed.length === 0 && removed.length === 0) {
+            return;
+        }
+
+        if (watcher.active) {
+            await watcher.callback({
+                type: 'change',
+                results,
+                added,
+                changed,
+                removed,
+            });
+        }
+    }
+}
@@ -5,6 +5,21 @@ import type {
     InferSchema,
     VectorSearchOptions,
     VectorSearchResult,
+    FullTextSearchOptions,
+    FullTextSearchResult,
+    HybridSearchOptions,
+    HybridSearchResult,
+    QueryOptions,
+    QueryFilter,
+    QueryGroup,
+    SubqueryFilter,
+    PopulateClause,
+    AnyRelationValues,
+    WriteOptions,
+    PurgeDeletedOptions,
+    HistoryOptions,
+    HistoryEntry,
+    Collation,
 } from './types';
 import { QueryBuilder, FieldBuilder } from './query-builder';
 import { SQLTranslator } from './sql-translator';
@@ -13,6 +28,9 @@ import {
     ValidationError,
     NotFoundError,
     UniqueConstraintError,
+    ConflictError,
+    DatabaseError,
+    type RevisionConflict,
 } from './errors.js';
 import {
     parseDoc,
@@ -20,15 +38,95 @@ import {
     reconstructNestedObject,
 } from './json-utils.js';
 import type { QueryablePaths, OrderablePaths } from './types/nested-paths';
-import type { PluginManager } from './plugin-system';
+import type { PluginContext, PluginManager } from './plugin-system';
+import {
+    ChangeFeed,
+    type ChangeCallback,
+    type ChangeSubscription,
+} from './change-feed';
 import { Migrator } from './migrator';
-import { fieldPathToColumnName } from './constrained-fields';
-
-export class Collection<T extends z.ZodSchema> {
+import { encodeCursor, type Page, type PaginateOptions } from './cursor';
+import { fuseResults } from './hybrid-search';
+import {
+    getOutputAliases,
+    supportsOuterJoins,
+    usesOuterJoins,
+    type SchemaLookup,
+} from './join-resolver';
+import {
+    assertPopulatable,
+    collectKeys,
+} from './relations';
+import {
+    applyUpdateOperators,
+    canCompileBulkUpdateOperators,
+    canCompileUpdateOperators,
+    getUpdatedPaths,
+    normalizeUpdateOperators,
+    pathsOverlap,
+    validateUpdateOperators,
+    valuesEqual,
+    type UpdateOperators,
+} from './update-operators';
+import {
+    applyJsonPatch,
+    diffDocuments,
+    getPatchedFields,
+    validateJsonPatch,
+    type JsonPatchOperation,
+} from './json-patch';
+import type { PipelineOutput, PipelineStage } from './aggregation';
+import {
+    Expression,
+    hasFilterExpression,
+    readExpressionValue,
+} from './expressions';
+import {
+    excludeFields,
+    parseProjection,
+    parseSort,
+    type Filter,
+    type FindOptions,
+    type ParseFilterOptions,
+} from './filter-parser';
+import type { QueryJSONOptions, SerializedQuery } from './query-serializer';
+import { fieldPathToColumnName, getNestedValue } from './constrained-fields';
+import {
+    FOLD_FUNCTION,
+    foldString,
+    hasStringFilter,
+    matchesStringFilter,
+    needsStringFunctions,
+    usesStringOperators,
+} from './string-functions';
+
+// Async writes that withActor() runs with the actor recorded
+const ACTOR_WRITE_METHODS = [
+    'insert',
+    'insertBulk',
+    'put',
+    'putBulk',
+    'update',
+    'updateMany',
+    'delete',
+    'deleteBulk',
+    'deleteMany',
+    'upsert',
+    'upsertOptimized',
+    'upsertBulk',
+    'restore',
+    'purgeDeleted',
+    'revert',
+] as const;
+
+export class Collection<T extends z.ZodSchema, Rel = AnyRelationValues> {
     private driver: Driver;
     private collectionSchema: CollectionSchema<InferSchema<T>>;
     private pluginManager?: PluginManager;
     private database?: any; // Reference to the Database instance
+    private changeFeed: ChangeFeed;
+    private nativeOuterJoins?: boolean;
+    private stringFunctions?: boolean;
 
     private isInitialized = false;
     private initializationPromise?: Promise<void>;
@@ -38,12 +136,14 @@ export class Collection<T extends z.ZodSchema> {
         driver: Driver,
         schema: CollectionSchema<InferSchema<T>>,
         pluginManager?: PluginManager,
-        database?: any
+        database?: any,
+        changeFeed?: ChangeFeed
     ) {
         this.driver = driver;
         this.collectionSchema = schema;
         this.pluginManager = pluginManager;
         this.database = database;
+        this.changeFeed = changeFeed || new ChangeFeed();
         this.createTable();
     }
 
@@ -54,12 +154,14 @@ export class Collection<T extends z.ZodSchema> {
             this.createTableSync();
             this.initializationPromise = this.runMigrationsAsync();
         } catch (error) {
-            // If sync methods fail (e.g., shared connection), initialize everything async
+            // If sync methods fail (e.g., shared connection, or a transaction
+            // opened elsewhere is running), initialize everything async
             if (
-                error instanceof Error &&
-                error.message.includes(
-                    'not supported when using a shared connection'
-                )
+                isTransactionInProgress(error) ||
+                (error instanceof Error &&
+                    error.message.includes(
+                        'not supported when using a shared connection'
+                    ))
             ) {
                 this.initializationPromise = this.initializeTableAsync();
             } else {
@@ -104,6 +206,11 @@ export class Collection<T extends z.ZodSchema> {
                     }
                 }
             }
+            this.createFullTextTableSync();
+            this.createRevisionSupportSync();
+            this.createSoftDeleteSupportSync();
+            this.createHistorySupportSync();
+            this.createTTLSupportSync();
 
             this.isInitialized = true;
         } catch (error) {
@@ -165,6 +272,11 @@ export class Collection<T extends z.ZodSchema> {
                     }
                 }
             }
+            await this.createFullTextTableAsync();
+            await this.createRevisionSupportAsync();
+            await this.createSoftDeleteSupportAsync();
+            await this.createHistorySupportAsync();
+            await this.createTTLSupportAsync();
 
             this.isInitialized = true;
         } catch (error) {
@@ -184,6 +296,205 @@ export class Collection<T extends z.ZodSchema> {
         }
     }
 
+    /**
+     * Create the FTS5 shadow table and its sync triggers for fullText fields.
+     * A missing FTS5 module disables search instead of failing the collection,
+     * the same way vec0 is handled for vector fields.
+     */
+    private createFullTextTableSync(): void {
+        const fields = this.collectionSchema.fullText;
+        if (!fields || fields.length === 0) return;
+
+        const statements = SchemaSQLGenerator.buildFullTextSQL(
+            this.collectionSchema.name,
+            fields,
+            this.collectionSchema.schema
+        );
+        try {
+            for (const statement of statements) {
+                this.driver.execSync(statement);
+            }
+        } catch (error) {
+            this.handleFullTextSetupError(error);
+        }
+    }
+
+    private async createFullTextTableAsync(): Promise<void> {
+        const fields = this.collectionSchema.fullText;
+        if (!fields || fields.length === 0) return;
+
+        const statements = SchemaSQLGenerator.buildFullTextSQL(
+            this.collectionSchema.name,
+            fields,
+            this.collectionSchema.schema
+        );
+        try {
+            for (const statement of statements) {
+                await this.driver.exec(statement);
+            }
+        } catch (error) {
+            this.handleFullTextSetupError(error);
+        }
+    }
+
+    /**
+     * Add the _rev column and its triggers for versioned collections
+     */
+    private createRevisionSupportSync(): void {
+        if (!this.collectionSchema.versioning) return;
+
+        for (const statement of SchemaSQLGenerator.buildRevisionSQL(
+            this.collectionSchema.name,
+            this.hasColumnSync('_rev')
+        )) {
+            this.driver.execSync(statement);
+        }
+    }
+
+    private async createRevisionSupportAsync(): Promise<void> {
+        if (!this.collectionSchema.versioning) return;
+
+        for (const statement of SchemaSQLGenerator.buildRevisionSQL(
+            this.collectionSchema.name,
+            await this.hasColumn('_rev')
+        )) {
+            await this.driver.exec(statement);
+        }
+    }
+
+    /**
+     * Add the _deletedAt column, its index and trigger for soft-delete
+     * collections
+     */
+    private createSoftDeleteSupportSync(): void {
+        if (!this.collectionSchema.softDelete) return;
+
+        for (const statement of SchemaSQLGenerator.buildSoftDeleteSQL(
+            this.collectionSchema.name,
+            this.hasColumnSync('_deletedAt')
+        )) {
+            this.driver.execSync(statement);
+        }
+    }
+
+    private async createSoftDeleteSupportAsync(): Promise<void> {
+        if (!this.collectionSchema.softDelete) return;
+
+        for (const statement of SchemaSQLGenerator.buildSoftDeleteSQL(
+            this.collectionSchema.name,
+            await this.hasColumn('_deletedAt')
+        )) {
+            await this.driver.exec(statement);
+        }
+    }
+
+    /**
+     * Add the history table and its triggers for collections with history
+     */
+    private createHistorySupportSync(): void {
+        if (!this.collectionSchema.history) return;
+
+        const historyTable = SchemaSQLGenerator.getHistoryTableName(
+            this.collectionSchema.name
+        );
+        const tableExists =
+            this.driver.querySync(
+                `SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?`,
+                [historyTable]
+            ).length > 0;
+        for (const statement of SchemaSQLGenerator.buildHistorySQL(
+            this.collectionSchema.name,
+            this.getHistoryOptions(),
+            !!this.collectionSchema.softDelete,
+            tableExists
+        )) {
+            this.driver.execSync(statement);
+        }
+    }
+
+    private async createHistorySupportAsync(): Promise<void> {
+        if (!this.collectionSchema.history) return;
+
+        const historyTable = SchemaSQLGenerator.getHistoryTableName(
+            this.collectionSchema.name
+        );
+        const tableExists =
+            (
+                await this.driver.query(
+                    `SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?`,
+                    [historyTable]
+                )
+            ).length > 0;
+        for (const statement of SchemaSQLGenerator.buildHistorySQL(
+            this.collectionSchema.name,
+            this.getHistoryOptions(),
+            !!this.collectionSchema.softDelete,
+            tableExists
+        )) {
+            await this.driver.exec(statement);
+        }
+    }
+
+    /**
+     * Add the expiry column, index and triggers for ttl collections
+     */
+    private createTTLSupportSync(): void {
+        if (this.collectionSchema.ttl === undefined) return;
+
+        for (const statement of SchemaSQLGenerator.buildTTLSQL(
+            this.collectionSchema.name,
+            this.collectionSchema.ttl,
+            this.hasColumnSync('_expiresAt')
+        )) {
+            this.driver.execSync(statement);
+        }
+    }
+
+    private async createTTLSupportAsync(): Promise<void> {
+        if (this.collectionSchema.ttl === undefined) return;
+
+        for (const statement of SchemaSQLGenerator.buildTTLSQL(
+            this.collectionSchema.name,
+            this.collectionSchema.ttl,
+            await this.hasColumn('_expiresAt')
+        )) {
+            await this.driver.exec(statement);
+        }
+    }
+
+    private getHistoryOptions(): HistoryOptions {
+        const { history } = this.collectionSchema;
+        return typeof history === 'object' ? history : {};
+    }
+
+    private hasColumnSync(column: string): boolean {
+        return this.driver
+            .querySync(`PRAGMA table_info(${this.collectionSchema.name})`)
+            .some((info) => info.name === column);
+    }
+
+    private async hasColumn(column: string): Promise<boolean> {
+        return (
+            await this.driver.query(
+                `PRAGMA table_info(${this.collectionSchema.name})`
+            )
+        ).some((info) => info.name === column);
+    }
+
+    private handleFullTextSetupError(error: unknown): void {
+        if (
+            error instanceof Error &&
+            (error.message.includes('fts5') ||
+                error.message.includes('no such module'))
+        ) {
+            console.warn(
+                `Warning: Full-text table creation failed (FTS5 not available): ${error.message}. Full-text search will be disabled.`
+            );
+        } else {
+            throw error;
+        }
+    }
+
     private async runMigrationsAsync(): Promise<void> {
         try {
             const migrator = new Migrator(this.driver);
@@ -217,7 +528,17 @@ export class Collection<T extends z.ZodSchema> {
         }
     }
 
-    private async ensureInitialized(): Promise<void> {
+    /**
+     * View of this collection that issues its statements through another
+     * driver, e.g. one bound to a transaction
+     * @internal
+     */
+    withDriver(driver: Driver): Collection<T> {
+        return Object.create(this, { driver: { value: driver } });
+    }
+
+    /** @internal Wait for table creation and pending migrations */
+    async ensureInitialized(): Promise<void> {
         if (!this.isInitialized && this.initializationPromise) {
             await this.initializationPromise;
         }
@@ -305,7 +626,7 @@ export class Collection<T extends z.ZodSchema> {
                 _id = this.generateId();
             }
 
-            const fullDoc = { ...doc, _id };
+            const fullDoc = this.stripSystemFields({ ...doc, _id });
             const validatedDoc = this.validateDocument(fullDoc);
 
             // Constraints are now enforced at the SQL level via constrainedFields
@@ -327,15 +648,18 @@ export class Collection<T extends z.ZodSchema> {
                 this.collectionSchema.constrainedFields
             );
             await this.executeVectorQueries(vectorQueries);
+            this.changeFeed.notify(this.collectionSchema.name);
+
+            const [result] = await this.withRevisions([validatedDoc]);
 
             // Execute after hook (now properly awaited)
-            const resultContext = { ...context, result: validatedDoc };
+            const resultContext = { ...context, result };
             await this.pluginManager?.executeHookSafe(
                 'onAfterInsert',
                 resultContext
             );
 
-            return validatedDoc;
+            return result;
         } catch (error) {
             // Execute error hook (now properly awaited)
             const errorContext = { ...context, error: error as Error };
@@ -400,7 +724,7 @@ export class Collection<T extends z.ZodSchema> {
                     _id = this.generateId();
                 }
 
-                const fullDoc = { ...doc, _id };
+                const fullDoc = this.stripSystemFields({ ...doc, _id });
                 const validatedDoc = this.validateDocument(fullDoc);
                 validatedDocs.push(validatedDoc);
 
@@ -442,14 +766,16 @@ export class Collection<T extends z.ZodSchema> {
                 );
                 await this.executeVectorQueries(vectorQueries);
             }
+            this.changeFeed.notify(this.collectionSchema.name);
 
-            const resultContext = { ...context, result: validatedDocs };
+            const result = await this.withRevisions(validatedDocs);
+            const resultContext = { ...context, result };
             await this.pluginManager?.executeHookSafe(
                 'onAfterInsert',
                 resultContext
             );
 
-            return validatedDocs;
+            return result;
         } catch (error) {
             const errorContext = { ...context, error: error as Error };
             await this.pluginManager?.executeHookSafe('onError', errorContext);
@@ -477,15 +803,17 @@ export class Collection<T extends z.ZodSchema> {
 
     async put(
         _id: string,
-        doc: Partial<InferSchema<T>>
+        doc: Partial<InferSchema<T>>,
+        options: WriteOptions = {}
     ): Promise<InferSchema<T>> {
         await this.ensureInitialized();
+        this.assertCanMatch(options.ifMatch);
         const existing = await this.findById(_id);
         if (!existing) {
             throw new NotFoundError('Document not found', _id);
         }
 
-        const updatedDoc = { ...existing, ...doc, _id };
+        const updatedDoc = this.stripSystemFields({ ...existing, ...doc, _id });
         const validatedDoc = this.validateDocument(updatedDoc);
 
         // Plugin hook: before update
@@ -494,18 +822,22 @@ export class Collection<T extends z.ZodSchema> {
             schema: this.collectionSchema,
             operation: 'update',
             data: validatedDoc,
+            ...this.describeUpdate(existing, validatedDoc),
         };
         await this.pluginManager?.executeHookSafe('onBeforeUpdate', context);
 
         // Constraints are now enforced at the SQL level via constrainedFields
-        const { sql, params } = SQLTranslator.buildUpdateQuery(
-            this.collectionSchema.name,
-            validatedDoc,
+        await this.execWithRevision(
+            SQLTranslator.buildUpdateQuery(
+                this.collectionSchema.name,
+                validatedDoc,
+                _id,
+                this.collectionSchema.constrainedFields,
+                this.collectionSchema.schema
+            ),
             _id,
-            this.collectionSchema.constrainedFields,
-            this.collectionSchema.schema
+            options.ifMatch
         );
-        await this.driver.exec(sql, params);
 
         // Handle vector updates
         const vectorQueries = SQLTranslator.buildVectorUpdateQueries(
@@ -515,24 +847,40 @@ export class Collection<T extends z.ZodSchema> {
             this.collectionSchema.constrainedFields
         );
         await this.executeVectorQueries(vectorQueries);
+        this.changeFeed.notify(this.collectionSchema.name);
+
+        const [result] = await this.withRevisions([validatedDoc]);
 
         // Plugin hook: after update
         const resultContext = {
             ...context,
-            result: validatedDoc,
+            result,
+            ...this.describeUpdate(existing, result),
         };
         await this.pluginManager?.executeHookSafe(
             'onAfterUpdate',
             resultContext
         );
 
-        return validatedDoc;
+        return result;
     }
 
+    /**
+     * Update several documents in one transaction. Items may carry an
+     * ifMatch revision; if any of them is stale nothing is written and a
+     * ConflictError lists every conflicting item.
+     */
     async putBulk(
-        updates: { _id: string; doc: Partial<InferSchema<T>> }[]
+        updates: {
+            _id: string;
+            doc: Partial<InferSchema<T>>;
+            ifMatch?: number;
+        }[]
     ): Promise<InferSchema<T>[]> {
         if (updates.length === 0) return [];
+        for (const update of updates) {
+            this.assertCanMatch(update.ifMatch);
+        }
 
         const context = {
             collectionName: this.collectionSchema.name,
@@ -553,11 +901,11 @@ export class Collection<T extends z.ZodSchema> {
                     throw new NotFoundError('Document not found', update._id);
                 }
 
-                const updatedDoc = {
+                const updatedDoc = this.stripSystemFields({
                     ...existing,
                     ...update.doc,
                     _id: update._id,
-                };
+                });
                 const validatedDoc = this.validateDocument(updatedDoc);
                 validatedDocs.push(validatedDoc);
 
@@ -571,24 +919,22 @@ export class Collection<T extends z.ZodSchema> {
                 sqlStatements.push({ sql, params });
             }
 
-            await this.driver.exec('BEGIN TRANSACTION', []);
-            try {
+            await this.driver.transaction(async () => {
+                await this.checkRevisions(updates);
                 for (const statement of sqlStatements) {
                     await this.driver.exec(statement.sql, statement.params);
                 }
-                await this.driver.exec('COMMIT', []);
-            } catch (error) {
-                await this.driver.exec('ROLLBACK', []);
-                throw error;
-            }
+            });
+            this.changeFeed.notify(this.collectionSchema.name);
 
-            const resultContext = { ...context, result: validatedDocs };
+            const result = await this.withRevisions(validatedDocs);
+            const resultContext = { ...context, result };
             await this.pluginManager?.executeHookSafe(
                 'onAfterUpdate',
                 resultContext
             );
 
-            return validatedDocs;
+            return result;
         } catch (error) {
             const errorContext = { ...context, error: error as Error };
             await this.pluginManager?.executeHookSafe('onError', errorContext);
@@ -614,99 +960,1142 @@ export class Collection<T extends z.ZodSchema> {
         }
     }
 
-    async delete(_id: string): Promise<boolean> {
-        // Plugin hook: before delete
+    /**
+     * Apply MongoDB-style update operators to a single document.
+     * $set/$unset/$inc/$mul are compiled to json_set/json_remove so numeric
+     * changes are atomic; other operators fall back to a full rewrite. The
+     * result is always validated against the schema before it is stored.
+     */
+    async update(
+        _id: string,
+        ops: UpdateOperators<InferSchema<T>>,
+        options: WriteOptions = {}
+    ): Promise<InferSchema<T>> {
+        await this.ensureInitialized();
+        validateUpdateOperators(ops);
+        this.assertCanMatch(options.ifMatch);
+
+        // Work from the stored JSON so the compiled SQL and the validated
+        // document start from the same state
+        const rows = await this.driver.query(
+            `SELECT doc FROM ${this.collectionSchema.name} WHERE _id = ?${this.liveRows('AND')}`,
+            [_id]
+        );
+        if (rows.length === 0) {
+            throw new NotFoundError('Document not found', _id);
+        }
+        const stored = parseDoc(rows[0].doc);
+        const existing = this.stripSystemFields(stored);
+
+        const appliedDoc = applyUpdateOperators(existing, ops);
+        const validatedDoc = this.validateDocument({ ...appliedDoc, _id });
+
+        // Plugin hook: before update
         const context = {
             collectionName: this.collectionSchema.name,
             schema: this.collectionSchema,
-            operation: 'delete',
-            data: { _id },
+            operation: 'update',
+            data: validatedDoc,
+            ...this.describeUpdate(stored, validatedDoc),
         };
-        await this.pluginManager?.executeHookSafe('onBeforeDelete', context);
+        await this.pluginManager?.executeHookSafe('onBeforeUpdate', context);
 
-        const { sql, params } = SQLTranslator.buildDeleteQuery(
-            this.collectionSchema.name,
-            _id
-        );
-        await this.driver.exec(sql, params);
+        // Schema defaults or plugins may have changed more than the operators
+        // touched; only compile in place when the result is exactly theirs
+        const compilable =
+            canCompileUpdateOperators(existing, ops) &&
+            valuesEqual(validatedDoc, { ...appliedDoc, _id });
 
-        // Handle vector deletions
-        const vectorQueries = SQLTranslator.buildVectorDeleteQueries(
-            this.collectionSchema.name,
-            _id,
-            this.collectionSchema.constrainedFields
+        let result: InferSchema<T> = validatedDoc;
+        if (compilable) {
+            const { sql, params } = SQLTranslator.buildOperatorUpdateQuery(
+                this.collectionSchema.name,
+                ops,
+                _id,
+                this.collectionSchema.constrainedFields,
+                this.collectionSchema.schema,
+                validatedDoc
+            );
+            await this.execWithRevision({ sql, params }, _id, options.ifMatch);
+
+            // Re-read so concurrent $inc/$mul are reflected in the result
+            const updatedRows = await this.driver.query(
+                `SELECT doc FROM ${this.collectionSchema.name} WHERE _id = ?`,
+                [_id]
+            );
+            if (updatedRows.length > 0) {
+                result = parseDoc(updatedRows[0].doc);
+            }
+        } else {
+            await this.execWithRevision(
+                SQLTranslator.buildUpdateQuery(
+                    this.collectionSchema.name,
+                    validatedDoc,
+                    _id,
+                    this.collectionSchema.constrainedFields,
+                    this.collectionSchema.schema
+                ),
+                _id,
+                options.ifMatch
+            );
+            [result] = await this.withRevisions([validatedDoc]);
+        }
+
+        // Only touch vec0 tables when a vector field was updated
+        const vectorFields = SchemaSQLGenerator.getVectorFields(
+            this.collectionSchema.constrainedFields || {}
         );
-        await this.executeVectorQueries(vectorQueries);
+        const updatedPaths = getUpdatedPaths(ops);
+        const touchesVectors = Object.keys(vectorFields).some((fieldPath) =>
+            updatedPaths.some((path) => pathsOverlap(path, fieldPath))
+        );
+        if (touchesVectors) {
+            const vectorQueries = SQLTranslator.buildVectorUpdateQueries(
+                this.collectionSchema.name,
+                result,
+                _id,
+                this.collectionSchema.constrainedFields
+            );
+            await this.executeVectorQueries(vectorQueries);
+        }
+        this.changeFeed.notify(this.collectionSchema.name);
 
-        // Plugin hook: after delete
+        // Plugin hook: after update
         const resultContext = {
             ...context,
-            result: { _id, deleted: true },
+            result,
+            ...this.describeUpdate(stored, result),
         };
         await this.pluginManager?.executeHookSafe(
-            'onAfterDelete',
+            'onAfterUpdate',
             resultContext
         );
 
-        return true;
+        return result;
     }
 
-    async deleteBulk(ids: string[]): Promise<number> {
-        let count = 0;
-        for (const _id of ids) {
-            if (await this.delete(_id)) count++;
-        }
-        return count;
-    }
-    async upsert(
+    /**
+     * Apply an RFC 6902 JSON Patch to a single document. The document is
+     * read, patched, validated and written in one transaction; if any
+     * operation fails (including `test`) nothing is written.
+     */
+    async applyPatch(
         _id: string,
-        doc: Omit<InferSchema<T>, '_id'>
+        patch: JsonPatchOperation[],
+        options: WriteOptions = {}
     ): Promise<InferSchema<T>> {
-        // Use the optimized SQL-level upsert for best performance
-        return this.upsertOptimized(_id, doc);
-    }
+        await this.ensureInitialized();
+        validateJsonPatch(patch);
+        this.assertCanMatch(options.ifMatch);
+
+        let context!: PluginContext;
+        const result = await this.driver.transaction(async () => {
+            const existing = await this.findById(_id);
+            if (!existing) {
+                throw new NotFoundError('Document not found', _id);
+            }
 
-    // Add an even more optimized version using SQL UPSERT
-    async upsertOptimized(
-        _id: string,
-        doc: Omit<InferSchema<T>, '_id'>
-    ): Promise<InferSchema<T>> {
-        const fullDoc = { ...doc, _id };
-        const validatedDoc = this.validateDocument(fullDoc);
+            const patched: any = applyJsonPatch(
+                this.stripSystemFields(existing),
+                patch
+            );
+            if (patched?._id !== _id) {
+                throw new ValidationError('JSON Patch cannot change _id');
+            }
+            const validatedDoc = this.validateDocument(
+                this.stripSystemFields(patched)
+            );
 
-        // For maximum performance, use SQL-level UPSERT (INSERT OR REPLACE)
-        // This eliminates the need for existence checks entirely
-        try {
-            // Constraints are now enforced at the SQL level via constrainedFields
+            // Plugin hook: before update
+            context = {
+                collectionName: this.collectionSchema.name,
+                schema: this.collectionSchema,
+                operation: 'patch',
+                data: validatedDoc,
+                ...this.describeUpdate(existing, validatedDoc),
+            };
+            await this.pluginManager?.executeHookSafe(
+                'onBeforeUpdate',
+                context
+            );
 
-            // Use INSERT OR REPLACE for atomic upsert
-            if (
-                !this.collectionSchema.constrainedFields ||
-                Object.keys(this.collectionSchema.constrainedFields).length ===
-                    0
-            ) {
-                // Original behavior for collections without constrained fields
-                const sql = `INSERT OR REPLACE INTO ${this.collectionSchema.name} (_id, doc) VALUES (?, ?)`;
-                const params = [_id, JSON.stringify(validatedDoc)];
-                await this.driver.exec(sql, params);
-            } else {
-                // Build upsert with constrained field columns
-                const { sql, params } = SQLTranslator.buildInsertQuery(
+            await this.execWithRevision(
+                SQLTranslator.buildUpdateQuery(
                     this.collectionSchema.name,
                     validatedDoc,
                     _id,
                     this.collectionSchema.constrainedFields,
                     this.collectionSchema.schema
+                ),
+                _id,
+                options.ifMatch
+            );
+            await this.executeVectorQueries(
+                SQLTranslator.buildVectorUpdateQueries(
+                    this.collectionSchema.name,
+                    validatedDoc,
+                    _id,
+                    this.collectionSchema.constrainedFields
+                )
+            );
+
+            const [written] = await this.withRevisions([validatedDoc]);
+            return written;
+        });
+        this.changeFeed.notify(this.collectionSchema.name);
+
+        // Plugin hook: after update
+        await this.pluginManager?.executeHookSafe('onAfterUpdate', {
+            ...context,
+            result,
+            ...this.describeUpdate(context.previous, result),
+        });
+
+        return result;
+    }
+
+    /**
+     * Apply update operators to every document matched by a query.
+     * $set/$unset/$inc/$mul run as one UPDATE ... WHERE statement; other
+     * operators are applied per document. Either way the updated documents
+     * are validated against the schema and the whole change rolls back if
+     * any of them fails. Returns the number of updated documents.
+     */
+    async updateMany(
+        query: QueryBuilder<InferSchema<T>>,
+        update: UpdateOperators<InferSchema<T>> | Partial<InferSchema<T>>
+    ): Promise<number> {
+        await this.ensureInitialized();
+        const ops = normalizeUpdateOperators(update);
+        validateUpdateOperators(ops);
+
+        const tableName = this.collectionSchema.name;
+        const constrainedFields = this.collectionSchema.constrainedFields;
+        const options = await this.getMutationOptions(query, 'update');
+        const { whereClause, whereParams } =
+            SQLTranslator.buildMutationWhereClause(
+                tableName,
+                options,
+                constrainedFields
+            );
+
+        const updatedPaths = getUpdatedPaths(ops);
+        const touchesVectors = Object.keys(
+            SchemaSQLGenerator.getVectorFields(constrainedFields || {})
+        ).some((fieldPath) =>
+            updatedPaths.some((path) => pathsOverlap(path, fieldPath))
+        );
+        const compilable =
+            !touchesVectors &&
+            canCompileBulkUpdateOperators(
+                ops,
+                Object.keys(constrainedFields || {})
+            );
+
+        const context = {
+            collectionName: tableName,
+            schema: this.collectionSchema,
+            operation: 'updateMany',
+            data: { ids: [] as string[], ops },
+        };
+
+        await this.changeFeed.batch(() =>
+            this.driver.transaction(async () => {
+                const rows = await this.driver.query(
+                    `SELECT _id FROM ${tableName}${whereClause}`,
+                    whereParams
                 );
-                // Convert INSERT to INSERT OR REPLACE
-                const upsertSQL = sql.replace(
-                    'INSERT INTO',
-                    'INSERT OR REPLACE INTO'
+                context.data.ids = rows.map((row) => row._id);
+                if (context.data.ids.length === 0) return;
+
+                await this.pluginManager?.executeHookSafe(
+                    'onBeforeUpdate',
+                    context
                 );
-                await this.driver.exec(upsertSQL, params);
-            }
 
-            return validatedDoc;
+                if (compilable) {
+                    const { sql, params } =
+                        SQLTranslator.buildOperatorUpdateWhereQuery(
+                            tableName,
+                            ops,
+                            options,
+                            constrainedFields,
+                            this.collectionSchema.schema
+                        );
+                    await this.driver.exec(sql, params);
+
+                    // Validate what was written; throwing rolls it back
+                    for (const doc of await this.findStoredDocs(
+                        context.data.ids
+                    )) {
+                        this.validateDocument(doc);
+                    }
+                    return;
+                }
+
+                for (const existing of await this.findStoredDocs(
+                    context.data.ids
+                )) {
+                    const _id = existing._id;
+                    const validatedDoc = this.validateDocument({
+                        ...applyUpdateOperators(existing, ops),
+                        _id,
+                    });
+                    const { sql, params } = SQLTranslator.buildUpdateQuery(
+                        tableName,
+                        validatedDoc,
+                        _id,
+                        constrainedFields,
+                        this.collectionSchema.schema
+                    );
+                    await this.driver.exec(sql, params);
+
+                    if (touchesVectors) {
+                        await this.executeVectorQueries(
+                            SQLTranslator.buildVectorUpdateQueries(
+                                tableName,
+                                validatedDoc,
+                                _id,
+                                constrainedFields
+                            )
+                        );
+                    }
+                }
+            })
+        );
+
+        if (context.data.ids.length > 0) {
+            this.changeFeed.notify(tableName);
+        }
+
+        if (context.data.ids.length > 0) {
+            await this.pluginManager?.executeHookSafe('onAfterUpdate', {
+                ...context,
+                result: context.data.ids.length,
+            });
+        }
+
+        return context.data.ids.length;
+    }
+
+    /**
+     * Delete every document matched by a query with one DELETE ... WHERE
+     * statement, or stamp _deletedAt on them for soft-delete collections.
+     * Returns the number of deleted documents.
+     */
+    async deleteMany(query: QueryBuilder<InferSchema<T>>): Promise<number> {
+        await this.ensureInitialized();
+        return this.deleteWhere(
+            await this.getMutationOptions(query, 'delete'),
+            'deleteMany',
+            !this.collectionSchema.softDelete
+        );
+    }
+
+    /**
+     * Restore a soft-deleted document. Throws NotFoundError unless a
+     * deleted document with this _id exists.
+     */
+    async restore(_id: string): Promise<InferSchema<T>> {
+        await this.ensureInitialized();
+        this.assertSoftDelete('restore()');
+
+        const context = {
+            collectionName: this.collectionSchema.name,
+            schema: this.collectionSchema,
+            operation: 'restore',
+            data: { _id },
+        };
+        await this.pluginManager?.executeHookSafe('onBeforeUpdate', context);
+
+        const { sql, params } = SQLTranslator.buildRestoreQuery(
+            this.collectionSchema.name,
+            _id
+        );
+        const rows = await this.driver.query(`${sql} RETURNING _id`, params);
+        if (rows.length === 0) {
+            throw new NotFoundError('Deleted document not found', _id);
+        }
+        const result = (await this.findById(_id))!;
+        this.changeFeed.notify(this.collectionSchema.name);
+
+        await this.pluginManager?.executeHookSafe('onAfterUpdate', {
+            ...context,
+            result,
+        });
+        return result;
+    }
+
+    /**
+     * Permanently remove soft-deleted documents, optionally only those
+     * deleted before `olderThan` (a Date, or an age in milliseconds).
+     * Returns the number of purged documents.
+     */
+    async purgeDeleted(options: PurgeDeletedOptions = {}): Promise<number> {
+        await this.ensureInitialized();
+        this.assertSoftDelete('purgeDeleted()');
+
+        const { olderThan } = options;
+        if (
+            olderThan !== undefined &&
+            !(olderThan instanceof Date
+                ? !isNaN(olderThan.getTime())
+                : Number.isFinite(olderThan) && olderThan >= 0)
+        ) {
+            throw new ValidationError(
+                'olderThan must be a valid Date or a non-negative number of milliseconds'
+            );
+        }
+        const cutoff =
+            olderThan === undefined
+                ? undefined
+                : olderThan instanceof Date
+                ? olderThan
+                : new Date(Date.now() - olderThan);
+
+        return this.deleteWhere(
+            {
+                // _deletedAt is mirrored into the document, so it filters like any field
+                filters: cutoff
+                    ? [
+                          {
+                              field: '_deletedAt',
+                              operator: 'lt',
+                              value: cutoff.toISOString(),
+                          },
+                      ]
+                    : [],
+                deleted: 'only',
+            },
+            'purgeDeleted',
+            true
+        );
+    }
+
+    /**
+     * Permanently delete expired documents, `batchSize` rows per statement,
+     * firing delete hooks with operation 'expire'. The database's ttl
+     * sweeper calls this periodically. Returns the number deleted.
+     */
+    async sweepExpired(batchSize = 500): Promise<number> {
+        await this.ensureInitialized();
+        const expiry = this.getExpiry();
+        if (!expiry) {
+            throw new ValidationError(
+                `sweepExpired() requires ttl on collection '${this.collectionSchema.name}'`
+            );
+        }
+        if (!(Number.isInteger(batchSize) && batchSize > 0)) {
+            throw new ValidationError('batchSize must be a positive integer');
+        }
+
+        let total = 0;
+        for (;;) {
+            const deleted = await this.deleteWhere(
+                {
+                    filters: [],
+                    expiry: { ...expiry, only: true },
+                    limit: batchSize,
+                },
+                'expire',
+                true
+            );
+            total += deleted;
+            if (deleted < batchSize) return total;
+        }
+    }
+
+    /**
+     * Every recorded entry for a document, oldest first
+     */
+    async history(_id: string): Promise<HistoryEntry<InferSchema<T>>[]> {
+        await this.ensureInitialized();
+        this.assertHistory('history()');
+
+        const rows = await this.driver.query(
+            `SELECT revision, operation, timestamp, actor, doc FROM ${SchemaSQLGenerator.getHistoryTableName(
+                this.collectionSchema.name
+            )} WHERE _id = ? ORDER BY _hid`,
+            [_id]
+        );
+        return rows.map((row) => {
+            const entry: HistoryEntry<InferSchema<T>> = {
+                revision: row.revision,
+                operation: row.operation,
+                timestamp: new Date(row.timestamp),
+                doc: parseDoc(row.doc),
+            };
+            if (row.actor !== null && row.actor !== undefined) {
+                entry.actor = row.actor;
+            }
+            return entry;
+        });
+    }
+
+    /**
+     * The document as it was at `at`, or null if it did not exist (or was
+     * deleted) then. Only as far back as history retention allows.
+     */
+    async findByIdAt(_id: string, at: Date): Promise<InferSchema<T> | null> {
+        await this.ensureInitialized();
+        this.assertHistory('findByIdAt()');
+        if (!(at instanceof Date) || isNaN(at.getTime())) {
+            throw new ValidationError('findByIdAt() requires a valid Date');
+        }
+
+        const rows = await this.driver.query(
+            `SELECT operation, doc FROM ${SchemaSQLGenerator.getHistoryTableName(
+                this.collectionSchema.name
+            )} WHERE _id = ? AND timestamp <= ? ORDER BY _hid DESC LIMIT 1`,
+            [_id, at.toISOString()]
+        );
+        if (
+            rows.length === 0 ||
+            rows[0].operation === 'delete' ||
+            rows[0].operation === 'purge'
+        ) {
+            return null;
+        }
+        return parseDoc(rows[0].doc);
+    }
+
+    /**
+     * Replace a document with its content at `toRevision`. The revert is a
+     * new write with its own revision; deleted documents are brought back.
+     */
+    async revert(_id: string, toRevision: number): Promise<InferSchema<T>> {
+        await this.ensureInitialized();
+        this.assertHistory('revert()');
+
+        const rows = await this.driver.query(
+            `SELECT operation, doc FROM ${SchemaSQLGenerator.getHistoryTableName(
+                this.collectionSchema.name
+            )} WHERE _id = ? AND revision = ? ORDER BY _hid DESC LIMIT 1`,
+            [_id, toRevision]
+        );
+        if (rows.length === 0) {
+            throw new NotFoundError(
+                `Revision ${toRevision} not found in history`,
+                _id
+            );
+        }
+        if (rows[0].operation === 'delete' || rows[0].operation === 'purge') {
+            throw new ValidationError(
+                `Revision ${toRevision} of '${_id}' is a deletion and cannot be reverted to`
+            );
+        }
+
+        const { _id: _, ...snapshot } = parseDoc(rows[0].doc);
+        return this.upsert(_id, snapshot);
+    }
+
+    /**
+     * View of this collection whose async writes record `actor` in history.
+     * Each write runs in a transaction holding the actor for its triggers.
+     */
+    withActor(actor: string): Collection<T> {
+        this.assertHistory('withActor()');
+
+        const view: Collection<T> = Object.create(this);
+        for (const method of ACTOR_WRITE_METHODS) {
+            const write = this[method] as (...args: any[]) => Promise<any>;
+            (view as any)[method] = (...args: any[]) =>
+                this.driver.transaction(async () => {
+                    const [{ rowid }] = await this.driver.query(
+                        `INSERT INTO ${SchemaSQLGenerator.HISTORY_ACTOR_TABLE} (actor) VALUES (?) RETURNING rowid`,
+                        [actor]
+                    );
+                    try {
+                        return await write.apply(view, args);
+                    } finally {
+                        await this.driver.exec(
+                            `DELETE FROM ${SchemaSQLGenerator.HISTORY_ACTOR_TABLE} WHERE rowid = ?`,
+                            [rowid]
+                        );
+                    }
+                });
+        }
+        return view;
+    }
+
+    /**
+     * Delete the rows matched by mutation options in one transaction, either
+     * permanently (with their vec0 rows) or by stamping _deletedAt
+     */
+    private async deleteWhere(
+        options: QueryOptions,
+        operation: string,
+        permanent: boolean
+    ): Promise<number> {
+        const tableName = this.collectionSchema.name;
+        const constrainedFields = this.collectionSchema.constrainedFields;
+        const { whereClause, whereParams } =
+            SQLTranslator.buildMutationWhereClause(
+                tableName,
+                options,
+                constrainedFields
+            );
+
+        const context = {
+            collectionName: tableName,
+            schema: this.collectionSchema,
+            operation,
+            data: { ids: [] as string[] },
+        };
+
+        await this.driver.transaction(async () => {
+            const rows = await this.driver.query(
+                `SELECT _id FROM ${tableName}${whereClause}`,
+                whereParams
+            );
+            context.data.ids = rows.map((row) => row._id);
+            if (context.data.ids.length === 0) return;
+
+            await this.pluginManager?.executeHookSafe(
+                'onBeforeDelete',
+                context
+            );
+
+            if (!permanent) {
+                const { sql, params } = SQLTranslator.buildSoftDeleteWhereQuery(
+                    tableName,
+                    options,
+                    new Date().toISOString(),
+                    constrainedFields
+                );
+                await this.driver.exec(sql, params);
+                return;
+            }
+
+            // Vector rows are keyed by rowid, so remove them first
+            await this.executeVectorQueries(
+                SQLTranslator.buildVectorDeleteWhereQueries(
+                    tableName,
+                    options,
+                    constrainedFields
+                )
+            );
+            const { sql, params } = SQLTranslator.buildDeleteWhereQuery(
+                tableName,
+                options,
+                constrainedFields
+            );
+            await this.driver.exec(sql, params);
+        });
+
+        if (context.data.ids.length === 0) return 0;
+
+        this.changeFeed.notify(tableName);
+        await this.pluginManager?.executeHookSafe('onAfterDelete', {
+            ...context,
+            result: { ids: context.data.ids, deleted: context.data.ids.length },
+        });
+
+        return context.data.ids.length;
+    }
+
+    /**
+     * Query options for a query-based UPDATE/DELETE; rejects shapes that do
+     * not map onto rows of this collection
+     */
+    private async getMutationOptions(
+        query: QueryBuilder<InferSchema<T>>,
+        operation: 'update' | 'delete'
+    ): Promise<QueryOptions> {
+        const options = query.getOptions();
+        if (
+            (options.aggregates && options.aggregates.length > 0) ||
+            (options.joins && options.joins.length > 0) ||
+            (options.selectFields && options.selectFields.length > 0) ||
+            (options.selectExpressions && options.selectExpressions.length > 0) ||
+            (options.groupBy && options.groupBy.length > 0)
+        ) {
+            throw new ValidationError(
+                `${operation}() only supports queries without aggregates, joins, groupBy or select`
+            );
+        }
+        return this.scopeQueryAsync(options);
+    }
+
+    /**
+     * Regex and collated filters run in JS when the driver has no SQL
+     * functions: each is evaluated against the field's distinct stored
+     * strings, and the SQL keeps the rows holding a match. Collated sort
+     * keys become ranks among the stored strings the same way.
+     */
+    private resolveStringOperators(options: QueryOptions): QueryOptions {
+        const { name, constrainedFields } = this.collectionSchema;
+        const storedStrings = (field: string): string[] => {
+            if (options.joins && options.joins.length > 0) {
+                throw new ValidationError(
+                    'Regex and collated filters are not supported in join queries on this driver'
+                );
+            }
+            const column = SQLTranslator.qualifyFieldAccess(
+                field,
+                name,
+                constrainedFields
+            );
+            return this.driver
+                .querySync(
+                    `SELECT DISTINCT ${column} AS value FROM ${name} WHERE typeof(${column}) = 'text'`
+                )
+                .map((row) => row.value as string);
+        };
+        const resolve = (
+            filters: (QueryFilter | QueryGroup | SubqueryFilter)[]
+        ): (QueryFilter | QueryGroup | SubqueryFilter)[] =>
+            filters.map((filter) => {
+                if ('type' in filter) {
+                    return { ...filter, filters: resolve(filter.filters) };
+                }
+                if ('subquery' in filter || filter.operator === 'elem_match') {
+                    const nested =
+                        'subquery' in filter
+                            ? filter.subquery.filters
+                            : filter.value;
+                    if (hasStringFilter(nested)) {
+                        throw new ValidationError(
+                            'Regex and collated filters inside subqueries and elemMatch() need a driver with SQL functions (better-sqlite3)'
+                        );
+                    }
+                    return filter;
+                }
+                if (!needsStringFunctions(filter)) return filter;
+                return {
+                    ...filter,
+                    resolvedMatches: storedStrings(filter.field).filter(
+                        (value) => matchesStringFilter(filter, value)
+                    ),
+                };
+            });
+        return {
+            ...options,
+            filters: resolve(options.filters),
+            orderBy: options.orderBy?.map((order) => {
+                if (
+                    order.collation === undefined ||
+                    getOutputAliases(options).has(order.field)
+                ) {
+                    return order;
+                }
+                const groups = new Map<string, string[]>();
+                for (const value of storedStrings(order.field)) {
+                    const key = foldString(value, order.collation);
+                    groups.set(key, [...(groups.get(key) ?? []), value]);
+                }
+                return {
+                    ...order,
+                    resolvedOrder: [...groups.keys()]
+                        .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+                        .map((key) => groups.get(key)!),
+                };
+            }),
+        };
+    }
+
+    /**
+     * ilike compares Unicode case-folded strings instead of ASCII-only
+     * UPPER(): as a nocase like, run by the fold function or, without it, by
+     * the stored-strings fallback. That fallback cannot reach elemMatch(),
+     * so `inElements` is false there and those filters keep UPPER().
+     */
+    private foldIlikeFilters(
+        filters: (QueryFilter | QueryGroup | SubqueryFilter)[],
+        inElements = true
+    ): (QueryFilter | QueryGroup | SubqueryFilter)[] {
+        return filters.map((filter) => {
+            if ('type' in filter) {
+                return {
+                    ...filter,
+                    filters: this.foldIlikeFilters(filter.filters, inElements),
+                };
+            }
+            if ('subquery' in filter) return filter;
+            if (filter.operator === 'elem_match') {
+                return inElements
+                    ? { ...filter, value: this.foldIlikeFilters(filter.value) }
+                    : filter;
+            }
+            return filter.operator === 'ilike' && !hasFilterExpression(filter)
+                ? { ...filter, operator: 'like', collation: 'nocase' }
+                : filter;
+        });
+    }
+
+    /**
+     * Stored documents for a list of ids, read in chunks to stay below
+     * SQLite's bound parameter limit
+     */
+    private async findStoredDocs(ids: string[]): Promise<any[]> {
+        const docs: any[] = [];
+        for (let i = 0; i < ids.length; i += 500) {
+            const chunk = ids.slice(i, i + 500);
+            const rows = await this.driver.query(
+                `SELECT doc FROM ${this.collectionSchema.name} WHERE _id IN (${chunk
+                    .map(() => '?')
+                    .join(', ')})`,
+                chunk
+            );
+            docs.push(...rows.map((row) => parseDoc(row.doc)));
+        }
+        return docs;
+    }
+
+    private assertHistory(method: string): void {
+        if (!this.collectionSchema.history) {
+            throw new ValidationError(
+                `${method} requires history enabled on collection '${this.collectionSchema.name}'`
+            );
+        }
+    }
+
+    private assertSoftDelete(method: string): void {
+        if (!this.collectionSchema.softDelete) {
+            throw new ValidationError(
+                `${method} requires softDelete: true on collection '${this.collectionSchema.name}'`
+            );
+        }
+    }
+
+    /**
+     * Query options with the collection's read scope resolved: deleted rows
+     * stay hidden unless the query asked for them, expired rows always do
+     */
+    private scopeQuery(options: QueryOptions): QueryOptions {
+        if (usesStringOperators(options)) {
+            if (this.hasStringFunctions()) {
+                options = {
+                    ...options,
+                    filters: this.foldIlikeFilters(options.filters),
+                };
+            } else {
+                // The fallback reads stored strings of this table only
+                const joined = !!options.joins && options.joins.length > 0;
+                options = this.resolveStringOperators(
+                    joined
+                        ? options
+                        : {
+                              ...options,
+                              filters: this.foldIlikeFilters(
+                                  options.filters,
+                                  false
+                              ),
+                          }
+                );
+            }
+        }
+        const expiry = this.getExpiry();
+        if (!this.collectionSchema.softDelete) {
+            if (options.deleted === 'only') {
+                this.assertSoftDelete('onlyDeleted()');
+            }
+            return options.deleted || expiry
+                ? { ...options, deleted: undefined, expiry }
+                : options;
+        }
+        return { ...options, deleted: options.deleted || 'exclude', expiry };
+    }
+
+    /**
+     * scopeQuery for async reads: the string operator lookups are sync, so
+     * they wait out a transaction opened elsewhere instead of failing
+     */
+    private async scopeQueryAsync(
+        options: QueryOptions
+    ): Promise<QueryOptions> {
+        for (;;) {
+            try {
+                return this.scopeQuery(options);
+            } catch (error) {
+                if (!isTransactionInProgress(error)) throw error;
+                // query() resolves once the open transaction has finished
+                await this.driver.query('SELECT 1');
+            }
+        }
+    }
+
+    private getExpiry(): QueryOptions['expiry'] {
+        const { ttl } = this.collectionSchema;
+        return ttl === undefined
+            ? undefined
+            : { column: SchemaSQLGenerator.getTTLColumn(ttl) };
+    }
+
+    /**
+     * Columns an upsert clears so replacing a soft-deleted document revives it
+     */
+    private softDeleteColumns(): string[] {
+        return this.collectionSchema.softDelete ? ['_deletedAt'] : [];
+    }
+
+    /**
+     * SQL fragment hiding soft-deleted and expired rows from a hand-written
+     * query
+     */
+    private liveRows(keyword: 'WHERE' | 'AND'): string {
+        const conditions = SQLTranslator.buildScopeConditions(
+            this.collectionSchema.name,
+            this.scopeQuery({ filters: [] })
+        );
+        return conditions.length > 0
+            ? ` ${keyword} ${conditions.join(' AND ')}`
+            : '';
+    }
+
+    private assertCanMatch(ifMatch: number | undefined): void {
+        if (ifMatch !== undefined && !this.collectionSchema.versioning) {
+            throw new ValidationError(
+                `ifMatch requires versioning: true on collection '${this.collectionSchema.name}'`
+            );
+        }
+    }
+
+    /**
+     * Stored revisions by _id; ids without a document are absent
+     */
+    private async getRevisions(ids: string[]): Promise<Map<string, number>> {
+        const revisions = new Map<string, number>();
+        for (let i = 0; i < ids.length; i += 500) {
+            const chunk = ids.slice(i, i + 500);
+            const rows = await this.driver.query(
+                `SELECT _id, _rev FROM ${this.collectionSchema.name} WHERE _id IN (${chunk
+                    .map(() => '?')
+                    .join(', ')})`,
+                chunk
+            );
+            for (const row of rows) {
+                revisions.set(row._id, row._rev);
+            }
+        }
+        return revisions;
+    }
+
+    /**
+     * Throw a ConflictError listing every item whose ifMatch differs from
+     * the stored revision
+     */
+    private async checkRevisions(
+        items: { _id: string; ifMatch?: number }[]
+    ): Promise<void> {
+        const expected = items.filter((item) => item.ifMatch !== undefined);
+        if (expected.length === 0) return;
+
+        const revisions = await this.getRevisions(
+            expected.map((item) => item._id)
+        );
+        const conflicts: RevisionConflict[] = [];
+        for (const item of expected) {
+            const actual = revisions.get(item._id) ?? null;
+            if (actual !== item.ifMatch) {
+                conflicts.push({
+                    _id: item._id,
+                    expected: item.ifMatch!,
+                    actual,
+                });
+            }
+        }
+        if (conflicts.length > 0) {
+            throw new ConflictError(
+                conflicts.length === 1
+                    ? `Revision conflict on document '${conflicts[0]._id}': expected ${conflicts[0].expected}, found ${conflicts[0].actual}`
+                    : `Revision conflicts on ${conflicts.length} documents`,
+                conflicts
+            );
+        }
+    }
+
+    /**
+     * Run a single-document UPDATE/DELETE ending in `WHERE _id = ?`, guarded
+     * by the expected revision when ifMatch is given
+     */
+    private async execWithRevision(
+        query: { sql: string; params: any[] },
+        _id: string,
+        ifMatch?: number
+    ): Promise<void> {
+        if (ifMatch === undefined) {
+            await this.driver.exec(query.sql, query.params);
+            return;
+        }
+        const rows = await this.driver.query(
+            `${query.sql} AND _rev = ? RETURNING _id`,
+            [...query.params, ifMatch]
+        );
+        if (rows.length === 0) {
+            // Changed since it was read; report the revision that won
+            await this.checkRevisions([{ _id, ifMatch }]);
+        }
+    }
+
+    /**
+     * Hook context fields describing a single-document update: the stored
+     * document and the patch from it to `next`, ignoring system fields
+     */
+    private describeUpdate(
+        previous: InferSchema<T>,
+        next: InferSchema<T>
+    ): Pick<PluginContext, 'previous' | 'patch' | 'changedFields'> {
+        const patch = diffDocuments(
+            this.stripSystemFields(previous),
+            this.stripSystemFields(next)
+        );
+        return { previous, patch, changedFields: getPatchedFields(patch) };
+    }
+
+    /**
+     * Drop client-supplied _rev and _deletedAt; their columns and triggers
+     * own the stored values
+     */
+    private stripSystemFields<D extends Record<string, any>>(doc: D): D {
+        const { versioning, softDelete } = this.collectionSchema;
+        if (
+            !(versioning && '_rev' in doc) &&
+            !(softDelete && '_deletedAt' in doc)
+        ) {
+            return doc;
+        }
+        const rest: Record<string, any> = { ...doc };
+        if (versioning) delete rest._rev;
+        if (softDelete) delete rest._deletedAt;
+        return rest as D;
+    }
+
+    /**
+     * Attach the stored revision to documents returned from writes
+     */
+    private async withRevisions<D extends { _id?: any }>(
+        docs: D[]
+    ): Promise<D[]> {
+        if (!this.collectionSchema.versioning) return docs;
+        const revisions = await this.getRevisions(
+            docs.map((doc) => doc._id)
+        );
+        return docs.map((doc) => ({ ...doc, _rev: revisions.get(doc._id) }));
+    }
+
+    async delete(_id: string, options: WriteOptions = {}): Promise<boolean> {
+        this.assertCanMatch(options.ifMatch);
+
+        // Plugin hook: before delete
+        const context = {
+            collectionName: this.collectionSchema.name,
+            schema: this.collectionSchema,
+            operation: 'delete',
+            data: { _id },
+        };
+        await this.pluginManager?.executeHookSafe('onBeforeDelete', context);
+
+        if (this.collectionSchema.softDelete) {
+            // vec0 and FTS rows stay so restore() brings the document back whole
+            const query = SQLTranslator.buildSoftDeleteQuery(
+                this.collectionSchema.name,
+                _id,
+                new Date().toISOString()
+            );
+            if (options.ifMatch === undefined) {
+                // Missing and already deleted documents match no row
+                const rows = await this.driver.query(
+                    `${query.sql} RETURNING _id`,
+                    query.params
+                );
+                if (rows.length === 0) return false;
+            } else {
+                await this.execWithRevision(query, _id, options.ifMatch);
+            }
+        } else {
+            await this.execWithRevision(
+                SQLTranslator.buildDeleteQuery(this.collectionSchema.name, _id),
+                _id,
+                options.ifMatch
+            );
+
+            // Handle vector deletions
+            const vectorQueries = SQLTranslator.buildVectorDeleteQueries(
+                this.collectionSchema.name,
+                _id,
+                this.collectionSchema.constrainedFields
+            );
+            await this.executeVectorQueries(vectorQueries);
+        }
+        this.changeFeed.notify(this.collectionSchema.name);
+
+        // Plugin hook: after delete
+        const resultContext = {
+            ...context,
+            result: { _id, deleted: true },
+        };
+        await this.pluginManager?.executeHookSafe(
+            'onAfterDelete',
+            resultContext
+        );
+
+        return true;
+    }
+
+    async deleteBulk(ids: string[]): Promise<number> {
+        let count = 0;
+        for (const _id of ids) {
+            if (await this.delete(_id)) count++;
+        }
+        return count;
+    }
+    async upsert(
+        _id: string,
+        doc: Omit<InferSchema<T>, '_id'>
+    ): Promise<InferSchema<T>> {
+        // Use the optimized SQL-level upsert for best performance
+        return this.upsertOptimized(_id, doc);
+    }
+
+    // Add an even more optimized version using SQL UPSERT
+    async upsertOptimized(
+        _id: string,
+        doc: Omit<InferSchema<T>, '_id'>
+    ): Promise<InferSchema<T>> {
+        const fullDoc = this.stripSystemFields({ ...doc, _id });
+        const validatedDoc = this.validateDocument(fullDoc);
+
+        // For maximum performance, use SQL-level UPSERT (INSERT OR REPLACE)
+        // This eliminates the need for existence checks entirely
+        try {
+            // Constraints are now enforced at the SQL level via constrainedFields
+
+            // Use INSERT OR REPLACE for atomic upsert
+            if (
+                !this.collectionSchema.constrainedFields ||
+                Object.keys(this.collectionSchema.constrainedFields).length ===
+                    0
+            ) {
+                // Original behavior for collections without constrained fields
+                const sql = SQLTranslator.buildUpsertSQL(
+                    `INSERT INTO ${this.collectionSchema.name} (_id, doc) VALUES (?, ?)`,
+                    this.collectionSchema.versioning,
+                    this.softDeleteColumns()
+                );
+                const params = [_id, JSON.stringify(validatedDoc)];
+                await this.driver.exec(sql, params);
+            } else {
+                // Build upsert with constrained field columns
+                const { sql, params } = SQLTranslator.buildInsertQuery(
+                    this.collectionSchema.name,
+                    validatedDoc,
+                    _id,
+                    this.collectionSchema.constrainedFields,
+                    this.collectionSchema.schema
+                );
+                // Convert INSERT to INSERT OR REPLACE, or update in place so
+                // revisions keep counting
+                const upsertSQL = SQLTranslator.buildUpsertSQL(
+                    sql,
+                    this.collectionSchema.versioning,
+                    this.softDeleteColumns()
+                );
+                await this.driver.exec(upsertSQL, params);
+            }
+            this.changeFeed.notify(this.collectionSchema.name);
+
+            return (await this.withRevisions([validatedDoc]))[0];
         } catch (error) {
             if (error instanceof Error) {
                 if (error.message.includes('UNIQUE constraint')) {
@@ -730,10 +2119,22 @@ export class Collection<T extends z.ZodSchema> {
         }
     }
 
+    /**
+     * Insert or replace several documents in one statement. Items may carry
+     * an ifMatch revision; stale items abort the whole batch with a
+     * ConflictError listing each of them.
+     */
     async upsertBulk(
-        updates: { _id: string; doc: Omit<InferSchema<T>, '_id'> }[]
+        updates: {
+            _id: string;
+            doc: Omit<InferSchema<T>, '_id'>;
+            ifMatch?: number;
+        }[]
     ): Promise<InferSchema<T>[]> {
         if (updates.length === 0) return [];
+        for (const update of updates) {
+            this.assertCanMatch(update.ifMatch);
+        }
 
         const context = {
             collectionName: this.collectionSchema.name,
@@ -750,7 +2151,10 @@ export class Collection<T extends z.ZodSchema> {
             const allParams: any[] = [];
 
             for (const update of updates) {
-                const fullDoc = { ...update.doc, _id: update._id };
+                const fullDoc = this.stripSystemFields({
+                    ...update.doc,
+                    _id: update._id,
+                });
                 const validatedDoc = this.validateDocument(fullDoc);
                 validatedDocs.push(validatedDoc);
 
@@ -783,9 +2187,13 @@ export class Collection<T extends z.ZodSchema> {
                 Object.keys(this.collectionSchema.constrainedFields).length ===
                     0
             ) {
-                batchSQL = `INSERT OR REPLACE INTO ${
-                    this.collectionSchema.name
-                } (_id, doc) VALUES ${sqlParts.join(', ')}`;
+                batchSQL = SQLTranslator.buildUpsertSQL(
+                    `INSERT INTO ${
+                        this.collectionSchema.name
+                    } (_id, doc) VALUES ${sqlParts.join(', ')}`,
+                    this.collectionSchema.versioning,
+                    this.softDeleteColumns()
+                );
             } else {
                 const firstQuery = SQLTranslator.buildInsertQuery(
                     this.collectionSchema.name,
@@ -798,20 +2206,27 @@ export class Collection<T extends z.ZodSchema> {
                     0,
                     firstQuery.sql.indexOf('VALUES ') + 7
                 );
-                batchSQL =
-                    baseSQL.replace('INSERT INTO', 'INSERT OR REPLACE INTO') +
-                    sqlParts.join(', ');
+                batchSQL = SQLTranslator.buildUpsertSQL(
+                    baseSQL + sqlParts.join(', '),
+                    this.collectionSchema.versioning,
+                    this.softDeleteColumns()
+                );
             }
 
-            await this.driver.exec(batchSQL, allParams);
+            await this.driver.transaction(async () => {
+                await this.checkRevisions(updates);
+                await this.driver.exec(batchSQL, allParams);
+            });
+            this.changeFeed.notify(this.collectionSchema.name);
 
-            const resultContext = { ...context, result: validatedDocs };
+            const result = await this.withRevisions(validatedDocs);
+            const resultContext = { ...context, result };
             await this.pluginManager?.executeHookSafe(
                 'onAfterInsert',
                 resultContext
             );
 
-            return validatedDocs;
+            return result;
         } catch (error) {
             const errorContext = { ...context, error: error as Error };
             await this.pluginManager?.executeHookSafe('onError', errorContext);
@@ -844,7 +2259,7 @@ export class Collection<T extends z.ZodSchema> {
             !this.collectionSchema.constrainedFields ||
             Object.keys(this.collectionSchema.constrainedFields).length === 0
         ) {
-            const sql = `SELECT doc FROM ${this.collectionSchema.name} WHERE _id = ?`;
+            const sql = `SELECT doc FROM ${this.collectionSchema.name} WHERE _id = ?${this.liveRows('AND')}`;
             const params = [_id];
             const rows = await this.driver.query(sql, params);
             if (rows.length === 0) return null;
@@ -856,7 +2271,7 @@ export class Collection<T extends z.ZodSchema> {
         )
             .map((f) => fieldPathToColumnName(f))
             .join(', ');
-        const sql = `SELECT doc, ${constrainedFieldColumns} FROM ${this.collectionSchema.name} WHERE _id = ?`;
+        const sql = `SELECT doc, ${constrainedFieldColumns} FROM ${this.collectionSchema.name} WHERE _id = ?${this.liveRows('AND')}`;
         const params = [_id];
         const rows = await this.driver.query(sql, params);
         if (rows.length === 0) return null;
@@ -900,40 +2315,154 @@ export class Collection<T extends z.ZodSchema> {
 
     where<K extends QueryablePaths<InferSchema<T>>>(
         field: K
-    ): import('./query-builder.js').FieldBuilder<InferSchema<T>, K> & {
-        collection: Collection<T>;
+    ): import('./query-builder.js').FieldBuilder<InferSchema<T>, K, Rel> & {
+        collection: Collection<T, Rel>;
+    };
+    where(
+        expression: Expression<any>
+    ): import('./query-builder.js').ExpressionFieldBuilder<InferSchema<T>, Rel> & {
+        collection: Collection<T, Rel>;
     };
     where(field: string): import('./query-builder.js').FieldBuilder<
         InferSchema<T>,
-        any
+        any,
+        Rel
     > & {
-        collection: Collection<T>;
+        collection: Collection<T, Rel>;
     };
     where<K extends QueryablePaths<InferSchema<T>>>(
-        field: K | string
-    ): import('./query-builder.js').FieldBuilder<InferSchema<T>, K> & {
-        collection: Collection<T>;
+        field: K | string | Expression<any>
+    ): import('./query-builder.js').FieldBuilder<InferSchema<T>, K, Rel> & {
+        collection: Collection<T, Rel>;
     } {
         // Validate field name exists in schema
-        this.validateFieldName(field as string);
+        if (!(field instanceof Expression)) {
+            this.validateFieldName(field as string);
+        }
 
-        const builder = new QueryBuilder<InferSchema<T>>();
+        const builder = new QueryBuilder<InferSchema<T>, Rel>();
         (builder as any).collection = this;
         const fieldBuilder = builder.where(field as K);
         (fieldBuilder as any).collection = this;
         return fieldBuilder as import('./query-builder.js').FieldBuilder<
             InferSchema<T>,
-            K
-        > & { collection: Collection<T> };
+            K,
+            Rel
+        > & { collection: Collection<T, Rel> };
     }
 
     // Query method that returns a QueryBuilder for complex queries
-    query(): QueryBuilder<InferSchema<T>> {
-        const builder = new QueryBuilder<InferSchema<T>>();
+    query(): QueryBuilder<InferSchema<T>, Rel> {
+        const builder = new QueryBuilder<InferSchema<T>, Rel>();
         (builder as any).collection = this;
         return builder;
     }
 
+    /**
+     * Query serialized with toJSON(), validated and bound to this
+     * collection; see QueryBuilder.fromJSON()
+     */
+    fromJSON(
+        json: SerializedQuery | string,
+        options: QueryJSONOptions = {}
+    ): QueryBuilder<InferSchema<T>, Rel> {
+        const builder = QueryBuilder.fromJSON<InferSchema<T>>(json, options);
+        (builder as any).collection = this;
+        return builder;
+    }
+
+    /**
+     * Find documents matching a Mongo-style filter, e.g.
+     * `find({ age: { $gt: 30 } }, { sort: { age: -1 }, limit: 10 })`.
+     * Unknown operators and fields outside `allowedFields` are rejected, so
+     * filters may come from clients.
+     */
+    find(
+        filter?: Filter,
+        options?: FindOptions & { projection?: undefined }
+    ): Promise<InferSchema<T>[]>;
+    find(
+        filter: Filter,
+        options: FindOptions
+    ): Promise<Partial<InferSchema<T>>[]>;
+    async find(
+        filter: Filter = {},
+        options: FindOptions = {}
+    ): Promise<Partial<InferSchema<T>>[]> {
+        const { query, exclude } = this.buildFindQuery(filter, options);
+        const docs = await query.toArray();
+        return docs.map((doc) => excludeFields(doc, exclude));
+    }
+
+    findSync(
+        filter?: Filter,
+        options?: FindOptions & { projection?: undefined }
+    ): InferSchema<T>[];
+    findSync(filter: Filter, options: FindOptions): Partial<InferSchema<T>>[];
+    findSync(
+        filter: Filter = {},
+        options: FindOptions = {}
+    ): Partial<InferSchema<T>>[] {
+        const { query, exclude } = this.buildFindQuery(filter, options);
+        return query.toArraySync().map((doc) => excludeFields(doc, exclude));
+    }
+
+    private buildFindQuery(filter: Filter, options: FindOptions) {
+        const parseOptions: ParseFilterOptions = {
+            allowedFields: options.allowedFields,
+            allowRegex: options.allowRegex,
+            validateField: (field) => this.validateFieldName(field),
+        };
+        let query = QueryBuilder.fromFilter<InferSchema<T>>(filter, parseOptions);
+        (query as any).collection = this;
+
+        for (const { field, direction } of parseSort(options.sort, parseOptions)) {
+            query = query.orderBy(field as any, direction);
+        }
+        if (options.limit !== undefined) query = query.limit(options.limit);
+        if (options.skip !== undefined) query = query.offset(options.skip);
+        const { include, exclude } = parseProjection(
+            options.projection,
+            parseOptions
+        );
+        if (include) query = query.select(...include) as any;
+        return { query, exclude };
+    }
+
+    /**
+     * Run an aggregation pipeline in a single SQL statement. Stages apply in
+     * order; the result type follows the stages when the pipeline is written
+     * inline.
+     */
+    async aggregate<const S extends readonly PipelineStage[]>(
+        pipeline: S
+    ): Promise<PipelineOutput<InferSchema<T>, S>[]> {
+        await this.ensureInitialized();
+        const context = {
+            collectionName: this.collectionSchema.name,
+            schema: this.collectionSchema,
+            operation: 'aggregate',
+            data: { pipeline },
+        };
+        await this.pluginManager?.executeHookSafe('onBeforeQuery', context);
+
+        const { sql, params } = SQLTranslator.buildPipelineQuery(
+            this.collectionSchema.name,
+            pipeline,
+            this.scopeQuery({ filters: [] }),
+            this.collectionSchema.constrainedFields,
+            this.lookupSchema
+        );
+        const rows = await this.driver.query(sql, params);
+        const results = rows.map((row) => parseDoc(row.doc));
+
+        await this.pluginManager?.executeHookSafe('onAfterQuery', {
+            ...context,
+            result: results,
+        });
+        return results;
+    }
+
     // Direct query methods without conditions
     async toArray(): Promise<InferSchema<T>[]> {
         // Plugin hook: before query
@@ -947,7 +2476,7 @@ export class Collection<T extends z.ZodSchema> {
 
         const { sql, params } = SQLTranslator.buildSelectQuery(
             this.collectionSchema.name,
-            { filters: [] },
+            this.scopeQuery({ filters: [] }),
             this.collectionSchema.constrainedFields
         );
         const rows = await this.driver.query(sql, params);
@@ -969,62 +2498,65 @@ export class Collection<T extends z.ZodSchema> {
     // Add direct sorting and pagination methods to Collection
     orderBy<K extends OrderablePaths<InferSchema<T>>>(
         field: K,
-        direction?: 'asc' | 'desc'
-    ): QueryBuilder<InferSchema<T>>;
+        direction?: 'asc' | 'desc',
+        collation?: Collation
+    ): QueryBuilder<InferSchema<T>, Rel>;
     orderBy(
         field: string,
-        direction?: 'asc' | 'desc'
-    ): QueryBuilder<InferSchema<T>>;
+        direction?: 'asc' | 'desc',
+        collation?: Collation
+    ): QueryBuilder<InferSchema<T>, Rel>;
     orderBy<K extends OrderablePaths<InferSchema<T>>>(
         field: K | string,
-        direction: 'asc' | 'desc' = 'asc'
-    ): QueryBuilder<InferSchema<T>> {
+        direction: 'asc' | 'desc' = 'asc',
+        collation?: Collation
+    ): QueryBuilder<InferSchema<T>, Rel> {
         // Validate field name exists in schema
         this.validateFieldName(field as string);
 
-        const builder = new QueryBuilder<InferSchema<T>>();
+        const builder = new QueryBuilder<InferSchema<T>, Rel>();
         (builder as any).collection = this;
-        return builder.orderBy(field as K, direction);
+        return builder.orderBy(field as K, direction, collation);
     }
 
-    limit(count: number): QueryBuilder<InferSchema<T>> {
-        const builder = new QueryBuilder<InferSchema<T>>();
+    limit(count: number): QueryBuilder<InferSchema<T>, Rel> {
+        const builder = new QueryBuilder<InferSchema<T>, Rel>();
         (builder as any).collection = this;
         return builder.limit(count);
     }
 
-    offset(count: number): QueryBuilder<InferSchema<T>> {
-        const builder = new QueryBuilder<InferSchema<T>>();
+    offset(count: number): QueryBuilder<InferSchema<T>, Rel> {
+        const builder = new QueryBuilder<InferSchema<T>, Rel>();
         (builder as any).collection = this;
         return builder.offset(count);
     }
 
-    page(pageNumber: number, pageSize: number): QueryBuilder<InferSchema<T>> {
-        const builder = new QueryBuilder<InferSchema<T>>();
+    page(pageNumber: number, pageSize: number): QueryBuilder<InferSchema<T>, Rel> {
+        const builder = new QueryBuilder<InferSchema<T>, Rel>();
         (builder as any).collection = this;
         return builder.page(pageNumber, pageSize);
     }
 
-    distinct(): QueryBuilder<InferSchema<T>> {
-        const builder = new QueryBuilder<InferSchema<T>>();
+    distinct(): QueryBuilder<InferSchema<T>, Rel> {
+        const builder = new QueryBuilder<InferSchema<T>, Rel>();
         (builder as any).collection = this;
         return builder.distinct();
     }
 
     orderByMultiple(
         orders: { field: keyof InferSchema<T>; direction?: 'asc' | 'desc' }[]
-    ): QueryBuilder<InferSchema<T>> {
-        const builder = new QueryBuilder<InferSchema<T>>();
+    ): QueryBuilder<InferSchema<T>, Rel> {
+        const builder = new QueryBuilder<InferSchema<T>, Rel>();
         (builder as any).collection = this;
         return builder.orderByMultiple(orders);
     }
 
     or(
         builderFn: (
-            builder: QueryBuilder<InferSchema<T>>
-        ) => QueryBuilder<InferSchema<T>>
-    ): QueryBuilder<InferSchema<T>> {
-        const builder = new QueryBuilder<InferSchema<T>>();
+            builder: QueryBuilder<InferSchema<T>, Rel>
+        ) => QueryBuilder<InferSchema<T>, Rel>
+    ): QueryBuilder<InferSchema<T>, Rel> {
+        const builder = new QueryBuilder<InferSchema<T>, Rel>();
         (builder as any).collection = this;
         return builder.or(builderFn);
     }
@@ -1033,20 +2565,20 @@ export class Collection<T extends z.ZodSchema> {
     async orderByAsync<K extends OrderablePaths<InferSchema<T>>>(
         field: K | string,
         direction: 'asc' | 'desc' = 'asc'
-    ): Promise<QueryBuilder<InferSchema<T>>> {
-        const builder = new QueryBuilder<InferSchema<T>>();
+    ): Promise<QueryBuilder<InferSchema<T>, Rel>> {
+        const builder = new QueryBuilder<InferSchema<T>, Rel>();
         (builder as any).collection = this;
         return builder.orderBy(field as K, direction);
     }
 
-    async limitAsync(count: number): Promise<QueryBuilder<InferSchema<T>>> {
-        const builder = new QueryBuilder<InferSchema<T>>();
+    async limitAsync(count: number): Promise<QueryBuilder<InferSchema<T>, Rel>> {
+        const builder = new QueryBuilder<InferSchema<T>, Rel>();
         (builder as any).collection = this;
         return builder.limit(count);
     }
 
-    async offsetAsync(count: number): Promise<QueryBuilder<InferSchema<T>>> {
-        const builder = new QueryBuilder<InferSchema<T>>();
+    async offsetAsync(count: number): Promise<QueryBuilder<InferSchema<T>, Rel>> {
+        const builder = new QueryBuilder<InferSchema<T>, Rel>();
         (builder as any).collection = this;
         return builder.offset(count);
     }
@@ -1082,7 +2614,7 @@ export class Collection<T extends z.ZodSchema> {
                 _id = this.generateId();
             }
 
-            const fullDoc = { ...doc, _id };
+            const fullDoc = this.stripSystemFields({ ...doc, _id });
             const validatedDoc = this.validateDocument(fullDoc);
 
             const { sql, params } = SQLTranslator.buildInsertQuery(
@@ -1093,6 +2625,7 @@ export class Collection<T extends z.ZodSchema> {
                 this.collectionSchema.schema
             );
             this.driver.execSync(sql, params);
+            this.changeFeed.notify(this.collectionSchema.name);
 
             const resultContext = { ...context, result: validatedDoc };
             this.pluginManager
@@ -1153,7 +2686,7 @@ export class Collection<T extends z.ZodSchema> {
                     _id = this.generateId();
                 }
 
-                const fullDoc = { ...doc, _id };
+                const fullDoc = this.stripSystemFields({ ...doc, _id });
                 const validatedDoc = this.validateDocument(fullDoc);
                 validatedDocs.push(validatedDoc);
 
@@ -1184,6 +2717,7 @@ export class Collection<T extends z.ZodSchema> {
             const batchSQL = baseSQL + sqlParts.join(', ');
 
             this.driver.execSync(batchSQL, allParams);
+            this.changeFeed.notify(this.collectionSchema.name);
             return validatedDocs;
         } catch (error) {
             if (error instanceof Error) {
@@ -1213,7 +2747,7 @@ export class Collection<T extends z.ZodSchema> {
             Object.keys(this.collectionSchema.constrainedFields).length === 0
         ) {
             // Original behavior for collections without constrained fields
-            const sql = `SELECT doc FROM ${this.collectionSchema.name} WHERE _id = ?`;
+            const sql = `SELECT doc FROM ${this.collectionSchema.name} WHERE _id = ?${this.liveRows('AND')}`;
             const params = [_id];
             const rows = this.driver.querySync(sql, params);
             if (rows.length === 0) return null;
@@ -1226,7 +2760,7 @@ export class Collection<T extends z.ZodSchema> {
         )
             .map((f) => fieldPathToColumnName(f))
             .join(', ');
-        const sql = `SELECT doc, ${constrainedFieldColumns} FROM ${this.collectionSchema.name} WHERE _id = ?`;
+        const sql = `SELECT doc, ${constrainedFieldColumns} FROM ${this.collectionSchema.name} WHERE _id = ?${this.liveRows('AND')}`;
         const params = [_id];
         const rows = this.driver.querySync(sql, params);
         if (rows.length === 0) return null;
@@ -1239,7 +2773,7 @@ export class Collection<T extends z.ZodSchema> {
     toArraySync(): InferSchema<T>[] {
         const { sql, params } = SQLTranslator.buildSelectQuery(
             this.collectionSchema.name,
-            { filters: [] },
+            this.scopeQuery({ filters: [] }),
             this.collectionSchema.constrainedFields
         );
         const rows = this.driver.querySync(sql, params);
@@ -1247,7 +2781,7 @@ export class Collection<T extends z.ZodSchema> {
     }
 
     countSync(): number {
-        const sql = `SELECT COUNT(*) as count FROM ${this.collectionSchema.name}`;
+        const sql = `SELECT COUNT(*) as count FROM ${this.collectionSchema.name}${this.liveRows('WHERE')}`;
         const result = this.driver.querySync(sql, []);
         return result[0].count;
     }
@@ -1255,7 +2789,7 @@ export class Collection<T extends z.ZodSchema> {
     firstSync(): InferSchema<T> | null {
         const { sql, params } = SQLTranslator.buildSelectQuery(
             this.collectionSchema.name,
-            { filters: [], limit: 1 },
+            this.scopeQuery({ filters: [], limit: 1 }),
             this.collectionSchema.constrainedFields
         );
         const rows = this.driver.querySync(sql, params);
@@ -1268,7 +2802,7 @@ export class Collection<T extends z.ZodSchema> {
             throw new NotFoundError('Document not found', _id);
         }
 
-        const updatedDoc = { ...existing, ...doc, _id };
+        const updatedDoc = this.stripSystemFields({ ...existing, ...doc, _id });
         const validatedDoc = this.validateDocument(updatedDoc);
 
         try {
@@ -1280,6 +2814,7 @@ export class Collection<T extends z.ZodSchema> {
                 this.collectionSchema.schema
             );
             this.driver.execSync(sql, params);
+            this.changeFeed.notify(this.collectionSchema.name);
             return validatedDoc;
         } catch (error) {
             if (error instanceof Error) {
@@ -1304,12 +2839,16 @@ export class Collection<T extends z.ZodSchema> {
         }
     }
 
-    deleteSync(_id: string): boolean {
-        const { sql, params } = SQLTranslator.buildDeleteQuery(
-            this.collectionSchema.name,
-            _id
-        );
+    deleteSync(_id: string): boolean {
+        const { sql, params } = this.collectionSchema.softDelete
+            ? SQLTranslator.buildSoftDeleteQuery(
+                  this.collectionSchema.name,
+                  _id,
+                  new Date().toISOString()
+              )
+            : SQLTranslator.buildDeleteQuery(this.collectionSchema.name, _id);
         this.driver.execSync(sql, params);
+        this.changeFeed.notify(this.collectionSchema.name);
         return true;
     }
 
@@ -1363,7 +2902,10 @@ export class Collection<T extends z.ZodSchema> {
             const allParams: any[] = [];
 
             for (const item of docs) {
-                const fullDoc = { ...item.doc, _id: item._id };
+                const fullDoc = this.stripSystemFields({
+                    ...item.doc,
+                    _id: item._id,
+                });
                 const validatedDoc = this.validateDocument(fullDoc);
                 validatedDocs.push(validatedDoc);
 
@@ -1396,9 +2938,13 @@ export class Collection<T extends z.ZodSchema> {
                 Object.keys(this.collectionSchema.constrainedFields).length ===
                     0
             ) {
-                batchSQL = `INSERT OR REPLACE INTO ${
-                    this.collectionSchema.name
-                } (_id, doc) VALUES ${sqlParts.join(', ')}`;
+                batchSQL = SQLTranslator.buildUpsertSQL(
+                    `INSERT INTO ${
+                        this.collectionSchema.name
+                    } (_id, doc) VALUES ${sqlParts.join(', ')}`,
+                    this.collectionSchema.versioning,
+                    this.softDeleteColumns()
+                );
             } else {
                 const firstQuery = SQLTranslator.buildInsertQuery(
                     this.collectionSchema.name,
@@ -1411,12 +2957,15 @@ export class Collection<T extends z.ZodSchema> {
                     0,
                     firstQuery.sql.indexOf('VALUES ') + 7
                 );
-                batchSQL =
-                    baseSQL.replace('INSERT INTO', 'INSERT OR REPLACE INTO') +
-                    sqlParts.join(', ');
+                batchSQL = SQLTranslator.buildUpsertSQL(
+                    baseSQL + sqlParts.join(', '),
+                    this.collectionSchema.versioning,
+                    this.softDeleteColumns()
+                );
             }
 
             this.driver.execSync(batchSQL, allParams);
+            this.changeFeed.notify(this.collectionSchema.name);
             return validatedDocs;
         } catch (error) {
             if (error instanceof Error) {
@@ -1455,11 +3004,11 @@ export class Collection<T extends z.ZodSchema> {
                     throw new NotFoundError('Document not found', update._id);
                 }
 
-                const updatedDoc = {
+                const updatedDoc = this.stripSystemFields({
                     ...existing,
                     ...update.doc,
                     _id: update._id,
-                };
+                });
                 const validatedDoc = this.validateDocument(updatedDoc);
                 validatedDocs.push(validatedDoc);
 
@@ -1483,6 +3032,7 @@ export class Collection<T extends z.ZodSchema> {
                 this.driver.execSync('ROLLBACK', []);
                 throw error;
             }
+            this.changeFeed.notify(this.collectionSchema.name);
 
             return validatedDocs;
         } catch (error) {
@@ -1509,7 +3059,7 @@ export class Collection<T extends z.ZodSchema> {
 
     // Add count and first methods to Collection (async by default)
     async count(): Promise<number> {
-        const sql = `SELECT COUNT(*) as count FROM ${this.collectionSchema.name}`;
+        const sql = `SELECT COUNT(*) as count FROM ${this.collectionSchema.name}${this.liveRows('WHERE')}`;
         const result = await this.driver.query(sql, []);
         return result[0].count;
     }
@@ -1517,7 +3067,7 @@ export class Collection<T extends z.ZodSchema> {
     async first(): Promise<InferSchema<T> | null> {
         const { sql, params } = SQLTranslator.buildSelectQuery(
             this.collectionSchema.name,
-            { filters: [], limit: 1 },
+            this.scopeQuery({ filters: [], limit: 1 }),
             this.collectionSchema.constrainedFields
         );
         const rows = await this.driver.query(sql, params);
@@ -1525,98 +3075,269 @@ export class Collection<T extends z.ZodSchema> {
     }
 
     /**
-     * Perform vector similarity search
+     * Subscribe to the results of a query. The callback receives the initial
+     * result set and then the added/changed/removed documents after every
+     * write to this collection that affects the results.
+     */
+    watch(callback: ChangeCallback<InferSchema<T>>): ChangeSubscription;
+    watch(
+        query: QueryBuilder<InferSchema<T>>,
+        callback: ChangeCallback<InferSchema<T>>
+    ): ChangeSubscription;
+    watch(
+        queryOrCallback:
+            | QueryBuilder<InferSchema<T>>
+            | ChangeCallback<InferSchema<T>>,
+        callback?: ChangeCallback<InferSchema<T>>
+    ): ChangeSubscription {
+        const query =
+            typeof queryOrCallback === 'function'
+                ? this.query()
+                : queryOrCallback;
+        const onChange =
+            typeof queryOrCallback === 'function' ? queryOrCallback : callback;
+
+        if (!onChange) {
+            throw new ValidationError('watch() requires a callback');
+        }
+
+        const options = query.getOptions();
+        if (
+            (options.aggregates && options.aggregates.length > 0) ||
+            (options.joins && options.joins.length > 0) ||
+            (options.selectFields && options.selectFields.length > 0) ||
+            (options.selectExpressions && options.selectExpressions.length > 0) ||
+            (options.groupBy && options.groupBy.length > 0)
+        ) {
+            throw new ValidationError(
+                'watch() only supports document queries without aggregates, joins, groupBy or select'
+            );
+        }
+
+        const boundQuery = query.clone();
+        (boundQuery as any).collection = this;
+
+        return this.changeFeed.subscribe(
+            this.collectionSchema.name,
+            async () => {
+                await this.ensureInitialized();
+                return boundQuery.toArray();
+            },
+            onChange
+        );
+    }
+
+    /**
+     * Perform vector similarity search. `where` accepts flat filters or a
+     * QueryBuilder (OR groups, subqueries, orderBy tiebreaks); results are
+     * always full documents.
      */
     async vectorSearch(
         options: VectorSearchOptions
     ): Promise<VectorSearchResult<InferSchema<T>>[]> {
         await this.ensureInitialized();
 
-        // Validate that the field is a vector field
-        if (
-            !this.collectionSchema.constrainedFields ||
-            !this.collectionSchema.constrainedFields[options.field]
-        ) {
-            throw new ValidationError(
-                `Field '${options.field}' is not defined as a constrained field`
+        const base = await this.scopeQueryAsync(
+            options.where instanceof QueryBuilder
+                ? options.where.getOptions()
+                : { filters: options.where || [] }
+        );
+        const { nearest } = new QueryBuilder()
+            .nearestTo(options.field, options.vector, {
+                maxDistance: options.maxDistance,
+                minSimilarity: options.minSimilarity,
+                distance: options.distance,
+            })
+            .getOptions();
+        const { sql, params } = SQLTranslator.buildSelectQuery(
+            this.collectionSchema.name,
+            {
+                ...base,
+                selectFields: undefined,
+                selectExpressions: undefined,
+                nearest,
+                limit: options.limit || base.limit || 10,
+                offset: options.offset ?? base.offset,
+            },
+            this.collectionSchema.constrainedFields
+        );
+
+        // Plugin hook: before vector search
+        const context = {
+            collectionName: this.collectionSchema.name,
+            schema: this.collectionSchema,
+            operation: 'vectorSearch',
+            data: options,
+        };
+        await this.pluginManager?.executeHookSafe('onBeforeQuery', context);
+
+        try {
+            const rows = await this.driver.query(sql, params);
+            const results: VectorSearchResult<InferSchema<T>>[] = rows.map(
+                (row) => {
+                    const document = parseDoc(row.doc);
+                    return {
+                        document,
+                        distance: row._distance as number,
+                        _id: document._id as string,
+                    };
+                }
+            );
+
+            // Plugin hook: after vector search
+            const resultContext = {
+                ...context,
+                result: results,
+            };
+            await this.pluginManager?.executeHookSafe(
+                'onAfterQuery',
+                resultContext
             );
+
+            return results;
+        } catch (error) {
+            const errorContext = { ...context, error: error as Error };
+            await this.pluginManager?.executeHookSafe('onError', errorContext);
+
+            // If vector search fails due to missing extension, throw a helpful error
+            if (
+                error instanceof Error &&
+                (error.message.includes('vec0') ||
+                    error.message.includes('vec_distance') ||
+                    error.message.includes('no such module') ||
+                    error.message.includes('no such table'))
+            ) {
+                throw new ValidationError(
+                    `Vector search functionality is not available. The sqlite-vec extension is not loaded. ` +
+                        `Install SQLite with extension support for vector operations.`
+                );
+            }
+
+            throw error;
         }
+    }
+
+    /**
+     * Relevance-ranked full-text search over the collection's fullText fields.
+     * `text` uses FTS5 query syntax (terms, "phrases", prefix*, AND/OR/NOT).
+     */
+    async search(
+        text: string,
+        options: FullTextSearchOptions = {}
+    ): Promise<FullTextSearchResult<InferSchema<T>>[]> {
+        await this.ensureInitialized();
 
-        const fieldDef = this.collectionSchema.constrainedFields[options.field];
-        if (fieldDef.type !== 'VECTOR') {
+        const fields = this.collectionSchema.fullText || [];
+        if (fields.length === 0) {
             throw new ValidationError(
-                `Field '${options.field}' is not a vector field`
+                `Collection '${this.collectionSchema.name}' has no fullText fields`
             );
         }
+        if (typeof text !== 'string' || text.trim().length === 0) {
+            throw new ValidationError('Search text must be a non-empty string');
+        }
 
-        if (
-            !fieldDef.vectorDimensions ||
-            !Array.isArray(options.vector) ||
-            options.vector.length !== fieldDef.vectorDimensions
-        ) {
+        const snippetOptions =
+            typeof options.snippet === 'object' ? options.snippet : {};
+        const snippetField = snippetOptions.field;
+        if (snippetField && !fields.includes(snippetField)) {
             throw new ValidationError(
-                `Query vector must have ${fieldDef.vectorDimensions} dimensions`
+                `Field '${snippetField}' is not a fullText field`
             );
         }
 
-        // Plugin hook: before vector search
+        // Plugin hook: before search
         const context = {
             collectionName: this.collectionSchema.name,
             schema: this.collectionSchema,
-            operation: 'vectorSearch',
-            data: options,
+            operation: 'search',
+            data: { text, ...options },
         };
         await this.pluginManager?.executeHookSafe('onBeforeQuery', context);
 
-        const vectorTableName = SchemaSQLGenerator.getVectorTableName(
-            this.collectionSchema.name,
-            options.field
-        );
-        const columnName = fieldPathToColumnName(options.field);
-        const limit = options.limit || 10;
-        const distance = options.distance || 'cosine';
-
-        // Build vector search query using sqlite-vec format
-        let sql = `
-            SELECT 
-                ${this.collectionSchema.name}._id,
-                ${this.collectionSchema.name}.doc,
-                ${vectorTableName}.distance
-            FROM ${vectorTableName}
-            INNER JOIN ${this.collectionSchema.name} ON ${vectorTableName}.rowid = ${this.collectionSchema.name}.rowid
-            WHERE ${vectorTableName}.${columnName} MATCH ?
-                AND k = ?
-        `;
-
-        // Convert query vector to Float32Array for sqlite-vec, compatible with better-sqlite3
-        const queryVectorArray = new Float32Array(options.vector);
-        const params: any[] = [Buffer.from(queryVectorArray.buffer), limit];
-
-        // Add additional WHERE conditions if provided
+        const tableName = this.collectionSchema.name;
+        const ftsTable = SchemaSQLGenerator.getFullTextTableName(tableName);
+        const selectParams: any[] = [];
+        const columns = [
+            `${tableName}._id`,
+            `${tableName}.doc`,
+            `bm25(${ftsTable}) AS score`,
+        ];
+
+        if (options.highlight) {
+            const marks =
+                typeof options.highlight === 'object' ? options.highlight : {};
+            fields.forEach((_, index) => {
+                columns.push(
+                    `highlight(${ftsTable}, ${index}, ?, ?) AS highlight_${index}`
+                );
+                selectParams.push(marks.start ?? '<b>', marks.end ?? '</b>');
+            });
+        }
+        if (options.snippet) {
+            columns.push(`snippet(${ftsTable}, ?, ?, ?, ?, ?) AS snippet`);
+            selectParams.push(
+                snippetField ? fields.indexOf(snippetField) : -1,
+                snippetOptions.start ?? '<b>',
+                snippetOptions.end ?? '</b>',
+                snippetOptions.ellipsis ?? '...',
+                snippetOptions.tokens ?? 16
+            );
+        }
+
+        let sql = `SELECT ${columns.join(', ')}
+            FROM ${ftsTable}
+            INNER JOIN ${tableName} ON ${ftsTable}.rowid = ${tableName}.rowid
+            WHERE ${ftsTable} MATCH ?`;
+        const params: any[] = [...selectParams, text];
+
+        for (const condition of SQLTranslator.buildScopeConditions(
+            tableName,
+            this.scopeQuery({ filters: [] })
+        )) {
+            sql += ` AND ${condition}`;
+        }
+
         if (options.where && options.where.length > 0) {
             const { whereClause, whereParams } = SQLTranslator.buildWhereClause(
                 options.where,
                 'AND',
                 this.collectionSchema.constrainedFields,
-                this.collectionSchema.name
+                tableName
             );
             sql += ` AND ${whereClause}`;
             params.push(...whereParams);
         }
 
-        sql += ` ORDER BY ${vectorTableName}.distance ASC`;
+        sql += ` ORDER BY score ASC LIMIT ?`;
+        params.push(options.limit || 10);
 
         try {
             const rows = await this.driver.query(sql, params);
-            const results: VectorSearchResult<InferSchema<T>>[] = rows.map(
-                (row) => ({
-                    document: parseDoc(row.doc),
-                    distance: row.distance as number,
-                    _id: row._id as string,
-                })
+            const results: FullTextSearchResult<InferSchema<T>>[] = rows.map(
+                (row) => {
+                    const result: FullTextSearchResult<InferSchema<T>> = {
+                        document: parseDoc(row.doc),
+                        score: row.score as number,
+                        _id: row._id as string,
+                    };
+                    if (options.highlight) {
+                        result.highlights = {};
+                        fields.forEach((field, index) => {
+                            const value = row[`highlight_${index}`];
+                            if (value !== null && value !== undefined) {
+                                result.highlights![field] = value;
+                            }
+                        });
+                    }
+                    if (options.snippet) {
+                        result.snippet = row.snippet;
+                    }
+                    return result;
+                }
             );
 
-            // Plugin hook: after vector search
+            // Plugin hook: after search
             const resultContext = {
                 ...context,
                 result: results,
@@ -1631,39 +3352,374 @@ export class Collection<T extends z.ZodSchema> {
             const errorContext = { ...context, error: error as Error };
             await this.pluginManager?.executeHookSafe('onError', errorContext);
 
-            // If vector search fails due to missing extension, throw a helpful error
+            // FTS5 query syntax errors, e.g. unbalanced quotes
             if (
                 error instanceof Error &&
-                (error.message.includes('vec0') ||
-                    error.message.includes('no such module') ||
-                    error.message.includes('no such table'))
+                /fts5|unterminated string|syntax error/.test(error.message)
             ) {
                 throw new ValidationError(
-                    `Vector search functionality is not available. The sqlite-vec extension is not loaded. ` +
-                        `Install SQLite with extension support for vector operations.`
+                    `Invalid full-text query: ${error.message}`,
+                    error
+                );
+            }
+            if (error instanceof Error && error.message.includes('no such table')) {
+                throw new ValidationError(
+                    'Full-text search functionality is not available. SQLite was built without FTS5.'
                 );
             }
 
             throw error;
         }
     }
+
+    /**
+     * Combine vector KNN and full-text keyword results into one ranking,
+     * using reciprocal rank fusion (default) or a weighted score blend.
+     */
+    async hybridSearch(
+        options: HybridSearchOptions
+    ): Promise<HybridSearchResult<InferSchema<T>>[]> {
+        const fullText = this.collectionSchema.fullText || [];
+        const textFields = options.textFields || fullText;
+        const invalidFields = textFields.filter(
+            (field) => !fullText.includes(field)
+        );
+        if (fullText.length === 0 || invalidFields.length > 0) {
+            throw new ValidationError(
+                `hybridSearch() requires fullText fields; not indexed: ${
+                    invalidFields.join(', ') || textFields.join(', ') || 'none'
+                }`
+            );
+        }
+
+        const fusion = options.fusion || 'rrf';
+        if (fusion !== 'rrf' && fusion !== 'weighted') {
+            throw new ValidationError(`Unknown fusion method '${fusion}'`);
+        }
+        const weights = {
+            vector: options.weights?.vector ?? 1,
+            text: options.weights?.text ?? 1,
+        };
+        if (weights.vector < 0 || weights.text < 0) {
+            throw new ValidationError('hybridSearch() weights must be >= 0');
+        }
+
+        const k = options.k || 10;
+        const candidates = options.candidates || k * 4;
+
+        const vectorResults = await this.vectorSearch({
+            field: options.vectorField,
+            vector: options.vector,
+            limit: candidates,
+            where: options.where,
+            distance: options.distance,
+        });
+
+        // Restrict the keyword query to the requested fields with an FTS5
+        // column filter when they are a subset of the indexed fields
+        const text =
+            textFields.length < fullText.length
+                ? `{${textFields
+                      .map(fieldPathToColumnName)
+                      .join(' ')}} : (${options.text})`
+                : options.text;
+        const textResults = await this.search(text, {
+            limit: candidates,
+            where: options.where,
+        });
+
+        return fuseResults(vectorResults, textResults, {
+            fusion,
+            weights,
+            rrfK: options.rrfK ?? 60,
+            k,
+        });
+    }
+
+    /**
+     * Attach related documents for populate(). Each relation costs one
+     * batched IN query per 500 parents, whatever the relation type.
+     */
+    private async populateDocuments(
+        docs: any[],
+        populate: PopulateClause[]
+    ): Promise<void> {
+        if (docs.length === 0) return;
+
+        for (const clause of populate) {
+            const relation =
+                this.collectionSchema.relations?.[clause.relation];
+            if (!relation) {
+                throw new ValidationError(
+                    `Unknown relation '${clause.relation}' on collection '${this.collectionSchema.name}'`
+                );
+            }
+            const options = clause.options || { filters: [] };
+            assertPopulatable(options);
+            const related = this.getRelatedCollection(relation.collection);
+
+            if (relation.type === 'belongsTo') {
+                const matches = await related.findRelated(
+                    relation.foreignField || '_id',
+                    collectKeys(docs, relation.localField),
+                    options
+                );
+                for (const doc of docs) {
+                    const key = getNestedValue(doc, relation.localField);
+                    doc[clause.relation] = matches.get(key)?.[0] ?? null;
+                }
+            } else {
+                const localField = relation.localField || '_id';
+                const matches =
+                    relation.type === 'hasMany'
+                        ? await related.findRelated(
+                              relation.foreignField,
+                              collectKeys(docs, localField),
+                              options
+                          )
+                        : await related.findRelated(
+                              relation.foreignField || '_id',
+                              collectKeys(docs, localField),
+                              options,
+                              {
+                                  collection: this.getRelatedCollection(
+                                      relation.through
+                                  ),
+                                  localField: relation.throughLocalField,
+                                  foreignField: relation.throughForeignField,
+                              }
+                          );
+                for (const doc of docs) {
+                    const key = getNestedValue(doc, localField);
+                    doc[clause.relation] = matches.get(key) || [];
+                }
+            }
+        }
+    }
+
+    /**
+     * Documents related to each of `keys` by `field`, or through a join
+     * collection linking keys to `field`, filtered, ordered and limited per
+     * key by a populate() query, with that query's own relations populated
+     */
+    private async findRelated(
+        field: string,
+        keys: any[],
+        options: QueryOptions,
+        through?: {
+            collection: Collection<any>;
+            localField: string;
+            foreignField: string;
+        }
+    ): Promise<Map<any, any[]>> {
+        const matches = new Map<any, any[]>();
+        if (keys.length === 0) return matches;
+        await this.ensureInitialized();
+
+        const { name, constrainedFields } = this.collectionSchema;
+        const scoped = await this.scopeQueryAsync({
+            filters: options.filters,
+            orderBy: options.orderBy,
+            limit: options.limit,
+            offset: options.offset,
+            deleted: options.deleted,
+        });
+        const column = SQLTranslator.qualifyFieldAccess(
+            field,
+            name,
+            constrainedFields
+        );
+        let parent: { key: string; join?: string; conditions?: string[] } = {
+            key: column,
+        };
+        if (through) {
+            const link = through.collection;
+            await link.ensureInitialized();
+            const table = link.collectionSchema.name;
+            const linkFields = link.collectionSchema.constrainedFields;
+            parent = {
+                key: SQLTranslator.qualifyFieldAccess(
+                    through.localField,
+                    table,
+                    linkFields
+                ),
+                join: ` JOIN ${table} ON ${SQLTranslator.qualifyFieldAccess(
+                    through.foreignField,
+                    table,
+                    linkFields
+                )} = ${column}`,
+                conditions: SQLTranslator.buildScopeConditions(
+                    table,
+                    await link.scopeQueryAsync({ filters: [] })
+                ),
+            };
+        }
+
+        // Chunked like findStoredDocs; each key's rows stay in one chunk
+        const docs: any[] = [];
+        for (let i = 0; i < keys.length; i += 500) {
+            const { sql, params } = SQLTranslator.buildRelatedQuery(
+                name,
+                scoped,
+                { ...parent, values: keys.slice(i, i + 500) },
+                constrainedFields
+            );
+            for (const row of await this.driver.query(sql, params)) {
+                const doc = parseDoc(row.doc);
+                docs.push(doc);
+                const group = matches.get(row._parent);
+                if (group) {
+                    group.push(doc);
+                } else {
+                    matches.set(row._parent, [doc]);
+                }
+            }
+        }
+
+        if (options.populate && options.populate.length > 0) {
+            await this.populateDocuments(docs, options.populate);
+        }
+        return matches;
+    }
+
+    // RIGHT/FULL joins are emulated when the linked SQLite predates them
+    private async hasNativeOuterJoins(): Promise<boolean> {
+        if (this.nativeOuterJoins === undefined) {
+            const [row] = await this.driver.query(
+                'SELECT sqlite_version() AS version'
+            );
+            this.nativeOuterJoins = supportsOuterJoins(row.version);
+        }
+        return this.nativeOuterJoins;
+    }
+
+    private hasNativeOuterJoinsSync(): boolean {
+        if (this.nativeOuterJoins === undefined) {
+            const [row] = this.driver.querySync(
+                'SELECT sqlite_version() AS version'
+            );
+            this.nativeOuterJoins = supportsOuterJoins(row.version);
+        }
+        return this.nativeOuterJoins;
+    }
+
+    // regex() and collate() run SQL functions only some drivers can register
+    private hasStringFunctions(): boolean {
+        if (this.stringFunctions === undefined) {
+            try {
+                this.driver.querySync(`SELECT ${FOLD_FUNCTION}('a', 'nocase')`);
+                this.stringFunctions = true;
+            } catch (error) {
+                if (isTransactionInProgress(error)) throw error;
+                this.stringFunctions = false;
+            }
+        }
+        return this.stringFunctions;
+    }
+
+    // Registered schemas by collection name, for resolving join fields
+    private lookupSchema: SchemaLookup = (name) =>
+        name === this.collectionSchema.name
+            ? this.collectionSchema
+            : this.database?.registry?.get(name);
+
+    private getRelatedCollection(name: string): Collection<any> {
+        try {
+            return this.database.collection(name);
+        } catch {
+            throw new ValidationError(
+                `Related collection '${name}' is not registered`
+            );
+        }
+    }
+}
+
+/**
+ * Whether a sync statement was refused because a transaction opened by other
+ * async code is in progress
+ */
+function isTransactionInProgress(error: unknown): boolean {
+    return (
+        error instanceof DatabaseError && error.code === 'TRANSACTION_IN_PROGRESS'
+    );
+}
+
+/**
+ * Read computed select() columns by their expression instead of the 0/1 and
+ * JSON guessing applied to selected fields
+ */
+function readSelectExpressions(target: any, row: any, options: QueryOptions): any {
+    for (const { alias, expression } of options.selectExpressions || []) {
+        target[alias] = readExpressionValue(expression, row[alias]);
+    }
+    return target;
+}
+
+/**
+ * nearest() on a GEO_POINT field returns each document or projection with
+ * its distance in meters, read as the number it is
+ */
+function readGeoDistance(doc: any, row: any, options: QueryOptions): any {
+    if (options.geoNearest) {
+        doc._distance = row._distance;
+    }
+    return doc;
+}
+
+/**
+ * Shape join rows: `{ [table or alias]: doc | null }` by default, or the
+ * select() projection keyed as built by SQLTranslator
+ */
+function mapJoinRows(rows: any[], options: QueryOptions, tableName: string): any[] {
+    if (
+        (options.selectFields && options.selectFields.length > 0) ||
+        options.selectExpressions
+    ) {
+        return rows.map((row) => {
+            const obj: any = { ...row };
+            if (options.nearest) {
+                delete obj._distance;
+            }
+            return readSelectExpressions(
+                reconstructNestedObject(obj),
+                row,
+                options
+            );
+        });
+    }
+
+    const tables = SQLTranslator.getJoinTableNames(tableName, options.joins!);
+    return rows.map((row) => {
+        const result: any = {};
+        for (const table of tables) {
+            result[table] =
+                row[table] === null || row[table] === undefined
+                    ? null
+                    : parseDoc(row[table]);
+        }
+        return result;
+    });
 }
 
 // Extend QueryBuilder to support collection operations
 declare module './query-builder.js' {
-    interface QueryBuilder<T> {
+    interface QueryBuilder<T, Rel> {
         // Default async methods
         toArray(): Promise<T[]>;
         exec(): Promise<T[]>; // Alias for toArray
         first(): Promise<T | null>;
         executeCount(): Promise<number>; // Renamed to avoid conflict with count aggregate method
+        subscribe(callback: ChangeCallback<T>): ChangeSubscription;
+        update(update: UpdateOperators<T> | Partial<T>): Promise<number>;
+        delete(): Promise<number>;
+        paginate(options: PaginateOptions): Promise<Page<T>>;
         // Sync versions for backward compatibility
         toArraySync(): T[];
         firstSync(): T | null;
         countSync(): number;
     }
 
-    interface FieldBuilder<T, K extends QueryablePaths<T> | string> {
+    interface FieldBuilder<T, K extends QueryablePaths<T> | string, Rel> {
         // Default async methods
         toArray(): Promise<T[]>;
         exec(): Promise<T[]>; // Alias for toArray
@@ -1681,11 +3737,18 @@ QueryBuilder.prototype.toArray = async function <T>(
 ): Promise<T[]> {
     if (!this.collection)
         throw new Error('Collection not bound to query builder');
+    if (this.getOptions().populate) {
+        assertPopulatable(this.getOptions());
+    }
 
     const { sql, params } = SQLTranslator.buildSelectQuery(
         this.collection['collectionSchema'].name,
-        this.getOptions(),
-        this.collection['collectionSchema'].constrainedFields
+        await this.collection['scopeQueryAsync'](this.getOptions()),
+        this.collection['collectionSchema'].constrainedFields,
+        this.collection['lookupSchema'],
+        usesOuterJoins(this.getOptions())
+            ? await this.collection['hasNativeOuterJoins']()
+            : true
     );
     const rows = await this.collection['driver'].query(sql, params);
 
@@ -1693,52 +3756,51 @@ QueryBuilder.prototype.toArray = async function <T>(
     const options = this.getOptions();
     if (options.aggregates && options.aggregates.length > 0) {
         // For aggregate queries, return the raw results without parsing doc
-        return rows as T[];
+        return (
+            options.selectExpressions
+                ? rows.map((row) => readSelectExpressions({ ...row }, row, options))
+                : rows
+        ) as T[];
     }
 
-    // Check if this is a JOIN query
+    // JOIN queries return one entry per table, or the select() projection
     if (options.joins && options.joins.length > 0) {
-        // For JOIN queries, merge data from multiple tables into JSON objects
-        return rows.map((row) => {
-            const mergedObject: any = {};
-
-            // Parse the main table's doc if it exists
-            if (row.doc) {
-                Object.assign(mergedObject, parseDoc(row.doc));
-            }
-
-            // Add any direct column values (non-JSON fields) from SELECT
-            Object.keys(row).forEach((key) => {
-                if (
-                    key !== 'doc' &&
-                    row[key] !== null &&
-                    row[key] !== undefined
-                ) {
-                    // Handle table-prefixed field names like "users.name" -> "name"
-                    const fieldName = key.includes('.')
-                        ? key.split('.').pop()
-                        : key;
-                    if (fieldName) {
-                        mergedObject[fieldName] = row[key];
-                    }
-                }
-            });
+        return mapJoinRows(
+            rows,
+            options,
+            this.collection['collectionSchema'].name
+        ) as T[];
+    }
 
-            return mergedObject;
-        }) as T[];
+    // 'before' cursors fetch in reverse sort order; restore the query order
+    if (options.cursor?.direction === 'before') {
+        rows.reverse();
     }
 
-    return rows.map((row) => {
+    const docs = rows.map((row) => {
         if (row.doc !== undefined) {
-            return parseDoc(row.doc);
+            return readGeoDistance(parseDoc(row.doc), row, options);
         }
         const obj: any = {};
         for (const key of Object.keys(row)) {
             obj[key] = row[key];
         }
+        // nearestTo() selects its distance for ordering only
+        if (options.nearest) {
+            delete obj._distance;
+        }
         // If we have field selections with nested paths, reconstruct the nested structure
-        return reconstructNestedObject(obj) as T;
+        return readGeoDistance(
+            readSelectExpressions(reconstructNestedObject(obj), row, options),
+            row,
+            options
+        ) as T;
     });
+
+    if (options.populate && options.populate.length > 0) {
+        await this.collection['populateDocuments'](docs, options.populate);
+    }
+    return docs;
 };
 
 // Add exec as alias for toArray
@@ -1757,35 +3819,106 @@ QueryBuilder.prototype.executeCount = async function <T>(
     if (!this.collection)
         throw new Error('Collection not bound to query builder');
 
-    const options = this.getOptions();
-    let sql = `SELECT COUNT(*) as count FROM ${this.collection['collectionSchema'].name}`;
+    const options = await this.collection['scopeQueryAsync'](
+        this.getOptions()
+    );
+    const tableName = this.collection['collectionSchema'].name;
+    let sql = `SELECT COUNT(*) as count FROM ${tableName}`;
     const params: any[] = [];
-
+    const conditions = SQLTranslator.buildScopeConditions(tableName, options);
     if (options.filters.length > 0) {
         const { whereClause, whereParams } = SQLTranslator.buildWhereClause(
             options.filters,
             'AND',
-            this.collection['collectionSchema'].constrainedFields
+            this.collection['collectionSchema'].constrainedFields,
+            tableName
         );
-        sql += ` WHERE ${whereClause}`;
+        conditions.push(whereClause);
         params.push(...whereParams);
     }
+    if (conditions.length > 0) {
+        sql += ` WHERE ${conditions.join(' AND ')}`;
+    }
 
     const result = await this.collection['driver'].query(sql, params);
     return result[0].count;
 };
 
+QueryBuilder.prototype.subscribe = function <T>(
+    this: QueryBuilder<T> & { collection?: Collection<any> },
+    callback: ChangeCallback<T>
+): ChangeSubscription {
+    if (!this.collection)
+        throw new Error('Collection not bound to query builder');
+
+    return this.collection.watch(
+        this as QueryBuilder<any>,
+        callback as ChangeCallback<any>
+    );
+};
+
+QueryBuilder.prototype.paginate = async function <T>(
+    this: QueryBuilder<T> & { collection?: Collection<any> },
+    { first, after }: PaginateOptions
+): Promise<Page<T>> {
+    if (!Number.isInteger(first) || first < 1) {
+        throw new ValidationError('paginate() requires first to be a positive integer');
+    }
+
+    // Fetch one extra row to find out whether another page follows
+    const query = after ? this.after(after) : this;
+    const rows = await query.limit(first + 1).toArray();
+    const items = rows.slice(0, first);
+    const last = items[items.length - 1];
+
+    return {
+        items,
+        pageInfo: {
+            endCursor: last
+                ? encodeCursor(last, this.getOptions().orderBy)
+                : null,
+            hasNextPage: rows.length > first,
+        },
+    };
+};
+
+QueryBuilder.prototype.update = async function <T>(
+    this: QueryBuilder<T> & { collection?: Collection<any> },
+    update: UpdateOperators<T> | Partial<T>
+): Promise<number> {
+    if (!this.collection)
+        throw new Error('Collection not bound to query builder');
+
+    return this.collection.updateMany(this as QueryBuilder<any>, update);
+};
+
+QueryBuilder.prototype.delete = async function <T>(
+    this: QueryBuilder<T> & { collection?: Collection<any> }
+): Promise<number> {
+    if (!this.collection)
+        throw new Error('Collection not bound to query builder');
+
+    return this.collection.deleteMany(this as QueryBuilder<any>);
+};
+
 // Add sync versions for backward compatibility
 QueryBuilder.prototype.toArraySync = function <T>(
     this: QueryBuilder<T> & { collection?: Collection<any> }
 ): T[] {
     if (!this.collection)
         throw new Error('Collection not bound to query builder');
+    if (this.getOptions().populate) {
+        throw new ValidationError('populate() requires the async toArray()');
+    }
 
     const { sql, params } = SQLTranslator.buildSelectQuery(
         this.collection['collectionSchema'].name,
-        this.getOptions(),
-        this.collection['collectionSchema'].constrainedFields
+        this.collection['scopeQuery'](this.getOptions()),
+        this.collection['collectionSchema'].constrainedFields,
+        this.collection['lookupSchema'],
+        usesOuterJoins(this.getOptions())
+            ? this.collection['hasNativeOuterJoinsSync']()
+            : true
     );
     const rows = this.collection['driver'].querySync(sql, params);
 
@@ -1793,51 +3926,45 @@ QueryBuilder.prototype.toArraySync = function <T>(
     const options = this.getOptions();
     if (options.aggregates && options.aggregates.length > 0) {
         // For aggregate queries, return the raw results without parsing doc
-        return rows as T[];
+        return (
+            options.selectExpressions
+                ? rows.map((row) => readSelectExpressions({ ...row }, row, options))
+                : rows
+        ) as T[];
     }
 
-    // Check if this is a JOIN query
+    // JOIN queries return one entry per table, or the select() projection
     if (options.joins && options.joins.length > 0) {
-        // For JOIN queries, merge data from multiple tables into JSON objects
-        return rows.map((row) => {
-            const mergedObject: any = {};
-
-            // Parse the main table's doc if it exists
-            if (row.doc) {
-                Object.assign(mergedObject, parseDoc(row.doc));
-            }
-
-            // Add any direct column values (non-JSON fields) from SELECT
-            Object.keys(row).forEach((key) => {
-                if (
-                    key !== 'doc' &&
-                    row[key] !== null &&
-                    row[key] !== undefined
-                ) {
-                    // Handle table-prefixed field names like "users.name" -> "name"
-                    const fieldName = key.includes('.')
-                        ? key.split('.').pop()
-                        : key;
-                    if (fieldName) {
-                        mergedObject[fieldName] = row[key];
-                    }
-                }
-            });
+        return mapJoinRows(
+            rows,
+            options,
+            this.collection['collectionSchema'].name
+        ) as T[];
+    }
 
-            return mergedObject;
-        }) as T[];
+    // 'before' cursors fetch in reverse sort order; restore the query order
+    if (options.cursor?.direction === 'before') {
+        rows.reverse();
     }
 
     return rows.map((row) => {
         if (row.doc !== undefined) {
-            return parseDoc(row.doc);
+            return readGeoDistance(parseDoc(row.doc), row, options);
         }
         const obj: any = {};
         for (const key of Object.keys(row)) {
             obj[key] = row[key];
         }
+        // nearestTo() selects its distance for ordering only
+        if (options.nearest) {
+            delete obj._distance;
+        }
         // If we have field selections with nested paths, reconstruct the nested structure
-        return reconstructNestedObject(obj) as T;
+        return readGeoDistance(
+            readSelectExpressions(reconstructNestedObject(obj), row, options),
+            row,
+            options
+        ) as T;
     });
 };
 
@@ -1854,19 +3981,24 @@ QueryBuilder.prototype.countSync = function <T>(
     if (!this.collection)
         throw new Error('Collection not bound to query builder');
 
-    const options = this.getOptions();
-    let sql = `SELECT COUNT(*) as count FROM ${this.collection['collectionSchema'].name}`;
+    const options = this.collection['scopeQuery'](this.getOptions());
+    const tableName = this.collection['collectionSchema'].name;
+    let sql = `SELECT COUNT(*) as count FROM ${tableName}`;
     const params: any[] = [];
-
+    const conditions = SQLTranslator.buildScopeConditions(tableName, options);
     if (options.filters.length > 0) {
         const { whereClause, whereParams } = SQLTranslator.buildWhereClause(
             options.filters,
             'AND',
-            this.collection['collectionSchema'].constrainedFields
+            this.collection['collectionSchema'].constrainedFields,
+            tableName
         );
-        sql += ` WHERE ${whereClause}`;
+        conditions.push(whereClause);
         params.push(...whereParams);
     }
+    if (conditions.length > 0) {
+        sql += ` WHERE ${conditions.join(' AND ')}`;
+    }
 
     const result = this.collection['driver'].querySync(sql, params);
     return result[0].count;
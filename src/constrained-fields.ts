@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import type { ConstrainedFieldDefinition } from './types';
+import { encodeGeoPoint } from './geo';
 
 /**
  * Extract values from a document for constrained fields
@@ -196,6 +197,9 @@ export function convertValueForStorage(value: any, sqliteType: string): any {
                 return JSON.stringify(value);
             }
             return JSON.stringify([value]); // Single number becomes array
+        case 'GEO_POINT':
+            // { lat, lng } as JSON, indexed by the field's R*Tree triggers
+            return encodeGeoPoint(value);
         default:
             return value;
     }
@@ -236,6 +240,8 @@ export function convertValueFromStorage(value: any, sqliteType: string): any {
                 }
             }
             return Array.isArray(value) ? value : [];
+        case 'GEO_POINT':
+            return typeof value === 'string' ? JSON.parse(value) : value;
         default:
             return value;
     }
@@ -0,0 +1,81 @@
+import { ValidationError } from './errors';
+import { getNestedValue } from './constrained-fields';
+import { parseDoc, stringifyDoc } from './json-utils';
+import type { QueryOptions } from './types';
+
+/**
+ * Sort keys a cursor is built from: the query's orderBy followed by _id as a
+ * tiebreaker (unless orderBy already ends the ordering on _id)
+ */
+export function getCursorOrder(
+    orderBy: QueryOptions['orderBy']
+): { field: string; direction: 'asc' | 'desc' }[] {
+    // Folded sort keys are not the stored values a cursor records
+    if (orderBy?.some((o) => o.collation !== undefined)) {
+        throw new ValidationError(
+            'Cursors do not support a collated orderBy'
+        );
+    }
+    const order = (orderBy || []).slice();
+    if (!order.some((o) => o.field === '_id')) {
+        order.push({ field: '_id', direction: 'asc' });
+    }
+    return order;
+}
+
+/**
+ * Encode the sort key values of a document as an opaque cursor token
+ */
+export function encodeCursor(
+    doc: any,
+    orderBy: QueryOptions['orderBy']
+): string {
+    const fields = getCursorOrder(orderBy).map((o) => o.field);
+    const values = fields.map((field) => {
+        const value = getNestedValue(doc, field);
+        return value === undefined ? null : value;
+    });
+    return Buffer.from(stringifyDoc({ f: fields, v: values })).toString(
+        'base64url'
+    );
+}
+
+/**
+ * Decode a cursor token produced by encodeCursor
+ */
+export function decodeCursor(token: string): {
+    fields: string[];
+    values: any[];
+} {
+    try {
+        const decoded = parseDoc(
+            Buffer.from(token, 'base64url').toString('utf8')
+        );
+        if (
+            Array.isArray(decoded.f) &&
+            Array.isArray(decoded.v) &&
+            decoded.f.length === decoded.v.length &&
+            decoded.f.every((field: unknown) => typeof field === 'string')
+        ) {
+            return { fields: decoded.f, values: decoded.v };
+        }
+    } catch {
+        // Fall through to the error below
+    }
+    throw new ValidationError('Invalid pagination cursor');
+}
+
+export interface PaginateOptions {
+    first: number;
+    after?: string;
+}
+
+export interface PageInfo {
+    endCursor: string | null;
+    hasNextPage: boolean;
+}
+
+export interface Page<T> {
+    items: T[];
+    pageInfo: PageInfo;
+}
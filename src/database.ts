@@ -4,7 +4,12 @@ import type {
     Driver,
     InferSchema,
     ConstrainedFieldDefinition,
+    RelationDefinition,
+    RelationValues,
+    HistoryOptions,
+    TTLOption,
     Row,
+    TransactionOptions,
     PluginClass,
     PluginFactory,
 } from './types';
@@ -14,6 +19,7 @@ import { NodeDriver } from './drivers/node';
 import { Collection } from './collection';
 import { Registry } from './registry';
 import { PluginManager, type Plugin } from './plugin-system';
+import { ChangeFeed } from './change-feed';
 import {
     globalConnectionManager,
     type ConnectionManager,
@@ -22,6 +28,7 @@ import {
 import { detectDriver, type DriverDetectionResult } from './driver-detector';
 import { Migrator, type MigrationInfo } from './migrator';
 import type { UpgradeMap, SeedFunction } from './upgrade-types';
+import { Transaction } from './transaction';
 
 export class Database {
     private driver?: Driver;
@@ -30,8 +37,11 @@ export class Database {
     private registry = new Registry();
     private collections = new Map<string, Collection<any>>();
     public plugins = new PluginManager();
+    private changeFeed = new ChangeFeed();
     private connectionManager: ConnectionManager;
     private isLazy = false;
+    private ttlSweepTimer?: ReturnType<typeof setInterval>;
+    private ttlSweep?: Promise<void>;
 
     constructor(config: DBConfig = {}) {
         this.config = config;
@@ -169,7 +179,10 @@ export class Database {
         }
     }
 
-    collection<T extends z.ZodSchema>(
+    collection<
+        T extends z.ZodSchema,
+        R extends { [name: string]: RelationDefinition } = {}
+    >(
         name: string,
         schema?: T,
         options?: {
@@ -180,10 +193,16 @@ export class Database {
             constrainedFields?: {
                 [fieldPath: string]: ConstrainedFieldDefinition;
             };
+            fullText?: string[];
+            relations?: R;
+            versioning?: boolean;
+            softDelete?: boolean;
+            history?: boolean | HistoryOptions;
+            ttl?: TTLOption;
             upgrade?: UpgradeMap<InferSchema<T>>;
             seed?: SeedFunction<InferSchema<T>>;
         }
-    ): Collection<T> {
+    ): Collection<T, RelationValues<R>> {
         if (schema) {
             if (this.collections.has(name)) {
                 throw new Error(`Collection '${name}' already exists`);
@@ -196,13 +215,17 @@ export class Database {
             );
 
             // Create collection with lazy driver resolution
-            const collection = new Collection<T>(
+            const collection = new Collection<T, RelationValues<R>>(
                 this.getDriverProxy(),
                 collectionSchema,
                 this.plugins,
-                this // Pass database reference for upgrade functions
+                this, // Pass database reference for upgrade functions
+                this.changeFeed
             );
             this.collections.set(name, collection);
+            if (collectionSchema.ttl !== undefined) {
+                this.startTTLSweeper();
+            }
 
             // Execute collection creation hook (non-blocking)
             this.plugins
@@ -229,7 +252,11 @@ export class Database {
         return new Proxy({} as Driver, {
             get: (target, prop) => {
                 if (this.driver) {
-                    return (this.driver as any)[prop];
+                    // Bind so driver methods keep their own state, not the proxy's
+                    const value = (this.driver as any)[prop];
+                    return typeof value === 'function'
+                        ? value.bind(this.driver)
+                        : value;
                 }
 
                 // Return async methods that ensure driver is initialized
@@ -285,18 +312,63 @@ export class Database {
         });
     }
 
-    async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    /**
+     * Run fn in a transaction. fn receives a Transaction handle whose
+     * collections are bound to it; calling transaction() again from inside
+     * opens a SAVEPOINT, so inner failures can be caught without losing the
+     * outer work. Unrelated async code waits until the transaction finishes.
+     */
+    async transaction<T>(
+        fn: (tx: Transaction) => Promise<T>,
+        options?: TransactionOptions
+    ): Promise<T> {
+        return this.runTransaction(undefined, fn, options);
+    }
+
+    /** @internal Run fn on scopedDriver's transaction, or open one */
+    async runTransaction<T>(
+        scopedDriver: Driver | undefined,
+        fn: (tx: Transaction) => Promise<T>,
+        options: TransactionOptions = {}
+    ): Promise<T> {
         const context = {
             collectionName: '',
             schema: {} as any,
             operation: 'transaction',
+            data: { mode: options.mode || 'deferred', attempts: 1 },
         };
 
         await this.plugins.executeHookSafe('onBeforeTransaction', context);
 
         try {
-            const driver = await this.ensureDriver();
-            const result = await driver.transaction(fn);
+            const driver = scopedDriver || (await this.ensureDriver());
+
+            // Let pending migrations finish first; they would otherwise wait
+            // for this transaction while it waits for them
+            await Promise.all(
+                Array.from(this.collections.values()).map((collection) =>
+                    collection.ensureInitialized()
+                )
+            );
+
+            // Hold change feed notifications from fn until the transaction commits
+            const result = await this.changeFeed.batch(() =>
+                driver.transaction(
+                    (txDriver) => fn(new Transaction(this, txDriver)),
+                    {
+                        ...options,
+                        onRetry: async (info) => {
+                            context.data.attempts = info.attempt + 1;
+                            await this.plugins.executeHookSafe(
+                                'onTransactionRetry',
+                                { ...context, error: info.error }
+                            );
+                            await options.onRetry?.(info);
+                        },
+                    }
+                )
+            );
+
             await this.plugins.executeHookSafe('onAfterTransaction', {
                 ...context,
                 result,
@@ -347,13 +419,56 @@ export class Database {
         }
     }
 
+    /**
+     * Delete expired documents from every ttl collection now. The background
+     * sweeper runs this every config.ttlSweep.interval ms. Returns the
+     * number of deleted documents.
+     */
+    async sweepExpired(): Promise<number> {
+        const batchSize = (this.config.ttlSweep || {}).batchSize ?? 500;
+        let total = 0;
+        for (const name of this.registry.list()) {
+            if (this.registry.get(name)?.ttl === undefined) continue;
+            total += await this.collections.get(name)!.sweepExpired(batchSize);
+        }
+        return total;
+    }
+
+    private startTTLSweeper(): void {
+        if (this.ttlSweepTimer || this.config.ttlSweep === false) return;
+
+        this.ttlSweepTimer = setInterval(() => {
+            // Skip a tick rather than overlap a slow sweep
+            if (this.ttlSweep) return;
+            this.ttlSweep = this.sweepExpired()
+                .then(() => undefined)
+                .catch((error) => console.warn('TTL sweep failed:', error))
+                .finally(() => {
+                    this.ttlSweep = undefined;
+                });
+        }, this.config.ttlSweep?.interval ?? 60000);
+        // The sweeper alone should not keep the process running
+        this.ttlSweepTimer.unref?.();
+    }
+
+    private async stopTTLSweeper(): Promise<void> {
+        if (this.ttlSweepTimer) {
+            clearInterval(this.ttlSweepTimer);
+            this.ttlSweepTimer = undefined;
+        }
+        await this.ttlSweep;
+    }
+
     async close(): Promise<void> {
+        await this.stopTTLSweeper();
         await this.plugins.executeHookSafe('onDatabaseClose', {
             collectionName: '',
             schema: {} as any,
             operation: 'database_close',
         });
 
+        this.changeFeed.clear();
+
         if (this.managedConnection) {
             // Release managed connection back to pool
             await this.connectionManager.releaseConnection(
@@ -389,6 +504,13 @@ export class Database {
             );
         }
 
+        // A sweep already in flight finishes against the closed driver and is
+        // reported as a failed sweep
+        if (this.ttlSweepTimer) {
+            clearInterval(this.ttlSweepTimer);
+            this.ttlSweepTimer = undefined;
+        }
+
         // Original logic for non-shared connections (this.driver should be set)
         // The this.managedConnection check below would only be relevant if, hypothetically,
         // a non-shared connection somehow ended up with a managedConnection, which is not standard.
@@ -400,6 +522,8 @@ export class Database {
         } else if (this.driver) {
             this.driver.closeSync();
         }
+
+        this.changeFeed.clear();
     }
 
     // Plugin management methods
@@ -1,6 +1,14 @@
 import * as os from 'os';
-import type { Driver, Row, DBConfig } from '../types.js';
-import { DatabaseError } from '../errors.js';
+import { AsyncLocalStorage } from 'async_hooks';
+import type {
+    Driver,
+    Row,
+    DBConfig,
+    TransactionBackoff,
+    TransactionMode,
+    TransactionOptions,
+} from '../types.js';
+import { DatabaseError, ValidationError } from '../errors.js';
 
 export interface ConnectionState {
     isConnected: boolean;
@@ -10,9 +18,49 @@ export interface ConnectionState {
     lastError?: Error;
 }
 
+/**
+ * An open top-level transaction; savepoints opened inside it share its scope
+ */
+interface TransactionScope {
+    savepoints: number;
+    completed: boolean;
+    finished: Promise<void>;
+}
+
+const BEGIN_STATEMENTS: Record<TransactionMode, string> = {
+    deferred: 'BEGIN',
+    immediate: 'BEGIN IMMEDIATE',
+    exclusive: 'BEGIN EXCLUSIVE',
+};
+
+/**
+ * Whether an error is SQLite reporting a lock held by another connection
+ */
+export function isBusyError(error: unknown): boolean {
+    const message = error instanceof Error ? error.message : String(error);
+    return /database is locked|SQLITE_BUSY|database is busy/i.test(message);
+}
+
+/**
+ * Exponential backoff with jitter: a random delay between half and all of
+ * the capped exponential step, so competing processes drift apart
+ */
+export function getRetryDelay(
+    backoff: TransactionBackoff = {},
+    attempt: number
+): number {
+    const { initialDelay = 10, maxDelay = 1000, factor = 2 } = backoff;
+    const step = Math.min(maxDelay, initialDelay * factor ** (attempt - 1));
+    return Math.round(step / 2 + Math.random() * (step / 2));
+}
+
 export abstract class BaseDriver implements Driver {
     protected isClosed = false;
     protected isInTransaction = false;
+    // Async context of the code running inside the open transaction; statements
+    // issued from any other context wait for the transaction to finish
+    private transactionScope = new AsyncLocalStorage<TransactionScope>();
+    private activeTransaction?: TransactionScope;
     protected queryCount: number = 0;
     protected connectionState: ConnectionState = {
         isConnected: false,
@@ -200,24 +248,138 @@ export abstract class BaseDriver implements Driver {
         );
     }
 
-    async transaction<T>(fn: () => Promise<T>): Promise<T> {
-        if (this.isInTransaction) {
-            return await fn();
+    /**
+     * Run fn inside a transaction. Calls made from inside another transaction
+     * open a savepoint instead; calls from unrelated async code wait until the
+     * open transaction finishes. fn receives a driver bound to the transaction.
+     * With `retries`, fn is replayed after busy errors using jittered backoff.
+     */
+    async transaction<T>(
+        fn: (driver: Driver) => Promise<T>,
+        options: TransactionOptions = {}
+    ): Promise<T> {
+        const current = this.transactionScope.getStore();
+        if (current && current === this.activeTransaction) {
+            return this.runSavepoint(current, fn);
         }
 
-        await this.ensureConnection();
+        const mode = options.mode || 'deferred';
+        if (!BEGIN_STATEMENTS[mode]) {
+            throw new ValidationError(
+                `Unknown transaction mode '${options.mode}'`
+            );
+        }
+
+        const retries = options.retries ?? 0;
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await this.runExclusive(mode, fn);
+            } catch (error) {
+                if (attempt >= retries || !isBusyError(error)) {
+                    throw error;
+                }
+                const delay = getRetryDelay(options.backoff, attempt + 1);
+                await options.onRetry?.({
+                    attempt: attempt + 1,
+                    delay,
+                    error: error as Error,
+                });
+                await new Promise((resolve) => setTimeout(resolve, delay));
+            }
+        }
+    }
+
+    /**
+     * Run one top-level transaction attempt once no other is open
+     */
+    private async runExclusive<T>(
+        mode: TransactionMode,
+        fn: (driver: Driver) => Promise<T>
+    ): Promise<T> {
+        while (this.activeTransaction) {
+            await this.activeTransaction.finished;
+        }
 
+        let finish!: () => void;
+        const scope: TransactionScope = {
+            savepoints: 0,
+            completed: false,
+            finished: new Promise((resolve) => (finish = resolve)),
+        };
+        this.activeTransaction = scope;
         this.isInTransaction = true;
-        await this.exec('BEGIN');
         try {
-            const result = await fn();
-            await this.exec('COMMIT');
+            return await this.transactionScope.run(scope, () =>
+                this.runTransaction(scope, mode, fn)
+            );
+        } finally {
+            scope.completed = true;
+            this.activeTransaction = undefined;
             this.isInTransaction = false;
+            finish();
+        }
+    }
+
+    /**
+     * Wait until no transaction opened by other async code is in progress
+     */
+    protected async waitForTransaction(): Promise<void> {
+        while (
+            this.activeTransaction &&
+            this.transactionScope.getStore() !== this.activeTransaction
+        ) {
+            await this.activeTransaction.finished;
+        }
+    }
+
+    /**
+     * Sync statements cannot wait, so they refuse to run while a transaction
+     * opened by other async code is in progress rather than joining it
+     */
+    private assertNoForeignTransaction(): void {
+        if (
+            this.activeTransaction &&
+            this.transactionScope.getStore() !== this.activeTransaction
+        ) {
+            throw new DatabaseError(
+                'Synchronous statements cannot run while a transaction opened elsewhere is in progress; use the async methods instead',
+                'TRANSACTION_IN_PROGRESS'
+            );
+        }
+    }
+
+    /**
+     * Open, commit and roll back a top-level transaction. Drivers whose
+     * client manages transactions itself override these.
+     */
+    protected async beginTransaction(mode: TransactionMode): Promise<void> {
+        await this.exec(BEGIN_STATEMENTS[mode]);
+    }
+
+    protected async commitTransaction(): Promise<void> {
+        await this.exec('COMMIT');
+    }
+
+    protected async rollbackTransaction(): Promise<void> {
+        await this.exec('ROLLBACK');
+    }
+
+    private async runTransaction<T>(
+        scope: TransactionScope,
+        mode: TransactionMode,
+        fn: (driver: Driver) => Promise<T>
+    ): Promise<T> {
+        await this.ensureConnection();
+
+        await this.beginTransaction(mode);
+        try {
+            const result = await fn(this.createScopedDriver(scope));
+            await this.commitTransaction();
             return result;
         } catch (error) {
             // Enhanced rollback error recovery
             try {
-                await this.exec('ROLLBACK');
+                await this.rollbackTransaction();
             } catch (rollbackError) {
                 // If rollback fails, log the error but don't override the original error
                 console.warn('Failed to rollback transaction:', rollbackError);
@@ -227,7 +389,6 @@ export abstract class BaseDriver implements Driver {
                     this.connectionState.isConnected = false;
                     this.connectionState.isHealthy = false;
                     this.isClosed = true;
-                    this.isInTransaction = false;
                     throw new DatabaseError(
                         `Transaction failed and database was closed during rollback: ${
                             (error as Error).message
@@ -237,11 +398,65 @@ export abstract class BaseDriver implements Driver {
                 }
             }
 
-            this.isInTransaction = false;
             throw error;
         }
     }
 
+    private async runSavepoint<T>(
+        scope: TransactionScope,
+        fn: (driver: Driver) => Promise<T>
+    ): Promise<T> {
+        const name = `sp_${++scope.savepoints}`;
+        await this.exec(`SAVEPOINT ${name}`);
+        try {
+            const result = await fn(this.createScopedDriver(scope));
+            await this.exec(`RELEASE ${name}`);
+            return result;
+        } catch (error) {
+            try {
+                await this.exec(`ROLLBACK TO ${name}`);
+                await this.exec(`RELEASE ${name}`);
+            } catch (rollbackError) {
+                console.warn('Failed to rollback savepoint:', rollbackError);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Driver whose statements always run inside the given transaction, even
+     * when called from code that lost its async context
+     */
+    private createScopedDriver(scope: TransactionScope): Driver {
+        const runSync = <R>(fn: () => R): R => {
+            if (scope.completed) {
+                throw new DatabaseError(
+                    'Transaction has already completed',
+                    'TRANSACTION_COMPLETED'
+                );
+            }
+            return this.transactionScope.run(scope, fn);
+        };
+        const run = <R>(fn: () => Promise<R>): Promise<R> => {
+            try {
+                return runSync(fn);
+            } catch (error) {
+                return Promise.reject(error);
+            }
+        };
+        return {
+            exec: (sql, params) => run(() => this.exec(sql, params)),
+            query: (sql, params) => run(() => this.query(sql, params)),
+            transaction: (fn, options) =>
+                run(() => this.transaction(fn, options)),
+            close: () => this.close(),
+            execSync: (sql, params) => runSync(() => this.execSync(sql, params)),
+            querySync: (sql, params) =>
+                runSync(() => this.querySync(sql, params)),
+            closeSync: () => this.closeSync(),
+        };
+    }
+
     async close(): Promise<void> {
         if (this.isClosed) return;
         this.isClosed = true;
@@ -259,15 +474,22 @@ export abstract class BaseDriver implements Driver {
 
     abstract exec(sql: string, params?: any[]): Promise<void>;
     protected abstract _query(sql: string, params?: any[]): Promise<Row[]>;
-    abstract execSync(sql: string, params?: any[]): void;
+    protected abstract _execSync(sql: string, params?: any[]): void;
     protected abstract _querySync(sql: string, params?: any[]): Row[];
 
     public async query(sql: string, params?: any[]): Promise<Row[]> {
+        await this.waitForTransaction();
         this.queryCount++;
         return this._query(sql, params);
     }
 
+    public execSync(sql: string, params?: any[]): void {
+        this.assertNoForeignTransaction();
+        this._execSync(sql, params);
+    }
+
     public querySync(sql: string, params?: any[]): Row[] {
+        this.assertNoForeignTransaction();
         this.queryCount++;
         return this._querySync(sql, params);
     }
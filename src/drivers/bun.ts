@@ -136,6 +136,7 @@ export class BunDriver extends BaseDriver {
         if (this.isClosed) {
             return;
         }
+        await this.waitForTransaction();
         this.ensureInitialized();
         await this.ensureConnection();
 
@@ -180,7 +181,7 @@ export class BunDriver extends BaseDriver {
         }
     }
 
-    execSync(sql: string, params: any[] = []): void {
+    protected _execSync(sql: string, params: any[] = []): void {
         if (this.isClosed) {
             return;
         }
@@ -1,9 +1,16 @@
-import type { Row, DBConfig } from '../types';
+import type {
+    Driver,
+    Row,
+    DBConfig,
+    TransactionMode,
+    TransactionOptions,
+} from '../types';
 import { DatabaseError } from '../errors';
 import { createRequire } from 'module';
 import { BaseDriver } from './base.js';
 import { LibSQLConnectionPool, createLibSQLPool } from '../libsql-pool';
 import * as sqliteVec from 'sqlite-vec';
+import { registerStringFunctions } from '../string-functions';
 
 // Create require function for ES modules
 const require = createRequire(import.meta.url);
@@ -13,6 +20,9 @@ export class NodeDriver extends BaseDriver {
     private dbType: 'sqlite' | 'libsql' = 'sqlite';
     private libsqlPool?: LibSQLConnectionPool;
     private currentConnection?: any;
+    // Interactive libsql transaction the statements of the open transaction
+    // run on, with the pooled connection it holds
+    private libsqlTransaction?: { tx: any; release?: () => Promise<void> };
 
     constructor(config: DBConfig = {}) {
         super(config);
@@ -255,6 +265,8 @@ export class NodeDriver extends BaseDriver {
                             error
                         );
                     }
+                    // regex() and collate() filters call these
+                    registerStringFunctions(db);
 
                     return db;
                 },
@@ -309,6 +321,13 @@ export class NodeDriver extends BaseDriver {
             );
         }
 
+        if (this.libsqlTransaction) {
+            throw new DatabaseError(
+                'LibSQL transactions only run async statements. Use async methods (exec/query) inside the transaction.',
+                'SYNC_NOT_SUPPORTED'
+            );
+        }
+
         if (this.dbType === 'libsql' && !this.db.executeSync) {
             throw new DatabaseError(
                 'LibSQL sync operations not available. Use async methods (exec/query) or switch to better-sqlite3 for sync support.',
@@ -328,11 +347,14 @@ export class NodeDriver extends BaseDriver {
         if (this.isClosed) {
             return;
         }
+        await this.waitForTransaction();
         this.ensureInitialized();
         await this.ensureConnection();
 
         try {
-            if (this.libsqlPool) {
+            if (this.libsqlTransaction) {
+                await this.libsqlTransaction.tx.execute({ sql, args: params });
+            } else if (this.libsqlPool) {
                 // Use connection pool
                 const connection = await this.libsqlPool.acquire();
                 try {
@@ -385,7 +407,15 @@ export class NodeDriver extends BaseDriver {
         await this.ensureConnection();
 
         try {
-            if (this.libsqlPool) {
+            if (this.libsqlTransaction) {
+                const result = await this.libsqlTransaction.tx.execute({
+                    sql,
+                    args: params,
+                });
+                return result.rows.map((row: any) =>
+                    this.convertLibSQLRow(row, result.columns)
+                );
+            } else if (this.libsqlPool) {
                 // Use connection pool
                 const connection = await this.libsqlPool.acquire();
                 try {
@@ -439,7 +469,7 @@ export class NodeDriver extends BaseDriver {
         }
     }
 
-    execSync(sql: string, params: any[] = []): void {
+    protected _execSync(sql: string, params: any[] = []): void {
         if (this.isClosed) {
             return;
         }
@@ -540,27 +570,69 @@ export class NodeDriver extends BaseDriver {
         }
     }
 
-    async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    async transaction<T>(
+        fn: (driver: Driver) => Promise<T>,
+        options?: TransactionOptions
+    ): Promise<T> {
         if (this.isClosed) {
             throw new DatabaseError(
                 'Cannot start transaction on closed database'
             );
         }
+        return await super.transaction(fn, options);
+    }
 
-        if (this.dbType === 'libsql') {
-            const tx = await this.db.transaction();
+    /**
+     * libsql keeps a transaction on its own connection, so statements of the
+     * open transaction are sent to it instead of the shared client
+     */
+    protected async beginTransaction(mode: TransactionMode): Promise<void> {
+        if (this.dbType !== 'libsql') {
+            return super.beginTransaction(mode);
+        }
+        // libsql only distinguishes deferred from write transactions
+        const txMode = mode === 'deferred' ? 'deferred' : 'write';
+        if (this.libsqlPool) {
+            const pool = this.libsqlPool;
+            const connection = await pool.acquire();
             try {
-                const result = await fn();
-                await tx.commit();
-                return result;
+                this.libsqlTransaction = {
+                    tx: await connection.client.transaction(txMode),
+                    release: () => pool.release(connection),
+                };
             } catch (error) {
-                await tx.rollback();
+                await pool.release(connection);
                 throw error;
             }
         } else {
-            // For better-sqlite3, use the base class implementation
-            // since better-sqlite3 transactions don't support async functions
-            return await super.transaction(fn);
+            this.libsqlTransaction = { tx: await this.db.transaction(txMode) };
+        }
+    }
+
+    protected async commitTransaction(): Promise<void> {
+        if (!this.libsqlTransaction) {
+            return super.commitTransaction();
+        }
+        await this.endLibSQLTransaction('commit');
+    }
+
+    protected async rollbackTransaction(): Promise<void> {
+        if (!this.libsqlTransaction) {
+            return super.rollbackTransaction();
+        }
+        await this.endLibSQLTransaction('rollback');
+    }
+
+    private async endLibSQLTransaction(
+        outcome: 'commit' | 'rollback'
+    ): Promise<void> {
+        const { tx, release } = this.libsqlTransaction!;
+        this.libsqlTransaction = undefined;
+        try {
+            await tx[outcome]();
+        } finally {
+            tx.close();
+            await release?.();
         }
     }
 
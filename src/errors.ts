@@ -19,6 +19,19 @@ export class NotFoundError extends Error {
   }
 }
 
+export interface RevisionConflict {
+  _id: string;
+  expected: number;
+  actual: number | null; // null when the document does not exist
+}
+
+export class ConflictError extends Error {
+  constructor(message: string, public conflicts: RevisionConflict[] = []) {
+    super(message);
+    this.name = 'ConflictError';
+  }
+}
+
 export class DatabaseError extends Error {
   constructor(message: string, public code?: string) {
     super(message);
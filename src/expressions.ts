@@ -0,0 +1,779 @@
+import { ValidationError } from './errors';
+import { assertFieldPath, assertOutputField } from './aggregation';
+import { parseDoc } from './json-utils';
+import type {
+    ExpressionNode,
+    ExpressionOperator,
+    QueryFilter,
+    ScalarFunctionName,
+    SelectExpression,
+    WindowFrame,
+    WindowFunctionName,
+    WindowSpec,
+} from './types';
+import type { NestedValue, QueryablePaths } from './types/nested-paths';
+
+export type Literal = string | number | boolean | null | Date;
+
+/**
+ * An expression or a literal. Strings are literal text; use `field()` to
+ * refer to a field.
+ */
+export type Operand = Expression<any> | Literal;
+
+type LiteralType<L> = L extends string
+    ? string
+    : L extends number
+      ? number
+      : L extends boolean
+        ? boolean
+        : L extends Date
+          ? string
+          : L extends null
+            ? null
+            : never;
+
+export type OperandValue<O> =
+    O extends Expression<infer V> ? V : LiteralType<O>;
+
+/**
+ * Value type of a field path or expression
+ */
+export type FieldType<T, F> =
+    F extends Expression<infer V>
+        ? V
+        : F extends keyof T
+          ? T[F]
+          : F extends string
+            ? [NestedValue<T, F>] extends [never]
+                ? unknown
+                : NestedValue<T, F>
+            : unknown;
+
+/**
+ * Window function argument: a field path or an expression
+ */
+export type WindowArgument<T> = (QueryablePaths<T> & string) | Expression<any>;
+
+/**
+ * Operand of the builder's arithmetic helpers: a field path, an expression
+ * or a number
+ */
+export type ArithmeticOperand<T> = WindowArgument<T> | number;
+
+export type WindowOrder =
+    string | { field: string; direction?: 'asc' | 'desc' };
+
+export interface WindowOptions {
+    partitionBy?: string | string[];
+    orderBy?: WindowOrder | WindowOrder[];
+    frame?: Partial<WindowFrame>;
+}
+
+export class Expression<V = unknown> {
+    // Phantom member carrying the value type; never set at runtime
+    declare readonly valueType?: V;
+
+    constructor(readonly node: ExpressionNode) {}
+
+    // Name the expression so select() can return it
+    as<const K extends string>(alias: K): AliasedExpression<V, K> {
+        assertOutputField(alias, 'select()');
+        return new AliasedExpression(alias, this.node);
+    }
+
+    // Arithmetic; division is never truncated to an integer
+    add(operand: Operand): Expression<number> {
+        return this.apply('+', operand);
+    }
+
+    sub(operand: Operand): Expression<number> {
+        return this.apply('-', operand);
+    }
+
+    mul(operand: Operand): Expression<number> {
+        return this.apply('*', operand);
+    }
+
+    div(operand: Operand): Expression<number> {
+        return this.apply('/', operand);
+    }
+
+    mod(operand: Operand): Expression<number> {
+        return this.apply('%', operand);
+    }
+
+    concat(...operands: Operand[]): Expression<string> {
+        return this.apply('||', ...operands);
+    }
+
+    // Comparisons and logic
+    eq(operand: Operand): Expression<boolean> {
+        return this.apply('=', operand);
+    }
+
+    neq(operand: Operand): Expression<boolean> {
+        return this.apply('!=', operand);
+    }
+
+    gt(operand: Operand): Expression<boolean> {
+        return this.apply('>', operand);
+    }
+
+    gte(operand: Operand): Expression<boolean> {
+        return this.apply('>=', operand);
+    }
+
+    lt(operand: Operand): Expression<boolean> {
+        return this.apply('<', operand);
+    }
+
+    lte(operand: Operand): Expression<boolean> {
+        return this.apply('<=', operand);
+    }
+
+    and(condition: Expression<boolean>): Expression<boolean> {
+        return this.apply('AND', condition);
+    }
+
+    or(condition: Expression<boolean>): Expression<boolean> {
+        return this.apply('OR', condition);
+    }
+
+    not(): Expression<boolean> {
+        return this.apply('NOT');
+    }
+
+    isNull(): Expression<boolean> {
+        return this.apply('IS NULL');
+    }
+
+    isNotNull(): Expression<boolean> {
+        return this.apply('IS NOT NULL');
+    }
+
+    private apply<R>(
+        operator: ExpressionOperator,
+        ...operands: Operand[]
+    ): Expression<R> {
+        return new Expression<R>({
+            kind: 'operator',
+            operator,
+            args: [this.node, ...operands.map(toExpressionNode)],
+        });
+    }
+}
+
+/**
+ * A window or aggregate function. Ranking functions always run over a
+ * window (the whole result when `over()` is not called); sum, avg, min,
+ * max and count without `over()` are plain aggregates for groupBy queries.
+ */
+export class WindowExpression<V = unknown> extends Expression<V> {
+    over(options: WindowOptions = {}): Expression<V> {
+        if (this.node.kind !== 'window') {
+            throw new ValidationError('over() requires a window function');
+        }
+        return new Expression<V>({
+            ...this.node,
+            over: buildWindowSpec(options),
+        });
+    }
+}
+
+/**
+ * A named expression, ready to pass to select()
+ */
+export class AliasedExpression<
+    V = unknown,
+    K extends string = string,
+> implements SelectExpression {
+    declare readonly valueType?: V;
+
+    constructor(
+        readonly alias: K,
+        readonly expression: ExpressionNode
+    ) {}
+}
+
+/**
+ * CASE WHEN ... THEN ... ELSE ... END, built one branch at a time
+ */
+export class CaseBuilder<V = never> {
+    constructor(
+        private readonly branches: {
+            when: ExpressionNode;
+            then: ExpressionNode;
+        }[] = []
+    ) {}
+
+    when<const R extends Operand>(
+        condition: Expression<boolean>,
+        then: R
+    ): CaseBuilder<V | OperandValue<R>> {
+        return new CaseBuilder<V | OperandValue<R>>([
+            ...this.branches,
+            { when: condition.node, then: toExpressionNode(then) },
+        ]);
+    }
+
+    else<const R extends Operand>(value: R): Expression<V | OperandValue<R>> {
+        return this.build(toExpressionNode(value));
+    }
+
+    // No ELSE: unmatched rows get null
+    end(): Expression<V | null> {
+        return this.build();
+    }
+
+    private build<R>(otherwise?: ExpressionNode): Expression<R> {
+        if (this.branches.length === 0) {
+            throw new ValidationError('case() needs at least one when()');
+        }
+        return new Expression<R>({
+            kind: 'case',
+            branches: this.branches,
+            ...(otherwise ? { else: otherwise } : {}),
+        });
+    }
+}
+
+/**
+ * Factories for computed select() columns. `select()` passes one typed to
+ * the collection; `expr` is an untyped instance.
+ */
+export class ExpressionBuilder<T = any> {
+    field<K extends QueryablePaths<T>>(path: K): Expression<FieldType<T, K>>;
+    field(path: string): Expression<unknown>;
+    field(path: string): Expression<unknown> {
+        return new Expression(fieldNode(path, 'field()'));
+    }
+
+    value<const L extends Literal>(value: L): Expression<LiteralType<L>> {
+        return new Expression(toExpressionNode(value));
+    }
+
+    // Arithmetic; strings here are field paths, e.g. mul('price', 'qty')
+    add(
+        left: ArithmeticOperand<T>,
+        right: ArithmeticOperand<T>
+    ): Expression<number> {
+        return this.arithmetic('+', left, right);
+    }
+
+    sub(
+        left: ArithmeticOperand<T>,
+        right: ArithmeticOperand<T>
+    ): Expression<number> {
+        return this.arithmetic('-', left, right);
+    }
+
+    mul(
+        left: ArithmeticOperand<T>,
+        right: ArithmeticOperand<T>
+    ): Expression<number> {
+        return this.arithmetic('*', left, right);
+    }
+
+    div(
+        left: ArithmeticOperand<T>,
+        right: ArithmeticOperand<T>
+    ): Expression<number> {
+        return this.arithmetic('/', left, right);
+    }
+
+    mod(
+        left: ArithmeticOperand<T>,
+        right: ArithmeticOperand<T>
+    ): Expression<number> {
+        return this.arithmetic('%', left, right);
+    }
+
+    // Null handling
+    coalesce<const A extends readonly Operand[]>(
+        ...operands: A
+    ): Expression<NonNullable<OperandValue<A[number]>>> {
+        return this.call('coalesce', ...operands);
+    }
+
+    nullif<const O extends Operand>(
+        operand: O,
+        other: Operand
+    ): Expression<OperandValue<O> | null> {
+        return this.call('nullif', operand, other);
+    }
+
+    // Numbers
+    abs(operand: Operand): Expression<number> {
+        return this.call('abs', operand);
+    }
+
+    round(operand: Operand, digits = 0): Expression<number> {
+        return this.call('round', operand, digits);
+    }
+
+    // Strings
+    concat(...operands: Operand[]): Expression<string> {
+        const [first, ...rest] = operands.map(toExpressionNode);
+        if (!first) {
+            throw new ValidationError('concat() needs at least one operand');
+        }
+        return new Expression(first).concat(
+            ...rest.map((node) => new Expression(node))
+        );
+    }
+
+    upper(operand: Operand): Expression<string> {
+        return this.call('upper', operand);
+    }
+
+    lower(operand: Operand): Expression<string> {
+        return this.call('lower', operand);
+    }
+
+    trim(operand: Operand): Expression<string> {
+        return this.call('trim', operand);
+    }
+
+    length(operand: Operand): Expression<number> {
+        return this.call('length', operand);
+    }
+
+    substr(
+        operand: Operand,
+        start: number,
+        length?: number
+    ): Expression<string> {
+        return length === undefined
+            ? this.call('substr', operand, start)
+            : this.call('substr', operand, start, length);
+    }
+
+    replace(
+        operand: Operand,
+        search: Operand,
+        replacement: Operand
+    ): Expression<string> {
+        return this.call('replace', operand, search, replacement);
+    }
+
+    // Dates: fields may hold Date values or ISO strings; modifiers are
+    // SQLite date modifiers like '+1 day' or 'start of month'
+    date(operand: Operand, ...modifiers: string[]): Expression<string> {
+        return this.call('date', operand, ...modifiers);
+    }
+
+    time(operand: Operand, ...modifiers: string[]): Expression<string> {
+        return this.call('time', operand, ...modifiers);
+    }
+
+    datetime(operand: Operand, ...modifiers: string[]): Expression<string> {
+        return this.call('datetime', operand, ...modifiers);
+    }
+
+    julianday(operand: Operand, ...modifiers: string[]): Expression<number> {
+        return this.call('julianday', operand, ...modifiers);
+    }
+
+    unixepoch(operand: Operand, ...modifiers: string[]): Expression<number> {
+        return this.call('unixepoch', operand, ...modifiers);
+    }
+
+    strftime(
+        format: string,
+        operand: Operand,
+        ...modifiers: string[]
+    ): Expression<string> {
+        return this.call('strftime', format, operand, ...modifiers);
+    }
+
+    case(): CaseBuilder {
+        return new CaseBuilder();
+    }
+
+    // Ranking window functions
+    rowNumber(): WindowExpression<number> {
+        return this.window('row_number');
+    }
+
+    rank(): WindowExpression<number> {
+        return this.window('rank');
+    }
+
+    denseRank(): WindowExpression<number> {
+        return this.window('dense_rank');
+    }
+
+    percentRank(): WindowExpression<number> {
+        return this.window('percent_rank');
+    }
+
+    cumeDist(): WindowExpression<number> {
+        return this.window('cume_dist');
+    }
+
+    ntile(buckets: number): WindowExpression<number> {
+        if (!Number.isInteger(buckets) || buckets < 1) {
+            throw new ValidationError('ntile() needs a positive integer');
+        }
+        return this.window('ntile', toExpressionNode(buckets));
+    }
+
+    // Values from other rows of the window
+    lag<K extends WindowArgument<T>>(
+        field: K,
+        offset = 1,
+        defaultValue?: Literal
+    ): WindowExpression<FieldType<T, K> | null> {
+        return this.offsetWindow('lag', field, offset, defaultValue);
+    }
+
+    lead<K extends WindowArgument<T>>(
+        field: K,
+        offset = 1,
+        defaultValue?: Literal
+    ): WindowExpression<FieldType<T, K> | null> {
+        return this.offsetWindow('lead', field, offset, defaultValue);
+    }
+
+    firstValue<K extends WindowArgument<T>>(
+        field: K
+    ): WindowExpression<FieldType<T, K>> {
+        return this.window(
+            'first_value',
+            fieldArgument(field, 'window function')
+        );
+    }
+
+    lastValue<K extends WindowArgument<T>>(
+        field: K
+    ): WindowExpression<FieldType<T, K>> {
+        return this.window(
+            'last_value',
+            fieldArgument(field, 'window function')
+        );
+    }
+
+    nthValue<K extends WindowArgument<T>>(
+        field: K,
+        n: number
+    ): WindowExpression<FieldType<T, K> | null> {
+        if (!Number.isInteger(n) || n < 1) {
+            throw new ValidationError('nthValue() needs a positive integer');
+        }
+        return this.window(
+            'nth_value',
+            fieldArgument(field, 'window function'),
+            toExpressionNode(n)
+        );
+    }
+
+    // Aggregates, over a window once over() is called
+    sum(field: WindowArgument<T>): WindowExpression<number> {
+        return this.window('sum', fieldArgument(field, 'window function'));
+    }
+
+    avg(field: WindowArgument<T>): WindowExpression<number> {
+        return this.window('avg', fieldArgument(field, 'window function'));
+    }
+
+    min<K extends WindowArgument<T>>(
+        field: K
+    ): WindowExpression<FieldType<T, K>> {
+        return this.window('min', fieldArgument(field, 'window function'));
+    }
+
+    max<K extends WindowArgument<T>>(
+        field: K
+    ): WindowExpression<FieldType<T, K>> {
+        return this.window('max', fieldArgument(field, 'window function'));
+    }
+
+    count(field?: WindowArgument<T>): WindowExpression<number> {
+        return field === undefined
+            ? this.window('count')
+            : this.window('count', fieldArgument(field, 'window function'));
+    }
+
+    private call<R>(
+        name: ScalarFunctionName,
+        ...operands: Operand[]
+    ): Expression<R> {
+        return new Expression<R>({
+            kind: 'function',
+            name,
+            args: operands.map(toExpressionNode),
+        });
+    }
+
+    private arithmetic(
+        operator: ExpressionOperator,
+        left: ArithmeticOperand<T>,
+        right: ArithmeticOperand<T>
+    ): Expression<number> {
+        const operand = (value: ArithmeticOperand<T>) =>
+            typeof value === 'number'
+                ? toExpressionNode(value)
+                : fieldArgument(value, 'arithmetic');
+        return new Expression<number>({
+            kind: 'operator',
+            operator,
+            args: [operand(left), operand(right)],
+        });
+    }
+
+    private window<R>(
+        name: WindowFunctionName,
+        ...args: ExpressionNode[]
+    ): WindowExpression<R> {
+        return new WindowExpression<R>({ kind: 'window', name, args });
+    }
+
+    private offsetWindow<R>(
+        name: 'lag' | 'lead',
+        field: WindowArgument<T>,
+        offset: number,
+        defaultValue?: Literal
+    ): WindowExpression<R> {
+        if (!Number.isInteger(offset) || offset < 0) {
+            throw new ValidationError(
+                `${name}() offset must be a non-negative integer`
+            );
+        }
+        const args = [
+            fieldArgument(field, 'window function'),
+            toExpressionNode(offset),
+        ];
+        if (defaultValue !== undefined) {
+            args.push(toExpressionNode(defaultValue));
+        }
+        return this.window(name, ...args);
+    }
+}
+
+export const expr = new ExpressionBuilder();
+
+/**
+ * Reference to a field as a filter value, e.g.
+ * `where('updatedAt').gt(field('createdAt'))`
+ */
+export function field(path: string): Expression<unknown> {
+    return expr.field(path);
+}
+
+/* ───────────── select() result typing ───────────── */
+
+export type SelectItem = string | AliasedExpression<any, string>;
+
+type UnionToIntersection<U> = (
+    U extends any ? (value: U) => void : never
+) extends (value: infer I) => void
+    ? I
+    : never;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type SelectedPath<T, F extends string> = F extends keyof T
+    ? { [P in F]: T[F] }
+    : F extends `${infer Head}.${infer Rest}`
+      ? {
+            [P in Head]: SelectedPath<
+                Head extends keyof T ? NonNullable<T[Head]> : unknown,
+                Rest
+            >;
+        }
+      : { [P in F]: unknown };
+
+type SelectedItem<T, F> =
+    F extends AliasedExpression<infer V, infer K>
+        ? { [P in K]: V }
+        : F extends `${infer Field} as ${infer Key}`
+          ? { [P in Key]: FieldType<T, Field> }
+          : F extends string
+            ? SelectedPath<T, F>
+            : never;
+
+/**
+ * Row shape of a select() query. Dotted paths come back nested; join
+ * queries (typed `any`) keep plain records plus the computed columns.
+ */
+export type SelectResult<T, F extends readonly SelectItem[]> = 0 extends 1 & T
+    ? Record<string, any> &
+          UnionToIntersection<
+              SelectedItem<T, Extract<F[number], AliasedExpression<any, any>>>
+          >
+    : Simplify<UnionToIntersection<SelectedItem<T, F[number]>>>;
+
+/* ───────────── helpers for the translator and result mapping ───────────── */
+
+/**
+ * Expression node for a literal or expression operand
+ */
+export function toExpressionNode(operand: Operand): ExpressionNode {
+    if (operand instanceof Expression) return operand.node;
+    if (operand instanceof Date) {
+        return { kind: 'value', value: operand.toISOString() };
+    }
+    if (operand === undefined || operand === null) {
+        return { kind: 'value', value: null };
+    }
+    if (
+        typeof operand === 'string' ||
+        typeof operand === 'number' ||
+        typeof operand === 'boolean'
+    ) {
+        return { kind: 'value', value: operand };
+    }
+    throw new ValidationError(
+        'Expression operands must be expressions, strings, numbers, booleans, dates or null'
+    );
+}
+
+/**
+ * How a computed column's raw SQLite value is read back: comparisons as
+ * booleans, field values (alone or through lag/lead/first/last/nth value)
+ * as the JSON they are selected as, everything else as is
+ */
+export function getExpressionResultKind(
+    node: ExpressionNode
+): 'boolean' | 'json' | 'value' {
+    if (node.kind === 'field') return 'json';
+    if (
+        node.kind === 'window' &&
+        ['lag', 'lead', 'first_value', 'last_value', 'nth_value'].includes(
+            node.name
+        )
+    ) {
+        return 'json';
+    }
+    if (
+        node.kind === 'operator' &&
+        !['+', '-', '*', '/', '%', '||'].includes(node.operator)
+    ) {
+        return 'boolean';
+    }
+    return 'value';
+}
+
+export function readExpressionValue(node: ExpressionNode, raw: any): any {
+    if (raw === null || raw === undefined) return null;
+    switch (getExpressionResultKind(node)) {
+        case 'boolean':
+            return raw !== 0;
+        case 'json':
+            return typeof raw === 'string' ? parseDoc(raw) : raw;
+        default:
+            return raw;
+    }
+}
+
+export function hasFilterExpression(filter: QueryFilter): boolean {
+    return Boolean(
+        filter.expression || filter.valueExpression || filter.value2Expression
+    );
+}
+
+/**
+ * Copy of an expression with every field path rewritten, including window
+ * partition and order fields
+ */
+export function mapExpressionFields(
+    node: ExpressionNode,
+    map: (field: string) => string
+): ExpressionNode {
+    const mapNode = (child: ExpressionNode) => mapExpressionFields(child, map);
+    switch (node.kind) {
+        case 'field':
+            return { kind: 'field', field: map(node.field) };
+        case 'value':
+            return node;
+        case 'operator':
+        case 'function':
+            return { ...node, args: node.args.map(mapNode) };
+        case 'case':
+            return {
+                kind: 'case',
+                branches: node.branches.map((branch) => ({
+                    when: mapNode(branch.when),
+                    then: mapNode(branch.then),
+                })),
+                ...(node.else ? { else: mapNode(node.else) } : {}),
+            };
+        case 'window':
+            return {
+                ...node,
+                args: node.args.map(mapNode),
+                ...(node.over
+                    ? {
+                          over: {
+                              ...node.over,
+                              partitionBy: node.over.partitionBy?.map(map),
+                              orderBy: node.over.orderBy?.map((order) => ({
+                                  ...order,
+                                  field: map(order.field),
+                              })),
+                          },
+                      }
+                    : {}),
+            };
+    }
+}
+
+function fieldNode(path: string, context: string): ExpressionNode {
+    assertFieldPath(path, context);
+    return { kind: 'field', field: path };
+}
+
+function fieldArgument(
+    field: string | Expression<any>,
+    context: string
+): ExpressionNode {
+    return typeof field === 'string' ? fieldNode(field, context) : field.node;
+}
+
+function buildWindowSpec(options: WindowOptions): WindowSpec {
+    const spec: WindowSpec = {};
+    if (options.partitionBy !== undefined) {
+        spec.partitionBy = ([] as string[]).concat(options.partitionBy);
+        spec.partitionBy.forEach((field) => assertFieldPath(field, 'over()'));
+    }
+    if (options.orderBy !== undefined) {
+        spec.orderBy = ([] as WindowOrder[])
+            .concat(options.orderBy)
+            .map((order) => {
+                const { field, direction = 'asc' } =
+                    typeof order === 'string' ? { field: order } : order;
+                assertFieldPath(field, 'over()');
+                if (direction !== 'asc' && direction !== 'desc') {
+                    throw new ValidationError(
+                        `over() direction for '${field}' must be 'asc' or 'desc'`
+                    );
+                }
+                return { field, direction };
+            });
+    }
+    if (options.frame) {
+        const {
+            unit = 'rows',
+            preceding = 'unbounded',
+            following = 0,
+        } = options.frame;
+        for (const bound of [preceding, following]) {
+            if (
+                bound !== 'unbounded' &&
+                !(Number.isInteger(bound) && bound >= 0)
+            ) {
+                throw new ValidationError(
+                    "Window frame bounds must be non-negative integers or 'unbounded'"
+                );
+            }
+        }
+        if (unit !== 'rows' && unit !== 'range') {
+            throw new ValidationError(
+                "Window frame unit must be 'rows' or 'range'"
+            );
+        }
+        spec.frame = { unit, preceding, following };
+    }
+    return spec;
+}
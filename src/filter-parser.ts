@@ -0,0 +1,532 @@
+import { ValidationError } from './errors';
+import { assertFieldPath } from './aggregation';
+import type { QueryFilter, QueryGroup } from './types';
+
+export type FilterValue = string | number | boolean | null | Date;
+
+/**
+ * Operators allowed on a field. Several operators on one field must all
+ * match.
+ */
+export interface FilterOperators {
+    $eq?: FilterValue;
+    $ne?: FilterValue;
+    $gt?: FilterValue;
+    $gte?: FilterValue;
+    $lt?: FilterValue;
+    $lte?: FilterValue;
+    $in?: readonly FilterValue[];
+    $nin?: readonly FilterValue[];
+    $exists?: boolean;
+    $regex?: string | RegExp;
+    $options?: string; // Regex flags: i, m, s and u
+    $not?: FilterOperators | RegExp;
+    $elemMatch?: Filter | FilterOperators;
+    $size?: number;
+    $all?: readonly FilterValue[];
+}
+
+export type FilterCondition = FilterValue | RegExp | FilterOperators;
+
+/**
+ * Mongo-style filter: fields map to a value (equality) or an operator
+ * object, and `$and` / `$or` / `$nor` combine nested filters
+ */
+export type Filter = {
+    readonly $and?: readonly Filter[];
+    readonly $or?: readonly Filter[];
+    readonly $nor?: readonly Filter[];
+    readonly [field: string]: FilterCondition | readonly Filter[] | undefined;
+};
+
+export interface ParseFilterOptions {
+    // Field paths a filter may use; an entry also allows the paths below it
+    allowedFields?: readonly string[];
+    // Called with every field path, e.g. to check it against a schema
+    validateField?: (field: string) => void;
+    // Accept $regex and regular expression values. Off by default: patterns
+    // run unbounded in JavaScript on every row, so an untrusted one such as
+    // '(a+)+$' can stall the process
+    allowRegex?: boolean;
+}
+
+export interface FindOptions extends ParseFilterOptions {
+    sort?: Record<string, 1 | -1 | 'asc' | 'desc'>;
+    limit?: number;
+    skip?: number;
+    // Either fields to return (1) or fields to leave out (0); _id is
+    // returned unless excluded
+    projection?: Record<string, 0 | 1 | boolean>;
+}
+
+/**
+ * Field name standing for an array element itself inside `$elemMatch`
+ */
+export const ELEMENT_FIELD = '$';
+
+const FIELD_OPERATORS = [
+    '$eq',
+    '$ne',
+    '$gt',
+    '$gte',
+    '$lt',
+    '$lte',
+    '$in',
+    '$nin',
+    '$exists',
+    '$regex',
+    '$options',
+    '$not',
+    '$elemMatch',
+    '$size',
+    '$all',
+];
+
+const COMPARISONS: Record<string, QueryFilter['operator']> = {
+    $gt: 'gt',
+    $gte: 'gte',
+    $lt: 'lt',
+    $lte: 'lte',
+};
+
+/**
+ * Parse a Mongo-style filter into query filters. Unknown operators, field
+ * paths outside `allowedFields`, non-scalar values and, unless `allowRegex`
+ * is set, regular expressions are rejected, so the filter may come from
+ * untrusted input.
+ */
+export function parseFilter(
+    filter: Filter,
+    options: ParseFilterOptions = {}
+): (QueryFilter | QueryGroup)[] {
+    return parseDocument(filter, options, '');
+}
+
+/**
+ * Check a field path against the allowlist, e.g. for sort and projection
+ */
+export function assertAllowedField(
+    field: string,
+    context: string,
+    options: ParseFilterOptions
+): void {
+    assertFieldPath(field, context);
+    const { allowedFields } = options;
+    if (
+        allowedFields &&
+        !allowedFields.some(
+            (allowed) => field === allowed || field.startsWith(`${allowed}.`)
+        )
+    ) {
+        throw new ValidationError(`Field '${field}' is not allowed`);
+    }
+    options.validateField?.(field);
+}
+
+/**
+ * Sort specification of find(), as orderBy entries
+ */
+export function parseSort(
+    sort: FindOptions['sort'],
+    options: ParseFilterOptions
+): { field: string; direction: 'asc' | 'desc' }[] {
+    if (sort === undefined) return [];
+    if (!isPlainObject(sort)) {
+        throw new ValidationError('sort must be an object');
+    }
+    return Object.entries(sort).map(([field, direction]) => {
+        assertAllowedField(field, 'sort', options);
+        if (![1, -1, 'asc', 'desc'].includes(direction)) {
+            throw new ValidationError(
+                `sort for field '${field}' must be 1, -1, 'asc' or 'desc'`
+            );
+        }
+        return {
+            field,
+            direction:
+                direction === -1 || direction === 'desc' ? 'desc' : 'asc',
+        };
+    });
+}
+
+/**
+ * Projection of find(): the fields to select, or those to remove from the
+ * returned documents
+ */
+export function parseProjection(
+    projection: FindOptions['projection'],
+    options: ParseFilterOptions
+): { include?: string[]; exclude: string[] } {
+    if (projection === undefined) return { exclude: [] };
+    if (!isPlainObject(projection)) {
+        throw new ValidationError('projection must be an object');
+    }
+    const include: string[] = [];
+    const exclude: string[] = [];
+    for (const [field, flag] of Object.entries(projection)) {
+        assertAllowedField(field, 'projection', options);
+        if (![0, 1, true, false].includes(flag)) {
+            throw new ValidationError(
+                `projection for field '${field}' must be 0 or 1`
+            );
+        }
+        (flag ? include : exclude).push(field);
+    }
+    const excludesOnlyId = exclude.length === 1 && exclude[0] === '_id';
+    if (include.length > 0 && exclude.length > 0 && !excludesOnlyId) {
+        throw new ValidationError(
+            'projection cannot mix included and excluded fields, except _id'
+        );
+    }
+    if (include.length === 0) return { exclude };
+    if (!excludesOnlyId && !include.includes('_id')) include.unshift('_id');
+    return { include, exclude: [] };
+}
+
+/**
+ * Remove excluded field paths from a document, in place
+ */
+export function excludeFields<D extends Record<string, any>>(
+    doc: D,
+    fields: string[]
+): D {
+    for (const field of fields) {
+        const keys = field.split('.');
+        const last = keys.pop()!;
+        let target: any = doc;
+        for (const key of keys) {
+            target = target?.[key];
+        }
+        if (target && typeof target === 'object') delete target[last];
+    }
+    return doc;
+}
+
+function parseDocument(
+    filter: Filter,
+    options: ParseFilterOptions,
+    scope: string
+): (QueryFilter | QueryGroup)[] {
+    if (!isPlainObject(filter)) {
+        throw new ValidationError('Filter must be an object');
+    }
+    const filters: (QueryFilter | QueryGroup)[] = [];
+
+    for (const [key, condition] of Object.entries(filter)) {
+        if (condition === undefined) continue;
+        if (key === '$and' || key === '$or' || key === '$nor') {
+            if (!Array.isArray(condition) || condition.length === 0) {
+                throw new ValidationError(
+                    `${key} must be a non-empty array of filters`
+                );
+            }
+            const branches = condition.map((nested: Filter) => {
+                const parsed = parseDocument(nested, options, scope);
+                if (parsed.length === 0) {
+                    throw new ValidationError(
+                        `${key} filters must not be empty`
+                    );
+                }
+                return { type: 'and' as const, filters: parsed };
+            });
+            filters.push({
+                type: key === '$and' ? 'and' : key === '$or' ? 'or' : 'nor',
+                filters: branches,
+            });
+            continue;
+        }
+        if (key.startsWith('$')) {
+            throw new ValidationError(`Unknown filter operator '${key}'`);
+        }
+        assertAllowedField(scope + key, 'filter', options);
+        filters.push(
+            ...parseCondition(key, condition as FilterCondition, options, scope)
+        );
+    }
+    return filters;
+}
+
+function parseCondition(
+    field: string,
+    condition: FilterCondition,
+    options: ParseFilterOptions,
+    scope: string
+): (QueryFilter | QueryGroup)[] {
+    if (condition instanceof RegExp) {
+        return [regexFilter(field, condition, undefined, options)];
+    }
+    if (!isPlainObject(condition)) {
+        return [equalityFilter(field, condition, '$eq')];
+    }
+    const operators = condition as FilterOperators;
+
+    const entries = Object.entries(operators).filter(
+        ([, value]) => value !== undefined
+    );
+    const unknown = entries.find(([name]) => !FIELD_OPERATORS.includes(name));
+    if (unknown) {
+        throw new ValidationError(
+            unknown[0].startsWith('$')
+                ? `Unknown filter operator '${unknown[0]}' for field '${field}'`
+                : `Field '${field}' must be compared with a value or operators; use dotted paths for nested fields`
+        );
+    }
+
+    const filters: (QueryFilter | QueryGroup)[] = [];
+    for (const [name, value] of entries) {
+        switch (name) {
+            case '$eq':
+                filters.push(equalityFilter(field, value, name));
+                break;
+            case '$ne':
+                // Like Mongo, documents without the field match too
+                filters.push(
+                    value === null
+                        ? { field, operator: 'exists', value: true }
+                        : {
+                              type: 'or',
+                              filters: [
+                                  {
+                                      field,
+                                      operator: 'neq',
+                                      value: scalar(field, name, value),
+                                  },
+                                  { field, operator: 'exists', value: false },
+                              ],
+                          }
+                );
+                break;
+            case '$gt':
+            case '$gte':
+            case '$lt':
+            case '$lte':
+                if (value === null) {
+                    throw new ValidationError(
+                        `${name} for field '${field}' must not be null`
+                    );
+                }
+                filters.push({
+                    field,
+                    operator: COMPARISONS[name],
+                    value: scalar(field, name, value),
+                });
+                break;
+            case '$in':
+            case '$nin':
+                filters.push(membershipFilter(field, name, value));
+                break;
+            case '$exists':
+                if (typeof value !== 'boolean') {
+                    throw new ValidationError(
+                        `$exists for field '${field}' must be a boolean`
+                    );
+                }
+                filters.push({ field, operator: 'exists', value });
+                break;
+            case '$regex':
+                filters.push(
+                    regexFilter(field, value, operators.$options, options)
+                );
+                break;
+            case '$options':
+                if (operators.$regex === undefined) {
+                    throw new ValidationError(
+                        `$options for field '${field}' requires $regex`
+                    );
+                }
+                break;
+            case '$not':
+                if (!(value instanceof RegExp) && !isPlainObject(value)) {
+                    throw new ValidationError(
+                        `$not for field '${field}' must be an operator object or a regular expression`
+                    );
+                }
+                filters.push({
+                    type: 'nor',
+                    filters: [
+                        {
+                            type: 'and',
+                            filters: parseCondition(
+                                field,
+                                value,
+                                options,
+                                scope
+                            ),
+                        },
+                    ],
+                });
+                break;
+            case '$elemMatch':
+                filters.push(elemMatchFilter(field, value, options, scope));
+                break;
+            case '$size':
+                if (!Number.isInteger(value) || value < 0) {
+                    throw new ValidationError(
+                        `$size for field '${field}' must be a non-negative integer`
+                    );
+                }
+                filters.push({
+                    field: `json_array_length(${field})`,
+                    operator: 'eq',
+                    value,
+                });
+                break;
+            case '$all':
+                if (!Array.isArray(value) || value.length === 0) {
+                    throw new ValidationError(
+                        `$all for field '${field}' must be a non-empty array`
+                    );
+                }
+                for (const item of value) {
+                    filters.push({
+                        field,
+                        operator: 'json_array_contains',
+                        value: scalar(field, name, item),
+                    });
+                }
+                break;
+        }
+    }
+    return filters;
+}
+
+function equalityFilter(
+    field: string,
+    value: unknown,
+    operator: string
+): QueryFilter {
+    return value === null
+        ? { field, operator: 'exists', value: false }
+        : { field, operator: 'eq', value: scalar(field, operator, value) };
+}
+
+function membershipFilter(
+    field: string,
+    operator: '$in' | '$nin',
+    values: unknown
+): QueryFilter | QueryGroup {
+    if (!Array.isArray(values)) {
+        throw new ValidationError(
+            `${operator} for field '${field}' must be an array`
+        );
+    }
+    const present = values
+        .filter((value) => value !== null)
+        .map((value) => scalar(field, operator, value));
+    const withNull = present.length < values.length;
+    const missing: QueryFilter = { field, operator: 'exists', value: false };
+    if (operator === '$in') {
+        const filter: QueryFilter = { field, operator: 'in', value: present };
+        return withNull ? { type: 'or', filters: [filter, missing] } : filter;
+    }
+    // $nin matches documents without the field unless it lists null
+    const filter: QueryFilter = { field, operator: 'nin', value: present };
+    return withNull
+        ? {
+              type: 'and',
+              filters: [filter, { field, operator: 'exists', value: true }],
+          }
+        : { type: 'or', filters: [filter, missing] };
+}
+
+function regexFilter(
+    field: string,
+    pattern: unknown,
+    flags: unknown,
+    options: ParseFilterOptions
+): QueryFilter {
+    if (!options.allowRegex) {
+        throw new ValidationError(
+            `Regular expressions for field '${field}' need the allowRegex option`
+        );
+    }
+    if (!(pattern instanceof RegExp) && typeof pattern !== 'string') {
+        throw new ValidationError(
+            `$regex for field '${field}' must be a string or a regular expression`
+        );
+    }
+    const source = pattern instanceof RegExp ? pattern.source : pattern;
+    const allFlags =
+        (pattern instanceof RegExp ? pattern.flags : '') +
+        (flags === undefined ? '' : String(flags));
+    const uniqueFlags = [...new Set(allFlags)].join('');
+    assertRegex(field, source, uniqueFlags);
+    return { field, operator: 'regex', value: source, value2: uniqueFlags };
+}
+
+/**
+ * Check the pattern and flags of a regex filter
+ */
+export function assertRegex(
+    field: string,
+    source: string,
+    flags: string
+): void {
+    if (!/^[imsu]*$/.test(flags)) {
+        throw new ValidationError(
+            `Unsupported regex flags '${flags}' for field '${field}'; use i, m, s or u`
+        );
+    }
+    try {
+        new RegExp(source, flags);
+    } catch (error) {
+        throw new ValidationError(
+            `Invalid regular expression for field '${field}': ${
+                (error as Error).message
+            }`
+        );
+    }
+}
+
+function elemMatchFilter(
+    field: string,
+    condition: unknown,
+    options: ParseFilterOptions,
+    scope: string
+): QueryFilter {
+    if (!isPlainObject(condition) || Object.keys(condition).length === 0) {
+        throw new ValidationError(
+            `$elemMatch for field '${field}' must be a non-empty object`
+        );
+    }
+    // Operators apply to the element itself, fields to its properties
+    const keys = Object.keys(condition);
+    const onElement = keys.every(
+        (key) => key.startsWith('$') && FIELD_OPERATORS.includes(key)
+    );
+    const elementScope = `${scope}${field}.`;
+    const filters = onElement
+        ? parseCondition(
+              ELEMENT_FIELD,
+              condition as FilterOperators,
+              // The element itself was checked with the array
+              { allowRegex: options.allowRegex },
+              elementScope
+          )
+        : parseDocument(condition as Filter, options, elementScope);
+    return { field, operator: 'elem_match', value: filters };
+}
+
+function scalar(field: string, operator: string, value: unknown): FilterValue {
+    if (
+        typeof value === 'string' ||
+        typeof value === 'boolean' ||
+        value instanceof Date ||
+        (typeof value === 'number' && Number.isFinite(value))
+    ) {
+        return value;
+    }
+    throw new ValidationError(
+        `${operator} for field '${field}' must compare with strings, numbers, booleans or dates`
+    );
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+    return (
+        typeof value === 'object' &&
+        value !== null &&
+        !Array.isArray(value) &&
+        !(value instanceof Date) &&
+        !(value instanceof RegExp)
+    );
+}
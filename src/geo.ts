@@ -0,0 +1,95 @@
+import { ValidationError } from './errors';
+import type { GeoBox, GeoPoint } from './types';
+
+// Mean Earth radius used for haversine distances
+export const EARTH_RADIUS_METERS = 6371008.8;
+
+export function assertLatLng(
+    lat: unknown,
+    lng: unknown,
+    context: string
+): void {
+    if (
+        typeof lat !== 'number' ||
+        typeof lng !== 'number' ||
+        !(lat >= -90 && lat <= 90) ||
+        !(lng >= -180 && lng <= 180)
+    ) {
+        throw new ValidationError(
+            `${context} needs a latitude within ±90 and a longitude within ±180`
+        );
+    }
+}
+
+/**
+ * Storage form of a GEO_POINT value: the point as JSON, or null when the
+ * document has none
+ */
+export function encodeGeoPoint(value: unknown): string | null {
+    if (value === null || value === undefined) return null;
+    const { lat, lng } = value as GeoPoint;
+    assertLatLng(lat, lng, 'A GEO_POINT value');
+    return JSON.stringify({ lat, lng });
+}
+
+/**
+ * Great-circle distance in meters between two points
+ */
+export function haversineDistance(from: GeoPoint, to: GeoPoint): number {
+    const rad = Math.PI / 180;
+    const h =
+        Math.sin(((to.lat - from.lat) * rad) / 2) ** 2 +
+        Math.cos(from.lat * rad) *
+            Math.cos(to.lat * rad) *
+            Math.sin(((to.lng - from.lng) * rad) / 2) ** 2;
+    return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Haversine distance in meters from a point to the GEO_POINT stored in
+ * `column`, with SQLite's math functions; NULL when the row has no point
+ */
+export function buildHaversineSQL(
+    column: string,
+    lat: number,
+    lng: number
+): { sql: string; params: number[] } {
+    const rowLat = `json_extract(${column}, '$.lat')`;
+    const rowLng = `json_extract(${column}, '$.lng')`;
+    return {
+        sql: `(2 * ${EARTH_RADIUS_METERS} * asin(min(1, sqrt(pow(sin(radians(${rowLat} - ?) / 2), 2) + cos(radians(?)) * cos(radians(${rowLat})) * pow(sin(radians(${rowLng} - ?) / 2), 2)))))`,
+        params: [lat, lat, lng],
+    };
+}
+
+/**
+ * Bounding box of every point within `meters` of a point, for the R*Tree
+ * prefilter. Near the poles the box spans all longitudes.
+ */
+export function getRadiusBox(lat: number, lng: number, meters: number): GeoBox {
+    const angle = meters / EARTH_RADIUS_METERS;
+    const deg = 180 / Math.PI;
+    const minLat = lat - angle * deg;
+    const maxLat = lat + angle * deg;
+    if (minLat <= -90 || maxLat >= 90 || angle >= Math.PI / 2) {
+        return {
+            minLat: Math.max(minLat, -90),
+            maxLat: Math.min(maxLat, 90),
+            minLng: -180,
+            maxLng: 180,
+        };
+    }
+    const lngDelta = Math.asin(Math.sin(angle) / Math.cos(lat / deg)) * deg;
+    return {
+        minLat,
+        maxLat,
+        minLng: wrapLongitude(lng - lngDelta),
+        maxLng: wrapLongitude(lng + lngDelta),
+    };
+}
+
+function wrapLongitude(lng: number): number {
+    if (lng < -180) return lng + 360;
+    if (lng > 180) return lng - 360;
+    return lng;
+}
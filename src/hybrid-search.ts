@@ -0,0 +1,72 @@
+import type {
+    FullTextSearchResult,
+    HybridSearchResult,
+    VectorSearchResult,
+} from './types';
+
+export interface FusionOptions {
+    fusion: 'rrf' | 'weighted';
+    weights: { vector: number; text: number };
+    rrfK: number;
+    k: number;
+}
+
+/**
+ * Merge vector and keyword result lists into one ranking.
+ *
+ * rrf: sum of weight / (rrfK + rank) over the lists a document appears in.
+ * weighted: min-max normalize each list (lower distance/bm25 is better) and
+ * blend the normalized scores; a document missing from a list scores 0 there.
+ */
+export function fuseResults<T>(
+    vectorResults: VectorSearchResult<T>[],
+    textResults: FullTextSearchResult<T>[],
+    options: FusionOptions
+): HybridSearchResult<T>[] {
+    const merged = new Map<string, HybridSearchResult<T>>();
+    const entry = (id: string, document: T) => {
+        let result = merged.get(id);
+        if (!result) {
+            result = { document, _id: id, score: 0 };
+            merged.set(id, result);
+        }
+        return result;
+    };
+
+    const vectorScores = normalize(vectorResults.map((r) => r.distance));
+    vectorResults.forEach((r, index) => {
+        const result = entry(r._id, r.document);
+        result.distance = r.distance;
+        result.vectorRank = index + 1;
+        result.score +=
+            options.fusion === 'rrf'
+                ? options.weights.vector / (options.rrfK + index + 1)
+                : options.weights.vector * vectorScores[index];
+    });
+
+    const textScores = normalize(textResults.map((r) => r.score));
+    textResults.forEach((r, index) => {
+        const result = entry(r._id, r.document);
+        result.textScore = r.score;
+        result.textRank = index + 1;
+        result.score +=
+            options.fusion === 'rrf'
+                ? options.weights.text / (options.rrfK + index + 1)
+                : options.weights.text * textScores[index];
+    });
+
+    return Array.from(merged.values())
+        .sort((a, b) => b.score - a.score)
+        .slice(0, options.k);
+}
+
+/**
+ * Map "lower is better" values to [0, 1] where 1 is the best value
+ */
+function normalize(values: number[]): number[] {
+    if (values.length === 0) return [];
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    if (max === min) return values.map(() => 1);
+    return values.map((value) => (max - value) / (max - min));
+}
@@ -1,9 +1,63 @@
 export { createDB, Database } from './database';
 export { Collection } from './collection';
+export { Transaction } from './transaction';
 export { QueryBuilder, FieldBuilder } from './query-builder';
+export type { ExpressionFieldBuilder } from './query-builder';
 export { Migrator } from './migrator';
 export { UpgradeRunner } from './upgrade-runner';
 export type { MigrationInfo, SchemaDiff, MigrationContext } from './migrator';
+export type {
+    ChangeEvent,
+    ChangeCallback,
+    ChangeSubscription,
+} from './change-feed';
+export type { UpdateOperators, UpdateOperatorName } from './update-operators';
+export type { JsonPatchOperation, JsonPatchOperationName } from './json-patch';
+export type {
+    PipelineStage,
+    PipelineStageName,
+    PipelineOutput,
+    StageOutput,
+    AggregateExpression,
+    ExpressionOutput,
+    Accumulator,
+    AccumulatorName,
+    MatchFilter,
+    MatchCondition,
+    FieldReference,
+    UnwindOptions,
+    LookupOptions,
+} from './aggregation';
+export {
+    Expression,
+    WindowExpression,
+    AliasedExpression,
+    CaseBuilder,
+    ExpressionBuilder,
+    expr,
+    field,
+} from './expressions';
+export type {
+    ArithmeticOperand,
+    Operand,
+    Literal,
+    WindowOptions,
+    WindowOrder,
+    SelectItem,
+    SelectResult,
+} from './expressions';
+export type {
+    Filter,
+    FilterCondition,
+    FilterOperators,
+    FilterValue,
+    FindOptions,
+    ParseFilterOptions,
+} from './filter-parser';
+export { QUERY_JSON_VERSION } from './query-serializer';
+export { haversineDistance } from './geo';
+export type { SerializedQuery, QueryJSONOptions } from './query-serializer';
+export type { PaginateOptions, PageInfo, Page } from './cursor';
 export type { 
     UpgradeContext, 
     UpgradeFunction, 
@@ -19,14 +73,50 @@ export {
     DatabaseError,
     PluginError,
     PluginTimeoutError,
+    ConflictError,
 } from './errors';
+export type { RevisionConflict } from './errors';
 export type {
     DBConfig,
     Driver,
+    TransactionMode,
+    TransactionOptions,
+    TransactionBackoff,
+    TransactionRetryInfo,
     CollectionSchema,
+    WriteOptions,
+    PurgeDeletedOptions,
+    HistoryOptions,
+    HistoryOperation,
+    HistoryEntry,
+    TTLOption,
+    TTLSweepOptions,
     InferSchema,
     QueryFilter,
     QueryOptions,
+    QueryCursor,
+    Collation,
+    OrderByClause,
+    ExpressionNode,
+    WindowSpec,
+    WindowFrame,
+    SelectExpression,
+    FullTextSearchOptions,
+    FullTextSearchResult,
+    HybridSearchOptions,
+    HybridSearchResult,
+    VectorSearchOptions,
+    VectorSearchResult,
+    VectorDistance,
+    NearestToOptions,
+    GeoPoint,
+    GeoBox,
+    GeoNearestOptions,
+    RelationDefinition,
+    BelongsToRelation,
+    HasManyRelation,
+    ManyToManyRelation,
+    PopulateClause,
     ConstrainedFieldDefinition,
 } from './types';
 
@@ -0,0 +1,211 @@
+import { ValidationError } from './errors';
+import { getZodTypeForPath } from './constrained-fields';
+import { SchemaSQLGenerator } from './schema-sql-generator';
+import { hasFilterExpression, mapExpressionFields } from './expressions';
+import type {
+    CollectionSchema,
+    ExpressionNode,
+    JoinClause,
+    QueryFilter,
+    QueryGroup,
+    QueryOptions,
+    SubqueryFilter,
+} from './types';
+
+/**
+ * Looks up the registered schema of a collection by name
+ */
+export type SchemaLookup = (collection: string) => CollectionSchema | undefined;
+
+interface ScopeTable {
+    name: string; // Alias, or the collection name when not aliased
+    schema?: CollectionSchema;
+}
+
+/**
+ * Name a joined table is referenced by in SQL and in qualified fields
+ */
+export function getJoinName(join: JoinClause): string {
+    return join.alias || join.collection;
+}
+
+/**
+ * Split a select entry of the form '<field> as <key>' into its parts
+ */
+export function parseSelectField(entry: string): { field: string; key?: string } {
+    const match = entry.match(/^(.+?)\s+as\s+(\w+)$/i);
+    return match ? { field: match[1].trim(), key: match[2] } : { field: entry };
+}
+
+/**
+ * Output columns an orderBy field may name instead of a document field:
+ * '<field> as <key>' select keys, computed select() columns and aggregate
+ * aliases
+ */
+export function getOutputAliases(options: QueryOptions): Set<string> {
+    const aliases = new Set<string>();
+    for (const entry of options.selectFields || []) {
+        const { key } = parseSelectField(entry);
+        if (key !== undefined) aliases.add(key);
+    }
+    for (const { alias } of options.selectExpressions || []) {
+        aliases.add(alias);
+    }
+    for (const { alias } of options.aggregates || []) {
+        if (alias !== undefined) aliases.add(alias);
+    }
+    return aliases;
+}
+
+/**
+ * Qualify every bare field of a join query with the table that declares it.
+ * Ownership comes from each registered schema's Zod shape and constrained
+ * fields; a bare field declared by several tables is ambiguous. Bare `_id`
+ * and fields no schema declares stay on the main table. Joined clauses are
+ * returned with their registered constrainedFields, softDelete and ttl
+ * column attached.
+ */
+export function resolveJoinFields(
+    tableName: string,
+    options: QueryOptions,
+    lookup?: SchemaLookup
+): QueryOptions {
+    if (!options.joins || options.joins.length === 0) {
+        return options;
+    }
+
+    const joins = options.joins.map((join) => {
+        const schema = lookup?.(join.collection);
+        if (!schema) return join;
+        return {
+            ...join,
+            constrainedFields:
+                join.constrainedFields || schema.constrainedFields || {},
+            softDelete: join.softDelete ?? schema.softDelete,
+            ttlColumn:
+                join.ttlColumn ??
+                (schema.ttl !== undefined
+                    ? SchemaSQLGenerator.getTTLColumn(schema.ttl)
+                    : undefined),
+        };
+    });
+
+    const scope: ScopeTable[] = [
+        { name: tableName, schema: lookup?.(tableName) },
+        ...joins.map((join) => ({
+            name: getJoinName(join),
+            schema: lookup?.(join.collection),
+        })),
+    ];
+    const seen = new Set<string>();
+    for (const table of scope) {
+        if (seen.has(table.name)) {
+            throw new ValidationError(
+                `Table '${table.name}' appears more than once in the query; give the join an alias`
+            );
+        }
+        seen.add(table.name);
+    }
+
+    const resolve = (field: string): string => {
+        if (field === '*' || field === '_id' || field.includes('(')) {
+            return field;
+        }
+        const head = field.split('.')[0];
+        if (field.includes('.') && seen.has(head)) {
+            return field; // Already qualified
+        }
+
+        const owners = scope.filter((table) => declaresField(table.schema, head));
+        if (owners.length > 1) {
+            throw new ValidationError(
+                `Field '${field}' is ambiguous between ${owners
+                    .map((table) => table.name)
+                    .join(', ')}; qualify it as <table>.${field}`
+            );
+        }
+        return owners.length === 1 && owners[0].name !== tableName
+            ? `${owners[0].name}.${field}`
+            : field;
+    };
+
+    const aliases = getOutputAliases(options);
+    const resolveFilter = (
+        filter: QueryFilter | SubqueryFilter
+    ): QueryFilter | SubqueryFilter => {
+        if ('subquery' in filter || !hasFilterExpression(filter)) {
+            return { ...filter, field: resolve(filter.field) };
+        }
+        const mapNode = (node?: ExpressionNode) =>
+            node && mapExpressionFields(node, resolve);
+        return {
+            ...filter,
+            field: filter.expression ? filter.field : resolve(filter.field),
+            expression: mapNode(filter.expression),
+            valueExpression: mapNode(filter.valueExpression),
+            value2Expression: mapNode(filter.value2Expression),
+        };
+    };
+
+    const resolveFilters = (
+        filters: (QueryFilter | QueryGroup | SubqueryFilter)[]
+    ): (QueryFilter | QueryGroup | SubqueryFilter)[] =>
+        filters.map((filter) =>
+            'type' in filter
+                ? { ...filter, filters: resolveFilters(filter.filters) }
+                : resolveFilter(filter)
+        );
+
+    return {
+        ...options,
+        joins,
+        filters: resolveFilters(options.filters),
+        orderBy: options.orderBy?.map((order) => ({
+            ...order,
+            field: aliases.has(order.field) ? order.field : resolve(order.field),
+        })),
+        groupBy: options.groupBy?.map(resolve),
+        selectFields: options.selectFields?.map((entry) => {
+            const { field, key } = parseSelectField(entry);
+            return key ? `${resolve(field)} as ${key}` : resolve(field);
+        }),
+        aggregates: options.aggregates?.map((agg) => ({
+            ...agg,
+            field: resolve(agg.field),
+        })),
+        selectExpressions: options.selectExpressions?.map((selected) => ({
+            ...selected,
+            expression: mapExpressionFields(selected.expression, resolve),
+        })),
+    };
+}
+
+function declaresField(
+    schema: CollectionSchema | undefined,
+    field: string
+): boolean {
+    if (!schema) return false;
+    if (
+        Object.keys(schema.constrainedFields || {}).some(
+            (path) => path.split('.')[0] === field
+        )
+    ) {
+        return true;
+    }
+    return getZodTypeForPath(schema.schema, field) !== null;
+}
+
+/**
+ * Whether a query uses RIGHT or FULL joins, which SQLite supports natively
+ * only from 3.39.0
+ */
+export function usesOuterJoins(options: QueryOptions): boolean {
+    return !!options.joins?.some(
+        (join) => join.type === 'RIGHT' || join.type === 'FULL'
+    );
+}
+
+export function supportsOuterJoins(sqliteVersion: string): boolean {
+    const [major, minor] = sqliteVersion.split('.').map(Number);
+    return major > 3 || (major === 3 && minor >= 39);
+}
@@ -0,0 +1,314 @@
+import { ValidationError } from './errors';
+import { cloneValue, valuesEqual } from './update-operators';
+
+/**
+ * RFC 6902 JSON Patch operations
+ */
+export type JsonPatchOperation =
+    | { op: 'add'; path: string; value: any }
+    | { op: 'remove'; path: string }
+    | { op: 'replace'; path: string; value: any }
+    | { op: 'move'; from: string; path: string }
+    | { op: 'copy'; from: string; path: string }
+    | { op: 'test'; path: string; value: any };
+
+export type JsonPatchOperationName = JsonPatchOperation['op'];
+
+export const JSON_PATCH_OPERATIONS: JsonPatchOperationName[] = [
+    'add',
+    'remove',
+    'replace',
+    'move',
+    'copy',
+    'test',
+];
+
+/**
+ * Split an RFC 6901 JSON Pointer into unescaped reference tokens
+ */
+export function parseJsonPointer(pointer: string): string[] {
+    if (typeof pointer !== 'string') {
+        throw new ValidationError('JSON Pointer must be a string');
+    }
+    if (pointer === '') return [];
+    if (!pointer.startsWith('/')) {
+        throw new ValidationError(
+            `Invalid JSON Pointer '${pointer}': must start with '/'`
+        );
+    }
+    return pointer
+        .slice(1)
+        .split('/')
+        .map((token) => {
+            if (token === '__proto__') {
+                throw new ValidationError(
+                    `Invalid JSON Pointer '${pointer}': '__proto__' is not allowed`
+                );
+            }
+            return token.replace(/~1/g, '/').replace(/~0/g, '~');
+        });
+}
+
+/**
+ * Build a JSON Pointer from reference tokens
+ */
+export function toJsonPointer(tokens: string[]): string {
+    return tokens
+        .map((token) => `/${token.replace(/~/g, '~0').replace(/\//g, '~1')}`)
+        .join('');
+}
+
+/**
+ * Check operation names and their members.
+ * Throws a ValidationError on the first problem found.
+ */
+export function validateJsonPatch(patch: JsonPatchOperation[]): void {
+    if (!Array.isArray(patch)) {
+        throw new ValidationError('JSON Patch must be an array of operations');
+    }
+    patch.forEach((operation: any, index) => {
+        if (!operation || typeof operation !== 'object') {
+            throw new ValidationError(
+                `JSON Patch operation ${index} must be an object`
+            );
+        }
+        if (!JSON_PATCH_OPERATIONS.includes(operation.op)) {
+            throw new ValidationError(
+                `JSON Patch operation ${index} has unknown op '${operation.op}'`
+            );
+        }
+        parseJsonPointer(operation.path);
+        if (
+            (operation.op === 'add' ||
+                operation.op === 'replace' ||
+                operation.op === 'test') &&
+            !('value' in operation)
+        ) {
+            throw new ValidationError(
+                `JSON Patch operation ${index} ('${operation.op}') requires a value`
+            );
+        }
+        if (operation.op === 'move' || operation.op === 'copy') {
+            if (typeof operation.from !== 'string') {
+                throw new ValidationError(
+                    `JSON Patch operation ${index} ('${operation.op}') requires from`
+                );
+            }
+            parseJsonPointer(operation.from);
+        }
+    });
+}
+
+/**
+ * Apply a JSON Patch to a copy of a document. Operations apply in order
+ * and the patch fails as a whole: a failed `test` or a missing path throws
+ * a ValidationError and the input is left untouched.
+ */
+export function applyJsonPatch<T>(doc: T, patch: JsonPatchOperation[]): T {
+    validateJsonPatch(patch);
+
+    let result: any = cloneValue(doc);
+    patch.forEach((operation, index) => {
+        const fail = (reason: string): never => {
+            throw new ValidationError(
+                `JSON Patch operation ${index} ('${operation.op}' at '${operation.path}') failed: ${reason}`
+            );
+        };
+        const path = parseJsonPointer(operation.path);
+
+        switch (operation.op) {
+            case 'add':
+                result = addValue(
+                    result,
+                    path,
+                    cloneValue(operation.value),
+                    fail
+                );
+                break;
+            case 'remove':
+                result = removeValue(result, path, fail);
+                break;
+            case 'replace':
+                removeValue(result, path, fail);
+                result = addValue(
+                    result,
+                    path,
+                    cloneValue(operation.value),
+                    fail
+                );
+                break;
+            case 'move': {
+                const from = parseJsonPointer(operation.from);
+                if (
+                    from.length < path.length &&
+                    from.every((token, i) => token === path[i])
+                ) {
+                    fail(`cannot move '${operation.from}' into itself`);
+                }
+                const value = getValue(result, from, fail);
+                result = removeValue(result, from, fail);
+                result = addValue(result, path, value, fail);
+                break;
+            }
+            case 'copy': {
+                const from = parseJsonPointer(operation.from);
+                const value = cloneValue(getValue(result, from, fail));
+                result = addValue(result, path, value, fail);
+                break;
+            }
+            case 'test':
+                if (
+                    !valuesEqual(getValue(result, path, fail), operation.value)
+                ) {
+                    fail('value does not match');
+                }
+                break;
+        }
+    });
+    return result as T;
+}
+
+/**
+ * The patch that turns `previous` into `next`. Objects are compared key by
+ * key; arrays and other values that differ are replaced whole.
+ */
+export function diffDocuments(previous: any, next: any): JsonPatchOperation[] {
+    const patch: JsonPatchOperation[] = [];
+    diffValues(previous, next, [], patch);
+    return patch;
+}
+
+/**
+ * Dot paths touched by a patch, in patch order without duplicates
+ */
+export function getPatchedFields(patch: JsonPatchOperation[]): string[] {
+    const fields = new Set<string>();
+    for (const operation of patch) {
+        if (operation.op === 'test') continue;
+        if (operation.op === 'move') {
+            fields.add(parseJsonPointer(operation.from).join('.'));
+        }
+        fields.add(parseJsonPointer(operation.path).join('.'));
+    }
+    return [...fields];
+}
+
+function diffValues(
+    previous: any,
+    next: any,
+    path: string[],
+    patch: JsonPatchOperation[]
+): void {
+    if (valuesEqual(previous, next)) return;
+    if (!isPlainObject(previous) || !isPlainObject(next)) {
+        patch.push({
+            op: 'replace',
+            path: toJsonPointer(path),
+            value: cloneValue(next),
+        });
+        return;
+    }
+
+    for (const key of Object.keys(previous)) {
+        if (previous[key] !== undefined && next[key] === undefined) {
+            patch.push({ op: 'remove', path: toJsonPointer([...path, key]) });
+        }
+    }
+    for (const key of Object.keys(next)) {
+        if (next[key] === undefined) continue;
+        if (previous[key] === undefined) {
+            patch.push({
+                op: 'add',
+                path: toJsonPointer([...path, key]),
+                value: cloneValue(next[key]),
+            });
+        } else {
+            diffValues(previous[key], next[key], [...path, key], patch);
+        }
+    }
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+    return (
+        !!value &&
+        typeof value === 'object' &&
+        !Array.isArray(value) &&
+        !(value instanceof Date)
+    );
+}
+
+function hasOwn(object: Record<string, any>, key: string): boolean {
+    return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+function arrayIndex(
+    array: any[],
+    token: string,
+    allowEnd: boolean,
+    fail: (reason: string) => never
+): number {
+    if (allowEnd && token === '-') return array.length;
+    if (!/^(0|[1-9][0-9]*)$/.test(token)) {
+        fail(`'${token}' is not an array index`);
+    }
+    const index = Number(token);
+    if (index > array.length || (!allowEnd && index === array.length)) {
+        fail(`index ${index} is out of bounds`);
+    }
+    return index;
+}
+
+function getValue(
+    doc: any,
+    path: string[],
+    fail: (reason: string) => never
+): any {
+    let current = doc;
+    for (const token of path) {
+        if (Array.isArray(current)) {
+            current = current[arrayIndex(current, token, false, fail)];
+        } else if (isPlainObject(current) && hasOwn(current, token)) {
+            current = current[token];
+        } else {
+            fail('path does not exist');
+        }
+    }
+    return current;
+}
+
+function addValue(
+    doc: any,
+    path: string[],
+    value: any,
+    fail: (reason: string) => never
+): any {
+    if (path.length === 0) return value;
+    const parent = getValue(doc, path.slice(0, -1), fail);
+    const token = path[path.length - 1]!;
+    if (Array.isArray(parent)) {
+        parent.splice(arrayIndex(parent, token, true, fail), 0, value);
+    } else if (isPlainObject(parent)) {
+        parent[token] = value;
+    } else {
+        fail('parent is not an object or array');
+    }
+    return doc;
+}
+
+function removeValue(
+    doc: any,
+    path: string[],
+    fail: (reason: string) => never
+): any {
+    if (path.length === 0) return undefined;
+    const parent = getValue(doc, path.slice(0, -1), fail);
+    const token = path[path.length - 1]!;
+    if (Array.isArray(parent)) {
+        parent.splice(arrayIndex(parent, token, false, fail), 1);
+    } else if (isPlainObject(parent) && hasOwn(parent, token)) {
+        delete parent[token];
+    } else {
+        fail('path does not exist');
+    }
+    return doc;
+}
@@ -1,26 +1,29 @@
 import { fieldPathToColumnName } from './constrained-fields';
 
 export function stringifyDoc(doc: any): string {
-    const transformDates = (obj: any): any => {
-        if (obj instanceof Date) {
-            return { __type: 'Date', value: obj.toISOString() };
-        }
-        if (Array.isArray(obj)) {
-            return obj.map(transformDates);
-        }
-        if (obj !== null && typeof obj === 'object') {
-            const transformed: any = {};
-            for (const key in obj) {
-                if (obj.hasOwnProperty(key)) {
-                    transformed[key] = transformDates(obj[key]);
-                }
+    return JSON.stringify(encodeDates(doc));
+}
+
+/**
+ * Copy of a value with every Date replaced by its `{ __type: 'Date' }` tag
+ */
+export function encodeDates(value: any): any {
+    if (value instanceof Date) {
+        return { __type: 'Date', value: value.toISOString() };
+    }
+    if (Array.isArray(value)) {
+        return value.map(encodeDates);
+    }
+    if (value !== null && typeof value === 'object') {
+        const transformed: any = {};
+        for (const key in value) {
+            if (value.hasOwnProperty(key)) {
+                transformed[key] = encodeDates(value[key]);
             }
-            return transformed;
         }
-        return obj;
-    };
-
-    return JSON.stringify(transformDates(doc));
+        return transformed;
+    }
+    return value;
 }
 
 export function parseDoc(json: string): any {
@@ -305,7 +305,6 @@ export class Migrator {
             return;
         }
 
-        // Check if we're already in a transaction to avoid nested transaction issues
         const runMigrationOperations = async () => {
             // 1. Run automatic schema migrations (ALTER TABLE)
             await this.runMigration(name, storedVersion, version, diff);
@@ -323,15 +322,8 @@ export class Migrator {
             }
         };
 
-        // Check if driver has transaction state tracking and use it
-        const transactionDriver = this.driver as any;
-        if (transactionDriver.isInTransaction) {
-            // We're already in a transaction, run operations directly
-            await runMigrationOperations();
-        } else {
-            // Not in a transaction, wrap in transaction for safety
-            await this.driver.transaction(runMigrationOperations);
-        }
+        // Inside an open transaction this becomes a savepoint
+        await this.driver.transaction(runMigrationOperations);
         
         const hasChanges = diff.alters.length > 0 || upgrade || (storedVersion === 0 && seed);
         if (hasChanges) {
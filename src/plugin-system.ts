@@ -1,5 +1,6 @@
 import type { z } from 'zod';
 import type { Row, CollectionSchema } from './types';
+import type { JsonPatchOperation } from './json-patch';
 import { PluginError, PluginTimeoutError } from './errors';
 
 export interface PluginContext {
@@ -9,6 +10,13 @@ export interface PluginContext {
     data?: any;
     result?: any;
     error?: Error;
+    // Single-document updates: the stored document before the write, and the
+    // RFC 6902 patch (and its dot paths) from it to data, or to result after.
+    // Unset for putBulk and updateMany, whose data describes the whole batch,
+    // and for restore; upserts fire insert hooks only
+    previous?: any;
+    patch?: JsonPatchOperation[];
+    changedFields?: string[];
 }
 
 export interface PluginSystemOptions {
@@ -36,6 +44,8 @@ export interface Plugin {
     onBeforeTransaction?(context: PluginContext): Promise<void> | void;
     onAfterTransaction?(context: PluginContext): Promise<void> | void;
     onTransactionError?(context: PluginContext): Promise<void> | void;
+    // Before a transaction is replayed after a busy error; data.attempts is the upcoming attempt
+    onTransactionRetry?(context: PluginContext): Promise<void> | void;
     
     // Database lifecycle
     onDatabaseInit?(context: Omit<PluginContext, 'collectionName' | 'schema'>): Promise<void> | void;
@@ -23,6 +23,13 @@ export interface CollectionMetrics {
     queries: OperationMetrics;
 }
 
+export interface TransactionMetrics {
+    committed: number;
+    failed: number;
+    retries: number; // Replays after busy errors
+    retriedTransactions: number; // Committed transactions that needed at least one retry
+}
+
 export class MetricsPlugin implements Plugin {
     name = 'metrics';
     version = '1.0.0';
@@ -30,6 +37,7 @@ export class MetricsPlugin implements Plugin {
     private options: Required<MetricsOptions>;
     private metrics = new Map<string, CollectionMetrics>();
     private operationStartTimes = new Map<string, number>();
+    private transactionMetrics = this.createTransactionMetrics();
     
     constructor(options: MetricsOptions = {}) {
         this.options = {
@@ -68,6 +76,15 @@ export class MetricsPlugin implements Plugin {
         };
     }
     
+    private createTransactionMetrics(): TransactionMetrics {
+        return {
+            committed: 0,
+            failed: 0,
+            retries: 0,
+            retriedTransactions: 0
+        };
+    }
+    
     private updateOperationMetrics(metrics: OperationMetrics, duration?: number): void {
         metrics.count++;
         
@@ -204,6 +221,27 @@ export class MetricsPlugin implements Plugin {
         }
     }
     
+    async onAfterTransaction(context: PluginContext): Promise<void> {
+        if (this.options.trackOperations) {
+            this.transactionMetrics.committed++;
+            if (context.data?.attempts > 1) {
+                this.transactionMetrics.retriedTransactions++;
+            }
+        }
+    }
+    
+    async onTransactionRetry(): Promise<void> {
+        if (this.options.trackOperations) {
+            this.transactionMetrics.retries++;
+        }
+    }
+    
+    async onTransactionError(): Promise<void> {
+        if (this.options.trackErrors) {
+            this.transactionMetrics.failed++;
+        }
+    }
+    
     // Public methods for accessing metrics
     getMetrics(collectionName?: string): Map<string, CollectionMetrics> | CollectionMetrics | undefined {
         if (collectionName) {
@@ -230,9 +268,14 @@ export class MetricsPlugin implements Plugin {
         };
     }
     
+    getTransactionMetrics(): TransactionMetrics {
+        return { ...this.transactionMetrics };
+    }
+    
     resetMetrics(): void {
         this.metrics.clear();
         this.operationStartTimes.clear();
+        this.transactionMetrics = this.createTransactionMetrics();
     }
     
     resetCollection(collectionName: string): void {
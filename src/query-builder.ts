@@ -5,138 +5,252 @@ import type {
     AggregateField, 
     JoinClause, 
     JoinCondition,
-    SubqueryFilter 
+    SubqueryFilter,
+    NearestToOptions,
+    PopulateClause,
+    PopulatedDocument,
+    AnyRelationValues,
+    SelectExpression,
+    Collation,
+    GeoNearestOptions
 } from './types';
 import type { 
     QueryablePaths, 
     OrderablePaths, 
     NestedValue, 
-    SafeNestedPaths 
+    SafeNestedPaths,
+    ArrayElementAt
 } from './types/nested-paths';
-
-export class FieldBuilder<T, K extends QueryablePaths<T> | string> {
-    constructor(protected field: K, protected builder: QueryBuilder<T>) {}
+import { decodeCursor } from './cursor';
+import {
+    AliasedExpression,
+    Expression,
+    ExpressionBuilder,
+    hasFilterExpression,
+    type SelectItem,
+    type SelectResult,
+} from './expressions';
+import {
+    assertRegex,
+    parseFilter,
+    type Filter,
+    type ParseFilterOptions,
+} from './filter-parser';
+import {
+    deserializeQuery,
+    serializeQuery,
+    type QueryJSONOptions,
+    type SerializedQuery,
+} from './query-serializer';
+import { ValidationError } from './errors';
+import { assertCollatedOperator, assertCollation } from './string-functions';
+import { assertLatLng } from './geo';
+
+// Operators whose values may be fields or expressions, and those also
+// available after where(expression)
+const EXPRESSION_VALUE_OPERATORS = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'between'];
+const EXPRESSION_FILTER_OPERATORS = [...EXPRESSION_VALUE_OPERATORS, 'in', 'nin', 'exists'];
+
+/**
+ * Filter operators available on a computed value, see where(expression)
+ */
+export type ExpressionFieldBuilder<T, Rel = AnyRelationValues> = Pick<
+    FieldBuilder<T, any, Rel>,
+    'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'between' | 'in' | 'nin' | 'exists' | 'notExists'
+>;
+
+export class FieldBuilder<T, K extends QueryablePaths<T> | string, Rel = AnyRelationValues> {
+    protected collation?: Collation;
+
+    constructor(protected field: K, protected builder: QueryBuilder<T, Rel>) {}
 
     protected addFilterAndReturn(
         operator: any,
         value: any,
         value2?: any
-    ): QueryBuilder<T> {
+    ): QueryBuilder<T, Rel> {
         const newBuilder = this.builder.addFilter(
             this.field as string,
             operator,
             value,
-            value2
+            value2,
+            this.collation
         );
         return newBuilder;
     }
 
+    // Unicode-aware comparison for the next operator, e.g.
+    // collate('nocase_noaccent').eq('eloise') matches 'Éloïse'
+    collate(collation: Collation): this {
+        assertCollation(collation);
+        return Object.assign(Object.create(Object.getPrototypeOf(this)), this, {
+            collation,
+        });
+    }
+
     // Equality operators
-    eq(value: any): QueryBuilder<T> {
+    eq(value: any): QueryBuilder<T, Rel> {
         return this.addFilterAndReturn('eq', value);
     }
 
-    neq(value: any): QueryBuilder<T> {
+    neq(value: any): QueryBuilder<T, Rel> {
         return this.addFilterAndReturn('neq', value);
     }
 
     // Comparison operators
-    gt(value: any): QueryBuilder<T> {
+    gt(value: any): QueryBuilder<T, Rel> {
         return this.addFilterAndReturn('gt', value);
     }
 
-    gte(value: any): QueryBuilder<T> {
+    gte(value: any): QueryBuilder<T, Rel> {
         return this.addFilterAndReturn('gte', value);
     }
 
-    lt(value: any): QueryBuilder<T> {
+    lt(value: any): QueryBuilder<T, Rel> {
         return this.addFilterAndReturn('lt', value);
     }
 
-    lte(value: any): QueryBuilder<T> {
+    lte(value: any): QueryBuilder<T, Rel> {
         return this.addFilterAndReturn('lte', value);
     }
 
     // Range operators
-    between(min: any, max: any): QueryBuilder<T> {
+    between(min: any, max: any): QueryBuilder<T, Rel> {
         return this.addFilterAndReturn('between', min, max);
     }
 
     // Array operators
-    in(values: any[]): QueryBuilder<T> {
+    in(values: any[]): QueryBuilder<T, Rel> {
         return this.addFilterAndReturn('in', values);
     }
 
-    nin(values: any[]): QueryBuilder<T> {
+    nin(values: any[]): QueryBuilder<T, Rel> {
         return this.addFilterAndReturn('nin', values);
     }
 
     // String operators (for string fields)
-    like(pattern: string): QueryBuilder<T> {
+    like(pattern: string): QueryBuilder<T, Rel> {
         return this.addFilterAndReturn('like', pattern);
     }
 
-    ilike(pattern: string): QueryBuilder<T> {
+    ilike(pattern: string): QueryBuilder<T, Rel> {
         return this.addFilterAndReturn('ilike', pattern);
     }
 
-    startsWith(prefix: string): QueryBuilder<T> {
+    startsWith(prefix: string): QueryBuilder<T, Rel> {
         return this.addFilterAndReturn('startswith', prefix);
     }
 
-    endsWith(suffix: string): QueryBuilder<T> {
+    endsWith(suffix: string): QueryBuilder<T, Rel> {
         return this.addFilterAndReturn('endswith', suffix);
     }
 
-    contains(substring: string): QueryBuilder<T> {
+    contains(substring: string): QueryBuilder<T, Rel> {
         return this.addFilterAndReturn('contains', substring);
     }
 
+    // JavaScript regular expression; flags are limited to i, m, s and u
+    regex(pattern: string | RegExp, flags?: string): QueryBuilder<T, Rel> {
+        const source = pattern instanceof RegExp ? pattern.source : pattern;
+        const regexFlags = flags ?? (pattern instanceof RegExp ? pattern.flags : '');
+        assertRegex(this.field as string, source, regexFlags);
+        return this.addFilterAndReturn('regex', source, regexFlags);
+    }
+
+    // Case-sensitive Unix-style wildcards: *, ? and [...]
+    glob(pattern: string): QueryBuilder<T, Rel> {
+        return this.addFilterAndReturn('glob', pattern);
+    }
+
+    // Geo operators (for GEO_POINT fields). A box with minLng > maxLng
+    // crosses the antimeridian.
+    withinBox(minLat: number, minLng: number, maxLat: number, maxLng: number): QueryBuilder<T, Rel> {
+        assertLatLng(minLat, minLng, 'withinBox()');
+        assertLatLng(maxLat, maxLng, 'withinBox()');
+        return this.addFilterAndReturn('within_box', { minLat, minLng, maxLat, maxLng });
+    }
+
+    withinRadius(lat: number, lng: number, meters: number): QueryBuilder<T, Rel> {
+        assertLatLng(lat, lng, 'withinRadius()');
+        if (typeof meters !== 'number' || !(meters >= 0) || !Number.isFinite(meters)) {
+            throw new ValidationError('withinRadius() needs a non-negative radius in meters');
+        }
+        return this.addFilterAndReturn('within_radius', { lat, lng, meters });
+    }
+
+    // Closest first by haversine distance; each result carries _distance in meters
+    nearest(
+        lat: number,
+        lng: number,
+        options: GeoNearestOptions = {}
+    ): QueryBuilder<T & { _distance: number }, Rel> {
+        return this.builder.addGeoNearest(this.field as string, lat, lng, options);
+    }
+
+    // Full-text match on a fullText field (FTS5 query syntax)
+    matches(query: string): QueryBuilder<T, Rel> {
+        return this.addFilterAndReturn('matches', query);
+    }
+
     // Existence operator
-    exists(): QueryBuilder<T> {
+    exists(): QueryBuilder<T, Rel> {
         return this.addFilterAndReturn('exists', true);
     }
 
-    notExists(): QueryBuilder<T> {
+    notExists(): QueryBuilder<T, Rel> {
         return this.addFilterAndReturn('exists', false);
     }
 
     // Subquery operators
-    existsSubquery(subqueryBuilder: QueryBuilder<any>, collection: string): QueryBuilder<T> {
+    existsSubquery(subqueryBuilder: QueryBuilder<any>, collection: string): QueryBuilder<T, Rel> {
         return this.builder.addSubqueryFilter(this.field as string, 'exists', subqueryBuilder, collection);
     }
 
-    notExistsSubquery(subqueryBuilder: QueryBuilder<any>, collection: string): QueryBuilder<T> {
+    notExistsSubquery(subqueryBuilder: QueryBuilder<any>, collection: string): QueryBuilder<T, Rel> {
         return this.builder.addSubqueryFilter(this.field as string, 'not_exists', subqueryBuilder, collection);
     }
 
-    inSubquery(subqueryBuilder: QueryBuilder<any>, collection: string): QueryBuilder<T> {
+    inSubquery(subqueryBuilder: QueryBuilder<any>, collection: string): QueryBuilder<T, Rel> {
         return this.builder.addSubqueryFilter(this.field as string, 'in', subqueryBuilder, collection);
     }
 
-    notInSubquery(subqueryBuilder: QueryBuilder<any>, collection: string): QueryBuilder<T> {
+    notInSubquery(subqueryBuilder: QueryBuilder<any>, collection: string): QueryBuilder<T, Rel> {
         return this.builder.addSubqueryFilter(this.field as string, 'not_in', subqueryBuilder, collection);
     }
 
     // Enhanced JSON path operations
-    arrayLength(operator: 'eq' | 'gt' | 'gte' | 'lt' | 'lte', value: number): QueryBuilder<T> {
+    arrayLength(operator: 'eq' | 'gt' | 'gte' | 'lt' | 'lte', value: number): QueryBuilder<T, Rel> {
         if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
             throw new Error('Array length value must be a non-negative integer');
         }
         return this.builder.addJsonArrayLengthFilter(this.field as string, operator, value);
     }
 
-    arrayContains(value: any): QueryBuilder<T> {
+    arrayContains(value: any): QueryBuilder<T, Rel> {
         return this.builder.addJsonArrayContainsFilter(this.field as string, value);
     }
 
-    arrayNotContains(value: any): QueryBuilder<T> {
+    arrayNotContains(value: any): QueryBuilder<T, Rel> {
         return this.builder.addJsonArrayNotContainsFilter(this.field as string, value);
     }
+
+    // Filters on the elements of an array of objects, e.g.
+    // elemMatch(q => q.where('sku').eq('X').where('qty').gt(2)). Any element
+    // must match by default; 'all' and 'none' hold for empty arrays too.
+    elemMatch(
+        build: (q: QueryBuilder<ArrayElementAt<T, K>>) => QueryBuilder<any>,
+        quantifier: 'any' | 'all' | 'none' = 'any'
+    ): QueryBuilder<T, Rel> {
+        return this.builder.addElemMatchFilter(
+            this.field as string,
+            build(new QueryBuilder<ArrayElementAt<T, K>>()),
+            quantifier
+        );
+    }
 }
 
-export class HavingFieldBuilder<T, K extends QueryablePaths<T> | string> extends FieldBuilder<T, K> {
-    constructor(field: K, builder: QueryBuilder<T>) {
+export class HavingFieldBuilder<T, K extends QueryablePaths<T> | string, Rel = AnyRelationValues> extends FieldBuilder<T, K, Rel> {
+    constructor(field: K, builder: QueryBuilder<T, Rel>) {
         super(field, builder);
     }
 
@@ -144,7 +258,10 @@ export class HavingFieldBuilder<T, K extends QueryablePaths<T> | string> extends
         operator: any,
         value: any,
         value2?: any
-    ): QueryBuilder<T> {
+    ): QueryBuilder<T, Rel> {
+        if (this.collation !== undefined) {
+            throw new ValidationError('having() does not support collate()');
+        }
         const newBuilder = this.builder.addHavingFilter(
             this.field as string,
             operator,
@@ -155,26 +272,106 @@ export class HavingFieldBuilder<T, K extends QueryablePaths<T> | string> extends
     }
 }
 
-export class QueryBuilder<T> {
+export class QueryBuilder<T, Rel = AnyRelationValues> {
     private options: QueryOptions = { filters: [] };
     private static filterCache = new Map<string, QueryOptions>();
     private static readonly MAX_CACHE_SIZE = 100;
 
-    where<K extends QueryablePaths<T>>(field: K): FieldBuilder<T, K>;
-    where(field: string): FieldBuilder<T, any>;
-    where<K extends QueryablePaths<T>>(field: K | string): FieldBuilder<T, K> {
+    /**
+     * Builder for a Mongo-style filter such as
+     * `{ age: { $gt: 30 }, $or: [{ role: 'admin' }, { active: true }] }`.
+     * Unknown operators, fields outside `allowedFields` and, without
+     * `allowRegex`, regular expressions are rejected.
+     */
+    static fromFilter<T = any>(
+        filter: Filter,
+        options: ParseFilterOptions = {}
+    ): QueryBuilder<T> {
+        const builder = new QueryBuilder<T>();
+        builder.options.filters = parseFilter(filter, options);
+        return builder;
+    }
+
+    /**
+     * Builder for a query serialized with toJSON(), as an object or a JSON
+     * string. The query is validated; pass `allowedFields` and
+     * `allowedCollections` when it comes from untrusted input.
+     */
+    static fromJSON<T = any>(
+        json: SerializedQuery | string,
+        options: QueryJSONOptions = {}
+    ): QueryBuilder<T> {
+        const builder = new QueryBuilder<T>();
+        builder.options = deserializeQuery(json, options);
+        return builder;
+    }
+
+    /**
+     * Versioned JSON form of the query, e.g. to send it to a server or save
+     * it; JSON.stringify(query) uses it too
+     */
+    toJSON(): SerializedQuery {
+        return serializeQuery(this.options);
+    }
+
+    where<K extends QueryablePaths<T>>(field: K): FieldBuilder<T, K, Rel>;
+    where(expression: Expression<any>): ExpressionFieldBuilder<T, Rel>;
+    where(field: string): FieldBuilder<T, any, Rel>;
+    where<K extends QueryablePaths<T>>(
+        field: K | string | Expression<any>
+    ): FieldBuilder<T, K, Rel> {
         const fieldBuilder = new FieldBuilder(field as K, this);
         return fieldBuilder;
     }
 
+    // Values, and the field itself, may be expressions such as field('b')
     addFilter(
-        field: string,
+        field: string | Expression<any>,
         operator: QueryFilter['operator'],
         value: any,
-        value2?: any
-    ): QueryBuilder<T> {
+        value2?: any,
+        collation?: Collation
+    ): QueryBuilder<T, Rel> {
+        const isExpression = field instanceof Expression;
+        const filter: QueryFilter = {
+            field: isExpression ? '$expr' : field,
+            operator,
+            value,
+            value2,
+        };
+        if (isExpression) filter.expression = field.node;
+        if (value instanceof Expression) {
+            filter.value = undefined;
+            filter.valueExpression = value.node;
+        }
+        if (value2 instanceof Expression) {
+            filter.value2 = undefined;
+            filter.value2Expression = value2.node;
+        }
+        if (
+            (filter.valueExpression || filter.value2Expression) &&
+            !EXPRESSION_VALUE_OPERATORS.includes(operator)
+        ) {
+            throw new ValidationError(
+                `Operator '${operator}' does not take field or expression values`
+            );
+        }
+        if (isExpression && !EXPRESSION_FILTER_OPERATORS.includes(operator)) {
+            throw new ValidationError(
+                `Operator '${operator}' is not supported on expressions`
+            );
+        }
+        if (collation !== undefined) {
+            assertCollatedOperator(operator);
+            if (isExpression || filter.valueExpression) {
+                throw new ValidationError(
+                    'collate() compares a field with literal values only'
+                );
+            }
+            filter.collation = collation;
+        }
         const cloned = this.clone();
-        cloned.options.filters.push({ field, operator, value, value2 });
+        cloned.options.filters.push(filter);
         return cloned;
     }
 
@@ -183,7 +380,7 @@ export class QueryBuilder<T> {
         operator: 'exists' | 'not_exists' | 'in' | 'not_in',
         subqueryBuilder: QueryBuilder<any>,
         collection: string
-    ): QueryBuilder<T> {
+    ): QueryBuilder<T, Rel> {
         const cloned = this.clone();
         const subqueryFilter: SubqueryFilter = {
             field,
@@ -195,8 +392,30 @@ export class QueryBuilder<T> {
         return cloned;
     }
 
+    addElemMatchFilter(
+        field: string,
+        elementQuery: QueryBuilder<any>,
+        quantifier: 'any' | 'all' | 'none'
+    ): QueryBuilder<T, Rel> {
+        if (!['any', 'all', 'none'].includes(quantifier)) {
+            throw new ValidationError(
+                `elemMatch() quantifier must be 'any', 'all' or 'none', got '${quantifier}'`
+            );
+        }
+        const { filters, ...rest } = elementQuery.getOptions();
+        if (Object.values(rest).some((value) => value !== undefined)) {
+            throw new ValidationError('elemMatch() takes filters only');
+        }
+        return this.addFilter(
+            field,
+            'elem_match',
+            filters,
+            quantifier === 'any' ? undefined : quantifier
+        );
+    }
+
     // Enhanced JSON operations
-    addJsonArrayLengthFilter(field: string, operator: string, value: number): QueryBuilder<T> {
+    addJsonArrayLengthFilter(field: string, operator: string, value: number): QueryBuilder<T, Rel> {
         const cloned = this.clone();
         cloned.options.filters.push({ 
             field: `json_array_length(${field})`, 
@@ -206,7 +425,7 @@ export class QueryBuilder<T> {
         return cloned;
     }
 
-    addJsonArrayContainsFilter(field: string, value: any): QueryBuilder<T> {
+    addJsonArrayContainsFilter(field: string, value: any): QueryBuilder<T, Rel> {
         const cloned = this.clone();
         cloned.options.filters.push({ 
             field: field, 
@@ -216,7 +435,7 @@ export class QueryBuilder<T> {
         return cloned;
     }
 
-    addJsonArrayNotContainsFilter(field: string, value: any): QueryBuilder<T> {
+    addJsonArrayNotContainsFilter(field: string, value: any): QueryBuilder<T, Rel> {
         const cloned = this.clone();
         cloned.options.filters.push({ 
             field: field, 
@@ -227,18 +446,18 @@ export class QueryBuilder<T> {
     }
 
     // Logical operators
-    and(): QueryBuilder<T> {
+    and(): QueryBuilder<T, Rel> {
         return this.clone();
     }
 
     or(
-        builderFn: (builder: QueryBuilder<T>) => QueryBuilder<T>
-    ): QueryBuilder<T> {
+        builderFn: (builder: QueryBuilder<T, Rel>) => QueryBuilder<T, Rel>
+    ): QueryBuilder<T, Rel> {
         const cloned = this.clone();
         // Get current filters and new OR conditions
         const currentFilters = this.deepCloneFilters(cloned.options.filters);
 
-        const orBuilder = new QueryBuilder<T>();
+        const orBuilder = new QueryBuilder<T, Rel>();
         const result = builderFn(orBuilder);
         const orConditions = this.deepCloneFilters(result.getOptions().filters);
 
@@ -274,8 +493,8 @@ export class QueryBuilder<T> {
 
     // Create a new OR group with multiple conditions
     orWhere(
-        conditions: Array<(builder: QueryBuilder<T>) => QueryBuilder<T>>
-    ): QueryBuilder<T> {
+        conditions: Array<(builder: QueryBuilder<T, Rel>) => QueryBuilder<T, Rel>>
+    ): QueryBuilder<T, Rel> {
         if (conditions.length === 0) return this.clone();
 
         const cloned = this.clone();
@@ -283,7 +502,7 @@ export class QueryBuilder<T> {
         const orGroups: QueryGroup[] = [];
 
         for (const condition of conditions) {
-            const tempBuilder = new QueryBuilder<T>();
+            const tempBuilder = new QueryBuilder<T, Rel>();
             const result = condition(tempBuilder);
             const conditionFilters = this.deepCloneFilters(result.getOptions().filters);
             
@@ -323,28 +542,41 @@ export class QueryBuilder<T> {
     }
 
     // Sorting
+    // A collation sorts folded strings, e.g. orderBy('name', 'asc', 'nocase')
     orderBy<K extends OrderablePaths<T>>(
         field: K,
-        direction?: 'asc' | 'desc'
-    ): QueryBuilder<T>;
+        direction?: 'asc' | 'desc',
+        collation?: Collation
+    ): QueryBuilder<T, Rel>;
     orderBy(
         field: string,
-        direction?: 'asc' | 'desc'
-    ): QueryBuilder<T>;
+        direction?: 'asc' | 'desc',
+        collation?: Collation
+    ): QueryBuilder<T, Rel>;
     orderBy<K extends OrderablePaths<T>>(
         field: K | string,
-        direction: 'asc' | 'desc' = 'asc'
-    ): QueryBuilder<T> {
+        direction: 'asc' | 'desc' = 'asc',
+        collation?: Collation
+    ): QueryBuilder<T, Rel> {
         const cloned = this.clone();
         if (!cloned.options.orderBy) cloned.options.orderBy = [];
-        cloned.options.orderBy.push({ field: field as string, direction });
+        if (collation === undefined) {
+            cloned.options.orderBy.push({ field: field as string, direction });
+        } else {
+            assertCollation(collation);
+            cloned.options.orderBy.push({
+                field: field as string,
+                direction,
+                collation,
+            });
+        }
         return cloned;
     }
 
     // Optimized batch orderBy for multiple sorts at once
     orderByBatch(
         fields: Array<{ field: OrderablePaths<T> | string; direction?: 'asc' | 'desc' }>
-    ): QueryBuilder<T> {
+    ): QueryBuilder<T, Rel> {
         const cloned = this.clone();
         const orders = new Array(fields.length);
         for (let i = 0; i < fields.length; i++) {
@@ -361,15 +593,15 @@ export class QueryBuilder<T> {
     orderByOnly<K extends OrderablePaths<T>>(
         field: K,
         direction?: 'asc' | 'desc'
-    ): QueryBuilder<T>;
+    ): QueryBuilder<T, Rel>;
     orderByOnly(
         field: string,
         direction?: 'asc' | 'desc'
-    ): QueryBuilder<T>;
+    ): QueryBuilder<T, Rel>;
     orderByOnly<K extends OrderablePaths<T>>(
         field: K | string,
         direction: 'asc' | 'desc' = 'asc'
-    ): QueryBuilder<T> {
+    ): QueryBuilder<T, Rel> {
         const cloned = this.clone();
         cloned.options.orderBy = [{ field: field as string, direction }];
         return cloned;
@@ -378,7 +610,7 @@ export class QueryBuilder<T> {
     // Multiple field sorting shorthand
     orderByMultiple(
         orders: { field: OrderablePaths<T> | string; direction?: 'asc' | 'desc' }[]
-    ): QueryBuilder<T> {
+    ): QueryBuilder<T, Rel> {
         const cloned = this.clone();
         cloned.options.orderBy = orders.map((order) => ({
             field: order.field as string,
@@ -388,7 +620,7 @@ export class QueryBuilder<T> {
     }
 
     // Pagination
-    limit(count: number): QueryBuilder<T> {
+    limit(count: number): QueryBuilder<T, Rel> {
         if (count < 0) throw new Error('Limit must be non-negative');
         if (!Number.isInteger(count)) throw new Error('Limit must be an integer');
         if (count > Number.MAX_SAFE_INTEGER) throw new Error('Limit too large');
@@ -397,7 +629,7 @@ export class QueryBuilder<T> {
         return cloned;
     }
 
-    offset(count: number): QueryBuilder<T> {
+    offset(count: number): QueryBuilder<T, Rel> {
         if (count < 0) throw new Error('Offset must be non-negative');
         if (!Number.isInteger(count)) throw new Error('Offset must be an integer');
         if (count > Number.MAX_SAFE_INTEGER) throw new Error('Offset too large');
@@ -407,7 +639,7 @@ export class QueryBuilder<T> {
     }
 
     // Pagination helper
-    page(pageNumber: number, pageSize: number): QueryBuilder<T> {
+    page(pageNumber: number, pageSize: number): QueryBuilder<T, Rel> {
         if (pageNumber < 1) throw new Error('Page number must be >= 1');
         if (!Number.isInteger(pageNumber)) throw new Error('Page number must be an integer');
         if (pageNumber > Number.MAX_SAFE_INTEGER) throw new Error('Page number too large');
@@ -427,57 +659,199 @@ export class QueryBuilder<T> {
         return cloned;
     }
 
+    // Keyset pagination: rows strictly after/before a cursor from paginate()
+    after(cursor: string): QueryBuilder<T, Rel> {
+        const cloned = this.clone();
+        cloned.options.cursor = { direction: 'after', ...decodeCursor(cursor) };
+        return cloned;
+    }
+
+    before(cursor: string): QueryBuilder<T, Rel> {
+        const cloned = this.clone();
+        cloned.options.cursor = { direction: 'before', ...decodeCursor(cursor) };
+        return cloned;
+    }
+
+    // Soft-delete scopes; deleted rows are excluded unless one of these is set
+    withDeleted(): QueryBuilder<T, Rel> {
+        const cloned = this.clone();
+        cloned.options.deleted = 'include';
+        return cloned;
+    }
+
+    onlyDeleted(): QueryBuilder<T, Rel> {
+        const cloned = this.clone();
+        cloned.options.deleted = 'only';
+        return cloned;
+    }
+
+    addGeoNearest(
+        field: string,
+        lat: number,
+        lng: number,
+        { k, maxDistance }: GeoNearestOptions = {}
+    ): QueryBuilder<T & { _distance: number }, Rel> {
+        assertLatLng(lat, lng, 'nearest()');
+        if (k !== undefined && (!Number.isInteger(k) || k < 1)) {
+            throw new ValidationError('k must be a positive integer');
+        }
+        if (maxDistance !== undefined && !(maxDistance >= 0 && Number.isFinite(maxDistance))) {
+            throw new ValidationError('maxDistance must be a non-negative number');
+        }
+        // maxDistance is a radius filter, so the R*Tree narrows the scan
+        const cloned = (
+            maxDistance === undefined
+                ? this.clone()
+                : this.addFilter(field, 'within_radius', { lat, lng, meters: maxDistance })
+        ) as QueryBuilder<any>;
+        cloned.options.geoNearest = { field, lat, lng, ...(k !== undefined && { k }) };
+        return cloned;
+    }
+
+    // Vector KNN: order by distance to `vector` over one or more VECTOR fields
+    nearestTo(
+        field: string | string[],
+        vector: number[],
+        options: NearestToOptions = {}
+    ): QueryBuilder<T, Rel> {
+        const fields = Array.isArray(field) ? field : [field];
+        if (fields.length === 0) {
+            throw new ValidationError('nearestTo() requires at least one vector field');
+        }
+        if (
+            !Array.isArray(vector) ||
+            vector.length === 0 ||
+            !vector.every((v) => typeof v === 'number' && Number.isFinite(v))
+        ) {
+            throw new ValidationError('nearestTo() requires a vector of finite numbers');
+        }
+        if (options.k !== undefined && (!Number.isInteger(options.k) || options.k < 1)) {
+            throw new ValidationError('k must be a positive integer');
+        }
+        if (options.maxDistance !== undefined && !(options.maxDistance >= 0)) {
+            throw new ValidationError('maxDistance must be a non-negative number');
+        }
+        if (options.minSimilarity !== undefined) {
+            if ((options.distance || 'cosine') !== 'cosine') {
+                throw new ValidationError('minSimilarity is only supported for cosine distance');
+            }
+            if (!(options.minSimilarity >= -1 && options.minSimilarity <= 1)) {
+                throw new ValidationError('minSimilarity must be between -1 and 1');
+            }
+        }
+
+        const cloned = this.clone();
+        cloned.options.nearest = {
+            ...options,
+            fields: fields.slice(),
+            vector: vector.slice(),
+        };
+        return cloned;
+    }
+
+    // Eager-load a relation declared on the collection schema. `configure`
+    // may filter, sort, limit (per parent) and populate the related query.
+    populate<K extends keyof Rel & string>(
+        relation: K,
+        configure?: (
+            query: QueryBuilder<PopulatedDocument<Rel[K]>>
+        ) => QueryBuilder<any>
+    ): QueryBuilder<T & { [P in K]: Rel[K] }, Rel> {
+        const cloned = this.clone();
+        const clause: PopulateClause = { relation };
+        if (configure) {
+            clause.options = configure(new QueryBuilder<any>()).getOptions();
+        }
+        cloned.options.populate = (cloned.options.populate || [])
+            .filter((p) => p.relation !== relation)
+            .concat(clause);
+        return cloned as unknown as QueryBuilder<T & { [P in K]: Rel[K] }, Rel>;
+    }
+
     // Grouping and distinct
-    groupBy<K extends OrderablePaths<T>>(...fields: K[]): QueryBuilder<T> {
+    groupBy<K extends OrderablePaths<T>>(...fields: K[]): QueryBuilder<T, Rel> {
         const cloned = this.clone();
         cloned.options.groupBy = fields.map((f) => f as string);
         return cloned;
     }
 
-    distinct(): QueryBuilder<T> {
+    distinct(): QueryBuilder<T, Rel> {
         const cloned = this.clone();
         cloned.options.distinct = true;
         return cloned;
     }
 
-    // Aggregate functions
-    select(...fields: string[]): QueryBuilder<T> {
+    // Projection: field paths ('<field> as <key>' renames them) and computed
+    // columns named with .as(), passed directly or returned from a callback
+    // that receives the expression helpers
+    select<const F extends readonly SelectItem[]>(
+        ...fields: F
+    ): QueryBuilder<SelectResult<T, F>, Rel>;
+    select<const F extends readonly SelectItem[]>(
+        build: (q: ExpressionBuilder<T>) => F
+    ): QueryBuilder<SelectResult<T, F>, Rel>;
+    select(...args: any[]): QueryBuilder<any> {
+        const fields: unknown[] =
+            typeof args[0] === 'function'
+                ? args[0](new ExpressionBuilder<T>())
+                : args;
+        const selectFields: string[] = [];
+        const selectExpressions: SelectExpression[] = [];
+        for (const field of fields) {
+            if (typeof field === 'string') {
+                selectFields.push(field);
+            } else if (field instanceof AliasedExpression) {
+                selectExpressions.push({
+                    alias: field.alias,
+                    expression: field.expression,
+                });
+            } else {
+                throw new ValidationError(
+                    "select() takes field paths and expressions named with .as('<key>')"
+                );
+            }
+        }
+
         const cloned = this.clone();
-        cloned.options.selectFields = fields;
+        cloned.options.selectFields = selectFields;
+        cloned.options.selectExpressions =
+            selectExpressions.length > 0 ? selectExpressions : undefined;
         return cloned;
     }
 
-    aggregate(fn: 'COUNT' | 'SUM' | 'AVG' | 'MIN' | 'MAX', field: string = '*', alias?: string, distinct?: boolean): QueryBuilder<T> {
+    // Aggregate functions
+
+    aggregate(fn: 'COUNT' | 'SUM' | 'AVG' | 'MIN' | 'MAX', field: string = '*', alias?: string, distinct?: boolean): QueryBuilder<T, Rel> {
         const cloned = this.clone();
         if (!cloned.options.aggregates) cloned.options.aggregates = [];
         cloned.options.aggregates.push({ function: fn, field, alias, distinct });
         return cloned;
     }
 
-    count(field: string = '*', alias?: string, distinct?: boolean): QueryBuilder<T> {
+    count(field: string = '*', alias?: string, distinct?: boolean): QueryBuilder<T, Rel> {
         return this.aggregate('COUNT', field, alias, distinct);
     }
 
-    sum(field: string, alias?: string, distinct?: boolean): QueryBuilder<T> {
+    sum(field: string, alias?: string, distinct?: boolean): QueryBuilder<T, Rel> {
         return this.aggregate('SUM', field, alias, distinct);
     }
 
-    avg(field: string, alias?: string, distinct?: boolean): QueryBuilder<T> {
+    avg(field: string, alias?: string, distinct?: boolean): QueryBuilder<T, Rel> {
         return this.aggregate('AVG', field, alias, distinct);
     }
 
-    min(field: string, alias?: string): QueryBuilder<T> {
+    min(field: string, alias?: string): QueryBuilder<T, Rel> {
         return this.aggregate('MIN', field, alias);
     }
 
-    max(field: string, alias?: string): QueryBuilder<T> {
+    max(field: string, alias?: string): QueryBuilder<T, Rel> {
         return this.aggregate('MAX', field, alias);
     }
 
     // HAVING clause support
-    having<K extends QueryablePaths<T>>(field: K): FieldBuilder<T, K>;
-    having(field: string): FieldBuilder<T, any>;
-    having<K extends QueryablePaths<T>>(field: K | string): FieldBuilder<T, K> {
+    having<K extends QueryablePaths<T>>(field: K): FieldBuilder<T, K, Rel>;
+    having(field: string): FieldBuilder<T, any, Rel>;
+    having<K extends QueryablePaths<T>>(field: K | string): FieldBuilder<T, K, Rel> {
         const fieldBuilder = new HavingFieldBuilder(field as K, this);
         return fieldBuilder;
     }
@@ -487,28 +861,51 @@ export class QueryBuilder<T> {
         operator: QueryFilter['operator'],
         value: any,
         value2?: any
-    ): QueryBuilder<T> {
+    ): QueryBuilder<T, Rel> {
+        if (value instanceof Expression || value2 instanceof Expression) {
+            throw new ValidationError(
+                'having() compares aggregates with literal values only'
+            );
+        }
         const cloned = this.clone();
         if (!cloned.options.having) cloned.options.having = [];
         cloned.options.having.push({ field, operator, value, value2 });
         return cloned;
     }
 
-    // JOIN operations
-    join<U = any>(
+    // JOIN operations. `collection` may carry an alias ('users as manager'),
+    // which qualified fields then use instead of the collection name.
+    private addJoin(
+        type: JoinClause['type'],
         collection: string,
         leftField: string,
         rightField: string,
-        operator: '=' | '!=' | '>' | '<' | '>=' | '<=' = '='
-    ): QueryBuilder<T & U> {
+        operator: JoinCondition['operator']
+    ): QueryBuilder<any> {
+        const match = collection.trim().match(/^(\w+)(?:\s+as\s+(\w+))?$/i);
+        if (!match) {
+            throw new ValidationError(
+                `Invalid join target '${collection}'; expected '<collection>' or '<collection> as <alias>'`
+            );
+        }
         const cloned = this.clone();
         if (!cloned.options.joins) cloned.options.joins = [];
         cloned.options.joins.push({
-            type: 'INNER',
-            collection,
+            type,
+            collection: match[1],
+            ...(match[2] ? { alias: match[2] } : {}),
             condition: { left: leftField, right: rightField, operator }
         });
-        return cloned as any;
+        return cloned;
+    }
+
+    join<U = any>(
+        collection: string,
+        leftField: string,
+        rightField: string,
+        operator: '=' | '!=' | '>' | '<' | '>=' | '<=' = '='
+    ): QueryBuilder<T & U, Rel> {
+        return this.addJoin('INNER', collection, leftField, rightField, operator);
     }
 
     leftJoin<U = any>(
@@ -516,15 +913,8 @@ export class QueryBuilder<T> {
         leftField: string,
         rightField: string,
         operator: '=' | '!=' | '>' | '<' | '>=' | '<=' = '='
-    ): QueryBuilder<T & U> {
-        const cloned = this.clone();
-        if (!cloned.options.joins) cloned.options.joins = [];
-        cloned.options.joins.push({
-            type: 'LEFT',
-            collection,
-            condition: { left: leftField, right: rightField, operator }
-        });
-        return cloned as any;
+    ): QueryBuilder<T & U, Rel> {
+        return this.addJoin('LEFT', collection, leftField, rightField, operator);
     }
 
     rightJoin<U = any>(
@@ -532,15 +922,8 @@ export class QueryBuilder<T> {
         leftField: string,
         rightField: string,
         operator: '=' | '!=' | '>' | '<' | '>=' | '<=' = '='
-    ): QueryBuilder<T & U> {
-        const cloned = this.clone();
-        if (!cloned.options.joins) cloned.options.joins = [];
-        cloned.options.joins.push({
-            type: 'RIGHT',
-            collection,
-            condition: { left: leftField, right: rightField, operator }
-        });
-        return cloned as any;
+    ): QueryBuilder<T & U, Rel> {
+        return this.addJoin('RIGHT', collection, leftField, rightField, operator);
     }
 
     fullJoin<U = any>(
@@ -548,38 +931,31 @@ export class QueryBuilder<T> {
         leftField: string,
         rightField: string,
         operator: '=' | '!=' | '>' | '<' | '>=' | '<=' = '='
-    ): QueryBuilder<T & U> {
-        const cloned = this.clone();
-        if (!cloned.options.joins) cloned.options.joins = [];
-        cloned.options.joins.push({
-            type: 'FULL',
-            collection,
-            condition: { left: leftField, right: rightField, operator }
-        });
-        return cloned as any;
+    ): QueryBuilder<T & U, Rel> {
+        return this.addJoin('FULL', collection, leftField, rightField, operator);
     }
 
     // Reset methods
-    clearFilters(): QueryBuilder<T> {
+    clearFilters(): QueryBuilder<T, Rel> {
         const cloned = this.clone();
         cloned.options.filters = [];
         return cloned;
     }
 
-    clearOrder(): QueryBuilder<T> {
+    clearOrder(): QueryBuilder<T, Rel> {
         const cloned = this.clone();
         cloned.options.orderBy = undefined;
         return cloned;
     }
 
-    clearLimit(): QueryBuilder<T> {
+    clearLimit(): QueryBuilder<T, Rel> {
         const cloned = this.clone();
         cloned.options.limit = undefined;
         cloned.options.offset = undefined;
         return cloned;
     }
 
-    reset(): QueryBuilder<T> {
+    reset(): QueryBuilder<T, Rel> {
         const cloned = this.clone();
         cloned.options = { filters: [] };
         return cloned;
@@ -591,7 +967,7 @@ export class QueryBuilder<T> {
     }
 
     // Query optimization
-    optimizeFilters(): QueryBuilder<T> {
+    optimizeFilters(): QueryBuilder<T, Rel> {
         const cloned = this.clone();
         cloned.options.filters = this.removeRedundantFilters(cloned.options.filters);
         return cloned;
@@ -608,7 +984,7 @@ export class QueryBuilder<T> {
         return undefined;
     }
 
-    cacheQuery(cacheKey: string): QueryBuilder<T> {
+    cacheQuery(cacheKey: string): QueryBuilder<T, Rel> {
         // Implement LRU-style cache management
         if (QueryBuilder.filterCache.size >= QueryBuilder.MAX_CACHE_SIZE) {
             // Remove oldest entry
@@ -643,8 +1019,8 @@ export class QueryBuilder<T> {
                     type: filter.type,
                     filters: this.removeRedundantFilters(filter.filters)
                 });
-            } else if ('subquery' in filter) {
-                // SubqueryFilter - keep as-is for now
+            } else if ('subquery' in filter || hasFilterExpression(filter)) {
+                // SubqueryFilter or computed comparison - keep as-is
                 optimized.push(filter);
             } else {
                 // QueryFilter - check for redundancy
@@ -754,13 +1130,14 @@ export class QueryBuilder<T> {
     hasPagination(): boolean {
         return (
             this.options.limit !== undefined ||
-            this.options.offset !== undefined
+            this.options.offset !== undefined ||
+            this.options.cursor !== undefined
         );
     }
 
     // Clone the query builder
-    clone(): QueryBuilder<T> {
-        const cloned = new QueryBuilder<T>();
+    clone(): QueryBuilder<T, Rel> {
+        const cloned = new QueryBuilder<T, Rel>();
         cloned.options = {
             filters: this.deepCloneFilters(this.options.filters),
             orderBy: this.options.orderBy
@@ -768,6 +1145,13 @@ export class QueryBuilder<T> {
                 : undefined,
             limit: this.options.limit,
             offset: this.options.offset,
+            cursor: this.options.cursor
+                ? {
+                      ...this.options.cursor,
+                      fields: this.options.cursor.fields.slice(),
+                      values: this.options.cursor.values.slice(),
+                  }
+                : undefined,
             groupBy: this.options.groupBy
                 ? this.options.groupBy.slice()
                 : undefined,
@@ -784,6 +1168,21 @@ export class QueryBuilder<T> {
             selectFields: this.options.selectFields
                 ? this.options.selectFields.slice()
                 : undefined,
+            selectExpressions: this.options.selectExpressions
+                ? this.options.selectExpressions.slice()
+                : undefined,
+            nearest: this.options.nearest
+                ? {
+                      ...this.options.nearest,
+                      fields: this.options.nearest.fields.slice(),
+                      vector: this.options.nearest.vector.slice(),
+                  }
+                : undefined,
+            geoNearest: this.options.geoNearest,
+            populate: this.options.populate
+                ? this.options.populate.slice()
+                : undefined,
+            deleted: this.options.deleted,
         };
         (cloned as any).collection = (this as any).collection;
         return cloned;
@@ -823,12 +1222,16 @@ export class QueryBuilder<T> {
                     subqueryCollection: filter.subqueryCollection
                 };
             } else {
-                // QueryFilter
+                // QueryFilter; expression nodes are never mutated
                 result[i] = {
                     field: filter.field,
                     operator: filter.operator,
                     value: filter.value,
-                    value2: filter.value2
+                    value2: filter.value2,
+                    ...(filter.expression && { expression: filter.expression }),
+                    ...(filter.valueExpression && { valueExpression: filter.valueExpression }),
+                    ...(filter.value2Expression && { value2Expression: filter.value2Expression }),
+                    ...(filter.collation && { collation: filter.collation }),
                 };
             }
         }
@@ -0,0 +1,719 @@
+import { z } from 'zod';
+import { ValidationError } from './errors';
+import { assertFieldPath, assertOutputField } from './aggregation';
+import {
+    assertAllowedField,
+    assertRegex,
+    ELEMENT_FIELD,
+} from './filter-parser';
+import {
+    getJoinName,
+    getOutputAliases,
+    parseSelectField,
+} from './join-resolver';
+import { encodeDates } from './json-utils';
+import { assertCollatedOperator } from './string-functions';
+import type {
+    ExpressionNode,
+    ExpressionOperator,
+    QueryFilter,
+    QueryGroup,
+    QueryOptions,
+    ScalarFunctionName,
+    SubqueryFilter,
+    WindowFunctionName,
+} from './types';
+
+/**
+ * Format version written by toJSON(); fromJSON() rejects any other
+ */
+export const QUERY_JSON_VERSION = 1;
+
+/**
+ * JSON form of a query. Dates are tagged as `{ __type: 'Date', value }`,
+ * the same way documents store them.
+ */
+export interface SerializedQuery {
+    version: typeof QUERY_JSON_VERSION;
+    query: Omit<QueryOptions, 'expiry'>;
+}
+
+export interface QueryJSONOptions {
+    // Field paths the query may use; an entry also allows the paths below
+    // it. Joined and subquery fields are checked as '<collection>.<field>',
+    // populated ones as '<relation>.<field>'.
+    allowedFields?: readonly string[];
+    // Collections joins and subqueries may read
+    allowedCollections?: readonly string[];
+    // Accept withDeleted()/onlyDeleted() scopes; soft-deleted documents are
+    // otherwise out of reach of serialized queries
+    allowDeleted?: boolean;
+}
+
+const FILTER_OPERATORS = [
+    'eq',
+    'neq',
+    'gt',
+    'gte',
+    'lt',
+    'lte',
+    'in',
+    'nin',
+    'like',
+    'ilike',
+    'startswith',
+    'endswith',
+    'contains',
+    'exists',
+    'between',
+    'json_array_contains',
+    'json_array_not_contains',
+    'vector_match',
+    'matches',
+    'regex',
+    'glob',
+    'within_box',
+    'within_radius',
+] as const satisfies readonly QueryFilter['operator'][];
+
+const EXPRESSION_OPERATORS = [
+    '+',
+    '-',
+    '*',
+    '/',
+    '%',
+    '||',
+    '=',
+    '!=',
+    '>',
+    '>=',
+    '<',
+    '<=',
+    'AND',
+    'OR',
+    'NOT',
+    'IS NULL',
+    'IS NOT NULL',
+] as const satisfies readonly ExpressionOperator[];
+
+const SCALAR_FUNCTIONS = [
+    'coalesce',
+    'nullif',
+    'abs',
+    'round',
+    'upper',
+    'lower',
+    'length',
+    'trim',
+    'substr',
+    'replace',
+    'date',
+    'time',
+    'datetime',
+    'julianday',
+    'unixepoch',
+    'strftime',
+] as const satisfies readonly ScalarFunctionName[];
+
+const WINDOW_FUNCTIONS = [
+    'row_number',
+    'rank',
+    'dense_rank',
+    'percent_rank',
+    'cume_dist',
+    'ntile',
+    'lag',
+    'lead',
+    'first_value',
+    'last_value',
+    'nth_value',
+    'sum',
+    'avg',
+    'min',
+    'max',
+    'count',
+] as const satisfies readonly WindowFunctionName[];
+
+const IDENTIFIER = /^\w+$/;
+const ARRAY_LENGTH_FIELD = /^json_array_length\((.+)\)$/;
+
+/* ───────────────────────────── schema ───────────────────────────── */
+
+const dateValue = z
+    .object({ __type: z.literal('Date'), value: z.string().datetime() })
+    .strict()
+    .transform((date) => new Date(date.value));
+
+const jsonValue: z.ZodType<any> = z.lazy(() =>
+    z.union([
+        dateValue,
+        z.string(),
+        z.number().finite(),
+        z.boolean(),
+        z.null(),
+        z.array(jsonValue),
+        z.record(jsonValue),
+    ])
+);
+
+const direction = z.enum(['asc', 'desc']);
+const collation = z.enum(['nocase', 'noaccent', 'nocase_noaccent']);
+
+const windowOrderEntry = z.object({ field: z.string(), direction }).strict();
+const orderEntry = windowOrderEntry.extend({
+    collation: collation.optional(),
+});
+const frameBound = z.union([
+    z.number().int().nonnegative(),
+    z.literal('unbounded'),
+]);
+
+const windowSpec = z
+    .object({
+        partitionBy: z.array(z.string()).optional(),
+        orderBy: z.array(windowOrderEntry).optional(),
+        frame: z
+            .object({
+                unit: z.enum(['rows', 'range']),
+                preceding: frameBound,
+                following: frameBound,
+            })
+            .strict()
+            .optional(),
+    })
+    .strict();
+
+const expressionNode: z.ZodType<ExpressionNode> = z.lazy(() =>
+    z.discriminatedUnion('kind', [
+        z.object({ kind: z.literal('field'), field: z.string() }).strict(),
+        z
+            .object({
+                kind: z.literal('value'),
+                value: z.union([
+                    z.string(),
+                    z.number().finite(),
+                    z.boolean(),
+                    z.null(),
+                ]),
+            })
+            .strict(),
+        z
+            .object({
+                kind: z.literal('operator'),
+                operator: z.enum(EXPRESSION_OPERATORS),
+                args: z.array(expressionNode).min(1),
+            })
+            .strict(),
+        z
+            .object({
+                kind: z.literal('function'),
+                name: z.enum(SCALAR_FUNCTIONS),
+                args: z.array(expressionNode),
+            })
+            .strict(),
+        z
+            .object({
+                kind: z.literal('case'),
+                branches: z
+                    .array(
+                        z
+                            .object({
+                                when: expressionNode,
+                                then: expressionNode,
+                            })
+                            .strict()
+                    )
+                    .min(1),
+                else: expressionNode.optional(),
+            })
+            .strict(),
+        z
+            .object({
+                kind: z.literal('window'),
+                name: z.enum(WINDOW_FUNCTIONS),
+                args: z.array(expressionNode),
+                over: windowSpec.optional(),
+            })
+            .strict(),
+    ])
+);
+
+type FilterNode = QueryFilter | QueryGroup | SubqueryFilter;
+
+const filterNode: z.ZodType<any> = z.lazy(() =>
+    z.union([
+        z
+            .object({
+                field: z.string(),
+                operator: z.enum(FILTER_OPERATORS),
+                value: jsonValue.optional(),
+                value2: jsonValue.optional(),
+                vectorDistance: z
+                    .enum(['cosine', 'euclidean', 'l1', 'l2'])
+                    .optional(),
+                expression: expressionNode.optional(),
+                valueExpression: expressionNode.optional(),
+                value2Expression: expressionNode.optional(),
+                collation: collation.optional(),
+            })
+            .strict(),
+        z
+            .object({
+                field: z.string(),
+                operator: z.literal('elem_match'),
+                value: z.array(filterNode),
+                value2: z.enum(['all', 'none']).optional(),
+            })
+            .strict(),
+        z
+            .object({
+                type: z.enum(['and', 'or', 'nor']),
+                filters: z.array(filterNode),
+            })
+            .strict(),
+        z
+            .object({
+                field: z.string(),
+                operator: z.enum(['exists', 'not_exists', 'in', 'not_in']),
+                subquery: queryOptions,
+                subqueryCollection: z.string(),
+            })
+            .strict(),
+    ])
+);
+
+const count = z.number().int().nonnegative();
+
+const queryOptions: z.ZodType<any> = z.lazy(() =>
+    z
+        .object({
+            filters: z.array(filterNode),
+            orderBy: z.array(orderEntry).optional(),
+            limit: count.optional(),
+            offset: count.optional(),
+            cursor: z
+                .object({
+                    direction: z.enum(['after', 'before']),
+                    fields: z.array(z.string()),
+                    values: z.array(jsonValue),
+                })
+                .strict()
+                .refine(
+                    (cursor) => cursor.fields.length === cursor.values.length,
+                    {
+                        message: 'cursor needs one value per field',
+                    }
+                )
+                .optional(),
+            groupBy: z.array(z.string()).optional(),
+            having: z.array(filterNode).optional(),
+            distinct: z.boolean().optional(),
+            aggregates: z
+                .array(
+                    z
+                        .object({
+                            function: z.enum([
+                                'COUNT',
+                                'SUM',
+                                'AVG',
+                                'MIN',
+                                'MAX',
+                            ]),
+                            field: z.string(),
+                            alias: z.string().optional(),
+                            distinct: z.boolean().optional(),
+                        })
+                        .strict()
+                )
+                .optional(),
+            joins: z
+                .array(
+                    z
+                        .object({
+                            type: z.enum(['INNER', 'LEFT', 'RIGHT', 'FULL']),
+                            collection: z.string(),
+                            alias: z.string().optional(),
+                            condition: z
+                                .object({
+                                    left: z.string(),
+                                    right: z.string(),
+                                    operator: z
+                                        .enum(['=', '!=', '>', '<', '>=', '<='])
+                                        .optional(),
+                                })
+                                .strict(),
+                        })
+                        .strict()
+                )
+                .optional(),
+            selectFields: z.array(z.string()).optional(),
+            selectExpressions: z
+                .array(
+                    z
+                        .object({
+                            alias: z.string(),
+                            expression: expressionNode,
+                        })
+                        .strict()
+                )
+                .optional(),
+            nearest: z
+                .object({
+                    fields: z.array(z.string()).min(1),
+                    vector: z.array(z.number().finite()).min(1),
+                    k: z.number().int().positive().optional(),
+                    maxDistance: z.number().nonnegative().optional(),
+                    minSimilarity: z.number().min(-1).max(1).optional(),
+                    distance: z
+                        .enum(['cosine', 'euclidean', 'l1', 'l2'])
+                        .optional(),
+                })
+                .strict()
+                .optional(),
+            geoNearest: z
+                .object({
+                    field: z.string(),
+                    lat: z.number().min(-90).max(90),
+                    lng: z.number().min(-180).max(180),
+                    k: z.number().int().positive().optional(),
+                })
+                .strict()
+                .optional(),
+            populate: z
+                .array(
+                    z
+                        .object({
+                            relation: z.string(),
+                            options: queryOptions.optional(),
+                        })
+                        .strict()
+                )
+                .optional(),
+            deleted: z.enum(['exclude', 'include', 'only']).optional(),
+        })
+        .strict()
+);
+
+const serializedQuery = z
+    .object({ version: z.number(), query: z.unknown() })
+    .strict();
+
+/* ───────────────────────────── public API ───────────────────────────── */
+
+/**
+ * JSON form of query options. The collection's read scope (expiry) and
+ * values resolved at execution time are left out.
+ */
+export function serializeQuery(options: QueryOptions): SerializedQuery {
+    const { expiry, ...query } = options;
+    return {
+        version: QUERY_JSON_VERSION,
+        // Round-tripped so undefined options are dropped
+        query: JSON.parse(
+            JSON.stringify(
+                encodeDates({ ...query, filters: stripResolved(query.filters) })
+            )
+        ),
+    };
+}
+
+/**
+ * Validate a serialized query, as an object or a JSON string, and return its
+ * options. Every field path, alias and collection name is checked, so the
+ * query may come from untrusted input.
+ */
+export function deserializeQuery(
+    json: SerializedQuery | string,
+    options: QueryJSONOptions = {}
+): QueryOptions {
+    let input: unknown = json;
+    if (typeof json === 'string') {
+        try {
+            input = JSON.parse(json);
+        } catch {
+            throw new ValidationError('Serialized query is not valid JSON');
+        }
+    }
+    const envelope = serializedQuery.safeParse(input);
+    if (!envelope.success) {
+        throw new ValidationError(
+            "Serialized query must be an object with 'version' and 'query'",
+            envelope.error.issues
+        );
+    }
+    if (envelope.data.version !== QUERY_JSON_VERSION) {
+        throw new ValidationError(
+            `Unsupported serialized query version ${envelope.data.version}; expected ${QUERY_JSON_VERSION}`
+        );
+    }
+    const parsed = queryOptions.safeParse(envelope.data.query);
+    if (!parsed.success) {
+        const [issue] = parsed.error.issues;
+        throw new ValidationError(
+            `Invalid serialized query at '${issue.path.join('.') || 'query'}': ${issue.message}`,
+            parsed.error.issues
+        );
+    }
+    const query = parsed.data as QueryOptions;
+    checkQuery(query, options, '');
+    return query;
+}
+
+/* ───────────────────────────── field checks ───────────────────────────── */
+
+// resolvedMatches are looked up per execution and never serialized
+function stripResolved(filters: FilterNode[]): FilterNode[] {
+    return filters.map((filter) => {
+        if ('type' in filter) {
+            return { ...filter, filters: stripResolved(filter.filters) };
+        }
+        if ('subquery' in filter) return filter;
+        const { resolvedMatches, ...rest } = filter;
+        return rest.operator === 'elem_match'
+            ? { ...rest, value: stripResolved(rest.value) }
+            : rest;
+    });
+}
+
+function checkField(
+    field: string,
+    context: string,
+    options: QueryJSONOptions,
+    prefix: string
+): void {
+    assertFieldPath(field, context);
+    if (options.allowedFields) {
+        assertAllowedField(prefix + field, context, options);
+    }
+}
+
+function checkCollection(collection: string, options: QueryJSONOptions): void {
+    if (!IDENTIFIER.test(collection)) {
+        throw new ValidationError(`Invalid collection name '${collection}'`);
+    }
+    if (
+        options.allowedCollections &&
+        !options.allowedCollections.includes(collection)
+    ) {
+        throw new ValidationError(`Collection '${collection}' is not allowed`);
+    }
+}
+
+function checkExpression(
+    node: ExpressionNode,
+    options: QueryJSONOptions,
+    prefix: string
+): void {
+    const check = (child: ExpressionNode) =>
+        checkExpression(child, options, prefix);
+    switch (node.kind) {
+        case 'field':
+            checkField(node.field, 'expression', options, prefix);
+            break;
+        case 'value':
+            break;
+        case 'operator':
+        case 'function':
+            node.args.forEach(check);
+            break;
+        case 'case':
+            node.branches.forEach((branch) => {
+                check(branch.when);
+                check(branch.then);
+            });
+            if (node.else) check(node.else);
+            break;
+        case 'window':
+            node.args.forEach(check);
+            node.over?.partitionBy?.forEach((field) =>
+                checkField(field, 'over()', options, prefix)
+            );
+            node.over?.orderBy?.forEach((order) =>
+                checkField(order.field, 'over()', options, prefix)
+            );
+            break;
+    }
+}
+
+// `element` is the array field an elem_match filter applies to
+function checkFilters(
+    filters: FilterNode[],
+    options: QueryJSONOptions,
+    prefix: string,
+    element?: string
+): void {
+    for (const filter of filters) {
+        if ('type' in filter) {
+            checkFilters(filter.filters, options, prefix, element);
+        } else if ('subquery' in filter) {
+            if (element !== undefined) {
+                throw new ValidationError(
+                    'elem_match filters cannot hold subqueries'
+                );
+            }
+            checkField(filter.field, 'where()', options, prefix);
+            checkCollection(filter.subqueryCollection, options);
+            checkQuery(
+                filter.subquery,
+                options,
+                `${filter.subqueryCollection}.`
+            );
+        } else {
+            checkFilter(filter, options, prefix, element);
+        }
+    }
+}
+
+function checkFilter(
+    filter: QueryFilter,
+    options: QueryJSONOptions,
+    prefix: string,
+    element?: string
+): void {
+    const inner = element === undefined ? prefix : `${prefix}${element}.`;
+    if (filter.field === '$expr') {
+        if (!filter.expression) {
+            throw new ValidationError("Filters on '$expr' need an expression");
+        }
+        checkExpression(filter.expression, options, inner);
+    } else if (filter.expression) {
+        throw new ValidationError(
+            "Expression filters must use the field '$expr'"
+        );
+    } else if (filter.field === ELEMENT_FIELD && element !== undefined) {
+        checkField(element, 'elem_match', options, prefix);
+    } else {
+        const arrayLength = filter.field.match(ARRAY_LENGTH_FIELD);
+        checkField(
+            arrayLength ? arrayLength[1] : filter.field,
+            'where()',
+            options,
+            inner
+        );
+    }
+    if (filter.valueExpression)
+        checkExpression(filter.valueExpression, options, inner);
+    if (filter.value2Expression)
+        checkExpression(filter.value2Expression, options, inner);
+    if (filter.collation !== undefined) {
+        assertCollatedOperator(filter.operator);
+    }
+    if (filter.operator === 'regex') {
+        if (
+            typeof filter.value !== 'string' ||
+            typeof (filter.value2 ?? '') !== 'string'
+        ) {
+            throw new ValidationError(
+                `regex filter on '${filter.field}' needs a string pattern and flags`
+            );
+        }
+        assertRegex(filter.field, filter.value, filter.value2 ?? '');
+    }
+    if (filter.operator === 'elem_match') {
+        checkFilters(filter.value, options, inner, filter.field);
+    }
+}
+
+function checkHaving(
+    filters: FilterNode[],
+    options: QueryJSONOptions,
+    aliases: Set<string>
+): void {
+    for (const filter of filters) {
+        if ('type' in filter) {
+            checkHaving(filter.filters, options, aliases);
+            continue;
+        }
+        if ('subquery' in filter || hasComputedParts(filter)) {
+            throw new ValidationError(
+                'having() compares aggregates with literal values only'
+            );
+        }
+        if (filter.collation !== undefined) {
+            throw new ValidationError('having() does not support collate()');
+        }
+        assertFieldPath(filter.field, 'having()');
+        if (!aliases.has(filter.field)) {
+            checkField(filter.field, 'having()', options, '');
+        }
+    }
+}
+
+function hasComputedParts(filter: QueryFilter): boolean {
+    return Boolean(
+        filter.expression ||
+        filter.valueExpression ||
+        filter.value2Expression ||
+        filter.operator === 'elem_match'
+    );
+}
+
+function checkQuery(
+    query: QueryOptions,
+    options: QueryJSONOptions,
+    prefix: string
+): void {
+    if (
+        query.deleted !== undefined &&
+        query.deleted !== 'exclude' &&
+        !options.allowDeleted
+    ) {
+        throw new ValidationError(
+            `Serialized query cannot read deleted documents ('${query.deleted}') without allowDeleted`
+        );
+    }
+
+    for (const join of query.joins || []) {
+        checkCollection(join.collection, options);
+        if (join.alias !== undefined) assertOutputField(join.alias, 'join()');
+        checkField(join.condition.left, 'join()', options, prefix);
+        // The right side belongs to the joined collection, bare or qualified
+        const joinName = getJoinName(join);
+        const right = join.condition.right.startsWith(`${joinName}.`)
+            ? join.condition.right.slice(joinName.length + 1)
+            : join.condition.right;
+        checkField(right, 'join()', options, `${join.collection}.`);
+    }
+    for (const aggregate of query.aggregates || []) {
+        if (aggregate.field !== '*') {
+            checkField(aggregate.field, 'aggregate()', options, prefix);
+        }
+        if (aggregate.alias !== undefined) {
+            assertOutputField(aggregate.alias, 'aggregate()');
+        }
+    }
+    for (const entry of query.selectFields || []) {
+        checkField(parseSelectField(entry).field, 'select()', options, prefix);
+    }
+    for (const { alias, expression } of query.selectExpressions || []) {
+        assertOutputField(alias, 'select()');
+        checkExpression(expression, options, prefix);
+    }
+
+    // Output columns, which orderBy() and having() read instead of documents
+    const aliases = getOutputAliases(query);
+
+    checkFilters(query.filters, options, prefix);
+    checkHaving(query.having || [], options, aliases);
+    for (const order of query.orderBy || []) {
+        if (!aliases.has(order.field)) {
+            checkField(order.field, 'orderBy()', options, prefix);
+        }
+    }
+    for (const field of query.groupBy || []) {
+        checkField(field, 'groupBy()', options, prefix);
+    }
+    for (const field of query.cursor?.fields || []) {
+        checkField(field, 'cursor', options, prefix);
+    }
+    for (const field of query.nearest?.fields || []) {
+        checkField(field, 'nearestTo()', options, prefix);
+    }
+    if (query.geoNearest) {
+        checkField(query.geoNearest.field, 'nearest()', options, prefix);
+    }
+    for (const { relation, options: related } of query.populate || []) {
+        checkField(relation, 'populate()', options, prefix);
+        if (related) checkQuery(related, options, `${prefix}${relation}.`);
+    }
+}
@@ -3,9 +3,13 @@ import type {
     CollectionSchema,
     InferSchema,
     ConstrainedFieldDefinition,
+    RelationDefinition,
+    HistoryOptions,
+    TTLOption,
 } from './types';
 import type { SchemaConstraints, Constraint } from './schema-constraints';
 import type { UpgradeMap, SeedFunction } from './upgrade-types';
+import { SchemaSQLGenerator } from './schema-sql-generator';
 
 export class Registry {
     private collections = new Map<string, CollectionSchema>();
@@ -78,6 +82,12 @@ export class Registry {
             constrainedFields?: {
                 [fieldPath: string]: ConstrainedFieldDefinition;
             };
+            fullText?: string[];
+            relations?: { [name: string]: RelationDefinition };
+            versioning?: boolean;
+            softDelete?: boolean;
+            history?: boolean | HistoryOptions;
+            ttl?: TTLOption;
             upgrade?: UpgradeMap<InferSchema<T>>;
             seed?: SeedFunction<InferSchema<T>>;
         } = {}
@@ -86,6 +96,13 @@ export class Registry {
             throw new Error(`Collection '${name}' is already registered`);
         }
 
+        if (typeof options.history === 'object') {
+            SchemaSQLGenerator.validateHistoryOptions(options.history);
+        }
+        if (options.ttl !== undefined) {
+            SchemaSQLGenerator.validateTTLOption(options.ttl, schema);
+        }
+
         // Convert old constraints API to constrainedFields if needed
         let finalConstrainedFields = options.constrainedFields || {};
         if (options.constraints) {
@@ -98,6 +115,17 @@ export class Registry {
             };
         }
 
+        // A ttl field is compared as a column, so it must be constrained
+        if (
+            typeof options.ttl === 'object' &&
+            !finalConstrainedFields[options.ttl.field]
+        ) {
+            finalConstrainedFields = {
+                ...finalConstrainedFields,
+                [options.ttl.field]: {},
+            };
+        }
+
         const collectionSchema: CollectionSchema<InferSchema<T>> = {
             name,
             schema,
@@ -106,6 +134,13 @@ export class Registry {
             indexes: options.indexes || [],
             constraints: options.constraints,
             constrainedFields: finalConstrainedFields,
+            fullText: options.fullText,
+            relations: options.relations,
+            // History entries are identified by revision
+            versioning: options.versioning || !!options.history,
+            softDelete: options.softDelete,
+            history: options.history,
+            ttl: options.ttl,
             upgrade: options.upgrade,
             seed: options.seed,
         };
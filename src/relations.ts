@@ -0,0 +1,36 @@
+import { ValidationError } from './errors';
+import { getNestedValue } from './constrained-fields';
+import type { QueryOptions } from './types';
+
+/**
+ * populate() needs whole documents on both sides of a relation, so queries
+ * that reshape rows cannot be combined with it
+ */
+export function assertPopulatable(options: QueryOptions): void {
+    if (
+        (options.aggregates && options.aggregates.length > 0) ||
+        (options.joins && options.joins.length > 0) ||
+        (options.selectFields && options.selectFields.length > 0) ||
+        (options.selectExpressions && options.selectExpressions.length > 0) ||
+        (options.groupBy && options.groupBy.length > 0)
+    ) {
+        throw new ValidationError(
+            'populate() cannot be combined with aggregates, joins, select or groupBy'
+        );
+    }
+}
+
+/**
+ * Distinct non-null values of `field` across documents, used as the IN list
+ * of a batched relation query
+ */
+export function collectKeys(docs: any[], field: string): any[] {
+    const keys = new Set<any>();
+    for (const doc of docs) {
+        const value = getNestedValue(doc, field);
+        if (value !== undefined && value !== null) {
+            keys.add(value);
+        }
+    }
+    return Array.from(keys);
+}
@@ -2,7 +2,11 @@ import type {
     IndexDefinition,
     SchemaConstraints,
 } from './schema-constraints';
-import type { ConstrainedFieldDefinition } from './types';
+import type {
+    ConstrainedFieldDefinition,
+    HistoryOptions,
+    TTLOption,
+} from './types';
 import { 
     fieldPathToColumnName,
     inferSQLiteType,
@@ -53,15 +57,28 @@ export class SchemaSQLGenerator {
                     // Create vec0 virtual table for this vector field
                     const vectorType = fieldDef.vectorType || 'float';
                     const vectorTableName = `${tableName}_${columnName}_vec`;
+                    const metric = this.getVectorIndexMetric(fieldDef);
                     
                     additionalSQL.push(
-                        `CREATE VIRTUAL TABLE IF NOT EXISTS ${vectorTableName} USING vec0(${columnName} ${vectorType}[${fieldDef.vectorDimensions}])`
+                        `CREATE VIRTUAL TABLE IF NOT EXISTS ${vectorTableName} USING vec0(${columnName} ${vectorType}[${fieldDef.vectorDimensions}]${metric === 'l2' ? '' : ` distance_metric=${metric}`})`
                     );
                     
                     // Continue to create regular column for JSON storage - don't skip
                     // Set sqliteType to TEXT for the regular column
                     sqliteType = 'TEXT';
                 }
+
+                // Geo points keep their JSON in the column and an R*Tree entry per row
+                if (fieldDef.type === 'GEO_POINT') {
+                    if (
+                        !getZodTypeForPath(schema, `${fieldPath}.lat`) ||
+                        !getZodTypeForPath(schema, `${fieldPath}.lng`)
+                    ) {
+                        throw new Error(`Geo point field '${fieldPath}' must be an object with lat and lng`);
+                    }
+                    additionalSQL.push(...this.buildGeoPointSQL(tableName, fieldPath));
+                    sqliteType = 'TEXT';
+                }
                 
                 // Build column definition for non-vector fields
                 let columnDef = `${columnName} ${sqliteType}`;
@@ -150,6 +167,379 @@ export class SchemaSQLGenerator {
         return `${tableName}_${columnName}_vec`;
     }
 
+    /**
+     * Get the R*Tree table name for a GEO_POINT field
+     */
+    static getGeoTableName(tableName: string, fieldPath: string): string {
+        return `${tableName}_${fieldPathToColumnName(fieldPath)}_geo`;
+    }
+
+    /**
+     * Generate the R*Tree for a GEO_POINT field plus the triggers that keep
+     * it in sync with the field's column, keyed by rowid like the FTS5
+     * table. Entries are float32 boxes rounded outward, so they only narrow
+     * down candidates; queries still compare the stored point. The final
+     * statement backfills rows written before the table existed.
+     */
+    static buildGeoPointSQL(tableName: string, fieldPath: string): string[] {
+        const geoTable = this.getGeoTableName(tableName, fieldPath);
+        const column = fieldPathToColumnName(fieldPath);
+        const insertNew = `INSERT INTO ${geoTable} (id, minLat, maxLat, minLng, maxLng)
+                SELECT new.rowid, lat, lat, lng, lng FROM (SELECT json_extract(new.${column}, '$.lat') AS lat, json_extract(new.${column}, '$.lng') AS lng)
+                WHERE typeof(lat) IN ('integer', 'real') AND typeof(lng) IN ('integer', 'real');`;
+
+        return [
+            `CREATE VIRTUAL TABLE IF NOT EXISTS ${geoTable} USING rtree(id, minLat, maxLat, minLng, maxLng)`,
+            `CREATE TRIGGER IF NOT EXISTS ${geoTable}_insert AFTER INSERT ON ${tableName} BEGIN
+                DELETE FROM ${geoTable} WHERE id = new.rowid;
+                ${insertNew}
+            END`,
+            `CREATE TRIGGER IF NOT EXISTS ${geoTable}_update AFTER UPDATE OF ${column} ON ${tableName} BEGIN
+                DELETE FROM ${geoTable} WHERE id = old.rowid;
+                ${insertNew}
+            END`,
+            `CREATE TRIGGER IF NOT EXISTS ${geoTable}_delete AFTER DELETE ON ${tableName} BEGIN
+                DELETE FROM ${geoTable} WHERE id = old.rowid;
+            END`,
+            `INSERT INTO ${geoTable} (id, minLat, maxLat, minLng, maxLng)
+                SELECT rowid, lat, lat, lng, lng FROM (SELECT rowid, json_extract(${column}, '$.lat') AS lat, json_extract(${column}, '$.lng') AS lng FROM ${tableName} WHERE rowid NOT IN (SELECT id FROM ${geoTable}))
+                WHERE typeof(lat) IN ('integer', 'real') AND typeof(lng) IN ('integer', 'real')`,
+        ];
+    }
+
+    /**
+     * Get FTS5 shadow table name for a collection
+     */
+    static getFullTextTableName(tableName: string): string {
+        return `${tableName}_fts`;
+    }
+
+    /**
+     * Get the history table name for a collection
+     */
+    static getHistoryTableName(tableName: string): string {
+        return `${tableName}_history`;
+    }
+
+    /**
+     * Table holding the actor of the transaction currently writing, read by
+     * the history triggers; rows only exist inside withActor() transactions
+     */
+    static readonly HISTORY_ACTOR_TABLE = '_skibbadb_history_actor';
+
+    /**
+     * Retention limits are inlined into trigger SQL, so they must be plain numbers
+     */
+    static validateHistoryOptions(options: HistoryOptions): void {
+        const { maxRevisions, maxAge } = options;
+        if (
+            maxRevisions !== undefined &&
+            !(Number.isInteger(maxRevisions) && maxRevisions > 0)
+        ) {
+            throw new Error('history maxRevisions must be a positive integer');
+        }
+        if (
+            maxAge !== undefined &&
+            !(typeof maxAge === 'number' && Number.isFinite(maxAge) && maxAge > 0)
+        ) {
+            throw new Error('history maxAge must be a positive number of milliseconds');
+        }
+    }
+
+    /**
+     * Generate the history table and the triggers that fill it. Entries are
+     * written when the revision trigger bumps _rev, so each write records
+     * exactly one entry holding the final document, and on hard deletes.
+     * Soft deletes and restores are told apart from updates by comparing
+     * _deletedAt with the previous entry. Retention is applied as entries
+     * are written. Rows that exist when history is first enabled get a
+     * baseline entry.
+     */
+    static buildHistorySQL(
+        tableName: string,
+        options: HistoryOptions,
+        softDelete: boolean,
+        tableExists: boolean
+    ): string[] {
+        this.validateHistoryOptions(options);
+        const { maxRevisions, maxAge } = options;
+
+        const historyTable = this.getHistoryTableName(tableName);
+        const now = `strftime('%Y-%m-%dT%H:%M:%fZ', 'now')`;
+        const actor = `(SELECT actor FROM ${this.HISTORY_ACTOR_TABLE} ORDER BY rowid DESC LIMIT 1)`;
+        const previouslyDeleted = `coalesce((SELECT json_extract(doc, '$._deletedAt') IS NOT NULL FROM ${historyTable} WHERE _id = new._id ORDER BY _hid DESC LIMIT 1), 0)`;
+        const writeOperation = softDelete
+            ? `CASE WHEN old._rev = 0 THEN 'insert' WHEN new._deletedAt IS NOT NULL AND NOT ${previouslyDeleted} THEN 'delete' WHEN new._deletedAt IS NULL AND ${previouslyDeleted} THEN 'restore' ELSE 'update' END`
+            : `CASE WHEN old._rev = 0 THEN 'insert' ELSE 'update' END`;
+        const deleteOperation = softDelete
+            ? `CASE WHEN old._deletedAt IS NULL THEN 'delete' ELSE 'purge' END`
+            : `'delete'`;
+
+        const statements = [
+            `CREATE TABLE IF NOT EXISTS ${this.HISTORY_ACTOR_TABLE} (actor TEXT)`,
+            `CREATE TABLE IF NOT EXISTS ${historyTable} (
+                _hid INTEGER PRIMARY KEY AUTOINCREMENT,
+                _id TEXT NOT NULL,
+                revision INTEGER NOT NULL,
+                operation TEXT NOT NULL,
+                timestamp TEXT NOT NULL,
+                doc TEXT NOT NULL,
+                actor TEXT
+            )`,
+            `CREATE INDEX IF NOT EXISTS idx_${historyTable}_id ON ${historyTable} (_id, _hid)`,
+            `CREATE INDEX IF NOT EXISTS idx_${historyTable}_timestamp ON ${historyTable} (timestamp)`,
+        ];
+        if (!tableExists) {
+            statements.push(
+                `INSERT INTO ${historyTable} (_id, revision, operation, timestamp, doc) SELECT _id, _rev, 'insert', ${now}, doc FROM ${tableName}`
+            );
+        }
+
+        // Recreated on every start so option changes take effect
+        statements.push(
+            `DROP TRIGGER IF EXISTS ${tableName}_history_write`,
+            `CREATE TRIGGER ${tableName}_history_write AFTER UPDATE OF _rev ON ${tableName} WHEN new._rev <> old._rev BEGIN
+                INSERT INTO ${historyTable} (_id, revision, operation, timestamp, doc, actor)
+                VALUES (new._id, new._rev, ${writeOperation}, ${now}, new.doc, ${actor});
+            END`,
+            `DROP TRIGGER IF EXISTS ${tableName}_history_delete`,
+            `CREATE TRIGGER ${tableName}_history_delete AFTER DELETE ON ${tableName} BEGIN
+                INSERT INTO ${historyTable} (_id, revision, operation, timestamp, doc, actor)
+                VALUES (old._id, old._rev, ${deleteOperation}, ${now}, old.doc, ${actor});
+            END`,
+            `DROP TRIGGER IF EXISTS ${historyTable}_retention`
+        );
+
+        const retention: string[] = [];
+        if (maxRevisions !== undefined) {
+            retention.push(
+                `DELETE FROM ${historyTable} WHERE _id = new._id AND _hid <= (SELECT _hid FROM ${historyTable} WHERE _id = new._id ORDER BY _hid DESC LIMIT 1 OFFSET ${maxRevisions});`
+            );
+        }
+        if (maxAge !== undefined) {
+            retention.push(
+                `DELETE FROM ${historyTable} WHERE timestamp < strftime('%Y-%m-%dT%H:%M:%fZ', 'now', '-${maxAge / 1000} seconds');`
+            );
+        }
+        if (retention.length > 0) {
+            statements.push(
+                `CREATE TRIGGER ${historyTable}_retention AFTER INSERT ON ${historyTable} BEGIN
+                ${retention.join('\n                ')}
+            END`
+            );
+        }
+        return statements;
+    }
+
+    /**
+     * Generate the FTS5 shadow table for fullText fields plus the triggers
+     * that keep it in sync with the main table. Triggers cover every write
+     * path (bulk, query-based and sync methods) without per-method queries.
+     * The final statement backfills rows written before the table existed.
+     */
+    static buildFullTextSQL(
+        tableName: string,
+        fields: string[],
+        schema?: any
+    ): string[] {
+        if (schema) {
+            const missing = fields.filter(
+                (field) => !getZodTypeForPath(schema, field)
+            );
+            if (missing.length > 0) {
+                throw new Error(
+                    `Invalid fullText fields: ${missing.join(', ')} not found in schema`
+                );
+            }
+        }
+
+        const ftsTable = this.getFullTextTableName(tableName);
+        const columns = fields.map(fieldPathToColumnName);
+        const extract = (row: string) =>
+            fields
+                .map((field) => `json_extract(${row}.doc, '$.${field}')`)
+                .join(', ');
+        const insertNew = `INSERT INTO ${ftsTable} (rowid, ${columns.join(
+            ', '
+        )}) VALUES (new.rowid, ${extract('new')});`;
+
+        return [
+            `CREATE VIRTUAL TABLE IF NOT EXISTS ${ftsTable} USING fts5(${columns.join(', ')})`,
+            `CREATE TRIGGER IF NOT EXISTS ${ftsTable}_insert AFTER INSERT ON ${tableName} BEGIN
+                DELETE FROM ${ftsTable} WHERE rowid = new.rowid;
+                ${insertNew}
+            END`,
+            `CREATE TRIGGER IF NOT EXISTS ${ftsTable}_update AFTER UPDATE OF doc ON ${tableName} BEGIN
+                DELETE FROM ${ftsTable} WHERE rowid = old.rowid;
+                ${insertNew}
+            END`,
+            `CREATE TRIGGER IF NOT EXISTS ${ftsTable}_delete AFTER DELETE ON ${tableName} BEGIN
+                DELETE FROM ${ftsTable} WHERE rowid = old.rowid;
+            END`,
+            `INSERT INTO ${ftsTable} (rowid, ${columns.join(', ')}) SELECT rowid, ${extract(
+                tableName
+            )} FROM ${tableName} WHERE rowid NOT IN (SELECT rowid FROM ${ftsTable})`,
+        ];
+    }
+
+    /**
+     * Generate the _rev column and the triggers that maintain it. Inserts
+     * start at revision 1 and every write to doc bumps it; the revision is
+     * mirrored into doc._rev so all read paths return it. Tables created
+     * before versioning was enabled get the column and revision 1 backfilled.
+     */
+    static buildRevisionSQL(tableName: string, hasColumn: boolean): string[] {
+        const statements = hasColumn
+            ? []
+            : [
+                  `ALTER TABLE ${tableName} ADD COLUMN _rev INTEGER NOT NULL DEFAULT 0`,
+                  `UPDATE ${tableName} SET _rev = 1, doc = json_set(doc, '$._rev', 1)`,
+              ];
+
+        // Inserted rows still hold the default 0, so the update trigger
+        // (which only fires when _rev was left unchanged) skips this write
+        statements.push(
+            `CREATE TRIGGER IF NOT EXISTS ${tableName}_rev_insert AFTER INSERT ON ${tableName} BEGIN
+                UPDATE ${tableName} SET _rev = 1, doc = json_set(new.doc, '$._rev', 1) WHERE rowid = new.rowid;
+            END`,
+            `CREATE TRIGGER IF NOT EXISTS ${tableName}_rev_update AFTER UPDATE OF doc ON ${tableName} WHEN new._rev = old._rev BEGIN
+                UPDATE ${tableName} SET _rev = old._rev + 1, doc = json_set(new.doc, '$._rev', old._rev + 1) WHERE rowid = new.rowid;
+            END`
+        );
+        return statements;
+    }
+
+    /**
+     * Generate the _deletedAt column for soft-delete collections. The column
+     * decides whether a row is deleted; a trigger mirrors it into
+     * doc._deletedAt so documents read with withDeleted() show when they
+     * were deleted, even after writes that replace doc.
+     */
+    static buildSoftDeleteSQL(tableName: string, hasColumn: boolean): string[] {
+        const statements = hasColumn
+            ? []
+            : [`ALTER TABLE ${tableName} ADD COLUMN _deletedAt TEXT`];
+
+        statements.push(
+            `CREATE INDEX IF NOT EXISTS idx_${tableName}_deletedAt ON ${tableName} (_deletedAt)`,
+            `CREATE TRIGGER IF NOT EXISTS ${tableName}_deleted_sync AFTER UPDATE OF _deletedAt, doc ON ${tableName} WHEN new._deletedAt IS NOT json_extract(new.doc, '$._deletedAt') BEGIN
+                UPDATE ${tableName} SET doc = CASE WHEN new._deletedAt IS NULL THEN json_remove(new.doc, '$._deletedAt') ELSE json_set(new.doc, '$._deletedAt', new._deletedAt) END WHERE rowid = new.rowid;
+            END`
+        );
+        return statements;
+    }
+
+    /**
+     * A ttl duration is inlined into trigger SQL, so it must be a plain number
+     */
+    static validateTTLOption(ttl: TTLOption, schema?: any): void {
+        if (typeof ttl === 'number') {
+            if (!(Number.isFinite(ttl) && ttl > 0)) {
+                throw new Error('ttl must be a positive number of milliseconds');
+            }
+            return;
+        }
+        if (!ttl || typeof ttl.field !== 'string' || ttl.field === '') {
+            throw new Error("ttl must be a duration in ms or { field: 'path' }");
+        }
+        // Expiry is compared with julianday(), so numbers or free-form
+        // strings would expire documents at the wrong time
+        if (schema && !this.isTimestampSchema(getZodTypeForPath(schema, ttl.field))) {
+            throw new Error(
+                `ttl field '${ttl.field}' must be a z.date() or z.string().datetime()`
+            );
+        }
+    }
+
+    private static isTimestampSchema(type: any): boolean {
+        while (
+            type?._def?.typeName === 'ZodOptional' ||
+            type?._def?.typeName === 'ZodNullable' ||
+            type?._def?.typeName === 'ZodDefault'
+        ) {
+            type = type._def.innerType;
+        }
+        if (type?._def?.typeName === 'ZodDate') return true;
+        return (
+            type?._def?.typeName === 'ZodString' &&
+            type._def.checks.some((check: any) => check.kind === 'datetime')
+        );
+    }
+
+    /**
+     * Column holding each row's expiry: the constrained column of a ttl
+     * field, or _expiresAt for a fixed duration
+     */
+    static getTTLColumn(ttl: TTLOption): string {
+        return typeof ttl === 'number'
+            ? '_expiresAt'
+            : fieldPathToColumnName(ttl.field);
+    }
+
+    /**
+     * Julian day of the ISO timestamp held by an expiry column, so offsets
+     * and any fractional precision compare correctly. Dates written to
+     * constrained TEXT columns are JSON-encoded, so surrounding quotes are
+     * dropped; queries and the ttl index use the same expression.
+     */
+    static buildExpiryExpression(column: string): string {
+        return `julianday(trim(${column}, '"'))`;
+    }
+
+    /**
+     * Generate expiry support for ttl collections. A ttl field only needs
+     * its column indexed; a fixed duration adds _expiresAt, stamped by a
+     * trigger when the document is inserted. The trigger is recreated so a
+     * changed duration (or mode) applies to later inserts.
+     */
+    static buildTTLSQL(
+        tableName: string,
+        ttl: TTLOption,
+        hasColumn: boolean
+    ): string[] {
+        this.validateTTLOption(ttl);
+        const column = this.getTTLColumn(ttl);
+        const statements = [
+            `DROP TRIGGER IF EXISTS ${tableName}_ttl_insert`,
+            `DROP TRIGGER IF EXISTS ${tableName}_ttl_update`,
+        ];
+
+        if (typeof ttl === 'number') {
+            const expiresAt = `strftime('%Y-%m-%dT%H:%M:%fZ', 'now', '+${ttl / 1000} seconds')`;
+            if (!hasColumn) {
+                statements.push(
+                    `ALTER TABLE ${tableName} ADD COLUMN _expiresAt TEXT`,
+                    // Existing rows count from when the ttl was enabled
+                    `UPDATE ${tableName} SET _expiresAt = ${expiresAt}`
+                );
+            }
+            statements.push(
+                `CREATE TRIGGER ${tableName}_ttl_insert AFTER INSERT ON ${tableName} BEGIN
+                    UPDATE ${tableName} SET _expiresAt = ${expiresAt} WHERE rowid = new.rowid;
+                END`
+            );
+        }
+
+        statements.push(
+            `CREATE INDEX IF NOT EXISTS idx_${tableName}_ttl ON ${tableName} (${this.buildExpiryExpression(column)})`
+        );
+        return statements;
+    }
+
+    /**
+     * Metric a vector field's vec0 table ranks KNN lookups by
+     */
+    static getVectorIndexMetric(
+        fieldDef: ConstrainedFieldDefinition
+    ): 'l2' | 'cosine' | 'l1' {
+        const distance = fieldDef.vectorDistance || 'l2';
+        const metric = distance === 'euclidean' ? 'l2' : distance;
+        if (metric !== 'l2' && metric !== 'cosine' && metric !== 'l1') {
+            throw new Error(`Unknown vector distance '${distance}'`);
+        }
+        return metric;
+    }
+
     /**
      * Get all vector fields from constrained fields
      */
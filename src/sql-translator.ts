@@ -6,6 +6,12 @@ import type {
     AggregateField,
     JoinClause,
     ConstrainedFieldDefinition,
+    NearestQuery,
+    GeoNearestQuery,
+    GeoBox,
+    ExpressionNode,
+    WindowSpec,
+    OrderByClause,
 } from './types';
 import { stringifyDoc } from './json-utils';
 import {
@@ -14,8 +20,47 @@ import {
     convertValueForStorage,
     inferSQLiteType,
     getZodTypeForPath,
+    getNestedValue,
 } from './constrained-fields';
 import { SchemaSQLGenerator } from './schema-sql-generator';
+import { ValidationError } from './errors';
+import { getCursorOrder } from './cursor';
+import {
+    getJoinName,
+    getOutputAliases,
+    parseSelectField,
+    resolveJoinFields,
+    usesOuterJoins,
+    type SchemaLookup,
+} from './join-resolver';
+import {
+    getUpdatedPaths,
+    pathsOverlap,
+    resolveUpdatedValue,
+    type UpdateOperators,
+} from './update-operators';
+import {
+    assertFieldPath,
+    assertOutputField,
+    getOperator,
+    matchToFilters,
+    validatePipeline,
+    type PipelineStage,
+    type PipelineStageName,
+} from './aggregation';
+import { ELEMENT_FIELD } from './filter-parser';
+import { assertLatLng, buildHaversineSQL, getRadiusBox } from './geo';
+import {
+    assertCollation,
+    FOLD_FUNCTION,
+    getLikePattern,
+    REGEXP_FUNCTION,
+} from './string-functions';
+import {
+    getExpressionResultKind,
+    hasFilterExpression,
+    toExpressionNode,
+} from './expressions';
 
 /**
  * Small helper: cache `"json_extract(doc,'$.field')"` strings so we build
@@ -46,23 +91,62 @@ const getFieldAccess = (
     return jsonPath(field);
 };
 
+const VALUE_WINDOW_FUNCTIONS = new Set(['lag', 'lead', 'first_value', 'last_value', 'nth_value']);
+// Plain aggregates unless over() gives them a window
+const AGGREGATE_WINDOW_FUNCTIONS = new Set(['sum', 'avg', 'min', 'max', 'count']);
+// Largest k sqlite-vec accepts in a KNN lookup
+const MAX_VECTOR_INDEX_K = 4096;
+
+// A nearest query's _distance: selected per row, or read from a KNN index
+// joined into the FROM clause
+interface NearestDistance {
+    distanceExpr: string;
+    params: any[];
+    threshold?: number;
+    join?: { sql: string; params: any[] };
+}
+
 export class SQLTranslator {
     /* ░░░░░░ unchanged buildSelect / buildInsert / buildUpdate / buildDelete ░░░░░░ */
 
     static buildSelectQuery(
         tableName: string,
         options: QueryOptions,
-        constrainedFields?: { [fieldPath: string]: ConstrainedFieldDefinition }
+        constrainedFields?: { [fieldPath: string]: ConstrainedFieldDefinition },
+        schemas?: SchemaLookup,
+        nativeOuterJoins = true
     ): { sql: string; params: any[] } {
         const params: any[] = [];
+
+        // Qualify bare fields of join queries with the table that owns them
+        options = resolveJoinFields(tableName, options, schemas);
+        if (!nativeOuterJoins && usesOuterJoins(options)) {
+            return this.buildEmulatedOuterJoinQuery(tableName, options, constrainedFields);
+        }
         
         // Build SELECT clause
-        let selectClause = this.buildSelectClause(tableName, options, constrainedFields);
+        let selectClause = this.buildSelectClause(tableName, options, constrainedFields, params);
+
+        // KNN distance, selected as _distance so WHERE and ORDER BY can share it
+        const nearest = options.nearest
+            ? this.buildNearestDistance(tableName, options, constrainedFields)
+            : options.geoNearest
+              ? this.buildGeoNearestDistance(tableName, options, constrainedFields)
+              : undefined;
+        if (nearest) {
+            selectClause += `, ${nearest.distanceExpr} AS _distance`;
+            params.push(...nearest.params);
+        }
         
         // Build FROM clause with joins
-        let fromClause = this.buildFromClause(tableName, options.joins);
+        let fromClause = this.buildFromClause(tableName, options.joins, constrainedFields);
+        if (nearest?.join) {
+            fromClause += nearest.join.sql;
+            params.push(...nearest.join.params);
+        }
         
         let sql = `${selectClause} ${fromClause}`;
+        const conditions = this.buildScopeConditions(tableName, options);
 
         // Build WHERE clause
         if (options.filters.length > 0) {
@@ -73,10 +157,37 @@ export class SQLTranslator {
                 tableName,
                 options.joins
             );
-            sql += ` WHERE ${whereClause}`;
+            conditions.push(whereClause);
+            params.push(...whereParams);
+        }
+
+        // Keyset pagination condition
+        if (options.cursor) {
+            const { whereClause, whereParams } = this.buildCursorClause(
+                tableName,
+                options,
+                constrainedFields
+            );
+            conditions.push(whereClause);
             params.push(...whereParams);
         }
 
+        // Rows without a stored vector or point have a NULL distance and never match
+        if (nearest) {
+            conditions.push(
+                nearest.threshold !== undefined
+                    ? '_distance <= ?'
+                    : '_distance IS NOT NULL'
+            );
+            if (nearest.threshold !== undefined) {
+                params.push(nearest.threshold);
+            }
+        }
+
+        if (conditions.length > 0) {
+            sql += ` WHERE ${conditions.join(' AND ')}`;
+        }
+
         // Build GROUP BY clause
         if (options.groupBy && options.groupBy.length > 0) {
             const groupClauses = options.groupBy.map((field) =>
@@ -98,23 +209,41 @@ export class SQLTranslator {
         }
 
         // Build ORDER BY clause
-        if (options.orderBy && options.orderBy.length > 0) {
-            const orderClauses = options.orderBy.map(
-                (order) =>
-                    `${this.qualifyFieldAccess(
-                        order.field,
-                        tableName,
-                        constrainedFields,
-                        options.joins
-                    )} ${order.direction.toUpperCase()}`
-            );
+        const orderBy = options.cursor
+            ? this.getCursorSortOrder(options)
+            : options.orderBy;
+        const outputAliases = getOutputAliases(options);
+        const orderClauses = (orderBy || []).map(
+            (order) =>
+                `${
+                    outputAliases.has(order.field)
+                        ? `"${order.field}"` // A select() key, computed column or aggregate alias
+                        : this.buildOrderTerm(
+                              order,
+                              this.qualifyFieldAccess(
+                                  order.field,
+                                  tableName,
+                                  constrainedFields,
+                                  options.joins
+                              ),
+                              params
+                          )
+                } ${order.direction.toUpperCase()}`
+        );
+        // Nearest first; any orderBy only breaks distance ties
+        if (nearest) {
+            orderClauses.unshift('_distance ASC');
+        }
+        if (orderClauses.length > 0) {
             sql += ` ORDER BY ${orderClauses.join(', ')}`;
         }
 
         // Build LIMIT and OFFSET clauses
-        if (options.limit) {
+        const limit =
+            options.limit ?? (nearest ? (options.nearest ?? options.geoNearest)!.k ?? 10 : undefined);
+        if (limit) {
             sql += ` LIMIT ?`;
-            params.push(options.limit);
+            params.push(limit);
 
             if (options.offset) {
                 sql += ` OFFSET ?`;
@@ -129,6 +258,266 @@ export class SQLTranslator {
         return { sql, params };
     }
 
+    /**
+     * populate() query reading the related documents of a chunk of parent
+     * keys, each tagged with its parent key as _parent. `parent.join` links a
+     * manyToMany join table. Limit and offset apply per parent: ROW_NUMBER()
+     * partitioned by the parent key numbers each parent's documents.
+     */
+    static buildRelatedQuery(
+        tableName: string,
+        options: QueryOptions,
+        parent: { key: string; values: any[]; join?: string; conditions?: string[] },
+        constrainedFields?: { [fieldPath: string]: ConstrainedFieldDefinition }
+    ): { sql: string; params: any[] } {
+        const orderParams: any[] = [];
+        const orderTerms = (options.orderBy || []).map(
+            (order) =>
+                `${this.buildOrderTerm(
+                    order,
+                    this.qualifyFieldAccess(order.field, tableName, constrainedFields),
+                    orderParams
+                )} ${order.direction.toUpperCase()}`
+        );
+
+        const params: any[] = [...parent.values];
+        const conditions = [
+            ...this.buildScopeConditions(tableName, options),
+            ...(parent.conditions || []),
+            `${parent.key} IN (${parent.values.map(() => '?').join(', ')})`,
+        ];
+        if (options.filters.length > 0) {
+            const { whereClause, whereParams } = this.buildWhereClause(
+                options.filters,
+                'AND',
+                constrainedFields,
+                tableName
+            );
+            conditions.push(whereClause);
+            params.push(...whereParams);
+        }
+        const columns = `${tableName}.doc AS doc, ${parent.key} AS _parent`;
+        const from = `FROM ${tableName}${parent.join || ''} WHERE ${conditions.join(' AND ')}`;
+
+        if (!options.limit && !options.offset) {
+            const orderClause =
+                orderTerms.length > 0 ? ` ORDER BY ${orderTerms.join(', ')}` : '';
+            return {
+                sql: `SELECT ${columns} ${from}${orderClause}`,
+                params: [...params, ...orderParams],
+            };
+        }
+
+        const position = `ROW_NUMBER() OVER (PARTITION BY ${parent.key} ORDER BY ${
+            orderTerms.length > 0 ? orderTerms.join(', ') : `${tableName}.rowid`
+        }) AS _position`;
+        const start = options.offset || 0;
+        let sql = `SELECT doc, _parent FROM (SELECT ${columns}, ${position} ${from}) WHERE _position > ?`;
+        params.unshift(...orderParams);
+        params.push(start);
+        if (options.limit) {
+            sql += ' AND _position <= ?';
+            params.push(start + options.limit);
+        }
+        return { sql: `${sql} ORDER BY _position`, params };
+    }
+
+    /**
+     * Conditions every query on a table carries before its own filters:
+     * the soft-delete scope and expiry
+     */
+    static buildScopeConditions(
+        tableName: string,
+        options: QueryOptions
+    ): string[] {
+        const conditions: string[] = [];
+        const deletedCondition = this.buildDeletedCondition(
+            tableName,
+            options.deleted
+        );
+        if (deletedCondition) {
+            conditions.push(deletedCondition);
+        }
+        const expiryCondition = this.buildExpiryCondition(
+            tableName,
+            options.expiry
+        );
+        if (expiryCondition) {
+            conditions.push(expiryCondition);
+        }
+        return conditions;
+    }
+
+    /**
+     * Condition hiding rows whose expiry has passed, or with `only` matching
+     * just those rows. Rows without an expiry never expire.
+     */
+    static buildExpiryCondition(
+        tableName: string,
+        expiry?: QueryOptions['expiry']
+    ): string | undefined {
+        if (!expiry) return undefined;
+        const column = SchemaSQLGenerator.buildExpiryExpression(
+            `${tableName}.${expiry.column}`
+        );
+        const now = `julianday('now')`;
+        return expiry.only
+            ? `${column} <= ${now}`
+            : `(${column} IS NULL OR ${column} > ${now})`;
+    }
+
+    /**
+     * Condition limiting a soft-delete table to live or deleted rows;
+     * undefined when deleted rows are in scope or the table hard-deletes
+     */
+    static buildDeletedCondition(
+        tableName: string,
+        deleted?: QueryOptions['deleted']
+    ): string | undefined {
+        if (deleted === 'exclude') return `${tableName}._deletedAt IS NULL`;
+        if (deleted === 'only') return `${tableName}._deletedAt IS NOT NULL`;
+        return undefined;
+    }
+
+    /**
+     * Row-value comparison selecting rows past a keyset cursor. When the sort
+     * directions are mixed SQLite cannot compare row values directly, so the
+     * comparison is expanded into an OR chain of equality prefixes.
+     */
+    static buildCursorClause(
+        tableName: string,
+        options: QueryOptions,
+        constrainedFields?: { [fieldPath: string]: ConstrainedFieldDefinition }
+    ): { whereClause: string; whereParams: any[] } {
+        const cursor = options.cursor!;
+        const order = this.getCursorSortOrder(options);
+
+        if (
+            order.length !== cursor.fields.length ||
+            order.some((o, i) => o.field !== cursor.fields[i])
+        ) {
+            throw new ValidationError(
+                'Cursor does not match the query orderBy'
+            );
+        }
+
+        const columns = order.map((o) =>
+            o.field === '_id'
+                ? `${tableName}._id`
+                : this.qualifyFieldAccess(
+                      o.field,
+                      tableName,
+                      constrainedFields,
+                      options.joins
+                  )
+        );
+        const values = cursor.values.map((value, i) =>
+            this.convertCursorValue(value, order[i].field, constrainedFields)
+        );
+        const comparisons = order.map((o) =>
+            o.direction === 'asc' ? '>' : '<'
+        );
+
+        // Row values compare NULL as unknown, so they only work when no sort
+        // key is NULL and missing keys (which sort first) never come after
+        if (
+            comparisons.every((op) => op === '>') &&
+            values.every((value) => value !== null)
+        ) {
+            return {
+                whereClause: `(${columns.join(', ')}) > (${values
+                    .map(() => '?')
+                    .join(', ')})`,
+                whereParams: values,
+            };
+        }
+
+        // SQLite sorts NULL first ascending and last descending
+        const branches: string[] = [];
+        const whereParams: any[] = [];
+        for (let i = 0; i < columns.length; i++) {
+            const value = values[i];
+            let comparison: string;
+            if (value === null) {
+                if (comparisons[i] === '<') continue; // Nothing sorts after NULL
+                comparison = `${columns[i]} IS NOT NULL`;
+            } else if (comparisons[i] === '>' || order[i].field === '_id') {
+                comparison = `${columns[i]} ${comparisons[i]} ?`;
+            } else {
+                comparison = `(${columns[i]} < ? OR ${columns[i]} IS NULL)`;
+            }
+            const conditions: string[] = [];
+            for (let j = 0; j < i; j++) {
+                if (values[j] === null) {
+                    conditions.push(`${columns[j]} IS NULL`);
+                } else {
+                    conditions.push(`${columns[j]} = ?`);
+                    whereParams.push(values[j]);
+                }
+            }
+            conditions.push(comparison);
+            branches.push(`(${conditions.join(' AND ')})`);
+            if (value !== null) whereParams.push(value);
+        }
+        return {
+            whereClause: branches.length > 0 ? `(${branches.join(' OR ')})` : '0',
+            whereParams,
+        };
+    }
+
+    /**
+     * Sort key of an orderBy entry: the column itself, its folded form under
+     * a collation, or its rank among the stored values when the collection
+     * sorted them in JS
+     */
+    private static buildOrderTerm(
+        order: OrderByClause,
+        col: string,
+        params: any[]
+    ): string {
+        if (order.resolvedOrder) {
+            // Values that fold alike share a rank, so later keys break ties
+            params.push(JSON.stringify(order.resolvedOrder));
+            return `(SELECT _rank.key FROM json_each(?) AS _rank, json_each(_rank.value) AS _value WHERE _value.value = ${col})`;
+        }
+        if (order.collation === undefined) return col;
+        assertCollation(order.collation);
+        return `${FOLD_FUNCTION}(${col}, '${order.collation}')`;
+    }
+
+    /**
+     * Sort order for a cursor query: orderBy plus the _id tiebreaker, flipped
+     * for 'before' cursors (the caller reverses the fetched rows)
+     */
+    private static getCursorSortOrder(
+        options: QueryOptions
+    ): { field: string; direction: 'asc' | 'desc' }[] {
+        const order = getCursorOrder(options.orderBy);
+        if (options.cursor?.direction !== 'before') return order;
+        return order.map((o) => ({
+            field: o.field,
+            direction: o.direction === 'asc' ? 'desc' : 'asc',
+        }));
+    }
+
+    /**
+     * Match the stored representation of a cursor value: dates live in the
+     * JSON document as tagged objects and in constrained columns as strings
+     */
+    private static convertCursorValue(
+        value: any,
+        field: string,
+        constrainedFields?: { [fieldPath: string]: ConstrainedFieldDefinition }
+    ): any {
+        if (typeof value === 'boolean') return value ? 1 : 0;
+        if (value instanceof Date) {
+            return constrainedFields && constrainedFields[field]
+                ? convertValueForStorage(value, 'TEXT')
+                : stringifyDoc(value);
+        }
+        return value;
+    }
+
     static buildInsertQuery(
         tableName: string,
         doc: any,
@@ -321,6 +710,180 @@ export class SQLTranslator {
         return { sql, params };
     }
 
+    /**
+     * Build an in-place UPDATE for $set/$unset/$inc/$mul using json_set and
+     * json_remove. Constrained columns touched by the operators are written in
+     * the same statement; arithmetic on a constrained path is mirrored on the
+     * column so it stays consistent with the document.
+     */
+    static buildOperatorUpdateQuery(
+        tableName: string,
+        ops: UpdateOperators,
+        id: string,
+        constrainedFields?: { [fieldPath: string]: ConstrainedFieldDefinition },
+        schema?: any,
+        updatedDoc?: any
+    ): { sql: string; params: any[] } {
+        const { setClause, params } = this.buildOperatorSetClause(
+            ops,
+            constrainedFields,
+            schema,
+            updatedDoc
+        );
+        params.push(id);
+        const sql = `UPDATE ${tableName} SET ${setClause} WHERE _id = ?`;
+
+        return { sql, params };
+    }
+
+    /**
+     * Build a single UPDATE applying operators to every row a query matches.
+     * Constrained columns are derived from the operators, so callers must
+     * check canCompileBulkUpdateOperators first.
+     */
+    static buildOperatorUpdateWhereQuery(
+        tableName: string,
+        ops: UpdateOperators,
+        options: QueryOptions,
+        constrainedFields?: { [fieldPath: string]: ConstrainedFieldDefinition },
+        schema?: any
+    ): { sql: string; params: any[] } {
+        const { setClause, params } = this.buildOperatorSetClause(
+            ops,
+            constrainedFields,
+            schema
+        );
+        const { whereClause, whereParams } = this.buildMutationWhereClause(
+            tableName,
+            options,
+            constrainedFields
+        );
+        const sql = `UPDATE ${tableName} SET ${setClause}${whereClause}`;
+
+        return { sql, params: [...params, ...whereParams] };
+    }
+
+    private static buildOperatorSetClause(
+        ops: UpdateOperators,
+        constrainedFields?: { [fieldPath: string]: ConstrainedFieldDefinition },
+        schema?: any,
+        updatedDoc?: any
+    ): { setClause: string; params: any[] } {
+        const params: any[] = [];
+        let docExpr = 'doc';
+
+        const unsetPaths = Object.keys(ops.$unset || {});
+        if (unsetPaths.length > 0) {
+            docExpr = `json_remove(${docExpr}, ${unsetPaths
+                .map(() => '?')
+                .join(', ')})`;
+            params.push(...unsetPaths.map((path) => `$.${path}`));
+        }
+
+        // json_set does not create missing parents, so insert empty objects
+        // for them first (json_insert leaves existing values alone)
+        const parentPaths = new Set<string>();
+        for (const key of ['$set', '$inc', '$mul'] as const) {
+            for (const path of Object.keys(ops[key] || {})) {
+                const parts = path.split('.');
+                for (let i = 1; i < parts.length; i++) {
+                    parentPaths.add(parts.slice(0, i).join('.'));
+                }
+            }
+        }
+        if (parentPaths.size > 0) {
+            docExpr = `json_insert(${docExpr}, ${Array.from(parentPaths)
+                .map(() => `?, json('{}')`)
+                .join(', ')})`;
+            params.push(...Array.from(parentPaths).map((path) => `$.${path}`));
+        }
+
+        const setPairs: string[] = [];
+        for (const [path, value] of Object.entries(ops.$set || {})) {
+            setPairs.push('?, json(?)');
+            params.push(`$.${path}`, stringifyDoc(value));
+        }
+        for (const [path, amount] of Object.entries(ops.$inc || {})) {
+            setPairs.push('?, COALESCE(json_extract(doc, ?), 0) + ?');
+            params.push(`$.${path}`, `$.${path}`, amount);
+        }
+        for (const [path, factor] of Object.entries(ops.$mul || {})) {
+            setPairs.push('?, COALESCE(json_extract(doc, ?), 0) * ?');
+            params.push(`$.${path}`, `$.${path}`, factor);
+        }
+        if (setPairs.length > 0) {
+            docExpr = `json_set(${docExpr}, ${setPairs.join(', ')})`;
+        }
+
+        const setClauses = [`doc = ${docExpr}`];
+        const updatedPaths = getUpdatedPaths(ops);
+
+        for (const [fieldPath, fieldDef] of Object.entries(
+            constrainedFields || {}
+        )) {
+            if (!updatedPaths.some((path) => pathsOverlap(path, fieldPath))) {
+                continue;
+            }
+            const columnName = fieldPathToColumnName(fieldPath);
+
+            if (ops.$inc && fieldPath in ops.$inc) {
+                setClauses.push(`${columnName} = COALESCE(${columnName}, 0) + ?`);
+                params.push(ops.$inc[fieldPath]);
+            } else if (ops.$mul && fieldPath in ops.$mul) {
+                setClauses.push(`${columnName} = COALESCE(${columnName}, 0) * ?`);
+                params.push(ops.$mul[fieldPath]);
+            } else {
+                let value: any;
+                if (updatedDoc !== undefined) {
+                    value = getNestedValue(updatedDoc, fieldPath);
+                } else {
+                    const resolved = resolveUpdatedValue(ops, fieldPath);
+                    if (!resolved) {
+                        throw new Error(
+                            `Cannot derive constrained field '${fieldPath}' from update operators`
+                        );
+                    }
+                    value = resolved.value;
+                }
+
+                const zodType = schema
+                    ? getZodTypeForPath(schema, fieldPath)
+                    : null;
+                const sqliteType = zodType
+                    ? inferSQLiteType(zodType, fieldDef)
+                    : 'TEXT';
+                setClauses.push(`${columnName} = ?`);
+                params.push(convertValueForStorage(value, sqliteType));
+            }
+        }
+
+        return { setClause: setClauses.join(', '), params };
+    }
+
+    /**
+     * Turn an INSERT from buildInsertQuery into an upsert on _id. REPLACE
+     * deletes and re-inserts the row; inPlace updates it instead, keeping its
+     * rowid and firing UPDATE triggers (which revision tracking relies on).
+     * clearColumns are set to NULL on update, as a re-inserted row would be.
+     */
+    static buildUpsertSQL(
+        insertSQL: string,
+        inPlace = false,
+        clearColumns: string[] = []
+    ): string {
+        if (!inPlace) {
+            return insertSQL.replace('INSERT INTO', 'INSERT OR REPLACE INTO');
+        }
+        const columns = insertSQL
+            .match(/^INSERT INTO \S+ \(([^)]*)\)/)![1]
+            .split(', ')
+            .filter((column) => column !== '_id');
+        return `${insertSQL} ON CONFLICT(_id) DO UPDATE SET ${[
+            ...columns.map((column) => `${column} = excluded.${column}`),
+            ...clearColumns.map((column) => `${column} = NULL`),
+        ].join(', ')}`;
+    }
+
     static buildDeleteQuery(
         tableName: string,
         id: string
@@ -329,6 +892,570 @@ export class SQLTranslator {
         return { sql, params: [id] };
     }
 
+    /**
+     * Build a single DELETE for every row a query matches
+     */
+    static buildDeleteWhereQuery(
+        tableName: string,
+        options: QueryOptions,
+        constrainedFields?: { [fieldPath: string]: ConstrainedFieldDefinition }
+    ): { sql: string; params: any[] } {
+        const { whereClause, whereParams } = this.buildMutationWhereClause(
+            tableName,
+            options,
+            constrainedFields
+        );
+        return {
+            sql: `DELETE FROM ${tableName}${whereClause}`,
+            params: whereParams,
+        };
+    }
+
+    /**
+     * Stamp _deletedAt on one live document of a soft-delete table
+     */
+    static buildSoftDeleteQuery(
+        tableName: string,
+        id: string,
+        deletedAt: string
+    ): { sql: string; params: any[] } {
+        return {
+            sql: `UPDATE ${tableName} SET _deletedAt = ? WHERE _deletedAt IS NULL AND _id = ?`,
+            params: [deletedAt, id],
+        };
+    }
+
+    /**
+     * Stamp _deletedAt on every row a query matches; rows that were already
+     * deleted keep their original timestamp
+     */
+    static buildSoftDeleteWhereQuery(
+        tableName: string,
+        options: QueryOptions,
+        deletedAt: string,
+        constrainedFields?: { [fieldPath: string]: ConstrainedFieldDefinition }
+    ): { sql: string; params: any[] } {
+        const { whereClause, whereParams } = this.buildMutationWhereClause(
+            tableName,
+            options,
+            constrainedFields
+        );
+        return {
+            sql: `UPDATE ${tableName} SET _deletedAt = COALESCE(_deletedAt, ?)${whereClause}`,
+            params: [deletedAt, ...whereParams],
+        };
+    }
+
+    /**
+     * Clear _deletedAt on one soft-deleted document
+     */
+    static buildRestoreQuery(
+        tableName: string,
+        id: string
+    ): { sql: string; params: any[] } {
+        return {
+            sql: `UPDATE ${tableName} SET _deletedAt = NULL WHERE _deletedAt IS NOT NULL AND _id = ?`,
+            params: [id],
+        };
+    }
+
+    /**
+     * Build vec0 deletions for every row a query matches. Must run before the
+     * main DELETE since the vector rows are keyed by the table's rowid.
+     */
+    static buildVectorDeleteWhereQueries(
+        tableName: string,
+        options: QueryOptions,
+        constrainedFields?: { [fieldPath: string]: ConstrainedFieldDefinition }
+    ): { sql: string; params: any[] }[] {
+        const queries: { sql: string; params: any[] }[] = [];
+
+        if (!constrainedFields) return queries;
+
+        const vectorFields = SchemaSQLGenerator.getVectorFields(constrainedFields);
+        const { whereClause, whereParams } = this.buildMutationWhereClause(
+            tableName,
+            options,
+            constrainedFields
+        );
+
+        for (const [fieldPath] of Object.entries(vectorFields)) {
+            const vectorTableName = SchemaSQLGenerator.getVectorTableName(tableName, fieldPath);
+            queries.push({
+                sql: `DELETE FROM ${vectorTableName} WHERE rowid IN (SELECT rowid FROM ${tableName}${whereClause})`,
+                params: [...whereParams],
+            });
+        }
+
+        return queries;
+    }
+
+    /**
+     * WHERE clause (with leading space, or empty) selecting the rows a
+     * query-based UPDATE/DELETE affects. ORDER BY/LIMIT/OFFSET go through an
+     * _id subquery since SQLite builds usually lack UPDATE ... LIMIT.
+     */
+    static buildMutationWhereClause(
+        tableName: string,
+        options: QueryOptions,
+        constrainedFields?: { [fieldPath: string]: ConstrainedFieldDefinition }
+    ): { whereClause: string; whereParams: any[] } {
+        const whereParams: any[] = [];
+        const conditions = this.buildScopeConditions(tableName, options);
+        if (options.filters.length > 0) {
+            const { whereClause, whereParams: filterParams } =
+                this.buildWhereClause(
+                    options.filters,
+                    'AND',
+                    constrainedFields,
+                    tableName
+                );
+            conditions.push(whereClause);
+            whereParams.push(...filterParams);
+        }
+        const filterClause =
+            conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+
+        if (!options.limit && !options.offset) {
+            return { whereClause: filterClause, whereParams };
+        }
+
+        let subquery = `SELECT _id FROM ${tableName}${filterClause}`;
+        if (options.orderBy && options.orderBy.length > 0) {
+            const orderClauses = options.orderBy.map(
+                (order) =>
+                    `${this.buildOrderTerm(
+                        order,
+                        this.qualifyFieldAccess(
+                            order.field,
+                            tableName,
+                            constrainedFields
+                        ),
+                        whereParams
+                    )} ${order.direction.toUpperCase()}`
+            );
+            subquery += ` ORDER BY ${orderClauses.join(', ')}`;
+        }
+        subquery += ' LIMIT ?';
+        whereParams.push(options.limit || Number.MAX_SAFE_INTEGER);
+        if (options.offset) {
+            subquery += ' OFFSET ?';
+            whereParams.push(options.offset);
+        }
+
+        return { whereClause: ` WHERE _id IN (${subquery})`, whereParams };
+    }
+
+    /**
+     * Aggregation pipeline as a chain of CTEs, one per stage. Every stage
+     * emits `doc` (the JSON document) and `ord` (its position in the
+     * stream); leading $match stages filter the table itself so they can use
+     * constrained columns and their indexes.
+     */
+    static buildPipelineQuery(
+        tableName: string,
+        pipeline: readonly PipelineStage[],
+        options: QueryOptions,
+        constrainedFields?: { [fieldPath: string]: ConstrainedFieldDefinition },
+        schemas?: SchemaLookup
+    ): { sql: string; params: any[] } {
+        validatePipeline(pipeline);
+        const params: any[] = [];
+        const conditions = this.buildScopeConditions(tableName, options);
+
+        let index = 0;
+        for (; index < pipeline.length; index++) {
+            const stage = pipeline[index]!;
+            if (!('$match' in stage)) break;
+            const { whereClause, whereParams } = this.buildWhereClause(
+                matchToFilters(stage.$match),
+                'AND',
+                constrainedFields,
+                tableName
+            );
+            if (whereClause) {
+                conditions.push(`(${whereClause})`);
+                params.push(...whereParams);
+            }
+        }
+        const where =
+            conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+        const stages = [
+            `stage0 AS (SELECT ${tableName}.doc AS doc, ${tableName}.rowid AS ord FROM ${tableName}${where})`,
+        ];
+
+        for (; index < pipeline.length; index++) {
+            const body = this.buildPipelineStage(
+                pipeline[index]!,
+                `stage${stages.length - 1}`,
+                params,
+                schemas
+            );
+            stages.push(`stage${stages.length} AS (${body})`);
+        }
+
+        return {
+            sql: `WITH ${stages.join(', ')} SELECT doc FROM stage${stages.length - 1} ORDER BY ord`,
+            params,
+        };
+    }
+
+    private static buildPipelineStage(
+        stage: PipelineStage,
+        source: string,
+        params: any[],
+        schemas?: SchemaLookup
+    ): string {
+        const name = getOperator(stage) as PipelineStageName;
+        const spec = (stage as any)[name];
+
+        switch (name) {
+            case '$match': {
+                // _id as a column so filters on it resolve like on a table
+                const { whereClause, whereParams } = this.buildWhereClause(
+                    matchToFilters(spec),
+                    'AND',
+                    undefined,
+                    '_pipeline'
+                );
+                params.push(...whereParams);
+                return `SELECT _pipeline.doc AS doc, _pipeline.ord AS ord FROM (SELECT doc, ord, doc ->> '$._id' AS _id FROM ${source}) _pipeline${
+                    whereClause ? ` WHERE ${whereClause}` : ''
+                }`;
+            }
+            case '$group':
+                return this.buildGroupStage(spec, source, params);
+            case '$project':
+                return this.buildProjectStage(spec, source, params);
+            case '$unwind': {
+                const path = (typeof spec === 'string' ? spec : spec.path).slice(1);
+                const value = `json_set(p.doc, '$.${path}', p.doc -> j.fullkey)`;
+                const ord = 'ROW_NUMBER() OVER (ORDER BY p.ord, j.key) AS ord';
+                const each = `json_each(p.doc, '$.${path}') j`;
+                // Missing fields and empty arrays have no json_each rows
+                return typeof spec === 'object' && spec.preserveNullAndEmptyArrays
+                    ? `SELECT CASE WHEN j.fullkey IS NULL THEN p.doc ELSE ${value} END AS doc, ${ord} FROM ${source} p LEFT JOIN ${each} ON 1`
+                    : `SELECT ${value} AS doc, ${ord} FROM ${source} p, ${each} WHERE j.type != 'null'`;
+            }
+            case '$sort': {
+                const keys = Object.entries(spec).map(
+                    ([field, direction]) =>
+                        `json_extract(p.doc, '$.${field}') ${direction === -1 ? 'DESC' : 'ASC'}`
+                );
+                return `SELECT p.doc AS doc, ROW_NUMBER() OVER (ORDER BY ${keys.join(', ')}, p.ord) AS ord FROM ${source} p`;
+            }
+            case '$limit':
+                params.push(spec);
+                return `SELECT doc, ord FROM ${source} ORDER BY ord LIMIT ?`;
+            case '$skip':
+                params.push(spec);
+                return `SELECT doc, ord FROM ${source} ORDER BY ord LIMIT -1 OFFSET ?`;
+            case '$lookup':
+                return this.buildLookupStage(spec, source, schemas);
+            case '$count':
+                // GROUP BY NULL yields no row for empty input, like $group
+                return `SELECT json_object('${spec}', COUNT(*)) AS doc, 1 AS ord FROM ${source} GROUP BY NULL`;
+        }
+    }
+
+    /**
+     * One output document per distinct _id. The key is compared as JSON
+     * text so objects and arrays group by value; groups keep the order of
+     * their first document.
+     */
+    private static buildGroupStage(
+        spec: Record<string, any>,
+        source: string,
+        params: any[]
+    ): string {
+        // The key sits in the inner subquery, after the accumulators in the
+        // SQL text, so its params are bound after theirs
+        const keyParams: any[] = [];
+        const key = this.compilePipelineExpression(
+            spec._id,
+            'p',
+            keyParams,
+            true
+        );
+        const members = [`'_id', json(g._key)`];
+        for (const [field, accumulator] of Object.entries(spec)) {
+            if (field === '_id') continue;
+            const operator = getOperator(accumulator)!;
+            members.push(
+                `'${field}', ${this.buildAccumulator(operator, accumulator[operator], params)}`
+            );
+        }
+        params.push(...keyParams);
+        return `SELECT json_object(${members.join(', ')}) AS doc, MIN(g.ord) AS ord FROM (SELECT p.doc AS doc, p.ord AS ord, json_quote(${key}) AS _key FROM ${source} p) g GROUP BY g._key`;
+    }
+
+    private static buildAccumulator(
+        operator: string,
+        argument: any,
+        params: any[]
+    ): string {
+        // Each call pushes its own params, so call once per occurrence
+        const json = () =>
+            this.compilePipelineExpression(argument, 'g', params, true);
+        const value = () =>
+            this.compilePipelineExpression(argument, 'g', params, false);
+
+        switch (operator) {
+            case '$sum':
+                return `COALESCE(SUM(${value()}), 0)`;
+            case '$avg':
+                return `AVG(${value()})`;
+            case '$count':
+                return 'COUNT(*)';
+            case '$min':
+            case '$max': {
+                // Collected as JSON so dates and objects keep their type
+                const direction = operator === '$max' ? ' DESC' : '';
+                return `(json_group_array(${json()} ORDER BY ${value()}${direction}) FILTER (WHERE ${value()} IS NOT NULL) -> '$[0]')`;
+            }
+            case '$first':
+                return `(json_group_array(${json()} ORDER BY g.ord) -> '$[0]')`;
+            case '$last':
+                return `(json_group_array(${json()} ORDER BY g.ord) -> '$[#-1]')`;
+            case '$push':
+                return `json_group_array(${json()} ORDER BY g.ord)`;
+            case '$addToSet':
+                return `json_group_array(DISTINCT ${json()})`;
+            default:
+                throw new ValidationError(`Unknown accumulator '${operator}'`);
+        }
+    }
+
+    /**
+     * Inclusion projections copy the listed top-level fields that exist and
+     * set computed ones; exclusion projections remove fields. _id is kept
+     * unless excluded.
+     */
+    private static buildProjectStage(
+        spec: Record<string, any>,
+        source: string,
+        params: any[]
+    ): string {
+        const entries = Object.entries(spec);
+        const isExcluded = (value: any) => value === 0 || value === false;
+        const excluded = entries
+            .filter(([, value]) => isExcluded(value))
+            .map(([field]) => field);
+
+        if (
+            excluded.length === entries.length ||
+            excluded.some((field) => field !== '_id')
+        ) {
+            if (excluded.length !== entries.length) {
+                throw new ValidationError(
+                    '$project cannot mix exclusion with inclusion or computed fields'
+                );
+            }
+            excluded.forEach((field) => assertFieldPath(field, '$project'));
+            const paths = excluded.map((field) => `'$.${field}'`);
+            return `SELECT json_remove(p.doc, ${paths.join(', ')}) AS doc, p.ord AS ord FROM ${source} p`;
+        }
+
+        const included = excluded.includes('_id') ? [] : ['_id'];
+        const computed: string[] = [];
+        for (const [field, value] of entries) {
+            if (isExcluded(value)) continue;
+            assertOutputField(field, '$project');
+            if (value === 1 || value === true) {
+                if (!included.includes(field)) included.push(field);
+                continue;
+            }
+            if (field === '_id') included.shift();
+            computed.push(
+                `'$.${field}', ${this.compilePipelineExpression(value, 'p', params, true)}`
+            );
+        }
+
+        let doc =
+            included.length > 0
+                ? `(SELECT json_group_object(j.key, p.doc -> j.fullkey) FROM json_each(p.doc) j WHERE j.key IN (${included
+                      .map((field) => `'${field}'`)
+                      .join(', ')}))`
+                : 'json_object()';
+        if (computed.length > 0) {
+            doc = `json_set(${doc}, ${computed.join(', ')})`;
+        }
+        return `SELECT ${doc} AS doc, p.ord AS ord FROM ${source} p`;
+    }
+
+    /**
+     * Embed the live documents of another collection whose foreignField
+     * equals localField, or any element of it when localField is an array
+     */
+    private static buildLookupStage(
+        spec: { from: string; localField: string; foreignField: string; as: string },
+        source: string,
+        schemas?: SchemaLookup
+    ): string {
+        const foreign = schemas?.(spec.from);
+        if (!foreign) {
+            throw new ValidationError(
+                `$lookup collection '${spec.from}' is not registered`
+            );
+        }
+        const table = foreign.name;
+        const conditions = [
+            `${this.qualifyFieldAccess(spec.foreignField, table, foreign.constrainedFields)} IN (SELECT value FROM json_each(p.doc, '$.${spec.localField}'))`,
+            ...this.buildScopeConditions(table, {
+                filters: [],
+                deleted: foreign.softDelete ? 'exclude' : undefined,
+                expiry:
+                    foreign.ttl === undefined
+                        ? undefined
+                        : { column: SchemaSQLGenerator.getTTLColumn(foreign.ttl) },
+            }),
+        ];
+        return `SELECT json_set(p.doc, '$.${spec.as}', (SELECT json_group_array(json(${table}.doc) ORDER BY ${table}.rowid) FROM ${table} WHERE ${conditions.join(' AND ')})) AS doc, p.ord AS ord FROM ${source} p`;
+    }
+
+    /**
+     * Compile a pipeline expression over `${source}.doc`. JSON mode keeps
+     * booleans, dates, objects and arrays typed when the result is embedded
+     * with json_object()/json_set(); value mode yields plain SQL values for
+     * arithmetic, comparisons and sorting.
+     */
+    private static compilePipelineExpression(
+        expr: any,
+        source: string,
+        params: any[],
+        json: boolean
+    ): string {
+        if (typeof expr === 'string' && expr.startsWith('$')) {
+            const path = expr.slice(1);
+            assertFieldPath(path, 'aggregation expression');
+            return json
+                ? `(${source}.doc -> '$.${path}')`
+                : `json_extract(${source}.doc, '$.${path}')`;
+        }
+        if (expr === null || expr === undefined) return 'NULL';
+        if (typeof expr !== 'object' || expr instanceof Date) {
+            return this.buildPipelineLiteral(expr, params, json);
+        }
+        if (Array.isArray(expr)) {
+            throw new ValidationError(
+                'Arrays are not aggregation expressions; wrap literal arrays in $literal'
+            );
+        }
+
+        const operator = getOperator(expr);
+        if (!operator) {
+            const members = Object.entries(expr).map(([field, value]) => {
+                assertOutputField(field, 'aggregation expression');
+                return `'${field}', ${this.compilePipelineExpression(value, source, params, true)}`;
+            });
+            return `json_object(${members.join(', ')})`;
+        }
+
+        const argument = expr[operator];
+        const compile = (value: any, asJson = false) =>
+            this.compilePipelineExpression(value, source, params, asJson);
+        const operands = (count?: number): any[] => {
+            if (
+                !Array.isArray(argument) ||
+                (count === undefined
+                    ? argument.length === 0
+                    : argument.length !== count)
+            ) {
+                throw new ValidationError(
+                    `${operator} expects ${count ?? 'one or more'} operands`
+                );
+            }
+            return argument;
+        };
+        const comparison = (sqlOperator: string) => {
+            const [left, right] = operands(2).map((value) => compile(value));
+            const condition = `(${left} ${sqlOperator} ${right})`;
+            return json
+                ? `json(CASE WHEN ${condition} THEN 'true' ELSE 'false' END)`
+                : condition;
+        };
+
+        switch (operator) {
+            case '$literal':
+                return this.buildPipelineLiteral(argument, params, json);
+            case '$add':
+                return `(${operands().map((value) => compile(value)).join(' + ')})`;
+            case '$multiply':
+                return `(${operands().map((value) => compile(value)).join(' * ')})`;
+            case '$subtract': {
+                const [left, right] = operands(2).map((value) => compile(value));
+                return `(${left} - ${right})`;
+            }
+            case '$divide': {
+                const [left, right] = operands(2).map((value) => compile(value));
+                return `(CAST(${left} AS REAL) / ${right})`;
+            }
+            case '$mod': {
+                const [left, right] = operands(2).map((value) => compile(value));
+                return `(${left} % ${right})`;
+            }
+            case '$concat':
+                return `(${operands().map((value) => compile(value)).join(' || ')})`;
+            case '$toUpper':
+                return `upper(${compile(argument)})`;
+            case '$toLower':
+                return `lower(${compile(argument)})`;
+            case '$size':
+                return `json_array_length(${compile(argument, true)})`;
+            case '$ifNull': {
+                const [value, fallback] = operands(2).map((operand) =>
+                    compile(operand, json)
+                );
+                return `COALESCE(${value}, ${fallback})`;
+            }
+            case '$eq':
+                return comparison('IS');
+            case '$ne':
+                return comparison('IS NOT');
+            case '$gt':
+                return comparison('>');
+            case '$gte':
+                return comparison('>=');
+            case '$lt':
+                return comparison('<');
+            case '$lte':
+                return comparison('<=');
+            case '$cond': {
+                if (
+                    !Array.isArray(argument) &&
+                    !(argument && 'if' in argument && 'then' in argument && 'else' in argument)
+                ) {
+                    throw new ValidationError(
+                        '$cond expects { if, then, else } or three operands'
+                    );
+                }
+                const [condition, then, otherwise] = Array.isArray(argument)
+                    ? operands(3)
+                    : [argument.if, argument.then, argument.else];
+                return `(CASE WHEN ${compile(condition)} THEN ${compile(then, json)} ELSE ${compile(otherwise, json)} END)`;
+            }
+            default:
+                throw new ValidationError(
+                    `Unknown aggregation operator '${operator}'`
+                );
+        }
+    }
+
+    private static buildPipelineLiteral(
+        value: any,
+        params: any[],
+        json: boolean
+    ): string {
+        if (value === null || value === undefined) return 'NULL';
+        if (json || typeof value === 'object') {
+            // Dates compare against the tagged form they are stored in
+            params.push(stringifyDoc(value));
+            return 'json(?)';
+        }
+        params.push(typeof value === 'boolean' ? (value ? 1 : 0) : value);
+        return '?';
+    }
+
     static buildCreateTableQuery(tableName: string): string {
         return `CREATE TABLE IF NOT EXISTS ${tableName} (
       _id TEXT PRIMARY KEY,
@@ -342,7 +1469,8 @@ export class SQLTranslator {
     static buildSelectClause(
         tableName: string,
         options: QueryOptions,
-        constrainedFields?: { [fieldPath: string]: ConstrainedFieldDefinition }
+        constrainedFields?: { [fieldPath: string]: ConstrainedFieldDefinition },
+        params: any[] = []
     ): string {
         let selectClause = 'SELECT';
         
@@ -350,35 +1478,38 @@ export class SQLTranslator {
             selectClause += ' DISTINCT';
         }
 
-        // Handle aggregates and custom field selection
+        // Selected fields, then aggregates, then computed columns
+        const columns: string[] = [];
+        if (options.selectFields && options.selectFields.length > 0) {
+            columns.push(this.buildSelectedFields(tableName, options, constrainedFields));
+        }
         if (options.aggregates && options.aggregates.length > 0) {
-            const aggregateFields = options.aggregates.map(agg => 
-                this.buildAggregateField(agg, tableName, constrainedFields)
-            ).join(', ');
-            
-            if (options.selectFields && options.selectFields.length > 0) {
-                const selectedFields = options.selectFields.map(field => {
-                    const fieldAccess = this.qualifyFieldAccess(field, tableName, constrainedFields, options.joins);
-                    // Add alias for better field names in results
-                    if (fieldAccess.includes('json_extract')) {
-                        return `${fieldAccess} AS "${field}"`;
-                    }
-                    return fieldAccess;
-                }).join(', ');
-                selectClause += ` ${selectedFields}, ${aggregateFields}`;
-            } else {
-                selectClause += ` ${aggregateFields}`;
-            }
-        } else if (options.selectFields && options.selectFields.length > 0) {
-            const selectedFields = options.selectFields.map(field => {
-                const fieldAccess = this.qualifyFieldAccess(field, tableName, constrainedFields, options.joins);
-                // Add alias for better field names in results
-                if (fieldAccess.includes('json_extract')) {
-                    return `${fieldAccess} AS "${field}"`;
-                }
-                return fieldAccess;
-            }).join(', ');
-            selectClause += ` ${selectedFields}`;
+            columns.push(
+                ...options.aggregates.map((agg) =>
+                    this.buildAggregateField(agg, tableName, constrainedFields)
+                )
+            );
+        }
+        for (const { alias, expression } of options.selectExpressions || []) {
+            const sql = this.buildExpression(
+                expression,
+                tableName,
+                params,
+                constrainedFields,
+                options.joins,
+                getExpressionResultKind(expression) === 'json'
+            );
+            columns.push(`${sql} AS "${alias}"`);
+        }
+
+        if (columns.length > 0) {
+            selectClause += ` ${columns.join(', ')}`;
+        } else if (options.joins && options.joins.length > 0) {
+            // One document column per table, keyed by its name or alias;
+            // NULL when an outer join found no row on that side
+            selectClause += ` ${this.getJoinTableNames(tableName, options.joins)
+                .map((name) => `${name}.doc AS "${name}"`)
+                .join(', ')}`;
         } else {
             // Default to selecting documents
             selectClause += ` ${tableName}.doc`;
@@ -387,31 +1518,244 @@ export class SQLTranslator {
         return selectClause;
     }
 
-    static buildFromClause(tableName: string, joins?: JoinClause[]): string {
+    /**
+     * Select list for select(). Entries may name their result key with
+     * '<field> as <key>'. Join queries key '<table>.<field>' entries by the
+     * field alone and reject projections whose keys would collide.
+     */
+    private static buildSelectedFields(
+        tableName: string,
+        options: QueryOptions,
+        constrainedFields?: { [fieldPath: string]: ConstrainedFieldDefinition }
+    ): string {
+        const joins = options.joins && options.joins.length > 0 ? options.joins : undefined;
+        const tables = joins ? this.getJoinTableNames(tableName, joins) : [];
+        const keys = new Map<string, string>();
+
+        return options.selectFields!.map(entry => {
+            const { field, key } = parseSelectField(entry);
+            const fieldAccess = this.qualifyFieldAccess(field, tableName, constrainedFields, options.joins);
+
+            if (joins) {
+                const resultKey = this.getJoinResultKey(entry, tables);
+                const existing = keys.get(resultKey);
+                if (existing) {
+                    throw new ValidationError(
+                        `Selected fields '${existing}' and '${field}' both map to '${resultKey}'; name them with '<field> as <key>'`
+                    );
+                }
+                keys.set(resultKey, field);
+                return `${fieldAccess} AS "${resultKey}"`;
+            }
+
+            if (key) {
+                return `${fieldAccess} AS "${key}"`;
+            }
+            // Add alias for better field names in results
+            if (fieldAccess.includes('json_extract')) {
+                return `${fieldAccess} AS "${field}"`;
+            }
+            return fieldAccess;
+        }).join(', ');
+    }
+
+    /**
+     * Names of the main table and every joined table, in join order
+     */
+    static getJoinTableNames(tableName: string, joins: JoinClause[]): string[] {
+        return [tableName, ...joins.map(getJoinName)];
+    }
+
+    static buildFromClause(
+        tableName: string,
+        joins?: JoinClause[],
+        constrainedFields?: { [fieldPath: string]: ConstrainedFieldDefinition }
+    ): string {
         let fromClause = `FROM ${tableName}`;
         
         if (joins && joins.length > 0) {
-            for (const join of joins) {
+            joins.forEach((join, index) => {
                 const joinType = join.type === 'FULL' ? 'FULL OUTER' : join.type;
-                
-                // For joins, we need to handle field access properly for document-based storage
-                const leftFieldAccess = join.condition.left === '_id'
-                    ? `${tableName}._id`
-                    : `json_extract(${tableName}.doc, '$.${join.condition.left}')`;
-
-                const rightFieldAccess = join.condition.right === '_id'
-                    ? `${join.collection}._id`
-                    : `json_extract(${join.collection}.doc, '$.${join.condition.right}')`;
-                    
-                const operator = join.condition.operator || '=';
-                
-                fromClause += ` ${joinType} JOIN ${join.collection} ON ${leftFieldAccess} ${operator} ${rightFieldAccess}`;
-            }
+                const condition = this.buildJoinCondition(
+                    tableName,
+                    join,
+                    joins.slice(0, index),
+                    constrainedFields
+                );
+                fromClause += ` ${joinType} JOIN ${this.getJoinTarget(join)} ON ${condition}`;
+            });
         }
         
         return fromClause;
     }
 
+    private static getJoinTarget(join: JoinClause): string {
+        return join.alias ? `${join.collection} AS ${join.alias}` : join.collection;
+    }
+
+    private static buildJoinCondition(
+        tableName: string,
+        join: JoinClause,
+        previousJoins: JoinClause[],
+        constrainedFields?: { [fieldPath: string]: ConstrainedFieldDefinition }
+    ): string {
+        // The left side may name any table joined before this one;
+        // the right side always belongs to the table being joined
+        const leftFieldAccess = this.qualifyFieldAccess(
+            join.condition.left,
+            tableName,
+            constrainedFields,
+            previousJoins
+        );
+        const rightFieldAccess = this.qualifyFieldAccess(
+            join.condition.right,
+            getJoinName(join),
+            join.constrainedFields
+        );
+        const operator = join.condition.operator || '=';
+        const condition = `${leftFieldAccess} ${operator} ${rightFieldAccess}`;
+        return [
+            condition,
+            ...this.buildScopeConditions(getJoinName(join), {
+                filters: [],
+                deleted: join.softDelete ? 'exclude' : undefined,
+                expiry: join.ttlColumn
+                    ? { column: join.ttlColumn }
+                    : undefined,
+            }),
+        ].join(' AND ');
+    }
+
+    /**
+     * RIGHT and FULL joins for SQLite builds older than 3.39. A RIGHT join is
+     * the LEFT join with its tables swapped; a FULL join appends the rows
+     * only the joined table has to the LEFT join with UNION ALL, then sorts
+     * and pages the combined rows.
+     */
+    private static buildEmulatedOuterJoinQuery(
+        tableName: string,
+        options: QueryOptions,
+        constrainedFields?: { [fieldPath: string]: ConstrainedFieldDefinition }
+    ): { sql: string; params: any[] } {
+        const joins = options.joins!;
+        if (
+            joins.length > 1 ||
+            options.cursor ||
+            options.nearest ||
+            (options.aggregates && options.aggregates.length > 0) ||
+            (options.groupBy && options.groupBy.length > 0)
+        ) {
+            throw new ValidationError(
+                'RIGHT and FULL joins need SQLite 3.39+ unless the query has a single join and no cursor, nearestTo, aggregates or groupBy'
+            );
+        }
+
+        const join = { ...joins[0], type: 'LEFT' as const };
+        const leftFrom = this.buildFromClause(tableName, [join], constrainedFields);
+        const swappedFrom = `FROM ${this.getJoinTarget(join)} LEFT JOIN ${tableName} ON ${this.buildJoinCondition(
+            tableName,
+            join,
+            [],
+            constrainedFields
+        )}`;
+        const swap = (sql: string) => {
+            const at = sql.indexOf(leftFrom);
+            return sql.slice(0, at) + swappedFrom + sql.slice(at + leftFrom.length);
+        };
+
+        if (joins[0].type === 'RIGHT') {
+            const { sql, params } = this.buildSelectQuery(
+                tableName,
+                { ...options, joins: [join] },
+                constrainedFields
+            );
+            return { sql: swap(sql), params };
+        }
+
+        // Sort keys ride along as extra columns so the union can be ordered
+        const orderBy = options.orderBy || [];
+        const branchOptions: QueryOptions = {
+            ...options,
+            joins: [join],
+            orderBy: undefined,
+            limit: undefined,
+            offset: undefined,
+        };
+        const selectClause = this.buildSelectClause(tableName, branchOptions, constrainedFields);
+        // Output aliases are columns of the union already
+        const outputAliases = getOutputAliases(options);
+        const sortParams: any[] = [];
+        const sortColumns = orderBy
+            .map((order, i) =>
+                outputAliases.has(order.field)
+                    ? ''
+                    : `, ${this.buildOrderTerm(
+                          order,
+                          this.qualifyFieldAccess(order.field, tableName, constrainedFields, [join]),
+                          sortParams
+                      )} AS _sort_${i}`
+            )
+            .join('');
+        const { sql: branchSql, params: branchParams } = this.buildSelectQuery(
+            tableName,
+            branchOptions,
+            constrainedFields
+        );
+        const leftSql = selectClause + sortColumns + branchSql.slice(selectClause.length);
+
+        // Rows of the joined table without a match on the main table
+        const swapped = swap(leftSql);
+        const whereAt = swapped.indexOf(' WHERE ', swapped.indexOf(swappedFrom));
+        const rightOnly =
+            whereAt === -1
+                ? `${swapped} WHERE ${tableName}._id IS NULL`
+                : `${swapped.slice(0, whereAt)} WHERE ${tableName}._id IS NULL AND (${swapped.slice(whereAt + 7)})`;
+
+        const columns = this.getResultKeys(tableName, branchOptions)
+            .map((key) => `"${key}"`)
+            .join(', ');
+        let sql = `SELECT ${columns} FROM (${leftSql} UNION ALL ${rightOnly})`;
+        const params = [...sortParams, ...branchParams, ...sortParams, ...branchParams];
+
+        if (orderBy.length > 0) {
+            sql += ` ORDER BY ${orderBy
+                .map(
+                    (order, i) =>
+                        `${outputAliases.has(order.field) ? `"${order.field}"` : `_sort_${i}`} ${order.direction.toUpperCase()}`
+                )
+                .join(', ')}`;
+        }
+        if (options.limit || options.offset) {
+            sql += ' LIMIT ? OFFSET ?';
+            params.push(options.limit || Number.MAX_SAFE_INTEGER, options.offset || 0);
+        }
+
+        return { sql, params };
+    }
+
+    /**
+     * Result column names of a join query without aggregates
+     */
+    private static getResultKeys(tableName: string, options: QueryOptions): string[] {
+        if (
+            (!options.selectFields || options.selectFields.length === 0) &&
+            (!options.selectExpressions || options.selectExpressions.length === 0)
+        ) {
+            return this.getJoinTableNames(tableName, options.joins || []);
+        }
+        const tables = this.getJoinTableNames(tableName, options.joins || []);
+        return [
+            ...(options.selectFields || []).map((entry) => this.getJoinResultKey(entry, tables)),
+            ...(options.selectExpressions || []).map((e) => e.alias),
+        ];
+    }
+
+    private static getJoinResultKey(entry: string, tables: string[]): string {
+        const { field, key } = parseSelectField(entry);
+        const dot = field.indexOf('.');
+        return key || (dot > 0 && tables.includes(field.slice(0, dot)) ? field.slice(dot + 1) : field);
+    }
+
     static buildAggregateField(
         agg: AggregateField,
         tableName: string,
@@ -424,6 +1768,143 @@ export class SQLTranslator {
         return `${agg.function}(${distinctPrefix}${fieldAccess})${alias}`;
     }
 
+    /**
+     * SQL for a computed select() column. Fields resolve like they do in
+     * filters (constrained columns, joined tables, nested JSON paths); in
+     * JSON mode field values are selected as JSON text so booleans, dates
+     * and objects read back intact.
+     */
+    static buildExpression(
+        node: ExpressionNode,
+        tableName: string,
+        params: any[],
+        constrainedFields?: { [fieldPath: string]: ConstrainedFieldDefinition },
+        joins?: JoinClause[],
+        json = false
+    ): string {
+        const build = (child: ExpressionNode, asJson = false) =>
+            this.buildExpression(child, tableName, params, constrainedFields, joins, asJson);
+
+        switch (node.kind) {
+            case 'field': {
+                const access = this.qualifyFieldAccess(node.field, tableName, constrainedFields, joins);
+                if (!json) return this.buildFieldValue(access);
+                const path = access.match(/^json_extract\((.+), '(\$[^']*)'\)$/);
+                if (path) return `json_quote(${path[1]} -> '${path[2]}')`;
+                // Constrained columns lose the JSON shape of Dates and
+                // objects, so read those from the document instead
+                const column = access.match(/^(\w+)\.(\w+)$/);
+                if (column && column[2] !== '_id') {
+                    const fieldPath =
+                        fieldPathToColumnName(node.field) === column[2]
+                            ? node.field
+                            : node.field.slice(node.field.indexOf('.') + 1);
+                    return `(${column[1]}.doc -> '$.${fieldPath}')`;
+                }
+                return `json_quote(${access})`;
+            }
+            case 'value':
+                if (node.value === null) return 'NULL';
+                if (json) {
+                    params.push(JSON.stringify(node.value));
+                    return 'json(?)';
+                }
+                params.push(typeof node.value === 'boolean' ? (node.value ? 1 : 0) : node.value);
+                return '?';
+            case 'operator': {
+                const [first, ...rest] = node.args.map((arg) => build(arg));
+                switch (node.operator) {
+                    case 'NOT':
+                        return `(NOT ${first})`;
+                    case 'IS NULL':
+                    case 'IS NOT NULL':
+                        return `(${first} ${node.operator})`;
+                    case '/':
+                        // Integer operands would otherwise truncate
+                        return `(CAST(${first} AS REAL) / ${rest[0]})`;
+                    default:
+                        return `(${[first, ...rest].join(` ${node.operator} `)})`;
+                }
+            }
+            case 'function':
+                return `${node.name.toUpperCase()}(${node.args.map((arg) => build(arg)).join(', ')})`;
+            case 'case': {
+                const branches = node.branches
+                    .map((branch) => `WHEN ${build(branch.when)} THEN ${build(branch.then)}`)
+                    .join(' ');
+                return `(CASE ${branches}${node.else ? ` ELSE ${build(node.else)}` : ''} END)`;
+            }
+            case 'window': {
+                // lag/lead and friends carry whole field values in JSON mode;
+                // their offset argument stays a plain integer
+                const args = node.args.map((arg, i) =>
+                    build(arg, json && VALUE_WINDOW_FUNCTIONS.has(node.name) && i !== 1)
+                );
+                const call = `${node.name.toUpperCase()}(${
+                    node.name === 'count' && args.length === 0 ? '*' : args.join(', ')
+                })`;
+                return node.over || !AGGREGATE_WINDOW_FUNCTIONS.has(node.name)
+                    ? `${call} OVER (${this.buildWindowSpec(node.over, tableName, constrainedFields, joins)})`
+                    : call;
+            }
+        }
+    }
+
+    /**
+     * Field value for computing and comparing: Dates, tagged in documents
+     * and JSON-quoted in constrained columns, read as ISO strings
+     */
+    private static buildFieldValue(access: string): string {
+        const path = access.match(/^json_extract\((.+), '(\$[^']*)'\)$/);
+        if (path) {
+            return `(CASE json_extract(${path[1]}, '${path[2]}.__type') WHEN 'Date' THEN json_extract(${path[1]}, '${path[2]}.value') ELSE ${access} END)`;
+        }
+        if (access.endsWith('._id')) return access;
+        // Nested so json_type never sees text that is not JSON
+        return `(CASE WHEN json_valid(${access}) THEN (CASE json_type(${access}) WHEN 'text' THEN ${access} ->> '$' ELSE ${access} END) ELSE ${access} END)`;
+    }
+
+    private static buildWindowSpec(
+        spec: WindowSpec | undefined,
+        tableName: string,
+        constrainedFields?: { [fieldPath: string]: ConstrainedFieldDefinition },
+        joins?: JoinClause[]
+    ): string {
+        const parts: string[] = [];
+        if (spec?.partitionBy && spec.partitionBy.length > 0) {
+            parts.push(
+                `PARTITION BY ${spec.partitionBy
+                    .map((field) => this.qualifyFieldAccess(field, tableName, constrainedFields, joins))
+                    .join(', ')}`
+            );
+        }
+        if (spec?.orderBy && spec.orderBy.length > 0) {
+            parts.push(
+                `ORDER BY ${spec.orderBy
+                    .map(
+                        (order) =>
+                            `${this.qualifyFieldAccess(order.field, tableName, constrainedFields, joins)} ${order.direction.toUpperCase()}`
+                    )
+                    .join(', ')}`
+            );
+        }
+        if (spec?.frame) {
+            const bound = (value: number | 'unbounded', side: string) =>
+                value === 'unbounded'
+                    ? `UNBOUNDED ${side}`
+                    : value === 0
+                    ? 'CURRENT ROW'
+                    : `${value} ${side}`;
+            parts.push(
+                `${spec.frame.unit.toUpperCase()} BETWEEN ${bound(
+                    spec.frame.preceding,
+                    'PRECEDING'
+                )} AND ${bound(spec.frame.following, 'FOLLOWING')}`
+            );
+        }
+        return parts.join(' ');
+    }
+
     static qualifyFieldAccess(
         field: string,
         tableName: string,
@@ -432,13 +1913,21 @@ export class SQLTranslator {
     ): string {
         // Handle table-prefixed fields like "users.name" or "posts.title"
         if (field.includes('.')) {
-            const [tablePrefix, fieldName] = field.split('.', 2);
+            const dot = field.indexOf('.');
+            const tablePrefix = field.slice(0, dot);
+            const fieldName = field.slice(dot + 1);
             
             // Check if this is actually a nested JSON path, not a table prefix
             // If the full field path is a constrained field, it's a nested path
             if (constrainedFields && constrainedFields[field]) {
                 return `${tableName}.${fieldPathToColumnName(field)}`;
             }
+
+            // A joined table with registry-resolved columns
+            const join = joins?.find((j) => getJoinName(j) === tablePrefix);
+            if (join?.constrainedFields) {
+                return this.qualifyFieldAccess(fieldName, tablePrefix, join.constrainedFields);
+            }
             
             // Check if this field is a constrained field in any table
             if (constrainedFields && constrainedFields[fieldName]) {
@@ -453,7 +1942,7 @@ export class SQLTranslator {
             // IMPROVED LOGIC: Check if we're in a JOIN context and if the prefix is a known table
             const knownTables = [tableName];
             if (joins && joins.length > 0) {
-                knownTables.push(...joins.map(join => join.collection));
+                knownTables.push(...joins.map(getJoinName));
             }
             
             if (knownTables.includes(tablePrefix)) {
@@ -540,13 +2029,18 @@ export class SQLTranslator {
                 const grp = f as QueryGroup;
                 const { whereClause, whereParams } = this.buildWhereClause(
                     grp.filters,
-                    grp.type.toUpperCase() as 'AND' | 'OR',
+                    grp.type === 'and' ? 'AND' : 'OR',
                     constrainedFields,
                     tableName,
                     joins
                 );
                 if (whereClause) {
-                    parts.push(`(${whereClause})`);
+                    // nor: a filter that is NULL for a row does not match it
+                    parts.push(
+                        grp.type === 'nor'
+                            ? `NOT COALESCE((${whereClause}), 0)`
+                            : `(${whereClause})`
+                    );
                     params.push(...whereParams);
                 }
             } else if ('subquery' in f) {
@@ -626,6 +2120,243 @@ export class SQLTranslator {
         return { whereClause, whereParams: subqueryParams };
     }
 
+    /**
+     * Distance expression for nearestTo(): a correlated lookup into each
+     * field's vec0 table by rowid, keeping the closest field when several are
+     * searched. Also resolves maxDistance/minSimilarity into one threshold.
+     */
+    private static buildNearestDistance(
+        tableName: string,
+        options: QueryOptions,
+        constrainedFields?: { [fieldPath: string]: ConstrainedFieldDefinition }
+    ): NearestDistance {
+        const nearest = options.nearest as NearestQuery;
+        if (
+            options.cursor ||
+            options.geoNearest ||
+            (options.aggregates && options.aggregates.length > 0) ||
+            (options.groupBy && options.groupBy.length > 0)
+        ) {
+            throw new ValidationError(
+                'nearestTo() cannot be combined with cursors, aggregates, groupBy or nearest()'
+            );
+        }
+
+        const distance = nearest.distance || 'cosine';
+        const distanceFn = {
+            cosine: 'vec_distance_cosine',
+            euclidean: 'vec_distance_l2',
+            l2: 'vec_distance_l2',
+            l1: 'vec_distance_l1',
+        }[distance];
+        if (!distanceFn) {
+            throw new ValidationError(`Unknown vector distance '${distance}'`);
+        }
+
+        const vectorParam = Buffer.from(new Float32Array(nearest.vector).buffer);
+        const thresholds: number[] = [];
+        if (nearest.maxDistance !== undefined) thresholds.push(nearest.maxDistance);
+        if (nearest.minSimilarity !== undefined) thresholds.push(1 - nearest.minSimilarity);
+        const threshold = thresholds.length > 0 ? Math.min(...thresholds) : undefined;
+
+        const lookups = nearest.fields.map((field) => {
+            const fieldDef = constrainedFields?.[field];
+            if (!fieldDef) {
+                throw new ValidationError(
+                    `Field '${field}' is not defined as a constrained field`
+                );
+            }
+            if (fieldDef.type !== 'VECTOR') {
+                throw new ValidationError(`Field '${field}' is not a vector field`);
+            }
+            if (
+                !fieldDef.vectorDimensions ||
+                nearest.vector.length !== fieldDef.vectorDimensions
+            ) {
+                throw new ValidationError(
+                    `Query vector must have ${fieldDef.vectorDimensions} dimensions`
+                );
+            }
+            const vectorTable = SchemaSQLGenerator.getVectorTableName(tableName, field);
+            const column = fieldPathToColumnName(field);
+            return `SELECT ${distanceFn}(${column}, ?) AS d FROM ${vectorTable} WHERE rowid = ${tableName}.rowid`;
+        });
+
+        // The KNN index returns the k nearest rows of the whole table, so it
+        // only answers queries that nothing else narrows or reorders
+        const [field] = nearest.fields;
+        const k = (options.limit ?? nearest.k ?? 10) + (options.offset ?? 0);
+        if (
+            nearest.fields.length === 1 &&
+            SchemaSQLGenerator.getVectorIndexMetric({ vectorDistance: distance }) ===
+                SchemaSQLGenerator.getVectorIndexMetric(constrainedFields![field]) &&
+            k <= MAX_VECTOR_INDEX_K &&
+            options.filters.length === 0 &&
+            this.buildScopeConditions(tableName, options).length === 0 &&
+            !options.joins?.length &&
+            !options.orderBy?.length &&
+            !options.selectExpressions?.length &&
+            !options.distinct
+        ) {
+            const vectorTable = SchemaSQLGenerator.getVectorTableName(tableName, field);
+            const column = fieldPathToColumnName(field);
+            return {
+                distanceExpr: '_knn.distance',
+                params: [],
+                threshold,
+                join: {
+                    sql: ` JOIN (SELECT rowid, distance FROM ${vectorTable} WHERE ${column} MATCH ? AND k = ?) AS _knn ON _knn.rowid = ${tableName}.rowid`,
+                    params: [vectorParam, k],
+                },
+            };
+        }
+
+        const distanceExpr =
+            lookups.length === 1
+                ? `(${lookups[0]})`
+                : `(${lookups.join(' UNION ALL ')} ORDER BY d LIMIT 1)`;
+
+        return {
+            distanceExpr,
+            params: lookups.map(() => vectorParam),
+            threshold,
+        };
+    }
+
+    /**
+     * Haversine distance in meters for nearest() on a GEO_POINT field
+     */
+    private static buildGeoNearestDistance(
+        tableName: string,
+        options: QueryOptions,
+        constrainedFields?: { [fieldPath: string]: ConstrainedFieldDefinition }
+    ): NearestDistance {
+        const { field, lat, lng } = options.geoNearest as GeoNearestQuery;
+        if (
+            options.cursor ||
+            (options.joins && options.joins.length > 0) ||
+            (options.aggregates && options.aggregates.length > 0) ||
+            (options.groupBy && options.groupBy.length > 0)
+        ) {
+            throw new ValidationError(
+                'nearest() cannot be combined with cursors, joins, aggregates or groupBy'
+            );
+        }
+        this.getGeoField(field, tableName, constrainedFields);
+        assertLatLng(lat, lng, 'nearest()');
+        const { sql, params } = buildHaversineSQL(
+            this.qualifyFieldAccess(field, tableName, constrainedFields),
+            lat,
+            lng
+        );
+        return { distanceExpr: sql, params };
+    }
+
+    /**
+     * withinBox()/withinRadius() on a GEO_POINT field: candidate rows come
+     * from the field's R*Tree by bounding box, then the stored point is
+     * compared exactly
+     */
+    private static buildGeoFilterClause(
+        filter: QueryFilter,
+        col: string,
+        tableName?: string,
+        constrainedFields?: { [fieldPath: string]: ConstrainedFieldDefinition }
+    ): { whereClause: string; whereParams: any[] } {
+        const geoTable = this.getGeoField(filter.field, tableName, constrainedFields);
+        const lat = `json_extract(${col}, '$.lat')`;
+        const lng = `json_extract(${col}, '$.lng')`;
+
+        let box: GeoBox;
+        let exact: string;
+        const exactParams: number[] = [];
+        if (filter.operator === 'within_box') {
+            box = filter.value;
+            assertLatLng(box?.minLat, box?.minLng, 'withinBox()');
+            assertLatLng(box.maxLat, box.maxLng, 'withinBox()');
+            if (box.minLat > box.maxLat) {
+                throw new ValidationError('withinBox() needs minLat <= maxLat');
+            }
+            // A box whose minLng exceeds its maxLng crosses the antimeridian
+            exact =
+                box.minLng > box.maxLng
+                    ? `${lat} BETWEEN ? AND ? AND (${lng} >= ? OR ${lng} <= ?)`
+                    : `${lat} BETWEEN ? AND ? AND ${lng} BETWEEN ? AND ?`;
+            exactParams.push(box.minLat, box.maxLat, box.minLng, box.maxLng);
+        } else {
+            const { lat: centerLat, lng: centerLng, meters } = filter.value ?? {};
+            assertLatLng(centerLat, centerLng, 'withinRadius()');
+            if (typeof meters !== 'number' || !(meters >= 0) || !Number.isFinite(meters)) {
+                throw new ValidationError('withinRadius() needs a non-negative radius in meters');
+            }
+            box = getRadiusBox(centerLat, centerLng, meters);
+            const distance = buildHaversineSQL(col, centerLat, centerLng);
+            exact = `${distance.sql} <= ?`;
+            exactParams.push(...distance.params, meters);
+        }
+
+        const lngRanges =
+            box.minLng > box.maxLng
+                ? [
+                      [box.minLng, 180],
+                      [-180, box.maxLng],
+                  ]
+                : [[box.minLng, box.maxLng]];
+        const candidates = `SELECT id FROM ${geoTable} WHERE minLat <= ? AND maxLat >= ? AND (${lngRanges
+            .map(() => '(minLng <= ? AND maxLng >= ?)')
+            .join(' OR ')})`;
+        return {
+            whereClause: `(${tableName}.rowid IN (${candidates}) AND ${exact})`,
+            whereParams: [
+                box.maxLat,
+                box.minLat,
+                ...lngRanges.flatMap(([min, max]) => [max, min]),
+                ...exactParams,
+            ],
+        };
+    }
+
+    /**
+     * R*Tree table of a GEO_POINT field of the main table; join queries
+     * arrive with the field qualified by the table name
+     */
+    private static getGeoField(
+        field: string,
+        tableName?: string,
+        constrainedFields?: { [fieldPath: string]: ConstrainedFieldDefinition }
+    ): string {
+        const path =
+            tableName && field.startsWith(`${tableName}.`)
+                ? field.slice(tableName.length + 1)
+                : field;
+        if (!tableName || constrainedFields?.[path]?.type !== 'GEO_POINT') {
+            throw new ValidationError(`Field '${field}' is not a GEO_POINT field`);
+        }
+        return SchemaSQLGenerator.getGeoTableName(tableName, path);
+    }
+
+    /**
+     * FTS5 match restricted to one fullText field's column of the shadow
+     * table, joined back to the collection by rowid
+     */
+    private static buildMatchClause(
+        filter: QueryFilter,
+        tableName?: string
+    ): {
+        whereClause: string;
+        whereParams: any[];
+    } {
+        if (!tableName) {
+            throw new ValidationError('matches() requires a collection query');
+        }
+        const ftsTable = SchemaSQLGenerator.getFullTextTableName(tableName);
+        const column = fieldPathToColumnName(filter.field);
+        return {
+            whereClause: `${tableName}.rowid IN (SELECT rowid FROM ${ftsTable} WHERE ${column} MATCH ?)`,
+            whereParams: [filter.value],
+        };
+    }
+
     /** ----------  3. HAVING clause filter builder ---------- */
     private static buildHavingFilterClause(
         filter: QueryFilter,
@@ -690,6 +2421,100 @@ export class SQLTranslator {
         return { whereClause: c, whereParams: p };
     }
 
+    /**
+     * Comparison with a computed side, e.g. where('a').gt(field('b')) or
+     * where(expr.mul('price', 'qty')).gt(100); both sides read Dates alike
+     */
+    private static buildExpressionFilterClause(
+        filter: QueryFilter,
+        constrainedFields?: { [fieldPath: string]: ConstrainedFieldDefinition },
+        tableName?: string,
+        joins?: JoinClause[]
+    ): {
+        whereClause: string;
+        whereParams: any[];
+    } {
+        if (!tableName) {
+            throw new ValidationError('Expression filters require a table name');
+        }
+        const p: any[] = [];
+        const build = (node: ExpressionNode) =>
+            this.buildExpression(node, tableName, p, constrainedFields, joins);
+        const operand = (node: ExpressionNode | undefined, value: any) =>
+            build(node ?? toExpressionNode(value));
+
+        const col = build(filter.expression ?? { kind: 'field', field: filter.field });
+        const comparisons: { [operator: string]: string } = {
+            eq: '=',
+            neq: '!=',
+            gt: '>',
+            gte: '>=',
+            lt: '<',
+            lte: '<=',
+        };
+        let c: string;
+        if (comparisons[filter.operator]) {
+            c = `${col} ${comparisons[filter.operator]} ${operand(filter.valueExpression, filter.value)}`;
+        } else if (filter.operator === 'between') {
+            const min = operand(filter.valueExpression, filter.value);
+            c = `${col} BETWEEN ${min} AND ${operand(filter.value2Expression, filter.value2)}`;
+        } else if (filter.operator === 'in' || filter.operator === 'nin') {
+            const values = (filter.value as any[]).map((value) => operand(undefined, value));
+            c = `${col}${filter.operator === 'nin' ? ' NOT' : ''} IN (${values.join(', ')})`;
+        } else if (filter.operator === 'exists') {
+            c = filter.value ? `${col} IS NOT NULL` : `${col} IS NULL`;
+        } else {
+            throw new ValidationError(
+                `Operator '${filter.operator}' is not supported on expressions`
+            );
+        }
+        return { whereClause: c, whereParams: p };
+    }
+
+    /**
+     * Comparison of Unicode-folded strings through the registered fold
+     * function
+     */
+    private static buildCollatedClause(
+        filter: QueryFilter,
+        col: string
+    ): { whereClause: string; whereParams: any[] } {
+        const { collation } = filter;
+        // Checked before it is inlined
+        assertCollation(collation);
+        const fold = (sql: string) => `${FOLD_FUNCTION}(${sql}, '${collation}')`;
+        switch (filter.operator) {
+            case 'eq':
+            case 'neq':
+                return {
+                    whereClause: `${fold(col)} ${filter.operator === 'eq' ? '=' : '!='} ${fold('?')}`,
+                    whereParams: [filter.value],
+                };
+            case 'in':
+            case 'nin':
+                return {
+                    whereClause: `${fold(col)} ${filter.operator === 'in' ? 'IN' : 'NOT IN'} (SELECT ${fold('value')} FROM json_each(?))`,
+                    whereParams: [JSON.stringify(filter.value)],
+                };
+            case 'like':
+                return {
+                    whereClause: `${fold(col)} LIKE ${fold('?')}`,
+                    whereParams: [filter.value],
+                };
+            case 'startswith':
+            case 'endswith':
+            case 'contains':
+                return {
+                    whereClause: `${fold(col)} LIKE ${fold('?')} ESCAPE '\\'`,
+                    whereParams: [getLikePattern(filter)],
+                };
+            default:
+                throw new ValidationError(
+                    `Operator '${filter.operator}' does not take a collation`
+                );
+        }
+    }
+
     /** ----------  4. Cheap single‑pass filter builder ---------- */
     private static buildFilterClause(
         filter: QueryFilter,
@@ -700,58 +2525,44 @@ export class SQLTranslator {
         whereClause: string;
         whereParams: any[];
     } {
+        if (filter.operator === 'matches') {
+            return this.buildMatchClause(filter, tableName);
+        }
+        if (hasFilterExpression(filter)) {
+            return this.buildExpressionFilterClause(filter, constrainedFields, tableName, joins);
+        }
+
         let col: string;
+        const access = (field: string) =>
+            field === ELEMENT_FIELD && tableName
+                ? `json_extract(${tableName}.doc, '$')` // the element itself inside elem_match
+                : tableName
+                  ? this.qualifyFieldAccess(field, tableName, constrainedFields, joins)
+                  : getFieldAccess(field, constrainedFields);
         
-        // If we have joins, we need to determine which table the field belongs to
+        // Join fields arrive qualified by resolveJoinFields; bare ones belong to the main table
         // Check if the field is already a SQL function (like json_array_length)
         if (filter.field.includes('(') && filter.field.includes(')')) {
             // This is already a SQL function, use it as-is but need to extract the actual field for JSON access
             const fieldMatch = filter.field.match(/\(([^)]+)\)/);
             if (fieldMatch) {
                 const actualField = fieldMatch[1];
-                const fieldAccess = tableName 
-                    ? this.qualifyFieldAccess(actualField, tableName, constrainedFields, joins)
-                    : getFieldAccess(actualField, constrainedFields);
-                col = filter.field.replace(actualField, fieldAccess);
+                col = filter.field.replace(actualField, access(actualField));
             } else {
                 col = filter.field; // fallback
             }
-        } else if (joins && joins.length > 0) {
-            // Handle table-prefixed field names like "posts.published"
-            if (filter.field.includes('.')) {
-                const [tablePrefix, fieldName] = filter.field.split('.', 2);
-                
-                // Use the specified table prefix
-                if (constrainedFields && constrainedFields[fieldName]) {
-                    col = `${tablePrefix}.${fieldPathToColumnName(fieldName)}`;
-                } else if (fieldName === '_id') {
-                    col = `${tablePrefix}._id`;
-                } else {
-                    col = `json_extract(${tablePrefix}.doc, '$.${fieldName}')`;
-                }
-            } else {
-                // Simple heuristic: check if field name suggests it belongs to a joined table
-                let targetTable = tableName;
-                
-                for (const join of joins) {
-                    // Heuristic: common fields that typically belong to specific tables
-                    if ((filter.field === 'total' || filter.field === 'status') && join.collection === 'orders') {
-                        targetTable = 'orders';
-                        break;
-                    }
-                    if (filter.field === 'price' && join.collection === 'products') {
-                        targetTable = 'products';
-                        break;
-                    }
-                    // Add more heuristics as needed
-                }
-                
-                col = this.qualifyFieldAccess(filter.field, targetTable || tableName || 'documents', constrainedFields, joins);
-            }
         } else {
-            col = tableName 
-                ? this.qualifyFieldAccess(filter.field, tableName, constrainedFields, joins)
-                : getFieldAccess(filter.field, constrainedFields);
+            col = access(filter.field);
+        }
+        if (filter.resolvedMatches) {
+            // The collection matched the stored values in JS beforehand
+            return {
+                whereClause: `${col} IN (SELECT value FROM json_each(?))`,
+                whereParams: [JSON.stringify(filter.resolvedMatches)],
+            };
+        }
+        if (filter.collation !== undefined) {
+            return this.buildCollatedClause(filter, col);
         }
         const p: any[] = [];
         let c = '';
@@ -812,17 +2623,19 @@ export class SQLTranslator {
                 p.push(convertValue(filter.value));
                 break;
             case 'startswith':
-                c = `${col} LIKE ?`;
-                p.push(`${convertValue(filter.value)}%`);
-                break;
             case 'endswith':
-                c = `${col} LIKE ?`;
-                p.push(`%${convertValue(filter.value)}`);
-                break;
             case 'contains':
-                c = `${col} LIKE ?`;
-                p.push(`%${convertValue(filter.value)}%`);
+                // Wildcards in the value match literally
+                c = `${col} LIKE ? ESCAPE '\\'`;
+                p.push(getLikePattern(filter));
                 break;
+            case 'glob':
+                c = `${col} GLOB ?`;
+                p.push(filter.value);
+                break;
+            case 'within_box':
+            case 'within_radius':
+                return this.buildGeoFilterClause(filter, col, tableName, constrainedFields);
             case 'exists':
                 c = filter.value ? `${col} IS NOT NULL` : `${col} IS NULL`;
                 break;
@@ -836,6 +2649,31 @@ export class SQLTranslator {
                 c = `NOT EXISTS (SELECT 1 FROM json_each(${col}) WHERE value = ?)`;
                 p.push(convertValue(filter.value));
                 break;
+            case 'regex':
+                c = `${REGEXP_FUNCTION}(?, ?, ${col})`;
+                p.push(filter.value, filter.value2 ?? '');
+                break;
+            case 'elem_match': {
+                // Each element becomes a row with doc and _id columns, so
+                // the inner filters resolve fields as they do on a table.
+                // Nested matches get their own alias.
+                const alias = tableName?.startsWith('_elem') ? `${tableName}_` : '_elem';
+                const { whereClause, whereParams } = this.buildWhereClause(
+                    filter.value,
+                    'AND',
+                    undefined,
+                    alias
+                );
+                const elements = `SELECT 1 FROM (SELECT ${col} -> fullkey AS doc, ${col} -> fullkey ->> '$._id' AS _id FROM json_each(${col})) AS ${alias}`;
+                const matches = whereClause || '1';
+                // all: no element fails the filters (true for empty arrays)
+                c =
+                    filter.value2 === 'all'
+                        ? `NOT EXISTS (${elements} WHERE NOT COALESCE((${matches}), 0))`
+                        : `${filter.value2 === 'none' ? 'NOT ' : ''}EXISTS (${elements} WHERE ${matches})`;
+                p.push(...whereParams);
+                break;
+            }
         }
         return { whereClause: c, whereParams: p };
     }
@@ -0,0 +1,246 @@
+import { ValidationError } from './errors';
+import type {
+    Collation,
+    QueryFilter,
+    QueryGroup,
+    QueryOptions,
+    SubqueryFilter,
+} from './types';
+
+/**
+ * SQL functions registered on drivers that support user-defined functions
+ * (better-sqlite3). Bun and the libsql client cannot register functions, so
+ * collections evaluate filters that need them in JavaScript instead, over
+ * the distinct stored values of the field.
+ */
+export const REGEXP_FUNCTION = 'skibbadb_regexp';
+export const FOLD_FUNCTION = 'skibbadb_fold';
+
+export const COLLATIONS: readonly Collation[] = [
+    'nocase',
+    'noaccent',
+    'nocase_noaccent',
+];
+
+// Operators that take a collation, see FieldBuilder.collate()
+export const COLLATION_OPERATORS: readonly QueryFilter['operator'][] = [
+    'eq',
+    'neq',
+    'in',
+    'nin',
+    'like',
+    'startswith',
+    'endswith',
+    'contains',
+];
+
+/**
+ * The subset of a driver connection used to register functions
+ */
+export interface FunctionRegistry {
+    function(
+        name: string,
+        options: { deterministic?: boolean; varargs?: boolean },
+        fn: (...args: any[]) => any
+    ): unknown;
+}
+
+const regexCache = new Map<string, RegExp>();
+
+export function registerStringFunctions(db: FunctionRegistry): void {
+    db.function(
+        REGEXP_FUNCTION,
+        { deterministic: true },
+        (source: string, flags: string, value: unknown) =>
+            typeof value === 'string' && getRegex(source, flags).test(value)
+                ? 1
+                : 0
+    );
+    db.function(
+        FOLD_FUNCTION,
+        { deterministic: true },
+        (value: unknown, collation: Collation) =>
+            typeof value === 'string' ? foldString(value, collation) : value
+    );
+}
+
+export function assertCollation(
+    collation: unknown
+): asserts collation is Collation {
+    if (!COLLATIONS.includes(collation as Collation)) {
+        throw new ValidationError(
+            `Unknown collation '${collation}'; use ${COLLATIONS.map((c) => `'${c}'`).join(', ')}`
+        );
+    }
+}
+
+export function assertCollatedOperator(
+    operator: QueryFilter['operator']
+): void {
+    if (!COLLATION_OPERATORS.includes(operator)) {
+        throw new ValidationError(
+            `Operator '${operator}' does not take a collation; collate() applies to ${COLLATION_OPERATORS.join(', ')}`
+        );
+    }
+}
+
+/**
+ * Comparison form of a string: nocase folds Unicode case, noaccent drops
+ * combining marks, so 'Ärger' and 'arger' compare equal under
+ * nocase_noaccent
+ */
+export function foldString(value: string, collation: Collation): string {
+    let folded = value.normalize('NFD');
+    if (collation !== 'nocase') {
+        folded = folded.replace(/\p{M}/gu, '');
+    }
+    if (collation !== 'noaccent') {
+        // Round trip through upper case so ß matches SS and ς matches σ
+        folded = folded.toUpperCase().toLowerCase();
+    }
+    return folded.normalize('NFC');
+}
+
+/**
+ * Escape LIKE wildcards so a value matches literally with ESCAPE '\'
+ */
+export function escapeLike(value: string): string {
+    return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * LIKE pattern of a like-family filter: the pattern itself for like, the
+ * value escaped for ESCAPE '\' with wildcards for startsWith, endsWith and
+ * contains
+ */
+export function getLikePattern(filter: QueryFilter): string {
+    const value = String(filter.value);
+    switch (filter.operator) {
+        case 'startswith':
+            return `${escapeLike(value)}%`;
+        case 'endswith':
+            return `%${escapeLike(value)}`;
+        case 'contains':
+            return `%${escapeLike(value)}%`;
+        default:
+            return value;
+    }
+}
+
+/**
+ * Whether a filter runs the registered functions: regex filters, and
+ * filters with a collation
+ */
+export function needsStringFunctions(filter: QueryFilter): boolean {
+    return filter.operator === 'regex' || filter.collation !== undefined;
+}
+
+/**
+ * Whether a query has filters or sort keys the collection rewrites before
+ * translation: those running the registered functions, and ilike, which
+ * folds Unicode case when the functions are available
+ */
+export function usesStringOperators(options: QueryOptions): boolean {
+    return (
+        hasStringFilter(options.filters, true) ||
+        !!options.orderBy?.some((order) => order.collation !== undefined)
+    );
+}
+
+/**
+ * Whether any filter, including those inside groups, elemMatch() and
+ * subqueries, runs the registered functions (or is an ilike)
+ */
+export function hasStringFilter(
+    filters: (QueryFilter | QueryGroup | SubqueryFilter)[],
+    ilike = false
+): boolean {
+    return filters.some((filter) => {
+        if ('type' in filter) return hasStringFilter(filter.filters, ilike);
+        if ('subquery' in filter) {
+            return hasStringFilter(filter.subquery.filters, ilike);
+        }
+        if (filter.operator === 'elem_match') {
+            return hasStringFilter(filter.value, ilike);
+        }
+        return (
+            needsStringFunctions(filter) ||
+            (ilike && filter.operator === 'ilike')
+        );
+    });
+}
+
+/**
+ * Evaluate a regex or collated filter against a stored string, the way the
+ * registered functions do in SQL
+ */
+export function matchesStringFilter(
+    filter: QueryFilter,
+    value: string
+): boolean {
+    if (filter.operator === 'regex') {
+        return getRegex(filter.value, filter.value2 ?? '').test(value);
+    }
+    const collation = filter.collation!;
+    const fold = (text: unknown) => foldString(String(text), collation);
+    const folded = fold(value);
+    switch (filter.operator) {
+        case 'eq':
+            return folded === fold(filter.value);
+        case 'neq':
+            return folded !== fold(filter.value);
+        case 'in':
+            return (filter.value as unknown[]).some(
+                (item) => folded === fold(item)
+            );
+        case 'nin':
+            return !(filter.value as unknown[]).some(
+                (item) => folded === fold(item)
+            );
+        default:
+            // SQLite's LIKE also ignores ASCII case
+            return likeToRegex(
+                asciiLower(fold(getLikePattern(filter))),
+                filter.operator !== 'like'
+            ).test(asciiLower(folded));
+    }
+}
+
+function getRegex(source: string, flags: string): RegExp {
+    const key = `${flags}/${source}`;
+    let regex = regexCache.get(key);
+    if (!regex) {
+        regex = new RegExp(source, flags);
+        if (regexCache.size >= 100) {
+            regexCache.delete(regexCache.keys().next().value!);
+        }
+        regexCache.set(key, regex);
+    }
+    return regex;
+}
+
+function asciiLower(value: string): string {
+    return value.replace(/[A-Z]/g, (char) => char.toLowerCase());
+}
+
+// LIKE pattern, with or without ESCAPE '\', as an anchored regular expression
+function likeToRegex(pattern: string, escaped: boolean): RegExp {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (escaped && char === '\\' && i + 1 < pattern.length) {
+            source += escapeRegex(pattern[++i]);
+        } else if (char === '%') {
+            source += '[\\s\\S]*';
+        } else if (char === '_') {
+            source += '[\\s\\S]';
+        } else {
+            source += escapeRegex(char);
+        }
+    }
+    return new RegExp(`^${source}$`, 'u');
+}
+
+function escapeRegex(char: string): string {
+    return char.replace(/[\\^$.*+?()[\]{}|/]/g, '\\$&');
+}
@@ -0,0 +1,48 @@
+import type { z } from 'zod';
+import type { Driver, Row, TransactionOptions } from './types';
+import type { Collection } from './collection';
+import type { Database } from './database';
+
+/**
+ * Handle passed to `db.transaction(async (tx) => ...)`. Everything reached
+ * through it runs inside that transaction, regardless of what other async
+ * code is doing on the same driver at the time.
+ */
+export class Transaction {
+    private collections = new Map<string, Collection<any>>();
+
+    constructor(private database: Database, private driver: Driver) {}
+
+    /**
+     * A registered collection whose reads and writes run in this transaction
+     */
+    collection<T extends z.ZodSchema = any>(name: string): Collection<T> {
+        let collection = this.collections.get(name);
+        if (!collection) {
+            collection = this.database
+                .collection(name)
+                .withDriver(this.driver) as Collection<any>;
+            this.collections.set(name, collection);
+        }
+        return collection as Collection<T>;
+    }
+
+    /**
+     * Nested transaction backed by a SAVEPOINT; a failure rolls back only the
+     * work done inside fn
+     */
+    transaction<T>(
+        fn: (tx: Transaction) => Promise<T>,
+        options?: TransactionOptions
+    ): Promise<T> {
+        return this.database.runTransaction(this.driver, fn, options);
+    }
+
+    exec(sql: string, params?: any[]): Promise<void> {
+        return this.driver.exec(sql, params);
+    }
+
+    query(sql: string, params?: any[]): Promise<Row[]> {
+        return this.driver.query(sql, params);
+    }
+}
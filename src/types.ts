@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import type { SchemaConstraints } from './schema-constraints';
 import type { UpgradeMap, SeedFunction } from './upgrade-types';
+import type { QueryBuilder } from './query-builder';
 
 export interface DBConfig {
     path?: string;
@@ -44,13 +45,24 @@ export interface DBConfig {
         reapInterval?: number;
         maxRetries?: number;
     };
+    // Background deletion of expired documents in ttl collections; false disables
+    ttlSweep?: TTLSweepOptions | false;
+}
+
+export interface TTLSweepOptions {
+    interval?: number; // ms between sweeps, default 60000
+    batchSize?: number; // Rows deleted per statement, default 500
 }
 
 export interface Driver {
     // Default async methods
     exec(sql: string, params?: any[]): Promise<void>;
     query(sql: string, params?: any[]): Promise<Row[]>;
-    transaction<T>(fn: () => Promise<T>): Promise<T>;
+    // fn receives a driver bound to the transaction; nested calls use savepoints
+    transaction<T>(
+        fn: (driver: Driver) => Promise<T>,
+        options?: TransactionOptions
+    ): Promise<T>;
     close(): Promise<void>;
 
     // Sync methods (for backward compatibility)
@@ -59,12 +71,35 @@ export interface Driver {
     closeSync(): void;
 }
 
+export type TransactionMode = 'deferred' | 'immediate' | 'exclusive';
+
+export interface TransactionBackoff {
+    initialDelay?: number; // ms before the first retry, default 10
+    maxDelay?: number; // upper bound for a single delay, default 1000
+    factor?: number; // growth per attempt, default 2
+}
+
+export interface TransactionRetryInfo {
+    attempt: number; // 1 for the first retry
+    delay: number; // ms waited before this attempt
+    error: Error; // busy error that caused the retry
+}
+
+export interface TransactionOptions {
+    // BEGIN DEFERRED (default), IMMEDIATE or EXCLUSIVE; ignored for nested transactions
+    mode?: TransactionMode;
+    // Times the callback is replayed after SQLITE_BUSY, default 0
+    retries?: number;
+    backoff?: TransactionBackoff;
+    onRetry?: (info: TransactionRetryInfo) => void | Promise<void>;
+}
+
 export interface Row {
     [key: string]: any;
 }
 
 export interface ConstrainedFieldDefinition {
-    type?: 'TEXT' | 'INTEGER' | 'REAL' | 'BLOB' | 'VECTOR';
+    type?: 'TEXT' | 'INTEGER' | 'REAL' | 'BLOB' | 'VECTOR' | 'GEO_POINT'; // GEO_POINT: { lat, lng } indexed in an R*Tree
     unique?: boolean;
     foreignKey?: string; // 'table.column'
     onDelete?: 'CASCADE' | 'SET NULL' | 'RESTRICT';
@@ -74,6 +109,63 @@ export interface ConstrainedFieldDefinition {
     // Vector-specific properties
     vectorDimensions?: number; // Required when type is 'VECTOR'
     vectorType?: 'float' | 'int8' | 'binary'; // Default: 'float'
+    vectorDistance?: VectorDistance; // Metric of the KNN index, fixed when the table is created (default: 'l2')
+}
+
+// Relations between collections, resolved by populate()
+export interface BelongsToRelation {
+    type: 'belongsTo';
+    collection: string; // Related collection name
+    localField: string; // Field on this document holding the related key
+    foreignField?: string; // Key on the related document (default: '_id')
+    schema?: z.ZodTypeAny; // Related collection's schema, types populate() results
+}
+
+export interface HasManyRelation {
+    type: 'hasMany';
+    collection: string;
+    foreignField: string; // Field on the related documents pointing back here
+    localField?: string; // Key on this document (default: '_id')
+    schema?: z.ZodTypeAny;
+}
+
+export interface ManyToManyRelation {
+    type: 'manyToMany';
+    collection: string;
+    through: string; // Join collection holding one document per link
+    throughLocalField: string; // Join field pointing at this document
+    throughForeignField: string; // Join field pointing at the related document
+    localField?: string; // Key on this document (default: '_id')
+    foreignField?: string; // Key on the related document (default: '_id')
+    schema?: z.ZodTypeAny;
+}
+
+export type RelationDefinition =
+    | BelongsToRelation
+    | HasManyRelation
+    | ManyToManyRelation;
+
+// What populate() attaches for each declared relation: the related document
+// or null for belongsTo, an array of them otherwise
+export type RelationValues<R extends { [name: string]: RelationDefinition }> = {
+    [K in keyof R]: R[K] extends { type: 'belongsTo' }
+        ? RelationDocument<R[K]> | null
+        : RelationDocument<R[K]>[];
+};
+
+type RelationDocument<D> = D extends { schema: z.ZodTypeAny }
+    ? InferSchema<D['schema']>
+    : any;
+
+// Relation values of a collection whose relations are not known statically
+export type AnyRelationValues = { [name: string]: any };
+
+// Document type of a populated relation value
+export type PopulatedDocument<V> = V extends (infer D)[] ? D : NonNullable<V>;
+
+export interface PopulateClause {
+    relation: string;
+    options?: QueryOptions; // filters, orderBy, limit/offset (per parent) and nested populate
 }
 
 export interface CollectionSchema<T extends z.ZodTypeAny = any> {
@@ -85,10 +177,49 @@ export interface CollectionSchema<T extends z.ZodTypeAny = any> {
     /** @deprecated Use constrainedFields instead. Will be removed in v2.0.0 */
     constraints?: SchemaConstraints;
     constrainedFields?: { [fieldPath: string]: ConstrainedFieldDefinition };
+    fullText?: string[]; // Fields indexed in an FTS5 shadow table
+    relations?: { [name: string]: RelationDefinition };
+    versioning?: boolean; // Maintain a _rev revision for optimistic concurrency
+    softDelete?: boolean; // delete() stamps _deletedAt instead of removing the row
+    history?: boolean | HistoryOptions; // Record every write in <name>_history; implies versioning
+    ttl?: TTLOption; // Hide documents once they expire; the sweeper deletes them
     upgrade?: UpgradeMap<T>;
     seed?: SeedFunction<T>;
 }
 
+export interface WriteOptions {
+    // Only write when the stored _rev equals this revision (versioned collections)
+    ifMatch?: number;
+}
+
+// ms after each write, or a date field holding each document's expiry
+export type TTLOption = number | { field: string };
+
+export interface HistoryOptions {
+    maxRevisions?: number; // Entries kept per document
+    maxAge?: number; // ms an entry is kept
+}
+
+export type HistoryOperation =
+    | 'insert'
+    | 'update'
+    | 'delete' // Hard delete, or soft delete on softDelete collections
+    | 'restore'
+    | 'purge'; // Soft-deleted document removed by purgeDeleted()
+
+export interface HistoryEntry<T = any> {
+    revision: number;
+    operation: HistoryOperation;
+    timestamp: Date;
+    actor?: string; // Set for writes made through withActor()
+    doc: T; // Full document as of this entry
+}
+
+export interface PurgeDeletedOptions {
+    // Only purge rows deleted before this date, or more than this many ms ago
+    olderThan?: Date | number;
+}
+
 export type InferSchema<T> = T extends z.ZodSchema<infer U> ? U : never;
 
 export interface QueryFilter {
@@ -111,14 +242,35 @@ export interface QueryFilter {
         | 'between'
         | 'json_array_contains'
         | 'json_array_not_contains'
-        | 'vector_match'; // For vector similarity searches
+        | 'vector_match' // For vector similarity searches
+        | 'matches' // FTS5 match against a fullText field
+        | 'regex' // value: pattern source, value2: flags
+        | 'glob' // Case-sensitive SQLite GLOB pattern
+        | 'within_box' // value: GeoBox, on a GEO_POINT field
+        | 'within_radius' // value: { lat, lng, meters }, on a GEO_POINT field
+        | 'elem_match'; // value: filters an array element must match; value2: 'all' or 'none' instead of any element
     value: any;
     value2?: any; // For between operator
     vectorDistance?: 'cosine' | 'euclidean' | 'l1' | 'l2'; // For vector searches, default: cosine
+    expression?: ExpressionNode; // Computed left-hand side from where(expression)
+    valueExpression?: ExpressionNode; // Field or expression value, e.g. gt(field('createdAt'))
+    value2Expression?: ExpressionNode; // Upper between bound as a field or expression
+    collation?: Collation; // Compare folded strings, see FieldBuilder.collate()
+    resolvedMatches?: string[]; // Stored values a regex or collated filter matches, found in JS when the driver has no SQL functions
+}
+
+// Unicode-aware string comparison: case-insensitive, accent-insensitive or both
+export type Collation = 'nocase' | 'noaccent' | 'nocase_noaccent';
+
+export interface OrderByClause {
+    field: string;
+    direction: 'asc' | 'desc';
+    collation?: Collation;
+    resolvedOrder?: string[][]; // Stored values grouped by folded form, in collation order, found in JS when the driver has no SQL functions
 }
 
 export interface QueryGroup {
-    type: 'and' | 'or';
+    type: 'and' | 'or' | 'nor'; // nor matches when none of its filters do
     filters: (QueryFilter | QueryGroup | SubqueryFilter)[];
 }
 
@@ -130,9 +282,101 @@ export interface AggregateField {
     distinct?: boolean;
 }
 
+// Computed select() columns, kept as plain data so queries stay cloneable.
+// Built with the helpers in expressions.ts.
+export type ExpressionNode =
+    | { kind: 'field'; field: string }
+    | { kind: 'value'; value: string | number | boolean | null }
+    | { kind: 'operator'; operator: ExpressionOperator; args: ExpressionNode[] }
+    | { kind: 'function'; name: ScalarFunctionName; args: ExpressionNode[] }
+    | {
+          kind: 'case';
+          branches: { when: ExpressionNode; then: ExpressionNode }[];
+          else?: ExpressionNode;
+      }
+    | {
+          kind: 'window';
+          name: WindowFunctionName;
+          args: ExpressionNode[];
+          over?: WindowSpec;
+      };
+
+export type ExpressionOperator =
+    | '+'
+    | '-'
+    | '*'
+    | '/'
+    | '%'
+    | '||'
+    | '='
+    | '!='
+    | '>'
+    | '>='
+    | '<'
+    | '<='
+    | 'AND'
+    | 'OR'
+    | 'NOT'
+    | 'IS NULL'
+    | 'IS NOT NULL';
+
+export type ScalarFunctionName =
+    | 'coalesce'
+    | 'nullif'
+    | 'abs'
+    | 'round'
+    | 'upper'
+    | 'lower'
+    | 'length'
+    | 'trim'
+    | 'substr'
+    | 'replace'
+    | 'date'
+    | 'time'
+    | 'datetime'
+    | 'julianday'
+    | 'unixepoch'
+    | 'strftime';
+
+export type WindowFunctionName =
+    | 'row_number'
+    | 'rank'
+    | 'dense_rank'
+    | 'percent_rank'
+    | 'cume_dist'
+    | 'ntile'
+    | 'lag'
+    | 'lead'
+    | 'first_value'
+    | 'last_value'
+    | 'nth_value'
+    | 'sum'
+    | 'avg'
+    | 'min'
+    | 'max'
+    | 'count';
+
+export interface WindowSpec {
+    partitionBy?: string[];
+    orderBy?: { field: string; direction: 'asc' | 'desc' }[];
+    frame?: WindowFrame;
+}
+
+// Rows or values before/after the current row; 0 means the current row
+export interface WindowFrame {
+    unit: 'rows' | 'range';
+    preceding: number | 'unbounded';
+    following: number | 'unbounded';
+}
+
+export interface SelectExpression {
+    alias: string;
+    expression: ExpressionNode;
+}
+
 // Join definitions
 export interface JoinCondition {
-    left: string; // field from current collection
+    left: string; // field from current collection, or <table>.<field> from an earlier join
     right: string; // field from joined collection
     operator?: '=' | '!=' | '>' | '<' | '>=' | '<=';
 }
@@ -140,7 +384,11 @@ export interface JoinCondition {
 export interface JoinClause {
     type: 'INNER' | 'LEFT' | 'RIGHT' | 'FULL';
     collection: string;
+    alias?: string; // Name the joined table is referenced by (needed for self-joins)
     condition: JoinCondition;
+    constrainedFields?: { [fieldPath: string]: ConstrainedFieldDefinition }; // Resolved from the registry
+    softDelete?: boolean; // Resolved from the registry; soft-deleted rows never join
+    ttlColumn?: string; // Resolved from the registry; expired rows never join
 }
 
 // Subquery support
@@ -151,17 +399,31 @@ export interface SubqueryFilter {
     subqueryCollection: string;
 }
 
+// Keyset pagination position; values follow the cursor's fields in order
+export interface QueryCursor {
+    direction: 'after' | 'before';
+    fields: string[];
+    values: any[];
+}
+
 export interface QueryOptions {
     filters: (QueryFilter | QueryGroup | SubqueryFilter)[];
-    orderBy?: { field: string; direction: 'asc' | 'desc' }[];
+    orderBy?: OrderByClause[];
     limit?: number;
     offset?: number;
+    cursor?: QueryCursor;
     groupBy?: string[];
     having?: (QueryFilter | QueryGroup)[];
     distinct?: boolean;
     aggregates?: AggregateField[];
     joins?: JoinClause[];
     selectFields?: string[]; // For custom field selection
+    selectExpressions?: SelectExpression[]; // Computed columns, selected after selectFields
+    nearest?: NearestQuery; // KNN ordering set by nearestTo()
+    geoNearest?: GeoNearestQuery; // Distance ordering set by nearest() on a GEO_POINT field
+    populate?: PopulateClause[]; // Relations loaded after the main query
+    deleted?: 'exclude' | 'include' | 'only'; // Soft-deleted rows in scope (softDelete collections)
+    expiry?: { column: string; only?: boolean }; // Set for ttl collections: hide expired rows, or match only them
 }
 
 // Plugin system types
@@ -174,12 +436,54 @@ export interface PluginFactory {
 }
 
 // Vector search specific types
+export type VectorDistance = 'cosine' | 'euclidean' | 'l1' | 'l2';
+
+export interface NearestToOptions {
+    k?: number; // Number of neighbours to return (default: 10, overridden by limit())
+    maxDistance?: number; // Drop rows farther than this distance
+    minSimilarity?: number; // Cosine only: drop rows with 1 - distance below this
+    distance?: VectorDistance; // Distance function (default: cosine)
+}
+
+export interface NearestQuery extends NearestToOptions {
+    fields: string[]; // VECTOR constrained fields; a row's distance is its closest field
+    vector: number[];
+}
+
+// Geospatial types, see GEO_POINT constrained fields
+export interface GeoPoint {
+    lat: number;
+    lng: number;
+}
+
+export interface GeoBox {
+    minLat: number;
+    minLng: number;
+    maxLat: number;
+    maxLng: number; // Less than minLng when the box crosses the antimeridian
+}
+
+export interface GeoNearestOptions {
+    k?: number; // Number of closest rows to return (default: 10, overridden by limit())
+    maxDistance?: number; // Drop rows farther than this many meters
+}
+
+export interface GeoNearestQuery {
+    field: string;
+    lat: number;
+    lng: number;
+    k?: number;
+}
+
 export interface VectorSearchOptions {
-    field: string; // The vector field to search
+    field: string | string[]; // The vector field(s) to search, merged by closest distance
     vector: number[]; // Query vector
     limit?: number; // Number of results to return (default: 10)
-    where?: QueryFilter[]; // Additional filters to apply
-    distance?: 'cosine' | 'euclidean' | 'l1' | 'l2'; // Distance function (default: cosine)
+    offset?: number; // Number of nearest results to skip
+    where?: QueryFilter[] | QueryBuilder<any>; // Additional filters to apply
+    maxDistance?: number; // Drop results farther than this distance
+    minSimilarity?: number; // Cosine only: drop results with 1 - distance below this
+    distance?: VectorDistance; // Distance function (default: cosine)
 }
 
 export interface VectorSearchResult<T = any> {
@@ -188,5 +492,52 @@ export interface VectorSearchResult<T = any> {
     _id: string;
 }
 
+export interface FullTextSearchOptions {
+    limit?: number; // Number of results to return (default: 10)
+    where?: QueryFilter[]; // Additional filters to apply
+    highlight?: boolean | { start?: string; end?: string }; // Mark matches in each fullText field
+    snippet?:
+        | boolean
+        | {
+              field?: string; // fullText field to excerpt (default: best match)
+              start?: string;
+              end?: string;
+              ellipsis?: string;
+              tokens?: number; // Max tokens in the excerpt (default: 16)
+          };
+}
+
+export interface FullTextSearchResult<T = any> {
+    document: T;
+    score: number; // bm25 rank, lower is more relevant
+    _id: string;
+    highlights?: { [field: string]: string };
+    snippet?: string;
+}
+
+export interface HybridSearchOptions {
+    vectorField: string; // The vector field to search
+    vector: number[]; // Query vector
+    text: string; // Keyword query (FTS5 syntax)
+    textFields?: string[]; // fullText fields to match (default: all)
+    k?: number; // Number of results to return (default: 10)
+    candidates?: number; // Results fetched from each source before fusion (default: k * 4)
+    fusion?: 'rrf' | 'weighted'; // Reciprocal rank fusion or normalized score blend (default: rrf)
+    weights?: { vector?: number; text?: number }; // Per-source weights (default: 1 each)
+    rrfK?: number; // RRF damping constant (default: 60)
+    where?: QueryFilter[]; // Additional filters applied to both sources
+    distance?: 'cosine' | 'euclidean' | 'l1' | 'l2';
+}
+
+export interface HybridSearchResult<T = any> {
+    document: T;
+    score: number; // Fused score, higher is more relevant
+    _id: string;
+    distance?: number; // Vector distance, when found by the vector search
+    vectorRank?: number; // 1-based rank in the vector results
+    textScore?: number; // bm25 rank, when found by the keyword search
+    textRank?: number; // 1-based rank in the keyword results
+}
+
 // Re-export Plugin from plugin-system for convenience
 export type { Plugin } from './plugin-system';
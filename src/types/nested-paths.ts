@@ -114,6 +114,17 @@ export type ArrayQueryPaths<T> = {
         : never;
 }[DeepPaths<T>];
 
+/**
+ * Element type of the array at a path; any when the path is not a known array
+ */
+export type ArrayElementAt<T, P> = P extends string
+    ? [NonNullable<NestedValue<T, P>>] extends [never]
+        ? any
+        : NonNullable<NestedValue<T, P>> extends readonly (infer E)[]
+        ? E
+        : any
+    : any;
+
 /**
  * Example usage types for testing autocomplete
  */
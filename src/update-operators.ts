@@ -0,0 +1,428 @@
+import { ValidationError } from './errors';
+import { getNestedValue, setNestedValue } from './constrained-fields';
+import type { QueryablePaths } from './types/nested-paths';
+
+/**
+ * Map of dot paths to operator arguments, with autocomplete for known paths
+ */
+type PathMap<T, V> = { [K in QueryablePaths<T> & string]?: V } & {
+    [path: string]: V;
+};
+
+export interface UpdateOperators<T = any> {
+    $set?: PathMap<T, any>;
+    $unset?: PathMap<T, true | 1 | ''>;
+    $inc?: PathMap<T, number>;
+    $mul?: PathMap<T, number>;
+    $min?: PathMap<T, any>;
+    $max?: PathMap<T, any>;
+    $push?: PathMap<T, any>;
+    $addToSet?: PathMap<T, any>;
+    $pull?: PathMap<T, any>;
+    $rename?: PathMap<T, string>;
+}
+
+export type UpdateOperatorName = keyof UpdateOperators;
+
+export const UPDATE_OPERATORS: UpdateOperatorName[] = [
+    '$set',
+    '$unset',
+    '$inc',
+    '$mul',
+    '$min',
+    '$max',
+    '$push',
+    '$addToSet',
+    '$pull',
+    '$rename',
+];
+
+/**
+ * Operators SQLTranslator can express with json_set/json_remove
+ */
+export const SQL_UPDATE_OPERATORS: UpdateOperatorName[] = [
+    '$set',
+    '$unset',
+    '$inc',
+    '$mul',
+];
+
+/**
+ * Treat a plain partial document as a $set of its top-level fields
+ */
+export function normalizeUpdateOperators<T>(
+    update: UpdateOperators<T> | Partial<T>
+): UpdateOperators<T> {
+    const keys = Object.keys(update || {});
+    if (keys.length > 0 && keys.every((key) => !key.startsWith('$'))) {
+        return { $set: update } as UpdateOperators<T>;
+    }
+    return update as UpdateOperators<T>;
+}
+
+/**
+ * Check operator names, argument types and path conflicts.
+ * Throws a ValidationError on the first problem found.
+ */
+export function validateUpdateOperators(ops: UpdateOperators): void {
+    if (!ops || typeof ops !== 'object' || Array.isArray(ops)) {
+        throw new ValidationError('Update operators must be an object');
+    }
+
+    const keys = Object.keys(ops);
+    if (keys.length === 0) {
+        throw new ValidationError('Update requires at least one operator');
+    }
+
+    const seenPaths: string[] = [];
+    const claimPath = (path: string) => {
+        if (path === '_id' || path.startsWith('_id.')) {
+            throw new ValidationError('Cannot update the _id field');
+        }
+        for (const seen of seenPaths) {
+            if (
+                seen === path ||
+                seen.startsWith(`${path}.`) ||
+                path.startsWith(`${seen}.`)
+            ) {
+                throw new ValidationError(
+                    `Conflicting update paths '${seen}' and '${path}'`
+                );
+            }
+        }
+        seenPaths.push(path);
+    };
+
+    for (const key of keys) {
+        if (!UPDATE_OPERATORS.includes(key as UpdateOperatorName)) {
+            throw new ValidationError(`Unknown update operator '${key}'`);
+        }
+        const fields = (ops as any)[key];
+        if (!fields || typeof fields !== 'object' || Array.isArray(fields)) {
+            throw new ValidationError(
+                `Update operator '${key}' requires an object of field paths`
+            );
+        }
+
+        for (const [path, value] of Object.entries(fields)) {
+            claimPath(path);
+
+            if (
+                (key === '$inc' || key === '$mul') &&
+                (typeof value !== 'number' || !Number.isFinite(value))
+            ) {
+                throw new ValidationError(
+                    `Update operator '${key}' on '${path}' requires a finite number`
+                );
+            }
+            if (key === '$rename') {
+                if (typeof value !== 'string' || value.length === 0) {
+                    throw new ValidationError(
+                        `Update operator '$rename' on '${path}' requires a target path`
+                    );
+                }
+                claimPath(value);
+            }
+        }
+    }
+}
+
+/**
+ * Apply update operators to a copy of a document
+ */
+export function applyUpdateOperators<T>(doc: T, ops: UpdateOperators<T>): T {
+    validateUpdateOperators(ops);
+
+    const result = cloneValue(doc) as any;
+
+    for (const [path, value] of Object.entries(ops.$set || {})) {
+        setNestedValue(result, path, cloneValue(value));
+    }
+
+    for (const path of Object.keys(ops.$unset || {})) {
+        unsetNestedValue(result, path);
+    }
+
+    for (const [path, amount] of Object.entries(ops.$inc || {})) {
+        const current = numericValue(result, path, '$inc');
+        setNestedValue(result, path, current + (amount as number));
+    }
+
+    for (const [path, factor] of Object.entries(ops.$mul || {})) {
+        const current = numericValue(result, path, '$mul');
+        setNestedValue(result, path, current * (factor as number));
+    }
+
+    for (const [path, value] of Object.entries(ops.$min || {})) {
+        const current = getNestedValue(result, path);
+        if (current === undefined || current === null || value < current) {
+            setNestedValue(result, path, cloneValue(value));
+        }
+    }
+
+    for (const [path, value] of Object.entries(ops.$max || {})) {
+        const current = getNestedValue(result, path);
+        if (current === undefined || current === null || value > current) {
+            setNestedValue(result, path, cloneValue(value));
+        }
+    }
+
+    for (const [path, value] of Object.entries(ops.$push || {})) {
+        const array = arrayValue(result, path, '$push');
+        array.push(...eachValues(value).map(cloneValue));
+        setNestedValue(result, path, array);
+    }
+
+    for (const [path, value] of Object.entries(ops.$addToSet || {})) {
+        const array = arrayValue(result, path, '$addToSet');
+        for (const item of eachValues(value)) {
+            if (!array.some((existing) => valuesEqual(existing, item))) {
+                array.push(cloneValue(item));
+            }
+        }
+        setNestedValue(result, path, array);
+    }
+
+    for (const [path, value] of Object.entries(ops.$pull || {})) {
+        const current = getNestedValue(result, path);
+        if (current === undefined) continue;
+        if (!Array.isArray(current)) {
+            throw new ValidationError(
+                `Update operator '$pull' requires '${path}' to be an array`
+            );
+        }
+        const candidates =
+            value && typeof value === 'object' && Array.isArray(value.$in)
+                ? value.$in
+                : [value];
+        setNestedValue(
+            result,
+            path,
+            current.filter(
+                (item: any) =>
+                    !candidates.some((candidate: any) =>
+                        valuesEqual(item, candidate)
+                    )
+            )
+        );
+    }
+
+    for (const [from, to] of Object.entries(ops.$rename || {})) {
+        const value = getNestedValue(result, from);
+        if (value === undefined) continue;
+        unsetNestedValue(result, from);
+        setNestedValue(result, to as string, value);
+    }
+
+    return result as T;
+}
+
+/**
+ * All document paths written by a set of operators
+ */
+export function getUpdatedPaths(ops: UpdateOperators): string[] {
+    const paths: string[] = [];
+    for (const key of Object.keys(ops) as UpdateOperatorName[]) {
+        for (const [path, value] of Object.entries(ops[key] || {})) {
+            paths.push(path);
+            if (key === '$rename') paths.push(value as string);
+        }
+    }
+    return paths;
+}
+
+/**
+ * Whether two dot paths overlap (one equals or contains the other)
+ */
+export function pathsOverlap(a: string, b: string): boolean {
+    return a === b || a.startsWith(`${b}.`) || b.startsWith(`${a}.`);
+}
+
+/**
+ * Whether the operators can be compiled to json_set/json_remove against the
+ * given document. json_set does not create missing parent objects, so nested
+ * paths are only compiled when their parent already exists.
+ */
+export function canCompileUpdateOperators(
+    doc: any,
+    ops: UpdateOperators
+): boolean {
+    for (const key of Object.keys(ops) as UpdateOperatorName[]) {
+        if (!SQL_UPDATE_OPERATORS.includes(key)) return false;
+
+        for (const [path, value] of Object.entries(ops[key] || {})) {
+            // Array indexes need '[n]' syntax in JSON paths
+            if (path.split('.').some((part) => /^\d+$/.test(part))) {
+                return false;
+            }
+            if (path.includes('.')) {
+                const parent = getNestedValue(
+                    doc,
+                    path.substring(0, path.lastIndexOf('.'))
+                );
+                if (
+                    !parent ||
+                    typeof parent !== 'object' ||
+                    Array.isArray(parent)
+                ) {
+                    return false;
+                }
+            }
+            if (
+                (key === '$inc' || key === '$mul') &&
+                !['number', 'undefined'].includes(
+                    typeof getNestedValue(doc, path)
+                )
+            ) {
+                return false;
+            }
+            if (key === '$set' && value === undefined) return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * Value the operators write at `path` when it does not depend on the stored
+ * document: a $set of the path or one of its parents, or an $unset.
+ * Returns null when the value can only be known after the update runs.
+ */
+export function resolveUpdatedValue(
+    ops: UpdateOperators,
+    path: string
+): { value: any } | null {
+    for (const [setPath, value] of Object.entries(ops.$set || {})) {
+        if (setPath === path) return { value };
+        if (path.startsWith(`${setPath}.`)) {
+            return {
+                value: getNestedValue(value, path.slice(setPath.length + 1)),
+            };
+        }
+    }
+    for (const unsetPath of Object.keys(ops.$unset || {})) {
+        if (unsetPath === path || path.startsWith(`${unsetPath}.`)) {
+            return { value: undefined };
+        }
+    }
+    return null;
+}
+
+/**
+ * Whether the operators can run as one UPDATE over many documents without
+ * reading them first. Every constrained column they touch must be either an
+ * exact $inc/$mul target or resolvable from the operators alone.
+ */
+export function canCompileBulkUpdateOperators(
+    ops: UpdateOperators,
+    constrainedPaths: string[]
+): boolean {
+    for (const key of Object.keys(ops) as UpdateOperatorName[]) {
+        if (!SQL_UPDATE_OPERATORS.includes(key)) return false;
+
+        for (const [path, value] of Object.entries(ops[key] || {})) {
+            if (path.split('.').some((part) => /^\d+$/.test(part))) {
+                return false;
+            }
+            if (key === '$set' && value === undefined) return false;
+        }
+    }
+
+    const updatedPaths = getUpdatedPaths(ops);
+    return constrainedPaths.every((fieldPath) => {
+        if (!updatedPaths.some((path) => pathsOverlap(path, fieldPath))) {
+            return true;
+        }
+        if (
+            (ops.$inc && fieldPath in ops.$inc) ||
+            (ops.$mul && fieldPath in ops.$mul)
+        ) {
+            return true;
+        }
+        return resolveUpdatedValue(ops, fieldPath) !== null;
+    });
+}
+
+function numericValue(doc: any, path: string, operator: string): number {
+    const current = getNestedValue(doc, path);
+    if (current === undefined || current === null) return 0;
+    if (typeof current !== 'number') {
+        throw new ValidationError(
+            `Update operator '${operator}' requires '${path}' to be a number`
+        );
+    }
+    return current;
+}
+
+function arrayValue(doc: any, path: string, operator: string): any[] {
+    const current = getNestedValue(doc, path);
+    if (current === undefined || current === null) return [];
+    if (!Array.isArray(current)) {
+        throw new ValidationError(
+            `Update operator '${operator}' requires '${path}' to be an array`
+        );
+    }
+    return current.slice();
+}
+
+function eachValues(value: any): any[] {
+    if (value && typeof value === 'object' && Array.isArray(value.$each)) {
+        return value.$each;
+    }
+    return [value];
+}
+
+function unsetNestedValue(obj: any, path: string): void {
+    const keys = path.split('.');
+    const parent =
+        keys.length > 1 ? getNestedValue(obj, keys.slice(0, -1).join('.')) : obj;
+    if (parent && typeof parent === 'object') {
+        delete parent[keys[keys.length - 1]];
+    }
+}
+
+/**
+ * Deep equality that ignores object key order (Zod output follows the
+ * schema's key order, not the document's)
+ */
+export function valuesEqual(a: any, b: any): boolean {
+    if (a === b) return true;
+    if (a instanceof Date || b instanceof Date) {
+        return (
+            a instanceof Date &&
+            b instanceof Date &&
+            a.getTime() === b.getTime()
+        );
+    }
+    if (!a || !b || typeof a !== 'object' || typeof b !== 'object') {
+        return false;
+    }
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+    if (Array.isArray(a)) {
+        return (
+            a.length === b.length &&
+            a.every((item, index) => valuesEqual(item, b[index]))
+        );
+    }
+    const keysA = Object.keys(a).filter((key) => a[key] !== undefined);
+    const keysB = Object.keys(b).filter((key) => b[key] !== undefined);
+    return (
+        keysA.length === keysB.length &&
+        keysA.every((key) => valuesEqual(a[key], b[key]))
+    );
+}
+
+/**
+ * Deep copy of a JSON-like value that keeps Dates
+ */
+export function cloneValue<V>(value: V): V {
+    if (value instanceof Date) return new Date(value.getTime()) as any;
+    if (Array.isArray(value)) return value.map(cloneValue) as any;
+    if (value && typeof value === 'object') {
+        const copy: any = {};
+        for (const [key, inner] of Object.entries(value)) {
+            copy[key] = cloneValue(inner);
+        }
+        return copy;
+    }
+    return value;
+}
@@ -77,10 +77,9 @@ export class UpgradeRunner {
             fromVersion,
             toVersion,
             database: this.database,
-            transaction: <U>(fn: () => Promise<U>) => {
-                // We're already in a transaction, so just execute the function directly
-                return fn();
-            },
+            // Upgrades run inside the migration transaction, so this opens a savepoint
+            transaction: <U>(fn: () => Promise<U>) =>
+                this.driver.transaction(fn),
             migrator: new Migrator(this.driver),
             sql: (query: string, params?: any[]) =>
                 this.driver.query(query, params),
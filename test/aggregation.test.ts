@@ -0,0 +1,308 @@
+import {
+    describe,
+    test,
+    expect,
+    beforeEach,
+    afterEach,
+    expectTypeOf,
+} from 'vitest';
+import { z } from 'zod';
+import { createDB } from '../src/index';
+import { ValidationError } from '../src/errors';
+
+const orderSchema = z.object({
+    _id: z.string(),
+    customerId: z.string(),
+    status: z.enum(['open', 'paid']),
+    total: z.number(),
+    tags: z.array(z.string()).default([]),
+    paid: z.boolean().default(false),
+    placedAt: z.date(),
+});
+
+const customerSchema = z.object({
+    _id: z.string(),
+    name: z.string(),
+});
+
+describe('Collection.aggregate()', () => {
+    let db: ReturnType<typeof createDB>;
+    let orders: ReturnType<typeof db.collection<typeof orderSchema>>;
+    let customers: ReturnType<typeof db.collection<typeof customerSchema>>;
+
+    beforeEach(async () => {
+        db = createDB({ memory: true });
+        customers = db.collection('customers', customerSchema, {
+            softDelete: true,
+        });
+        orders = db.collection('orders', orderSchema, {
+            constrainedFields: { status: {} },
+        });
+        await customers.insertBulk([
+            { _id: 'c1', name: 'Ada' },
+            { _id: 'c2', name: 'Grace' },
+        ]);
+        await orders.insertBulk([
+            {
+                _id: 'o1',
+                customerId: 'c1',
+                status: 'paid',
+                total: 30,
+                tags: ['rush', 'gift'],
+                paid: true,
+                placedAt: new Date('2024-01-01T00:00:00Z'),
+            },
+            {
+                _id: 'o2',
+                customerId: 'c2',
+                status: 'open',
+                total: 10,
+                tags: [],
+                placedAt: new Date('2024-01-02T00:00:00Z'),
+            },
+            {
+                _id: 'o3',
+                customerId: 'c1',
+                status: 'paid',
+                total: 20,
+                tags: ['gift'],
+                paid: true,
+                placedAt: new Date('2024-01-03T00:00:00Z'),
+            },
+        ]);
+    });
+
+    afterEach(async () => {
+        await db.close();
+    });
+
+    test('$match, $sort, $skip and $limit', async () => {
+        const rows = await orders.aggregate([
+            { $match: { status: 'paid', total: { $gte: 20 } } },
+            { $sort: { total: 1 } },
+            { $limit: 5 },
+        ]);
+        expect(rows.map((r) => r._id)).toEqual(['o3', 'o1']);
+        expect(rows[0].placedAt).toBeInstanceOf(Date);
+
+        const page = await orders.aggregate([
+            { $sort: { total: -1 } },
+            { $skip: 1 },
+            { $limit: 1 },
+        ]);
+        expect(page.map((r) => r._id)).toEqual(['o3']);
+
+        const either = await orders.aggregate([
+            { $match: { $or: [{ total: { $lt: 15 } }, { _id: 'o1' }] } },
+        ]);
+        expect(either.map((r) => r._id)).toEqual(['o1', 'o2']);
+    });
+
+    test('$group with accumulators', async () => {
+        const rows = await orders.aggregate([
+            { $sort: { placedAt: 1 } },
+            {
+                $group: {
+                    _id: '$customerId',
+                    revenue: { $sum: '$total' },
+                    average: { $avg: '$total' },
+                    orders: { $count: {} },
+                    smallest: { $min: '$total' },
+                    latest: { $max: '$placedAt' },
+                    ids: { $push: '$_id' },
+                    flags: { $addToSet: '$paid' },
+                    first: { $first: '$total' },
+                    last: { $last: '$total' },
+                },
+            },
+            { $sort: { revenue: -1 } },
+        ]);
+
+        expect(rows).toEqual([
+            {
+                _id: 'c1',
+                revenue: 50,
+                average: 25,
+                orders: 2,
+                smallest: 20,
+                latest: new Date('2024-01-03T00:00:00Z'),
+                ids: ['o1', 'o3'],
+                flags: [true],
+                first: 30,
+                last: 20,
+            },
+            {
+                _id: 'c2',
+                revenue: 10,
+                average: 10,
+                orders: 1,
+                smallest: 10,
+                latest: new Date('2024-01-02T00:00:00Z'),
+                ids: ['o2'],
+                flags: [false],
+                first: 10,
+                last: 10,
+            },
+        ]);
+        expectTypeOf(rows[0].revenue).toEqualTypeOf<number>();
+        expectTypeOf(rows[0].ids).toEqualTypeOf<string[]>();
+        expectTypeOf(rows[0]._id).toEqualTypeOf<string>();
+
+        const [all] = await orders.aggregate([
+            { $group: { _id: null, total: { $sum: '$total' } } },
+        ]);
+        expect(all).toEqual({ _id: null, total: 60 });
+        expect(
+            await orders.aggregate([
+                { $match: { total: { $gt: 100 } } },
+                { $group: { _id: null, n: { $sum: 1 } } },
+            ])
+        ).toEqual([]);
+
+        // Literals in both the key and an accumulator
+        expect(
+            await orders.aggregate([
+                {
+                    $group: {
+                        _id: { $concat: ['$customerId', '-k'] },
+                        doubled: { $sum: { $multiply: ['$total', 2] } },
+                    },
+                },
+            ])
+        ).toEqual([
+            { _id: 'c1-k', doubled: 100 },
+            { _id: 'c2-k', doubled: 20 },
+        ]);
+    });
+
+    test('$project with computed expressions', async () => {
+        const rows = await orders.aggregate([
+            { $match: { _id: 'o1' } },
+            {
+                $project: {
+                    total: 1,
+                    missing: 1,
+                    withTax: { $multiply: ['$total', 1.5] },
+                    half: { $divide: ['$total', 4] },
+                    label: { $concat: [{ $toUpper: '$status' }, ':', '$_id'] },
+                    big: { $gte: ['$total', 25] },
+                    tagCount: { $size: '$tags' },
+                    note: { $ifNull: ['$note', 'none'] },
+                    tier: {
+                        $cond: {
+                            if: { $gt: ['$total', 25] },
+                            then: 'gold',
+                            else: 'silver',
+                        },
+                    },
+                    summary: { paid: '$paid', when: '$placedAt' },
+                    raw: { $literal: '$total' },
+                },
+            },
+        ]);
+
+        expect(rows).toEqual([
+            {
+                _id: 'o1',
+                total: 30,
+                withTax: 45,
+                half: 7.5,
+                label: 'PAID:o1',
+                big: true,
+                tagCount: 2,
+                note: 'none',
+                tier: 'gold',
+                summary: {
+                    paid: true,
+                    when: new Date('2024-01-01T00:00:00Z'),
+                },
+                raw: '$total',
+            },
+        ]);
+        expectTypeOf(rows[0].label).toEqualTypeOf<string>();
+        expectTypeOf(rows[0].big).toEqualTypeOf<boolean>();
+        expectTypeOf(rows[0].total).toEqualTypeOf<number>();
+
+        const [trimmed] = await orders.aggregate([
+            { $match: { _id: 'o2' } },
+            { $project: { _id: 0, tags: 0, placedAt: 0 } },
+        ]);
+        expect(trimmed).toEqual({
+            customerId: 'c2',
+            status: 'open',
+            total: 10,
+            paid: false,
+        });
+    });
+
+    test('$unwind, $count and $lookup', async () => {
+        const tags = await orders.aggregate([
+            { $unwind: '$tags' },
+            { $group: { _id: '$tags', n: { $sum: 1 } } },
+            { $sort: { n: -1, _id: 1 } },
+        ]);
+        expect(tags).toEqual([
+            { _id: 'gift', n: 2 },
+            { _id: 'rush', n: 1 },
+        ]);
+
+        const kept = await orders.aggregate([
+            { $unwind: { path: '$tags', preserveNullAndEmptyArrays: true } },
+            { $count: 'rows' },
+        ]);
+        expect(kept).toEqual([{ rows: 4 }]);
+
+        await customers.delete('c2');
+        const joined = await orders.aggregate([
+            {
+                $lookup: {
+                    from: 'customers',
+                    localField: 'customerId',
+                    foreignField: '_id',
+                    as: 'customer',
+                },
+            },
+            { $project: { customer: 1 } },
+        ]);
+        expect(joined).toEqual([
+            { _id: 'o1', customer: [{ _id: 'c1', name: 'Ada' }] },
+            { _id: 'o2', customer: [] },
+            { _id: 'o3', customer: [{ _id: 'c1', name: 'Ada' }] },
+        ]);
+    });
+
+    test('rejects malformed pipelines', async () => {
+        await expect(
+            orders.aggregate([{ $bucket: {} } as any])
+        ).rejects.toThrow(ValidationError);
+        await expect(orders.aggregate([{ $limit: 0 }])).rejects.toThrow(
+            '$limit (stage 0) must be a positive integer'
+        );
+        await expect(
+            orders.aggregate([
+                { $group: { _id: '$status', n: { $median: '$total' } } } as any,
+            ])
+        ).rejects.toThrow("field 'n' must use one of");
+        await expect(
+            orders.aggregate([{ $project: { total: 1, tags: 0 } }])
+        ).rejects.toThrow('cannot mix');
+        await expect(
+            orders.aggregate([{ $project: { x: { $pow: [2, 3] } } } as any])
+        ).rejects.toThrow("Unknown aggregation operator '$pow'");
+        await expect(
+            orders.aggregate([{ $sort: { "total') --": 1 } }])
+        ).rejects.toThrow('Invalid field path');
+        await expect(
+            orders.aggregate([
+                {
+                    $lookup: {
+                        from: 'nope',
+                        localField: 'customerId',
+                        foreignField: '_id',
+                        as: 'c',
+                    },
+                },
+            ])
+        ).rejects.toThrow("$lookup collection 'nope' is not registered");
+    });
+});
@@ -0,0 +1,269 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { createDB } from '../src/index';
+import { ChangeFeed, type ChangeEvent } from '../src/change-feed';
+import { ValidationError } from '../src/errors';
+
+const taskSchema = z.object({
+    _id: z.string(),
+    title: z.string(),
+    status: z.enum(['open', 'done']),
+    priority: z.number(),
+});
+
+type Task = z.infer<typeof taskSchema>;
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+describe('Change feeds', () => {
+    let db: ReturnType<typeof createDB>;
+    let tasks: ReturnType<typeof db.collection<typeof taskSchema>>;
+
+    beforeEach(() => {
+        db = createDB({ memory: true });
+        tasks = db.collection('tasks', taskSchema);
+    });
+
+    afterEach(async () => {
+        await db.close();
+    });
+
+    test('emits the initial result set', async () => {
+        await tasks.insert({ title: 'a', status: 'open', priority: 1 });
+        await tasks.insert({ title: 'b', status: 'done', priority: 2 });
+
+        const events: ChangeEvent<Task>[] = [];
+        const sub = tasks.watch(tasks.where('status').eq('open'), (e) => {
+            events.push(e);
+        });
+        await sub.ready;
+
+        expect(events).toHaveLength(1);
+        expect(events[0].type).toBe('initial');
+        expect(events[0].results.map((t) => t.title)).toEqual(['a']);
+        sub.unsubscribe();
+    });
+
+    test('emits added, changed and removed documents for matching writes', async () => {
+        const events: ChangeEvent<Task>[] = [];
+        const sub = tasks
+            .where('status')
+            .eq('open')
+            .subscribe((e) => {
+                events.push(e);
+            });
+        await sub.ready;
+
+        const task = await tasks.insert({
+            title: 'write docs',
+            status: 'open',
+            priority: 1,
+        });
+        await flush();
+        expect(events[1].added.map((t) => t._id)).toEqual([task._id]);
+
+        await tasks.put(task._id, { priority: 5 });
+        await flush();
+        expect(events[2].changed[0].priority).toBe(5);
+
+        await tasks.put(task._id, { status: 'done' });
+        await flush();
+        expect(events[3].removed.map((t) => t._id)).toEqual([task._id]);
+        expect(events[3].results).toHaveLength(0);
+
+        sub.unsubscribe();
+    });
+
+    test('ignores writes that do not touch the watched results', async () => {
+        const events: ChangeEvent<Task>[] = [];
+        const sub = tasks.watch(tasks.where('status').eq('open'), (e) => {
+            events.push(e);
+        });
+        await sub.ready;
+
+        await tasks.insert({ title: 'closed', status: 'done', priority: 1 });
+        await flush();
+        expect(events).toHaveLength(1);
+        sub.unsubscribe();
+    });
+
+    test('covers bulk, upsert and delete paths', async () => {
+        const events: ChangeEvent<Task>[] = [];
+        const sub = tasks.watch((e) => {
+            events.push(e);
+        });
+        await sub.ready;
+
+        const docs = await tasks.insertBulk([
+            { title: 'a', status: 'open', priority: 1 },
+            { title: 'b', status: 'open', priority: 2 },
+        ]);
+        await flush();
+        expect(events.at(-1)!.added).toHaveLength(2);
+
+        await tasks.upsert('fixed-id', {
+            title: 'c',
+            status: 'open',
+            priority: 3,
+        });
+        await flush();
+        expect(events.at(-1)!.added.map((t) => t._id)).toEqual(['fixed-id']);
+
+        await tasks.upsertBulk([
+            {
+                _id: 'fixed-id',
+                doc: { title: 'c2', status: 'open', priority: 3 },
+            },
+        ]);
+        await flush();
+        expect(events.at(-1)!.changed[0].title).toBe('c2');
+
+        await tasks.putBulk([{ _id: docs[0]._id, doc: { priority: 9 } }]);
+        await flush();
+        expect(events.at(-1)!.changed[0].priority).toBe(9);
+
+        await tasks.deleteBulk([docs[0]._id, docs[1]._id]);
+        await flush();
+        expect(events.at(-1)!.results.map((t) => t._id)).toEqual(['fixed-id']);
+
+        sub.unsubscribe();
+    });
+
+    test('picks up writes from sync methods', async () => {
+        const events: ChangeEvent<Task>[] = [];
+        const sub = tasks.watch((e) => {
+            events.push(e);
+        });
+        await sub.ready;
+
+        const task = tasks.insertSync({
+            title: 'sync',
+            status: 'open',
+            priority: 1,
+        });
+        await flush();
+        expect(events.at(-1)!.added[0]._id).toBe(task._id);
+
+        tasks.deleteSync(task._id);
+        await flush();
+        expect(events.at(-1)!.removed[0]._id).toBe(task._id);
+
+        sub.unsubscribe();
+    });
+
+    test('batches events inside a transaction until commit', async () => {
+        const events: ChangeEvent<Task>[] = [];
+        const sub = tasks.watch((e) => {
+            events.push(e);
+        });
+        await sub.ready;
+
+        await db.transaction(async () => {
+            await tasks.insert({ title: 'a', status: 'open', priority: 1 });
+            await tasks.insert({ title: 'b', status: 'open', priority: 2 });
+            await flush();
+            expect(events).toHaveLength(1);
+        });
+
+        await flush();
+        expect(events).toHaveLength(2);
+        expect(events[1].added).toHaveLength(2);
+        sub.unsubscribe();
+    });
+
+    test('drops batched events when the transaction rolls back', async () => {
+        const events: ChangeEvent<Task>[] = [];
+        const sub = tasks.watch((e) => {
+            events.push(e);
+        });
+        await sub.ready;
+
+        await expect(
+            db.transaction(async () => {
+                await tasks.insert({ title: 'a', status: 'open', priority: 1 });
+                throw new Error('abort');
+            })
+        ).rejects.toThrow('abort');
+
+        await tasks.insert({ title: 'b', status: 'open', priority: 2 });
+        await flush();
+        expect(events).toHaveLength(2);
+        expect(events[1].added.map((t) => t.title)).toEqual(['b']);
+        sub.unsubscribe();
+    });
+
+    test('does not hold writes on subscriber callbacks', async () => {
+        let release!: () => void;
+        const blocked = new Promise<void>((resolve) => (release = resolve));
+        const events: ChangeEvent<Task>[] = [];
+        const sub = tasks.watch(async (e) => {
+            events.push(e);
+            // Writing from a callback must not wait for this callback
+            if (e.added.some((t) => t.title === 'a')) {
+                await tasks.insert({ title: 'b', status: 'open', priority: 2 });
+                await blocked;
+            }
+        });
+        await sub.ready;
+
+        await tasks.insert({ title: 'a', status: 'open', priority: 1 });
+        await flush();
+        // The callback is still blocked, yet writers are not
+        await tasks.insert({ title: 'c', status: 'open', priority: 3 });
+        expect(await tasks.count()).toBe(3);
+
+        release();
+        await flush();
+        expect(events.at(-1)!.results).toHaveLength(3);
+        sub.unsubscribe();
+    });
+
+    test('only holds back writes made inside the transaction', async () => {
+        const feed = new ChangeFeed();
+        const refreshes: string[] = [];
+        const sub = feed.subscribe(
+            'tasks',
+            async () => [{ _id: String(refreshes.length) }],
+            (e) => {
+                refreshes.push(e.type);
+            }
+        );
+        await sub.ready;
+
+        let commit!: () => void;
+        const committed = new Promise<void>((resolve) => (commit = resolve));
+        const batch = feed.batch(async () => {
+            feed.notify('tasks');
+            await committed;
+        });
+
+        feed.notify('tasks');
+        await flush();
+        expect(refreshes).toEqual(['initial', 'change']);
+
+        commit();
+        await batch;
+        await flush();
+        expect(refreshes).toEqual(['initial', 'change', 'change']);
+        sub.unsubscribe();
+    });
+
+    test('stops emitting after unsubscribe', async () => {
+        const events: ChangeEvent<Task>[] = [];
+        const sub = tasks.watch((e) => {
+            events.push(e);
+        });
+        await sub.ready;
+        sub.unsubscribe();
+
+        await tasks.insert({ title: 'a', status: 'open', priority: 1 });
+        await flush();
+        expect(events).toHaveLength(1);
+    });
+
+    test('rejects aggregate queries', () => {
+        expect(() => tasks.watch(tasks.query().count(), () => {})).toThrow(
+            ValidationError
+        );
+    });
+});
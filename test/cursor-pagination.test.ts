@@ -0,0 +1,224 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { createDB } from '../src/index';
+import { ValidationError } from '../src/errors';
+import { SQLTranslator } from '../src/sql-translator';
+import { decodeCursor, encodeCursor } from '../src/cursor';
+
+const postSchema = z.object({
+    _id: z.string(),
+    title: z.string(),
+    score: z.number(),
+    publishedAt: z.date(),
+});
+
+type Post = z.infer<typeof postSchema>;
+
+describe('Cursor pagination', () => {
+    let db: ReturnType<typeof createDB>;
+    let posts: ReturnType<typeof db.collection<typeof postSchema>>;
+
+    beforeEach(async () => {
+        db = createDB({ memory: true });
+        posts = db.collection('posts', postSchema, {
+            constrainedFields: { score: { type: 'INTEGER' } },
+        });
+
+        // Duplicate scores force the _id tiebreaker to matter
+        await posts.insertBulk(
+            Array.from({ length: 7 }, (_, i) => ({
+                _id: `p${i}`,
+                title: `post ${i}`,
+                score: i % 3,
+                publishedAt: new Date(Date.UTC(2024, 0, 1 + i)),
+            }))
+        );
+    });
+
+    afterEach(async () => {
+        await db.close();
+    });
+
+    const collectAll = async (
+        query: ReturnType<typeof posts.query>,
+        first: number
+    ) => {
+        const seen: string[] = [];
+        let after: string | undefined;
+        for (;;) {
+            const page = await query.paginate({ first, after });
+            seen.push(...page.items.map((p: Post) => p._id));
+            if (!page.pageInfo.hasNextPage) break;
+            after = page.pageInfo.endCursor!;
+        }
+        return seen;
+    };
+
+    test('walks every row once in orderBy order', async () => {
+        const query = posts.query().orderBy('score', 'desc');
+        const expected = (await query.toArray()).map((p) => p._id);
+
+        expect(await collectAll(query, 2)).toEqual(expected);
+        expect(expected).toEqual(['p2', 'p5', 'p1', 'p4', 'p0', 'p3', 'p6']);
+    });
+
+    test('supports mixed sort directions', async () => {
+        const query = posts
+            .query()
+            .orderBy('score', 'asc')
+            .orderBy('publishedAt', 'desc');
+        const expected = (await query.toArray()).map((p) => p._id);
+
+        expect(await collectAll(query, 3)).toEqual(expected);
+    });
+
+    test('reports pageInfo for the last page', async () => {
+        const page = await posts
+            .query()
+            .orderBy('score')
+            .paginate({ first: 10 });
+        expect(page.items).toHaveLength(7);
+        expect(page.pageInfo.hasNextPage).toBe(false);
+        expect(page.pageInfo.endCursor).toEqual(expect.any(String));
+
+        const empty = await posts
+            .where('score')
+            .gt(10)
+            .paginate({ first: 2 });
+        expect(empty.items).toEqual([]);
+        expect(empty.pageInfo).toEqual({ endCursor: null, hasNextPage: false });
+    });
+
+    test('does not skip rows when earlier rows are inserted between pages', async () => {
+        const query = posts.query().orderBy('publishedAt');
+        const first = await query.paginate({ first: 3 });
+        expect(first.items.map((p) => p._id)).toEqual(['p0', 'p1', 'p2']);
+
+        await posts.insert({
+            _id: 'early',
+            title: 'early',
+            score: 0,
+            publishedAt: new Date(Date.UTC(2023, 0, 1)),
+        } as any);
+
+        const second = await query.paginate({
+            first: 3,
+            after: first.pageInfo.endCursor!,
+        });
+        expect(second.items.map((p) => p._id)).toEqual(['p3', 'p4', 'p5']);
+    });
+
+    test('before() returns the rows preceding a cursor in query order', async () => {
+        const query = posts.query().orderBy('score', 'desc');
+        const all = await query.toArray();
+        const cursor = encodeCursor(all[4], query.getOptions().orderBy);
+
+        const previous = await query.before(cursor).limit(2).toArray();
+        expect(previous.map((p) => p._id)).toEqual([all[2]._id, all[3]._id]);
+    });
+
+    test('rejects malformed cursors and cursors from another ordering', async () => {
+        expect(() => posts.query().after('not a cursor')).toThrow(
+            ValidationError
+        );
+
+        const page = await posts
+            .query()
+            .orderBy('score')
+            .paginate({ first: 1 });
+        await expect(
+            posts
+                .query()
+                .orderBy('title')
+                .paginate({ first: 1, after: page.pageInfo.endCursor! })
+        ).rejects.toThrow('Cursor does not match the query orderBy');
+    });
+
+    test('pages through documents with missing sort values', async () => {
+        const tasks = db.collection(
+            'tasks',
+            z.object({ _id: z.string(), due: z.number().optional() })
+        );
+        await tasks.insertBulk([
+            { _id: 't1', due: 2 },
+            { _id: 't2' },
+            { _id: 't3', due: 1 },
+            { _id: 't4' },
+            { _id: 't5', due: 2 },
+            { _id: 't6' },
+        ]);
+
+        for (const direction of ['asc', 'desc'] as const) {
+            const query = tasks.query().orderBy('due', direction);
+            const expected = (await query.toArray()).map((t) => t._id);
+            expect(expected).toHaveLength(6);
+            expect(await collectAll(query as any, 2)).toEqual(expected);
+        }
+    });
+});
+
+describe('Cursor SQL', () => {
+    test('uses a row-value comparison for ascending non-null keys', () => {
+        const cursor = decodeCursor(
+            encodeCursor({ _id: 'a', score: 5 }, [
+                { field: 'score', direction: 'asc' },
+            ])
+        );
+        const { sql, params } = SQLTranslator.buildSelectQuery('posts', {
+            filters: [],
+            orderBy: [{ field: 'score', direction: 'asc' }],
+            cursor: {
+                direction: 'after',
+                fields: ['score', '_id'],
+                values: cursor.values,
+            },
+        });
+        expect(sql).toContain(
+            "WHERE (json_extract(posts.doc, '$.score'), posts._id) > (?, ?)"
+        );
+        expect(params).toEqual([5, 'a']);
+    });
+
+    test('places NULL keys where SQLite sorts them', () => {
+        const build = (direction: 'asc' | 'desc', score: number | null) =>
+            SQLTranslator.buildSelectQuery('posts', {
+                filters: [],
+                orderBy: [{ field: 'score', direction }],
+                cursor: {
+                    direction: 'after',
+                    fields: ['score', '_id'],
+                    values: [score, 'a'],
+                },
+            });
+        const score = "json_extract(posts.doc, '$.score')";
+
+        expect(build('asc', null).sql).toContain(
+            `WHERE ((${score} IS NOT NULL) OR (${score} IS NULL AND posts._id > ?))`
+        );
+        expect(build('desc', 5).sql).toContain(
+            `WHERE (((${score} < ? OR ${score} IS NULL)) OR (${score} = ? AND posts._id > ?))`
+        );
+        expect(build('desc', null).sql).toContain(
+            `WHERE ((${score} IS NULL AND posts._id > ?))`
+        );
+    });
+
+    test('expands mixed directions into an OR chain and flips order for before()', () => {
+        const { sql, params } = SQLTranslator.buildSelectQuery('posts', {
+            filters: [],
+            orderBy: [{ field: 'score', direction: 'desc' }],
+            cursor: {
+                direction: 'before',
+                fields: ['score', '_id'],
+                values: [5, 'a'],
+            },
+        });
+        expect(sql).toContain(
+            "WHERE ((json_extract(posts.doc, '$.score') > ?) OR (json_extract(posts.doc, '$.score') = ? AND posts._id < ?))"
+        );
+        expect(sql).toContain(
+            "ORDER BY json_extract(posts.doc, '$.score') ASC, posts._id DESC"
+        );
+        expect(params).toEqual([5, 5, 'a']);
+    });
+});
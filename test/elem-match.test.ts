@@ -0,0 +1,198 @@
+import {
+    describe,
+    test,
+    expect,
+    beforeEach,
+    afterEach,
+    expectTypeOf,
+} from 'vitest';
+import { z } from 'zod';
+import { createDB, QueryBuilder } from '../src/index';
+import { ValidationError } from '../src/errors';
+
+const lineSchema = z.object({
+    sku: z.string(),
+    qty: z.number(),
+    shipped: z.boolean(),
+    size: z.object({ w: z.number(), h: z.number() }).optional(),
+    parts: z.array(z.object({ code: z.string() })).default([]),
+});
+
+const orderSchema = z.object({
+    _id: z.string(),
+    customer: z.string(),
+    items: z.array(lineSchema),
+});
+
+type Line = z.infer<typeof lineSchema>;
+type Element<Q> = Q extends QueryBuilder<infer E> ? E : never;
+
+describe('elemMatch()', () => {
+    let db: ReturnType<typeof createDB>;
+    let orders: ReturnType<typeof db.collection<typeof orderSchema>>;
+
+    beforeEach(async () => {
+        db = createDB({ memory: true });
+        orders = db.collection('orders', orderSchema, {
+            constrainedFields: { customer: {} },
+        });
+        await orders.insertBulk([
+            {
+                _id: 'o1',
+                customer: 'ada',
+                items: [
+                    {
+                        sku: 'X',
+                        qty: 1,
+                        shipped: true,
+                        size: { w: 2, h: 3 },
+                        parts: [{ code: 'p-1' }],
+                    },
+                    { sku: 'Y', qty: 5, shipped: false, parts: [] },
+                ],
+            },
+            {
+                _id: 'o2',
+                customer: 'bob',
+                items: [
+                    {
+                        sku: 'X',
+                        qty: 3,
+                        shipped: true,
+                        size: { w: 8, h: 1 },
+                        parts: [{ code: 'p-2' }, { code: 'p-3' }],
+                    },
+                ],
+            },
+            { _id: 'o3', customer: 'cy', items: [] },
+        ]);
+    });
+
+    afterEach(async () => {
+        await db.close();
+    });
+
+    const ids = (docs: { _id: string }[]) => docs.map((d) => d._id).sort();
+
+    test('matches when one element passes every filter', async () => {
+        // o1 has an X and an item with qty > 2, but not in the same element
+        const rows = await orders
+            .where('items')
+            .elemMatch((q) => q.where('sku').eq('X').where('qty').gt(2))
+            .toArray();
+        expect(ids(rows)).toEqual(['o2']);
+
+        expect(
+            ids(
+                orders
+                    .query()
+                    .where('customer')
+                    .neq('bob')
+                    .where('items')
+                    .elemMatch((q) =>
+                        q
+                            .where('sku')
+                            .eq('Z')
+                            .or((o) => o.where('size.w').lt(5))
+                    )
+                    .toArraySync()
+            )
+        ).toEqual(['o1']);
+    });
+
+    test('all and none quantifiers', async () => {
+        const shipped = await orders
+            .query()
+            .where('items')
+            .elemMatch((q) => q.where('shipped').eq(true), 'all')
+            .toArray();
+        // An empty array has no element that fails
+        expect(ids(shipped)).toEqual(['o2', 'o3']);
+
+        const noBigLines = await orders
+            .query()
+            .where('items')
+            .elemMatch((q) => q.where('qty').gte(5), 'none')
+            .toArray();
+        expect(ids(noBigLines)).toEqual(['o2', 'o3']);
+
+        const sized = await orders
+            .query()
+            .where('items')
+            .elemMatch((q) => q.where('size').exists(), 'all')
+            .where('items')
+            .arrayLength('gt', 0)
+            .toArray();
+        expect(ids(sized)).toEqual(['o2']);
+    });
+
+    test('nests and serializes', async () => {
+        const query = orders
+            .query()
+            .where('items')
+            .elemMatch((q) =>
+                q
+                    .where('parts')
+                    .elemMatch((p) => p.where('code').startsWith('p-'), 'all')
+                    .where('parts')
+                    .arrayLength('gte', 2)
+            );
+        expect(ids(await query.toArray())).toEqual(['o2']);
+
+        const none = orders
+            .query()
+            .where('items')
+            .elemMatch((q) => q.where('sku').eq('Y'), 'none');
+        const restored = orders.fromJSON(JSON.stringify(none), {
+            allowedFields: ['items'],
+        });
+        expect(restored.getOptions()).toEqual(none.getOptions());
+        expect(ids(await restored.toArray())).toEqual(['o2', 'o3']);
+        expect(() =>
+            QueryBuilder.fromJSON(none.toJSON(), {
+                allowedFields: ['customer'],
+            })
+        ).toThrow("Field 'items' is not allowed");
+    });
+
+    test('types the element query from the array path', () => {
+        orders
+            .query()
+            .where('items')
+            .elemMatch((q) => {
+                expectTypeOf<
+                    Element<typeof q>['sku']
+                >().toEqualTypeOf<string>();
+                expectTypeOf<Element<typeof q>['size']>().toEqualTypeOf<
+                    Line['size']
+                >();
+                return q.where('size.h').gt(1);
+            });
+        orders
+            .query()
+            .where('items')
+            .elemMatch((q) =>
+                q.where('parts').elemMatch((p) => {
+                    expectTypeOf<Element<typeof p>>().toEqualTypeOf<{
+                        code: string;
+                    }>();
+                    return p;
+                })
+            );
+    });
+
+    test('rejects anything but filters', () => {
+        expect(() =>
+            orders
+                .query()
+                .where('items')
+                .elemMatch((q) => q.where('qty').gt(1).limit(1))
+        ).toThrow('elemMatch() takes filters only');
+        expect(() =>
+            orders
+                .query()
+                .where('items')
+                .elemMatch((q) => q, 'some' as any)
+        ).toThrow(ValidationError);
+    });
+});
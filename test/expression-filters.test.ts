@@ -0,0 +1,206 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { createDB, expr, field } from '../src/index';
+import { ValidationError } from '../src/errors';
+
+const itemSchema = z.object({
+    _id: z.string(),
+    name: z.string(),
+    price: z.number(),
+    qty: z.number(),
+    min: z.number(),
+    max: z.number(),
+    discount: z.number().optional(),
+    createdAt: z.date(),
+    updatedAt: z.date(),
+    warehouseId: z.string(),
+});
+
+const warehouseSchema = z.object({
+    _id: z.string(),
+    capacity: z.number(),
+});
+
+describe('expression filters', () => {
+    let db: ReturnType<typeof createDB>;
+    let items: ReturnType<typeof db.collection<typeof itemSchema>>;
+    let warehouses: ReturnType<typeof db.collection<typeof warehouseSchema>>;
+
+    beforeEach(async () => {
+        db = createDB({ memory: true });
+        warehouses = db.collection('warehouses', warehouseSchema);
+        // price and createdAt get columns; qty and updatedAt stay in the JSON
+        items = db.collection('items', itemSchema, {
+            constrainedFields: { price: {}, createdAt: {} },
+        });
+        await warehouses.insertBulk([
+            { _id: 'w1', capacity: 5 },
+            { _id: 'w2', capacity: 50 },
+        ]);
+        await items.insertBulk([
+            {
+                _id: 'a',
+                name: 'anvil',
+                price: 40,
+                qty: 3,
+                min: 10,
+                max: 50,
+                createdAt: new Date('2024-01-01T00:00:00Z'),
+                updatedAt: new Date('2024-03-01T00:00:00Z'),
+                warehouseId: 'w1',
+            },
+            {
+                _id: 'b',
+                name: 'bolt',
+                price: 2,
+                qty: 40,
+                min: 5,
+                max: 10,
+                discount: 1,
+                createdAt: new Date('2024-02-01T00:00:00Z'),
+                updatedAt: new Date('2024-02-01T00:00:00Z'),
+                warehouseId: 'w2',
+            },
+            {
+                _id: 'c',
+                name: 'crate',
+                price: 15,
+                qty: 8,
+                min: 10,
+                max: 20,
+                createdAt: new Date('2024-03-01T00:00:00Z'),
+                updatedAt: new Date('2024-04-15T00:00:00Z'),
+                warehouseId: 'w1',
+            },
+        ]);
+    });
+
+    afterEach(async () => {
+        await db.close();
+    });
+
+    const ids = (docs: { _id: string }[]) => docs.map((d) => d._id).sort();
+
+    test('compares fields stored as columns and in the document', async () => {
+        expect(
+            ids(await items.where('updatedAt').gt(field('createdAt')).toArray())
+        ).toEqual(['a', 'c']);
+        expect(
+            ids(await items.where('createdAt').eq(field('updatedAt')).toArray())
+        ).toEqual(['b']);
+        expect(
+            ids(
+                await items
+                    .query()
+                    .where('price')
+                    .between(field('min'), field('max'))
+                    .toArray()
+            )
+        ).toEqual(['a', 'c']);
+        expect(items.query().where('qty').lte(field('price')).countSync()).toBe(
+            2
+        );
+    });
+
+    test('filters on computed values', async () => {
+        expect(
+            ids(await items.where(expr.mul('price', 'qty')).gt(100).toArray())
+        ).toEqual(['a', 'c']);
+        expect(
+            ids(
+                await items
+                    .query()
+                    .where(
+                        expr.sub(
+                            'price',
+                            expr.coalesce(expr.field('discount'), 0)
+                        )
+                    )
+                    .lt(field('min'))
+                    .toArray()
+            )
+        ).toEqual(['b']);
+        expect(
+            ids(
+                await items
+                    .query()
+                    .where(expr.mod('qty', 2))
+                    .in([0])
+                    .where(expr.field('discount'))
+                    .notExists()
+                    .toArray()
+            )
+        ).toEqual(['c']);
+        expect(
+            ids(
+                await items
+                    .query()
+                    .where(expr.julianday(expr.field('updatedAt')))
+                    .gte(expr.julianday(expr.field('createdAt'), '+30 days'))
+                    .toArray()
+            )
+        ).toEqual(['a', 'c']);
+        expect(
+            ids(
+                await items
+                    .query()
+                    .where(expr.field('createdAt'))
+                    .lt(new Date('2024-02-15T00:00:00Z'))
+                    .toArray()
+            )
+        ).toEqual(['a', 'b']);
+    });
+
+    test('combines with groups, optimisation and joins', async () => {
+        const either = await items
+            .query()
+            .where(expr.mul('price', 'qty'))
+            .gt(100)
+            .where('name')
+            .eq('anvil')
+            .or((q) => q.where('qty').gt(field('max')))
+            .toArray();
+        expect(ids(either)).toEqual(['a', 'b']);
+
+        const optimised = items
+            .query()
+            .where('qty')
+            .gt(field('min'))
+            .where('qty')
+            .gt(1)
+            .where('qty')
+            .gt(2)
+            .optimizeFilters();
+        expect(optimised.getOptions().filters).toHaveLength(2);
+        expect(ids(await optimised.toArray())).toEqual(['b']);
+
+        const rows = await items
+            .query()
+            .join('warehouses', 'warehouseId', '_id')
+            .where('qty')
+            .gt(field('capacity'))
+            .select('items.name')
+            .toArray();
+        expect(rows.map((r) => r.name).sort()).toEqual(['crate']);
+    });
+
+    test('rejects unsupported operators', () => {
+        expect(() =>
+            items
+                .query()
+                .where('name')
+                .like(field('max') as any)
+        ).toThrow(ValidationError);
+        expect(() =>
+            (items.query().where(expr.field('name')) as any).like('a%')
+        ).toThrow("Operator 'like' is not supported on expressions");
+        expect(() =>
+            items
+                .query()
+                .groupBy('warehouseId')
+                .having('qty')
+                .gt(field('price'))
+        ).toThrow(ValidationError);
+        expect(() => expr.mul('price) --', 2)).toThrow('Invalid field path');
+    });
+});
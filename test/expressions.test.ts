@@ -0,0 +1,374 @@
+import {
+    describe,
+    test,
+    expect,
+    beforeEach,
+    afterEach,
+    expectTypeOf,
+} from 'vitest';
+import { z } from 'zod';
+import { createDB, expr } from '../src/index';
+import { ValidationError } from '../src/errors';
+
+const playerSchema = z.object({
+    _id: z.string(),
+    name: z.string(),
+    team: z.string(),
+    score: z.number(),
+    bonus: z.number().optional(),
+    active: z.boolean(),
+    joinedAt: z.date(),
+    stats: z.object({ wins: z.number() }),
+});
+
+const teamSchema = z.object({
+    _id: z.string(),
+    city: z.string(),
+});
+
+describe('select() expressions', () => {
+    let db: ReturnType<typeof createDB>;
+    let players: ReturnType<typeof db.collection<typeof playerSchema>>;
+    let teams: ReturnType<typeof db.collection<typeof teamSchema>>;
+
+    beforeEach(async () => {
+        db = createDB({ memory: true });
+        teams = db.collection('teams', teamSchema);
+        players = db.collection('players', playerSchema, {
+            constrainedFields: { team: {}, joinedAt: {} },
+        });
+        await teams.insertBulk([
+            { _id: 'red', city: 'Oslo' },
+            { _id: 'blue', city: 'Rome' },
+        ]);
+        await players.insertBulk([
+            {
+                _id: 'p1',
+                name: 'ada',
+                team: 'red',
+                score: 30,
+                bonus: 5,
+                active: true,
+                joinedAt: new Date('2024-01-15T10:00:00Z'),
+                stats: { wins: 3 },
+            },
+            {
+                _id: 'p2',
+                name: 'bob',
+                team: 'red',
+                score: 10,
+                active: false,
+                joinedAt: new Date('2024-02-20T10:00:00Z'),
+                stats: { wins: 2 },
+            },
+            {
+                _id: 'p3',
+                name: 'cy',
+                team: 'blue',
+                score: 20,
+                bonus: 2,
+                active: true,
+                joinedAt: new Date('2024-03-05T10:00:00Z'),
+                stats: { wins: 2 },
+            },
+            {
+                _id: 'p4',
+                name: 'dee',
+                team: 'red',
+                score: 20,
+                active: true,
+                joinedAt: new Date('2024-04-01T10:00:00Z'),
+                stats: { wins: 4 },
+            },
+        ]);
+    });
+
+    afterEach(async () => {
+        await db.close();
+    });
+
+    test('ranking window functions over partitions', async () => {
+        const rows = await players
+            .query()
+            .select((q) => [
+                '_id',
+                q
+                    .rowNumber()
+                    .over({
+                        partitionBy: 'team',
+                        orderBy: { field: 'score', direction: 'desc' },
+                    })
+                    .as('place'),
+                q
+                    .rank()
+                    .over({ orderBy: { field: 'score', direction: 'desc' } })
+                    .as('rank'),
+                q
+                    .denseRank()
+                    .over({ orderBy: { field: 'score', direction: 'desc' } })
+                    .as('dense'),
+            ])
+            .orderBy('_id')
+            .toArray();
+
+        expect(rows).toEqual([
+            { _id: 'p1', place: 1, rank: 1, dense: 1 },
+            { _id: 'p2', place: 3, rank: 4, dense: 3 },
+            { _id: 'p3', place: 1, rank: 2, dense: 2 },
+            { _id: 'p4', place: 2, rank: 2, dense: 2 },
+        ]);
+        expectTypeOf(rows[0]).toEqualTypeOf<{
+            _id: string;
+            place: number;
+            rank: number;
+            dense: number;
+        }>();
+    });
+
+    test('running aggregates, frames and offset functions', async () => {
+        const rows = await players
+            .query()
+            .select((q) => [
+                '_id',
+                q.sum('score').over({ orderBy: 'joinedAt' }).as('running'),
+                q
+                    .avg('score')
+                    .over({
+                        orderBy: 'joinedAt',
+                        frame: { preceding: 1, following: 0 },
+                    })
+                    .as('moving'),
+                q.lag('active').over({ orderBy: 'joinedAt' }).as('prevActive'),
+                q.lead('joinedAt').over({ orderBy: 'joinedAt' }).as('next'),
+                q
+                    .firstValue('name')
+                    .over({ partitionBy: 'team', orderBy: 'joinedAt' })
+                    .as('founder'),
+            ])
+            .orderBy('joinedAt')
+            .toArray();
+
+        expect(rows).toEqual([
+            {
+                _id: 'p1',
+                running: 30,
+                moving: 30,
+                prevActive: null,
+                next: new Date('2024-02-20T10:00:00Z'),
+                founder: 'ada',
+            },
+            {
+                _id: 'p2',
+                running: 40,
+                moving: 20,
+                prevActive: true,
+                next: new Date('2024-03-05T10:00:00Z'),
+                founder: 'ada',
+            },
+            {
+                _id: 'p3',
+                running: 60,
+                moving: 15,
+                prevActive: false,
+                next: new Date('2024-04-01T10:00:00Z'),
+                founder: 'cy',
+            },
+            {
+                _id: 'p4',
+                running: 80,
+                moving: 20,
+                prevActive: true,
+                next: null,
+                founder: 'ada',
+            },
+        ]);
+        expectTypeOf(rows[0].prevActive).toEqualTypeOf<boolean | null>();
+        expectTypeOf(rows[0].founder).toEqualTypeOf<string>();
+    });
+
+    test('arithmetic, null handling, CASE and string functions', async () => {
+        const rows = await players
+            .query()
+            .where('team')
+            .eq('red')
+            .select((q) => [
+                'name',
+                'stats.wins',
+                q
+                    .field('score')
+                    .add(q.coalesce(q.field('bonus'), 0))
+                    .as('total'),
+                q.field('score').div(8).as('ratio'),
+                q.field('stats.wins').mul(2).gt(q.value(5)).as('veteran'),
+                q
+                    .case()
+                    .when(q.field('score').gte(30), 'gold')
+                    .when(q.field('score').gte(20), 'silver')
+                    .else('bronze')
+                    .as('tier'),
+                q
+                    .concat(q.upper(q.field('name')), '@', q.field('team'))
+                    .as('tag'),
+                q.substr(q.field('name'), 1, 2).as('initials'),
+                q.field('active').not().as('benched'),
+            ])
+            .orderBy('score', 'desc')
+            .toArray();
+
+        expect(rows).toEqual([
+            {
+                name: 'ada',
+                stats: { wins: 3 },
+                total: 35,
+                ratio: 3.75,
+                veteran: true,
+                tier: 'gold',
+                tag: 'ADA@red',
+                initials: 'ad',
+                benched: false,
+            },
+            {
+                name: 'dee',
+                stats: { wins: 4 },
+                total: 20,
+                ratio: 2.5,
+                veteran: true,
+                tier: 'silver',
+                tag: 'DEE@red',
+                initials: 'de',
+                benched: false,
+            },
+            {
+                name: 'bob',
+                stats: { wins: 2 },
+                total: 10,
+                ratio: 1.25,
+                veteran: false,
+                tier: 'bronze',
+                tag: 'BOB@red',
+                initials: 'bo',
+                benched: true,
+            },
+        ]);
+        expectTypeOf(rows[0].stats.wins).toEqualTypeOf<number>();
+        expectTypeOf(rows[0].total).toEqualTypeOf<number>();
+        expectTypeOf(rows[0].tier).toEqualTypeOf<string>();
+        expectTypeOf(rows[0].veteran).toEqualTypeOf<boolean>();
+    });
+
+    test('date functions over JSON fields and constrained columns', async () => {
+        await players.put('p2', {
+            joinedAt: new Date('2024-02-29T23:30:00Z'),
+        });
+        const sync = players
+            .query()
+            .where('_id')
+            .in(['p1', 'p2'])
+            .select((q) => [
+                '_id',
+                q.date(q.field('joinedAt')).as('day'),
+                q.strftime('%Y-%m', q.field('joinedAt')).as('month'),
+                q.date(q.field('joinedAt'), '+1 day').as('nextDay'),
+                q
+                    .julianday(expr.value('2024-12-31'))
+                    .sub(q.julianday(q.field('joinedAt'), 'start of day'))
+                    .as('daysLeft'),
+            ])
+            .orderBy('_id')
+            .toArraySync();
+
+        expect(sync).toEqual([
+            {
+                _id: 'p1',
+                day: '2024-01-15',
+                month: '2024-01',
+                nextDay: '2024-01-16',
+                daysLeft: 351,
+            },
+            {
+                _id: 'p2',
+                day: '2024-02-29',
+                month: '2024-02',
+                nextDay: '2024-03-01',
+                daysLeft: 306,
+            },
+        ]);
+
+        // Unconstrained Date values live inside the JSON document
+        const notes = db.collection(
+            'notes',
+            z.object({ _id: z.string(), at: z.date() })
+        );
+        await notes.insert({
+            _id: 'n1',
+            at: new Date('2024-05-06T07:08:09Z'),
+        });
+        const [note] = await notes
+            .query()
+            .select((q) => [q.time(q.field('at')).as('clock')])
+            .toArray();
+        expect(note).toEqual({ clock: '07:08:09' });
+    });
+
+    test('ordering by aliases, grouping and joins', async () => {
+        const ordered = await players
+            .query()
+            .select((q) => ['_id', q.field('score').mul(-1).as('negated')])
+            .orderBy('negated' as any)
+            .limit(2)
+            .toArray();
+        expect(ordered.map((r) => r._id)).toEqual(['p1', 'p3']);
+
+        const grouped = await players
+            .query()
+            .groupBy('team')
+            .select((q) => [
+                'team',
+                q.sum('score').as('points'),
+                q.max(q.field('score').add(1)).as('best'),
+            ])
+            .orderBy('team')
+            .toArray();
+        expect(grouped).toEqual([
+            { team: 'blue', points: 20, best: 21 },
+            { team: 'red', points: 60, best: 31 },
+        ]);
+
+        const joined = await players
+            .query()
+            .join('teams', 'team', '_id')
+            .select((q) => [
+                'players.name as player',
+                q.upper(q.field('city')).as('city'),
+                q
+                    .rowNumber()
+                    .over({ partitionBy: 'city', orderBy: 'players.name' })
+                    .as('n'),
+            ])
+            .orderBy('players.name')
+            .toArray();
+        expect(joined).toEqual([
+            { player: 'ada', city: 'OSLO', n: 1 },
+            { player: 'bob', city: 'OSLO', n: 2 },
+            { player: 'cy', city: 'ROME', n: 1 },
+            { player: 'dee', city: 'OSLO', n: 3 },
+        ]);
+    });
+
+    test('rejects malformed expressions', () => {
+        expect(() =>
+            players.query().select((q) => [q.field('score') as any])
+        ).toThrow(ValidationError);
+        expect(() => expr.field('score').as('bad alias')).toThrow(
+            ValidationError
+        );
+        expect(() => expr.field("score') --")).toThrow('Invalid field path');
+        expect(() => expr.ntile(0)).toThrow(ValidationError);
+        expect(() => expr.case().end()).toThrow(
+            'case() needs at least one when()'
+        );
+        expect(() =>
+            expr.rowNumber().over({ frame: { preceding: -1 } })
+        ).toThrow('Window frame bounds');
+    });
+});
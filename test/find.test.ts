@@ -0,0 +1,267 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { createDB, QueryBuilder, type Filter } from '../src/index';
+import { ValidationError } from '../src/errors';
+
+const userSchema = z.object({
+    _id: z.string(),
+    name: z.string(),
+    age: z.number().optional(),
+    role: z.string(),
+    tags: z.array(z.string()).default([]),
+    address: z.object({ city: z.string() }).optional(),
+    orders: z.array(z.object({ sku: z.string(), qty: z.number() })).default([]),
+    scores: z.array(z.number()).default([]),
+});
+
+describe('Collection.find()', () => {
+    let db: ReturnType<typeof createDB>;
+    let users: ReturnType<typeof db.collection<typeof userSchema>>;
+
+    beforeEach(async () => {
+        db = createDB({ memory: true });
+        users = db.collection('users', userSchema, {
+            constrainedFields: { role: {} },
+        });
+        await users.insertBulk([
+            {
+                _id: 'u1',
+                name: 'Ada Lovelace',
+                age: 36,
+                role: 'admin',
+                tags: ['math', 'poetry'],
+                address: { city: 'London' },
+                orders: [
+                    { sku: 'A', qty: 1 },
+                    { sku: 'B', qty: 5 },
+                ],
+                scores: [90, 75],
+            },
+            {
+                _id: 'u2',
+                name: 'alan turing',
+                age: 41,
+                role: 'member',
+                tags: ['math'],
+                address: { city: 'Wilmslow' },
+                orders: [{ sku: 'A', qty: 3 }],
+                scores: [60],
+            },
+            {
+                _id: 'u3',
+                name: 'Grace Hopper',
+                role: 'member',
+                tags: [],
+                orders: [],
+                scores: [],
+            },
+        ]);
+    });
+
+    afterEach(async () => {
+        await db.close();
+    });
+
+    const ids = (docs: { _id?: string }[]) => docs.map((d) => d._id).sort();
+
+    test('comparison, membership and existence operators', async () => {
+        expect(ids(await users.find({ age: { $gt: 30, $lt: 40 } }))).toEqual([
+            'u1',
+        ]);
+        expect(ids(await users.find({ role: 'member' }))).toEqual(['u2', 'u3']);
+        // Like Mongo, $ne and $nin also match documents without the field
+        expect(ids(await users.find({ age: { $ne: 36 } }))).toEqual([
+            'u2',
+            'u3',
+        ]);
+        expect(ids(await users.find({ age: { $nin: [41] } }))).toEqual([
+            'u1',
+            'u3',
+        ]);
+        expect(ids(await users.find({ age: { $in: [41, null] } }))).toEqual([
+            'u2',
+            'u3',
+        ]);
+        expect(ids(await users.find({ age: null }))).toEqual(['u3']);
+        expect(ids(await users.find({ age: { $exists: true } }))).toEqual([
+            'u1',
+            'u2',
+        ]);
+        expect(ids(await users.find({ 'address.city': 'London' }))).toEqual([
+            'u1',
+        ]);
+    });
+
+    test('logical operators and $not', async () => {
+        expect(
+            ids(
+                await users.find({
+                    $or: [{ role: 'admin' }, { age: { $gte: 40 } }],
+                })
+            )
+        ).toEqual(['u1', 'u2']);
+        expect(
+            ids(await users.find({ $nor: [{ role: 'admin' }, { age: 41 }] }))
+        ).toEqual(['u3']);
+        expect(
+            ids(
+                await users.find({
+                    $and: [{ role: 'member' }, { age: { $exists: false } }],
+                })
+            )
+        ).toEqual(['u3']);
+        // $not matches documents where the condition is not true, including
+        // those without the field
+        expect(ids(await users.find({ age: { $not: { $gt: 40 } } }))).toEqual([
+            'u1',
+            'u3',
+        ]);
+    });
+
+    test('$regex', async () => {
+        const find = (filter: Filter) =>
+            users.find(filter, { allowRegex: true });
+        expect(ids(await find({ name: { $regex: '^a' } }))).toEqual(['u2']);
+        expect(
+            ids(await find({ name: { $regex: '^a', $options: 'i' } }))
+        ).toEqual(['u1', 'u2']);
+        expect(ids(await find({ name: /hopper$/i }))).toEqual(['u3']);
+        expect(ids(await find({ name: { $not: /lace/ } }))).toEqual([
+            'u2',
+            'u3',
+        ]);
+        expect(ids(await find({ role: { $regex: 'min' } }))).toEqual(['u1']);
+    });
+
+    test('regular expressions need allowRegex', async () => {
+        const filters: Filter[] = [
+            { name: { $regex: '(a+)+$' } },
+            { name: /^a/ },
+            { name: { $not: /lace/ } },
+            { tags: { $elemMatch: { $regex: '^a' } } },
+        ];
+        for (const filter of filters) {
+            await expect(users.find(filter)).rejects.toThrow(
+                'need the allowRegex option'
+            );
+        }
+        expect(() =>
+            QueryBuilder.fromFilter(
+                { tags: { $elemMatch: { $regex: '^a' } } },
+                { allowRegex: true }
+            )
+        ).not.toThrow();
+    });
+
+    test('array operators', async () => {
+        expect(
+            ids(
+                await users.find({
+                    orders: { $elemMatch: { sku: 'A', qty: { $gt: 2 } } },
+                })
+            )
+        ).toEqual(['u2']);
+        expect(
+            ids(await users.find({ scores: { $elemMatch: { $gte: 80 } } }))
+        ).toEqual(['u1']);
+        expect(ids(await users.find({ tags: { $size: 1 } }))).toEqual(['u2']);
+        expect(ids(await users.find({ tags: { $all: ['math'] } }))).toEqual([
+            'u1',
+            'u2',
+        ]);
+        expect(
+            ids(await users.find({ tags: { $all: ['math', 'poetry'] } }))
+        ).toEqual(['u1']);
+    });
+
+    test('sort, limit, skip and projection', async () => {
+        const page = await users.find(
+            { role: 'member' },
+            { sort: { name: -1 }, limit: 1, skip: 1 }
+        );
+        expect(page.map((u) => u.name)).toEqual(['Grace Hopper']);
+
+        const named = users.findSync(
+            { age: { $exists: true } },
+            { sort: { age: 1 }, projection: { name: 1, 'address.city': 1 } }
+        );
+        expect(named).toEqual([
+            { _id: 'u1', name: 'Ada Lovelace', address: { city: 'London' } },
+            { _id: 'u2', name: 'alan turing', address: { city: 'Wilmslow' } },
+        ]);
+
+        const [trimmed] = await users.find(
+            { _id: 'u3' },
+            { projection: { _id: 0, tags: 0, orders: 0, scores: 0 } }
+        );
+        expect(trimmed).toEqual({ name: 'Grace Hopper', role: 'member' });
+    });
+
+    test('rejects unknown operators and fields', async () => {
+        await expect(
+            users.find({ age: { $where: 'sleep(1)' } } as any)
+        ).rejects.toThrow("Unknown filter operator '$where' for field 'age'");
+        await expect(users.find({ $expr: {} } as any)).rejects.toThrow(
+            ValidationError
+        );
+        await expect(users.find({ password: 'x' })).rejects.toThrow(
+            "Field 'password' does not exist"
+        );
+        await expect(users.find({ "age') OR 1=1 --": 1 })).rejects.toThrow(
+            'Invalid field path'
+        );
+        await expect(
+            users.find({ name: { $eq: { $gt: '' } } } as any)
+        ).rejects.toThrow(ValidationError);
+        await expect(
+            users.find({ name: { $regex: '(' } }, { allowRegex: true })
+        ).rejects.toThrow('Invalid regular expression');
+
+        const allowed = { allowedFields: ['name', 'address'] };
+        expect(
+            ids(
+                await users.find(
+                    { 'address.city': 'Wilmslow' },
+                    { ...allowed, sort: { name: 1 } }
+                )
+            )
+        ).toEqual(['u2']);
+        await expect(users.find({ role: 'admin' }, allowed)).rejects.toThrow(
+            "Field 'role' is not allowed"
+        );
+        await expect(
+            users.find({}, { ...allowed, sort: { age: 1 } })
+        ).rejects.toThrow("Field 'age' is not allowed");
+    });
+
+    test('QueryBuilder.fromFilter', async () => {
+        const query = QueryBuilder.fromFilter(
+            { age: { $gte: 36 }, $or: [{ role: 'admin' }, { tags: 'x' }] },
+            { allowedFields: ['age', 'role', 'tags'] }
+        );
+        expect(query.getOptions().filters).toEqual([
+            { field: 'age', operator: 'gte', value: 36 },
+            {
+                type: 'or',
+                filters: [
+                    {
+                        type: 'and',
+                        filters: [
+                            { field: 'role', operator: 'eq', value: 'admin' },
+                        ],
+                    },
+                    {
+                        type: 'and',
+                        filters: [
+                            { field: 'tags', operator: 'eq', value: 'x' },
+                        ],
+                    },
+                ],
+            },
+        ]);
+        expect(
+            await users.updateMany(query as any, { $set: { role: 'lead' } })
+        ).toBe(1);
+        expect(ids(await users.find({ role: 'lead' }))).toEqual(['u1']);
+    });
+});
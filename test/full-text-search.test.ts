@@ -0,0 +1,151 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { rmSync } from 'fs';
+import { createDB } from '../src/index';
+import { ValidationError } from '../src/errors';
+
+const articleSchema = z.object({
+    _id: z.string(),
+    title: z.string(),
+    body: z.string(),
+    category: z.string(),
+});
+
+describe('Full-text search', () => {
+    let db: ReturnType<typeof createDB>;
+    let articles: ReturnType<typeof db.collection<typeof articleSchema>>;
+
+    beforeEach(async () => {
+        db = createDB({ memory: true });
+        articles = db.collection('articles', articleSchema, {
+            fullText: ['title', 'body'],
+        });
+
+        await articles.insertBulk([
+            {
+                _id: 'a1',
+                title: 'SQLite full text search',
+                body: 'FTS5 gives ranked search with bm25',
+                category: 'db',
+            },
+            {
+                _id: 'a2',
+                title: 'Cooking pasta',
+                body: 'Boil water, add salt, then search the pantry for pasta',
+                category: 'food',
+            },
+            {
+                _id: 'a3',
+                title: 'Vector search',
+                body: 'Embeddings complement keyword search',
+                category: 'db',
+            },
+        ]);
+    });
+
+    afterEach(async () => {
+        await db.close();
+    });
+
+    test('ranks matches by bm25', async () => {
+        const results = await articles.search('search');
+
+        expect(results.map((r) => r._id).sort()).toEqual(['a1', 'a2', 'a3']);
+        for (let i = 1; i < results.length; i++) {
+            expect(results[i].score).toBeGreaterThanOrEqual(
+                results[i - 1].score
+            );
+        }
+
+        const pasta = await articles.search('pasta');
+        expect(pasta.map((r) => r.document.title)).toEqual(['Cooking pasta']);
+    });
+
+    test('applies limit and where filters', async () => {
+        const results = await articles.search('search', {
+            where: [{ field: 'category', operator: 'eq', value: 'db' }],
+            limit: 1,
+        });
+        expect(results).toHaveLength(1);
+        expect(results[0].document.category).toBe('db');
+    });
+
+    test('returns highlights and snippets', async () => {
+        const [result] = await articles.search('bm25', {
+            highlight: { start: '[', end: ']' },
+            snippet: { field: 'body', start: '[', end: ']', tokens: 4 },
+        });
+
+        expect(result._id).toBe('a1');
+        expect(result.highlights!.body).toBe(
+            'FTS5 gives ranked search with [bm25]'
+        );
+        expect(result.highlights!.title).toBe('SQLite full text search');
+        expect(result.snippet).toContain('[bm25]');
+    });
+
+    test('keeps the index in sync with put, update and delete', async () => {
+        await articles.put('a2', { title: 'Baking bread' });
+        expect(await articles.search('pasta')).toHaveLength(1);
+        expect((await articles.search('bread')).map((r) => r._id)).toEqual([
+            'a2',
+        ]);
+
+        await articles.update('a3', { $set: { body: 'Nearest neighbours' } });
+        expect(await articles.search('neighbours')).toHaveLength(1);
+        expect(await articles.search('embeddings')).toHaveLength(0);
+
+        await articles.delete('a1');
+        expect(await articles.search('bm25')).toHaveLength(0);
+
+        await articles.where('category').eq('food').delete();
+        expect(await articles.search('bread')).toHaveLength(0);
+    });
+
+    test('indexes documents written before fullText was enabled', async () => {
+        const path = `/tmp/fts-backfill-${crypto.randomUUID()}.db`;
+        const first = createDB({ path });
+        const plain = first.collection('notes', articleSchema);
+        await plain.insert({
+            title: 'Existing note',
+            body: 'written before indexing',
+            category: 'misc',
+        });
+        await first.close();
+
+        const second = createDB({ path });
+        const indexed = second.collection('notes', articleSchema, {
+            fullText: ['title', 'body'],
+        });
+        expect((await indexed.search('indexing'))[0].document.title).toBe(
+            'Existing note'
+        );
+        await second.close();
+        rmSync(path, { force: true });
+    });
+
+    test('where().matches() filters on a single field', async () => {
+        const inTitle = await articles.where('title').matches('search').toArray();
+        expect(inTitle.map((a) => a._id).sort()).toEqual(['a1', 'a3']);
+
+        const combined = await articles
+            .where('body')
+            .matches('search')
+            .where('category')
+            .eq('food')
+            .toArray();
+        expect(combined.map((a) => a._id)).toEqual(['a2']);
+        expect(
+            await articles.where('body').matches('salt').executeCount()
+        ).toBe(1);
+    });
+
+    test('rejects search on collections without fullText fields and bad queries', async () => {
+        const plain = db.collection('plain', articleSchema);
+        await expect(plain.search('x')).rejects.toThrow(ValidationError);
+        await expect(articles.search('"unbalanced')).rejects.toThrow(
+            ValidationError
+        );
+        await expect(articles.search('  ')).rejects.toThrow(ValidationError);
+    });
+});
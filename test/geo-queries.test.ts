@@ -0,0 +1,205 @@
+import {
+    describe,
+    test,
+    expect,
+    beforeEach,
+    afterEach,
+    expectTypeOf,
+} from 'vitest';
+import { z } from 'zod';
+import { createDB, haversineDistance, QueryBuilder } from '../src/index';
+import { ValidationError } from '../src/errors';
+import { SchemaSQLGenerator } from '../src/schema-sql-generator';
+
+const placeSchema = z.object({
+    _id: z.string(),
+    name: z.string(),
+    kind: z.string(),
+    location: z.object({ lat: z.number(), lng: z.number() }).optional(),
+});
+
+const BERLIN = { lat: 52.52, lng: 13.405 };
+
+describe('GEO_POINT fields', () => {
+    let db: ReturnType<typeof createDB>;
+    let places: ReturnType<typeof db.collection<typeof placeSchema>>;
+
+    beforeEach(async () => {
+        db = createDB({ memory: true });
+        places = db.collection('places', placeSchema, {
+            constrainedFields: { location: { type: 'GEO_POINT' } },
+        });
+        await places.insertBulk([
+            { _id: 'berlin', name: 'Berlin', kind: 'city', location: BERLIN },
+            {
+                _id: 'potsdam',
+                name: 'Potsdam',
+                kind: 'city',
+                location: { lat: 52.3906, lng: 13.0645 },
+            },
+            {
+                _id: 'lake',
+                name: 'Wannsee',
+                kind: 'lake',
+                location: { lat: 52.4216, lng: 13.1794 },
+            },
+            {
+                _id: 'hamburg',
+                name: 'Hamburg',
+                kind: 'city',
+                location: { lat: 53.5511, lng: 9.9937 },
+            },
+            {
+                _id: 'suva',
+                name: 'Suva',
+                kind: 'city',
+                location: { lat: -18.1248, lng: 178.4501 },
+            },
+            {
+                _id: 'apia',
+                name: 'Apia',
+                kind: 'city',
+                location: { lat: -13.8333, lng: -171.7667 },
+            },
+            { _id: 'nowhere', name: 'Nowhere', kind: 'city' },
+        ]);
+    });
+
+    afterEach(async () => {
+        await db.close();
+    });
+
+    const ids = (docs: { _id: string }[]) => docs.map((d) => d._id).sort();
+
+    test('withinBox, including boxes across the antimeridian', async () => {
+        expect(
+            ids(
+                await places
+                    .where('location')
+                    .withinBox(52, 12.5, 53, 14)
+                    .toArray()
+            )
+        ).toEqual(['berlin', 'lake', 'potsdam']);
+        expect(
+            ids(
+                places
+                    .where('location')
+                    .withinBox(-20, 170, -10, -170)
+                    .toArraySync()
+            )
+        ).toEqual(['apia', 'suva']);
+    });
+
+    test('withinRadius compares haversine distances', async () => {
+        // Potsdam is about 27 km from Berlin
+        const near = (meters: number) =>
+            places
+                .where('location')
+                .withinRadius(BERLIN.lat, BERLIN.lng, meters)
+                .toArray();
+        expect(ids(await near(20000))).toEqual(['berlin', 'lake']);
+        expect(ids(await near(30000))).toEqual(['berlin', 'lake', 'potsdam']);
+        expect(
+            ids(
+                await places
+                    .where('location')
+                    .withinRadius(-18, 179.9, 1200000)
+                    .toArray()
+            )
+        ).toEqual(['apia', 'suva']);
+    });
+
+    test('nearest orders by distance and returns it', async () => {
+        const closest = await places
+            .where('kind')
+            .eq('city')
+            .where('location')
+            .nearest(BERLIN.lat, BERLIN.lng, { k: 2 })
+            .toArray();
+        expect(closest.map((p) => p._id)).toEqual(['berlin', 'potsdam']);
+        expect(closest[0]._distance).toBe(0);
+        expect(closest[1]._distance).toBeCloseTo(
+            haversineDistance(BERLIN, closest[1].location!),
+            3
+        );
+        expectTypeOf(closest[0]._distance).toEqualTypeOf<number>();
+
+        const bounded = places
+            .where('location')
+            .nearest(BERLIN.lat, BERLIN.lng, { maxDistance: 300000 })
+            .select('name')
+            .toArraySync();
+        expect(bounded.map((p) => p.name)).toEqual([
+            'Berlin',
+            'Wannsee',
+            'Potsdam',
+            'Hamburg',
+        ]);
+        expect(bounded[3]).toEqual({
+            name: 'Hamburg',
+            _distance: expect.any(Number),
+        });
+    });
+
+    test('the R*Tree follows writes', async () => {
+        const inBerlin = () =>
+            places.where('location').withinRadius(BERLIN.lat, BERLIN.lng, 1000);
+        await places.put('hamburg', {
+            name: 'Hamburg',
+            kind: 'city',
+            location: { lat: 52.521, lng: 13.406 },
+        });
+        await places.updateMany(places.where('_id').eq('berlin') as any, {
+            $set: { location: { lat: 0, lng: 0 } },
+        });
+        await places.delete('lake');
+        expect(ids(await inBerlin().toArray())).toEqual(['hamburg']);
+        expect(
+            places.where('location').withinBox(-90, -180, 90, 180).countSync()
+        ).toBe(5);
+
+        await expect(
+            places.insert({
+                _id: 'bad',
+                name: 'Bad',
+                kind: 'city',
+                location: { lat: 91, lng: 0 },
+            })
+        ).rejects.toThrow(ValidationError);
+    });
+
+    test('validates arguments, fields and serialization', () => {
+        expect(() => places.where('location').withinRadius(0, 200, 10)).toThrow(
+            'withinRadius() needs a latitude within ±90'
+        );
+        expect(() => places.where('location').withinRadius(0, 0, -1)).toThrow(
+            'non-negative radius'
+        );
+        expect(() =>
+            places.where('name').withinBox(0, 0, 1, 1).toArraySync()
+        ).toThrow("Field 'name' is not a GEO_POINT field");
+        expect(() =>
+            SchemaSQLGenerator.buildCreateTableWithConstraints(
+                'shapes',
+                undefined,
+                { center: { type: 'GEO_POINT' } },
+                z.object({ _id: z.string(), center: z.string() })
+            )
+        ).toThrow(
+            "Geo point field 'center' must be an object with lat and lng"
+        );
+
+        const query = places
+            .where('location')
+            .withinBox(52, 12, 53, 14)
+            .where('location')
+            .nearest(BERLIN.lat, BERLIN.lng, { k: 3, maxDistance: 50000 });
+        const restored = QueryBuilder.fromJSON(JSON.stringify(query), {
+            allowedFields: ['location'],
+        });
+        expect(restored.getOptions()).toEqual(query.getOptions());
+        expect(() =>
+            QueryBuilder.fromJSON(query.toJSON(), { allowedFields: ['name'] })
+        ).toThrow("Field 'location' is not allowed");
+    });
+});
@@ -0,0 +1,256 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { z } from 'zod';
+import { createDB } from '../src/index';
+import { NotFoundError, ValidationError } from '../src/errors';
+
+const pageSchema = z.object({
+    _id: z.string(),
+    title: z.string(),
+    body: z.string(),
+});
+
+describe('Document history', () => {
+    let db: ReturnType<typeof createDB>;
+    let pages: ReturnType<typeof db.collection<typeof pageSchema>>;
+
+    beforeEach(() => {
+        db = createDB({ memory: true });
+        pages = db.collection('pages', pageSchema, {
+            history: true,
+            softDelete: true,
+        });
+    });
+
+    afterEach(async () => {
+        await db.close();
+    });
+
+    const operations = async (id: string) =>
+        (await pages.history(id)).map((e) => [e.revision, e.operation]);
+
+    test('records every write with its revision', async () => {
+        const created = await pages.insert({
+            _id: 'p',
+            title: 'Home',
+            body: 'v1',
+        });
+        expect(created._rev).toBe(1);
+        await pages.put('p', { body: 'v2' });
+        await pages.update('p', { $set: { title: 'Start' } });
+
+        const entries = await pages.history('p');
+        expect(entries.map((e) => [e.revision, e.operation])).toEqual([
+            [1, 'insert'],
+            [2, 'update'],
+            [3, 'update'],
+        ]);
+        expect(entries[1].doc).toEqual({
+            _id: 'p',
+            title: 'Home',
+            body: 'v2',
+            _rev: 2,
+        });
+        expect(entries[0].timestamp).toBeInstanceOf(Date);
+        expect(entries[0]).not.toHaveProperty('actor');
+    });
+
+    test('soft delete, restore and purge are recorded', async () => {
+        await pages.insert({ _id: 'p', title: 'Home', body: 'v1' });
+        await pages.delete('p');
+        await pages.restore('p');
+        await pages.delete('p');
+        await pages.purgeDeleted();
+
+        expect(await operations('p')).toEqual([
+            [1, 'insert'],
+            [2, 'delete'],
+            [3, 'restore'],
+            [4, 'delete'],
+            [4, 'purge'],
+        ]);
+    });
+
+    test('findByIdAt() returns the document as of a point in time', async () => {
+        await pages.insert({ _id: 'p', title: 'Home', body: 'v1' });
+        await pages.put('p', { body: 'v2' });
+        await pages.delete('p');
+        const stamps = [
+            '2024-01-01T00:00:00.000Z',
+            '2024-02-01T00:00:00.000Z',
+            '2024-03-01T00:00:00.000Z',
+        ];
+        for (const [i, stamp] of stamps.entries()) {
+            await db.exec(
+                'UPDATE pages_history SET timestamp = ? WHERE revision = ?',
+                [stamp, i + 1]
+            );
+        }
+
+        expect(
+            await pages.findByIdAt('p', new Date('2023-12-31T00:00:00Z'))
+        ).toBeNull();
+        expect(
+            (await pages.findByIdAt('p', new Date('2024-01-15T00:00:00Z')))
+                ?.body
+        ).toBe('v1');
+        expect(
+            (await pages.findByIdAt('p', new Date('2024-02-01T00:00:00Z')))
+                ?.body
+        ).toBe('v2');
+        expect(
+            await pages.findByIdAt('p', new Date('2024-06-01T00:00:00Z'))
+        ).toBeNull();
+    });
+
+    test('revert() writes an old revision back as a new one', async () => {
+        await pages.insert({ _id: 'p', title: 'Home', body: 'v1' });
+        await pages.put('p', { title: 'Changed', body: 'v2' });
+        await pages.delete('p');
+
+        const reverted = await pages.revert('p', 1);
+        expect(reverted).toEqual({
+            _id: 'p',
+            title: 'Home',
+            body: 'v1',
+            _rev: 4,
+        });
+        expect(await pages.findById('p')).toEqual(reverted);
+        expect((await operations('p')).at(-1)).toEqual([4, 'restore']);
+
+        await expect(pages.revert('p', 3)).rejects.toThrow(ValidationError);
+        await expect(pages.revert('p', 42)).rejects.toThrow(NotFoundError);
+    });
+
+    test('withActor() records who made each change', async () => {
+        await pages.withActor('alice').insert({
+            _id: 'p',
+            title: 'Home',
+            body: 'v1',
+        });
+        await pages.put('p', { body: 'v2' });
+        await pages.withActor('bob').update('p', { $set: { body: 'v3' } });
+
+        const entries = await pages.history('p');
+        expect(entries.map((e) => e.actor)).toEqual([
+            'alice',
+            undefined,
+            'bob',
+        ]);
+        expect(
+            (
+                await db.query(
+                    'SELECT COUNT(*) AS n FROM _skibbadb_history_actor'
+                )
+            )[0].n
+        ).toBe(0);
+    });
+
+    test('rolled-back writes leave no history', async () => {
+        await pages.insert({ _id: 'p', title: 'Home', body: 'v1' });
+        await expect(
+            db.transaction(async () => {
+                await pages.put('p', { body: 'v2' });
+                throw new Error('abort');
+            })
+        ).rejects.toThrow('abort');
+
+        expect(await operations('p')).toEqual([[1, 'insert']]);
+    });
+
+    test('history methods require history to be enabled', async () => {
+        const plain = db.collection('plain', pageSchema);
+        await expect(plain.history('x')).rejects.toThrow(ValidationError);
+        await expect(plain.revert('x', 1)).rejects.toThrow(
+            "revert() requires history enabled on collection 'plain'"
+        );
+        expect(() => plain.withActor('alice')).toThrow(ValidationError);
+    });
+});
+
+describe('History retention', () => {
+    let db: ReturnType<typeof createDB>;
+
+    beforeEach(() => {
+        db = createDB({ memory: true });
+    });
+
+    afterEach(async () => {
+        await db.close();
+    });
+
+    test('maxRevisions keeps the newest entries per document', async () => {
+        const pages = db.collection('pages', pageSchema, {
+            history: { maxRevisions: 2 },
+        });
+        await pages.insert({ _id: 'p', title: 'Home', body: 'v1' });
+        await pages.insert({ _id: 'q', title: 'Other', body: 'v1' });
+        for (const body of ['v2', 'v3', 'v4']) {
+            await pages.put('p', { body });
+        }
+
+        const entries = await pages.history('p');
+        expect(entries.map((e) => e.revision)).toEqual([3, 4]);
+        expect((await pages.history('q')).map((e) => e.revision)).toEqual([1]);
+    });
+
+    test('maxAge drops entries older than the window', async () => {
+        const pages = db.collection('pages', pageSchema, {
+            history: { maxAge: 24 * 60 * 60 * 1000 },
+        });
+        await pages.insert({ _id: 'p', title: 'Home', body: 'v1' });
+        await db.exec(
+            `UPDATE pages_history SET timestamp = '2000-01-01T00:00:00.000Z'`
+        );
+        await pages.put('p', { body: 'v2' });
+
+        expect((await pages.history('p')).map((e) => e.revision)).toEqual([2]);
+    });
+
+    test('rejects invalid retention options', () => {
+        expect(() =>
+            db.collection('pages', pageSchema, {
+                history: { maxRevisions: 0 },
+            })
+        ).toThrow('maxRevisions');
+        expect(() =>
+            db.collection('pages', pageSchema, {
+                history: { maxAge: '1 day' as any },
+            })
+        ).toThrow('maxAge');
+    });
+});
+
+describe('Enabling history on an existing collection', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'skibba-history-'));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('records a baseline entry for existing documents', async () => {
+        const path = join(dir, 'pages.db');
+        const before = createDB({ path });
+        await before
+            .collection('pages', pageSchema)
+            .insert({ _id: 'p', title: 'Home', body: 'v1' });
+        await before.close();
+
+        const after = createDB({ path });
+        const pages = after.collection('pages', pageSchema, { history: true });
+        await pages.put('p', { body: 'v2' });
+        const entries = await pages.history('p');
+        expect(entries.map((e) => [e.revision, e.operation])).toEqual([
+            [1, 'insert'],
+            [2, 'update'],
+        ]);
+        expect(entries[0].doc.body).toBe('v1');
+        await after.close();
+    });
+});
@@ -0,0 +1,165 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { createDB } from '../src/index';
+import { ValidationError } from '../src/errors';
+import { fuseResults } from '../src/hybrid-search';
+
+const chunkSchema = z.object({
+    _id: z.string(),
+    title: z.string(),
+    body: z.string(),
+    lang: z.string(),
+    embedding: z.array(z.number()),
+});
+
+describe('Hybrid search', () => {
+    let db: ReturnType<typeof createDB>;
+    let chunks: ReturnType<typeof db.collection<typeof chunkSchema>>;
+
+    beforeEach(async () => {
+        db = createDB({ memory: true });
+        chunks = db.collection('chunks', chunkSchema, {
+            constrainedFields: {
+                embedding: {
+                    type: 'VECTOR',
+                    vectorDimensions: 3,
+                    vectorType: 'float',
+                },
+            },
+            fullText: ['title', 'body'],
+        });
+
+        await chunks.insertBulk([
+            {
+                _id: 'semantic',
+                title: 'Closest embedding',
+                body: 'talks about something related',
+                lang: 'en',
+                embedding: [1, 0, 0],
+            },
+            {
+                _id: 'both',
+                title: 'Error code E1234',
+                body: 'how to fix error E1234',
+                lang: 'en',
+                embedding: [0.9, 0.1, 0],
+            },
+            {
+                _id: 'keyword',
+                title: 'Changelog',
+                body: 'E1234 was fixed in 2.0',
+                lang: 'de',
+                embedding: [0, 0, 1],
+            },
+        ]);
+    });
+
+    afterEach(async () => {
+        await db.close();
+    });
+
+    test('fuses vector and keyword hits with reciprocal rank fusion', async () => {
+        const results = await chunks.hybridSearch({
+            vectorField: 'embedding',
+            vector: [1, 0, 0],
+            text: 'E1234',
+            k: 3,
+        });
+
+        expect(results[0]._id).toBe('both');
+        expect(results.map((r) => r._id).sort()).toEqual([
+            'both',
+            'keyword',
+            'semantic',
+        ]);
+
+        const both = results[0];
+        expect(both.vectorRank).toBe(2);
+        expect(both.distance).toEqual(expect.any(Number));
+        expect(both.textRank).toEqual(expect.any(Number));
+        expect(both.textScore).toEqual(expect.any(Number));
+        expect(both.score).toBeCloseTo(1 / 62 + 1 / (60 + both.textRank!));
+
+        const semantic = results.find((r) => r._id === 'semantic')!;
+        expect(semantic.textRank).toBeUndefined();
+    });
+
+    test('weights shift the ranking toward one source', async () => {
+        const results = await chunks.hybridSearch({
+            vectorField: 'embedding',
+            vector: [1, 0, 0],
+            text: 'E1234',
+            fusion: 'weighted',
+            weights: { vector: 1, text: 0 },
+            k: 1,
+        });
+        expect(results.map((r) => r._id)).toEqual(['semantic']);
+    });
+
+    test('restricts keyword matching to textFields', async () => {
+        const results = await chunks.hybridSearch({
+            vectorField: 'embedding',
+            vector: [0, 1, 0],
+            text: 'fixed',
+            textFields: ['title'],
+            weights: { vector: 0 },
+        });
+        expect(results.every((r) => r.textRank === undefined)).toBe(true);
+    });
+
+    test('applies where filters to both sources', async () => {
+        const results = await chunks.hybridSearch({
+            vectorField: 'embedding',
+            vector: [1, 0, 0],
+            text: 'E1234',
+            where: [{ field: 'lang', operator: 'eq', value: 'de' }],
+        });
+        expect(results.map((r) => r._id)).toEqual(['keyword']);
+    });
+
+    test('validates options', async () => {
+        await expect(
+            chunks.hybridSearch({
+                vectorField: 'embedding',
+                vector: [1, 0, 0],
+                text: 'x',
+                textFields: ['lang'],
+            })
+        ).rejects.toThrow(ValidationError);
+        await expect(
+            chunks.hybridSearch({
+                vectorField: 'embedding',
+                vector: [1, 0],
+                text: 'x',
+            })
+        ).rejects.toThrow(ValidationError);
+    });
+});
+
+describe('fuseResults', () => {
+    const doc = (id: string) => ({ _id: id });
+
+    test('weighted fusion min-max normalizes each source', () => {
+        const results = fuseResults(
+            [
+                { _id: 'a', document: doc('a'), distance: 0.1 },
+                { _id: 'b', document: doc('b'), distance: 0.5 },
+            ],
+            [
+                { _id: 'b', document: doc('b'), score: -3 },
+                { _id: 'c', document: doc('c'), score: -1 },
+            ],
+            {
+                fusion: 'weighted',
+                weights: { vector: 0.5, text: 0.5 },
+                rrfK: 60,
+                k: 10,
+            }
+        );
+        expect(results.map((r) => [r._id, r.score])).toEqual([
+            ['a', 0.5],
+            ['b', 0.5],
+            ['c', 0],
+        ]);
+    });
+});
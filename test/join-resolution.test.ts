@@ -0,0 +1,190 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { createDB } from '../src/index';
+import { ValidationError } from '../src/errors';
+import { SQLTranslator } from '../src/sql-translator';
+import { QueryBuilder } from '../src/query-builder';
+import type { CollectionSchema } from '../src/types';
+
+const employeeSchema = z.object({
+    _id: z.string(),
+    name: z.string(),
+    managerId: z.string().optional(),
+    teamId: z.string().optional(),
+});
+
+const teamSchema = z.object({
+    _id: z.string(),
+    label: z.string(),
+    budget: z.number(),
+});
+
+const invoiceSchema = z.object({
+    _id: z.string(),
+    employeeId: z.string(),
+    name: z.string(),
+    amount: z.number(),
+});
+
+describe('Join field resolution', () => {
+    let db: ReturnType<typeof createDB>;
+    let employees: ReturnType<typeof db.collection<typeof employeeSchema>>;
+
+    beforeEach(async () => {
+        db = createDB({ memory: true });
+        employees = db.collection('employees', employeeSchema);
+        const teams = db.collection('teams', teamSchema, {
+            constrainedFields: { budget: { type: 'INTEGER' } },
+        });
+        const invoices = db.collection('invoices', invoiceSchema);
+
+        await teams.insertBulk([
+            { _id: 't1', label: 'Platform', budget: 500 },
+            { _id: 't2', label: 'Growth', budget: 50 },
+        ]);
+        await employees.insertBulk([
+            { _id: 'boss', name: 'Boss', teamId: 't1' },
+            { _id: 'e1', name: 'Ana', managerId: 'boss', teamId: 't1' },
+            { _id: 'e2', name: 'Ben', managerId: 'boss', teamId: 't2' },
+            { _id: 'e3', name: 'Cy', managerId: 'e1', teamId: 't2' },
+        ]);
+        await invoices.insertBulk([
+            { _id: 'i1', employeeId: 'e1', name: 'laptop', amount: 900 },
+        ]);
+    });
+
+    afterEach(async () => {
+        await db.close();
+    });
+
+    test('routes bare fields to the joined collection that declares them', async () => {
+        const query = employees
+            .query()
+            .join('teams', 'teamId', '_id')
+            .where('budget')
+            .gt(100)
+            .orderBy('label');
+
+        const result = await query.toArray();
+        expect(result.map((r: any) => r.employees.name).sort()).toEqual([
+            'Ana',
+            'Boss',
+        ]);
+
+        const { sql } = SQLTranslator.buildSelectQuery(
+            'employees',
+            query.getOptions(),
+            {},
+            (name) => db.collection(name)['collectionSchema']
+        );
+        // teams.budget is a constrained column of the joined table
+        expect(sql).toContain('teams.budget > ?');
+        expect(sql).toContain("ORDER BY json_extract(teams.doc, '$.label') ASC");
+    });
+
+    test('raises an ambiguity error for fields declared by several tables', async () => {
+        const query = employees
+            .query()
+            .join('invoices', '_id', 'employeeId')
+            .where('name')
+            .eq('Ana');
+
+        await expect(query.toArray()).rejects.toThrow(ValidationError);
+        await expect(query.toArray()).rejects.toThrow(
+            "Field 'name' is ambiguous between employees, invoices"
+        );
+
+        const qualified = await employees
+            .query()
+            .join('invoices', '_id', 'employeeId')
+            .where('invoices.name')
+            .eq('laptop')
+            .where('amount')
+            .gt(100)
+            .toArray();
+        expect(qualified.map((r: any) => r.employees.name)).toEqual(['Ana']);
+    });
+
+    test('supports aliases for self-joins', async () => {
+        const reports = await employees
+            .query()
+            .join('employees as manager', 'managerId', '_id')
+            .where('manager.name')
+            .eq('Boss')
+            .orderBy('employees.name')
+            .toArray();
+        expect(
+            reports.map((r: any) => [r.employees.name, r.manager.name])
+        ).toEqual([
+            ['Ana', 'Boss'],
+            ['Ben', 'Boss'],
+        ]);
+
+        await expect(
+            employees.query().join('employees', 'managerId', '_id').toArray()
+        ).rejects.toThrow('give the join an alias');
+    });
+
+    test('join conditions may reference an earlier join', async () => {
+        const result = await employees
+            .query()
+            .join('employees as manager', 'managerId', '_id')
+            .join('teams as managerTeam', 'manager.teamId', '_id')
+            .where('managerTeam.label')
+            .eq('Platform')
+            .toArray();
+        expect(result.map((r: any) => r.employees.name).sort()).toEqual([
+            'Ana',
+            'Ben',
+            'Cy',
+        ]);
+    });
+
+    test('rejects malformed join targets', () => {
+        expect(() =>
+            employees.query().join('teams t', 'teamId', '_id')
+        ).toThrow(ValidationError);
+    });
+});
+
+describe('Join resolution SQL', () => {
+    test('builds aliased joins and keeps bare fields on the main table without a registry', () => {
+        const options = new QueryBuilder()
+            .join('users as author', 'authorId', '_id')
+            .where('title')
+            .eq('x')
+            .getOptions();
+        const { sql } = SQLTranslator.buildSelectQuery('posts', options);
+        expect(sql).toBe(
+            'SELECT posts.doc AS "posts", author.doc AS "author" FROM posts INNER JOIN users AS author' +
+                " ON json_extract(posts.doc, '$.authorId') = author._id WHERE json_extract(posts.doc, '$.title') = ?"
+        );
+    });
+
+    test('no longer guesses tables from field names', () => {
+        const schemas: Record<string, CollectionSchema> = {
+            users: {
+                name: 'users',
+                schema: z.object({ _id: z.string(), status: z.string() }),
+                primaryKey: '_id',
+            },
+            orders: {
+                name: 'orders',
+                schema: z.object({ _id: z.string(), userId: z.string() }),
+                primaryKey: '_id',
+            },
+        };
+        const options = new QueryBuilder()
+            .join('orders', '_id', 'userId')
+            .where('status')
+            .eq('active')
+            .getOptions();
+        const { sql } = SQLTranslator.buildSelectQuery(
+            'users',
+            options,
+            {},
+            (name) => schemas[name]
+        );
+        expect(sql).toContain("WHERE json_extract(users.doc, '$.status') = ?");
+    });
+});
@@ -0,0 +1,221 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { createDB } from '../src/index';
+import type { PluginContext } from '../src/index';
+import { ConflictError, NotFoundError, ValidationError } from '../src/errors';
+import {
+    applyJsonPatch,
+    diffDocuments,
+    getPatchedFields,
+} from '../src/json-patch';
+
+const profileSchema = z.object({
+    _id: z.string(),
+    name: z.string(),
+    age: z.number().int().min(0),
+    tags: z.array(z.string()).default([]),
+    address: z
+        .object({
+            city: z.string(),
+            zip: z.string().optional(),
+        })
+        .optional(),
+});
+
+describe('JSON Patch helpers', () => {
+    const doc = {
+        _id: 'p',
+        name: 'Ada',
+        tags: ['a', 'b'],
+        address: { city: 'London' },
+        'a/b': 1,
+    };
+
+    test('applies every RFC 6902 operation to a copy', () => {
+        const patched = applyJsonPatch(doc, [
+            { op: 'test', path: '/name', value: 'Ada' },
+            { op: 'replace', path: '/name', value: 'Ada L.' },
+            { op: 'add', path: '/tags/1', value: 'x' },
+            { op: 'add', path: '/tags/-', value: 'z' },
+            { op: 'remove', path: '/tags/0' },
+            { op: 'copy', from: '/address/city', path: '/birthplace' },
+            { op: 'move', from: '/a~1b', path: '/address/zip' },
+        ]);
+        expect(patched).toEqual({
+            _id: 'p',
+            name: 'Ada L.',
+            tags: ['x', 'b', 'z'],
+            address: { city: 'London', zip: 1 },
+            birthplace: 'London',
+        });
+        expect(doc.tags).toEqual(['a', 'b']);
+    });
+
+    test('rejects failed tests, missing paths and malformed operations', () => {
+        expect(() =>
+            applyJsonPatch(doc, [{ op: 'test', path: '/name', value: 'Bob' }])
+        ).toThrow("JSON Patch operation 0 ('test' at '/name') failed");
+        expect(() =>
+            applyJsonPatch(doc, [{ op: 'remove', path: '/missing' }])
+        ).toThrow(ValidationError);
+        expect(() =>
+            applyJsonPatch(doc, [{ op: 'add', path: '/tags/5', value: 1 }])
+        ).toThrow('out of bounds');
+        expect(() =>
+            applyJsonPatch(doc, [{ op: 'merge', path: '/name' } as any])
+        ).toThrow("unknown op 'merge'");
+        expect(() =>
+            applyJsonPatch(doc, [{ op: 'add', path: 'name', value: 1 }])
+        ).toThrow("must start with '/'");
+        expect(() =>
+            applyJsonPatch(doc, [
+                { op: 'move', from: '/address', path: '/address/home' },
+            ])
+        ).toThrow('into itself');
+    });
+
+    test('diffs documents into add/remove/replace operations', () => {
+        const patch = diffDocuments(
+            { _id: 'p', name: 'Ada', tags: ['a'], address: { city: 'London' } },
+            {
+                _id: 'p',
+                name: 'Ada',
+                tags: ['a', 'b'],
+                address: { city: 'Paris', zip: '75001' },
+                age: 36,
+            }
+        );
+        expect(patch).toEqual([
+            { op: 'replace', path: '/tags', value: ['a', 'b'] },
+            { op: 'replace', path: '/address/city', value: 'Paris' },
+            { op: 'add', path: '/address/zip', value: '75001' },
+            { op: 'add', path: '/age', value: 36 },
+        ]);
+        expect(getPatchedFields(patch)).toEqual([
+            'tags',
+            'address.city',
+            'address.zip',
+            'age',
+        ]);
+        expect(diffDocuments({ a: 1, b: 2 }, { a: 1 })).toEqual([
+            { op: 'remove', path: '/b' },
+        ]);
+    });
+});
+
+describe('Update hook diffs and applyPatch()', () => {
+    let db: ReturnType<typeof createDB>;
+    let profiles: ReturnType<typeof db.collection<typeof profileSchema>>;
+    let before: PluginContext[];
+    let after: PluginContext[];
+
+    beforeEach(async () => {
+        db = createDB({ memory: true });
+        before = [];
+        after = [];
+        db.use({
+            name: 'audit',
+            onBeforeUpdate: (context: PluginContext) => {
+                before.push(context);
+            },
+            onAfterUpdate: (context: PluginContext) => {
+                after.push(context);
+            },
+        });
+        profiles = db.collection('profiles', profileSchema, {
+            versioning: true,
+        });
+        await profiles.insert({
+            _id: 'p',
+            name: 'Ada',
+            age: 36,
+            tags: ['math'],
+            address: { city: 'London' },
+        });
+    });
+
+    afterEach(async () => {
+        await db.close();
+    });
+
+    test('put() and update() report previous, patch and changedFields', async () => {
+        await profiles.put('p', { name: 'Ada L.' });
+        expect(before[0]).toMatchObject({
+            operation: 'update',
+            previous: { name: 'Ada', _rev: 1 },
+            patch: [{ op: 'replace', path: '/name', value: 'Ada L.' }],
+            changedFields: ['name'],
+        });
+
+        await profiles.update('p', {
+            $inc: { age: 1 },
+            $set: { 'address.zip': 'N1' },
+        });
+        expect(after[1]).toMatchObject({
+            previous: { age: 36, _rev: 2 },
+            result: { age: 37, _rev: 3 },
+            patch: [
+                { op: 'replace', path: '/age', value: 37 },
+                { op: 'add', path: '/address/zip', value: 'N1' },
+            ],
+            changedFields: ['age', 'address.zip'],
+        });
+    });
+
+    test('applyPatch() validates and writes the patched document', async () => {
+        const patched = await profiles.applyPatch('p', [
+            { op: 'test', path: '/name', value: 'Ada' },
+            { op: 'add', path: '/tags/-', value: 'computing' },
+            { op: 'remove', path: '/address' },
+        ]);
+        expect(patched).toEqual({
+            _id: 'p',
+            name: 'Ada',
+            age: 36,
+            tags: ['math', 'computing'],
+            _rev: 2,
+        });
+        expect(await profiles.findById('p')).toEqual(patched);
+        expect(after[0]).toMatchObject({
+            operation: 'patch',
+            changedFields: ['address', 'tags'],
+        });
+    });
+
+    test('applyPatch() writes nothing when the patch or document is invalid', async () => {
+        await expect(
+            profiles.applyPatch('p', [
+                { op: 'replace', path: '/age', value: 1 },
+                { op: 'test', path: '/name', value: 'Bob' },
+            ])
+        ).rejects.toThrow(ValidationError);
+        await expect(
+            profiles.applyPatch('p', [
+                { op: 'replace', path: '/age', value: -1 },
+            ])
+        ).rejects.toThrow('Document validation failed');
+        await expect(
+            profiles.applyPatch('p', [
+                { op: 'replace', path: '/_id', value: 'q' },
+            ])
+        ).rejects.toThrow('JSON Patch cannot change _id');
+        await expect(
+            profiles.applyPatch('missing', [
+                { op: 'replace', path: '/age', value: 1 },
+            ])
+        ).rejects.toThrow(NotFoundError);
+        await expect(
+            profiles.applyPatch(
+                'p',
+                [{ op: 'replace', path: '/age', value: 1 }],
+                { ifMatch: 7 }
+            )
+        ).rejects.toThrow(ConflictError);
+
+        expect(await profiles.findById('p')).toMatchObject({
+            age: 36,
+            _rev: 1,
+        });
+        expect(after).toEqual([]);
+    });
+});
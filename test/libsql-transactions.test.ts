@@ -0,0 +1,177 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { Database } from 'bun:sqlite';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { NodeDriver } from '../src/drivers/node';
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+const run = (conn: Database, sql: string, args: any[] = []) => {
+    const stmt = conn.prepare(sql);
+    return { columns: stmt.columnNames, rows: stmt.values(...args) };
+};
+
+/**
+ * Stand-in for @libsql/client's local client, whose native binding is not
+ * installed here: transaction() takes over the current connection and later
+ * statements open a new one, as the real client does
+ */
+class LocalLibSQLClient {
+    private conn?: Database;
+    private opened: Database[] = [];
+
+    constructor(private path: string) {}
+
+    private connection(): Database {
+        if (!this.conn) {
+            this.conn = new Database(this.path);
+            this.opened.push(this.conn);
+        }
+        return this.conn;
+    }
+
+    async execute({ sql, args }: { sql: string; args?: any[] }) {
+        return run(this.connection(), sql, args);
+    }
+
+    async transaction(mode: 'write' | 'deferred' = 'write') {
+        const conn = this.connection();
+        this.conn = undefined;
+        conn.run(mode === 'deferred' ? 'BEGIN DEFERRED' : 'BEGIN IMMEDIATE');
+        return {
+            execute: async ({ sql, args }: { sql: string; args?: any[] }) =>
+                run(conn, sql, args),
+            commit: async () => conn.run('COMMIT'),
+            rollback: async () => conn.run('ROLLBACK'),
+            close: () => {
+                if (conn.inTransaction) conn.run('ROLLBACK');
+            },
+        };
+    }
+
+    close() {
+        this.opened.forEach((conn) => conn.close());
+    }
+}
+
+describe('libsql transactions', () => {
+    let dir: string;
+    let client: LocalLibSQLClient;
+    let driver: NodeDriver;
+    let reader: Database;
+
+    beforeEach(async () => {
+        dir = mkdtempSync(join(tmpdir(), 'skibba-libsql-'));
+        const path = join(dir, 'libsql.db');
+        client = new LocalLibSQLClient(path);
+        driver = new NodeDriver({ path, libsql: true });
+        Object.assign(driver, {
+            db: client,
+            dbType: 'libsql',
+            connectionState: {
+                isConnected: true,
+                isHealthy: true,
+                lastHealthCheck: Date.now(),
+                connectionAttempts: 0,
+            },
+        });
+        await driver.exec('CREATE TABLE items (name TEXT)');
+        reader = new Database(path);
+    });
+
+    afterEach(() => {
+        reader.close();
+        client.close();
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    const stored = async () =>
+        (await driver.query('SELECT name FROM items ORDER BY name')).map(
+            (row) => row.name
+        );
+
+    test('statements run on the transaction, not the shared client', async () => {
+        let seenOutside = -1;
+        await driver.transaction(async (tx) => {
+            await tx.exec("INSERT INTO items VALUES ('a')");
+            seenOutside = reader.query('SELECT * FROM items').all().length;
+            expect(await tx.query('SELECT name FROM items')).toEqual([
+                { name: 'a' },
+            ]);
+        });
+        expect(seenOutside).toBe(0);
+        expect(await stored()).toEqual(['a']);
+
+        await expect(
+            driver.transaction(async (tx) => {
+                await tx.exec("INSERT INTO items VALUES ('b')");
+                throw new Error('rollback');
+            })
+        ).rejects.toThrow('rollback');
+        expect(await stored()).toEqual(['a']);
+    });
+
+    test('nested calls open savepoints', async () => {
+        await driver.transaction(async (tx) => {
+            await tx.exec("INSERT INTO items VALUES ('outer')");
+            await expect(
+                tx.transaction(async (inner) => {
+                    await inner.exec("INSERT INTO items VALUES ('inner')");
+                    throw new Error('inner failed');
+                })
+            ).rejects.toThrow('inner failed');
+            await tx.transaction(async (inner) => {
+                await inner.exec("INSERT INTO items VALUES ('kept')");
+            });
+        });
+        expect(await stored()).toEqual(['kept', 'outer']);
+    });
+
+    test('unrelated statements wait instead of joining the transaction', async () => {
+        const tx = driver.transaction(async (tx) => {
+            await tx.exec("INSERT INTO items VALUES ('tx')");
+            await sleep(20);
+            throw new Error('rollback');
+        });
+        const outside = driver.exec("INSERT INTO items VALUES ('outside')");
+
+        await expect(tx).rejects.toThrow('rollback');
+        await outside;
+        expect(await stored()).toEqual(['outside']);
+    });
+
+    test('busy errors are retried with backoff and onRetry', async () => {
+        // Hold the write lock from another connection for a while
+        reader.run('BEGIN IMMEDIATE');
+        setTimeout(() => reader.run('COMMIT'), 30);
+
+        const retries: number[] = [];
+        let calls = 0;
+        await driver.transaction(
+            async (tx) => {
+                calls++;
+                await tx.exec("INSERT INTO items VALUES ('a')");
+            },
+            {
+                mode: 'immediate',
+                retries: 20,
+                backoff: { initialDelay: 5, maxDelay: 10 },
+                onRetry: ({ attempt }) => {
+                    retries.push(attempt);
+                },
+            }
+        );
+
+        expect(retries.length).toBeGreaterThan(0);
+        expect(retries).toEqual(retries.map((_, i) => i + 1));
+        expect(calls).toBe(1);
+        expect(await stored()).toEqual(['a']);
+
+        reader.run('BEGIN IMMEDIATE');
+        await expect(
+            driver.transaction(async () => {}, { mode: 'immediate' })
+        ).rejects.toThrow('database is locked');
+        reader.run('COMMIT');
+    });
+});
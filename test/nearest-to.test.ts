@@ -0,0 +1,263 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { createDB } from '../src/index';
+import { ValidationError } from '../src/errors';
+import { SQLTranslator } from '../src/sql-translator';
+
+const itemSchema = z.object({
+    _id: z.string(),
+    name: z.string(),
+    category: z.string(),
+    price: z.number(),
+    embedding: z.array(z.number()),
+    imageEmbedding: z.array(z.number()).optional(),
+});
+
+const vectorField = {
+    type: 'VECTOR' as const,
+    vectorDimensions: 3,
+    vectorType: 'float' as const,
+};
+
+describe('nearestTo()', () => {
+    let db: ReturnType<typeof createDB>;
+    let items: ReturnType<typeof db.collection<typeof itemSchema>>;
+
+    beforeEach(async () => {
+        db = createDB({ memory: true });
+        items = db.collection('items', itemSchema, {
+            constrainedFields: {
+                embedding: vectorField,
+                imageEmbedding: { ...vectorField, nullable: true },
+            },
+        });
+
+        await items.insertBulk([
+            {
+                _id: 'x',
+                name: 'x-axis',
+                category: 'a',
+                price: 10,
+                embedding: [1, 0, 0],
+            },
+            {
+                _id: 'xy',
+                name: 'mostly x',
+                category: 'b',
+                price: 20,
+                embedding: [0.9, 0.1, 0],
+            },
+            {
+                _id: 'y',
+                name: 'y-axis',
+                category: 'a',
+                price: 30,
+                embedding: [0, 1, 0],
+                imageEmbedding: [1, 0, 0],
+            },
+            {
+                _id: 'z',
+                name: 'z-axis',
+                category: 'b',
+                price: 40,
+                embedding: [0, 0, 1],
+            },
+        ]);
+    });
+
+    afterEach(async () => {
+        await db.close();
+    });
+
+    test('orders by cosine distance and returns k neighbours', async () => {
+        const results = await items
+            .query()
+            .nearestTo('embedding', [1, 0, 0], { k: 2 })
+            .toArray();
+        expect(results.map((r) => r._id)).toEqual(['x', 'xy']);
+        expect((results[0] as any)._distance).toBeUndefined();
+    });
+
+    test('composes with OR groups, offset and projections', async () => {
+        const query = items
+            .query()
+            .where('category')
+            .eq('b')
+            .or((q) => q.where('price').lt(15))
+            .nearestTo('embedding', [1, 0, 0], { k: 3 });
+
+        expect((await query.toArray()).map((r) => r._id)).toEqual([
+            'x',
+            'xy',
+            'z',
+        ]);
+        expect((await query.offset(1).toArray()).map((r) => r._id)).toEqual([
+            'xy',
+            'z',
+        ]);
+        expect(await query.select('name').limit(1).toArray()).toEqual([
+            { name: 'x-axis' },
+        ]);
+    });
+
+    test('uses orderBy to break distance ties', async () => {
+        await items.insert({
+            _id: 'x2',
+            name: 'x again',
+            category: 'a',
+            price: 5,
+            embedding: [2, 0, 0],
+        });
+        const results = await items
+            .query()
+            .orderBy('price', 'asc')
+            .nearestTo('embedding', [1, 0, 0], { k: 2 })
+            .toArray();
+        expect(results.map((r) => r._id)).toEqual(['x2', 'x']);
+    });
+
+    test('applies maxDistance and minSimilarity thresholds', async () => {
+        const close = await items
+            .query()
+            .nearestTo('embedding', [1, 0, 0], { minSimilarity: 0.9 })
+            .toArray();
+        expect(close.map((r) => r._id)).toEqual(['x', 'xy']);
+
+        const euclidean = await items
+            .query()
+            .nearestTo('embedding', [1, 0, 0], {
+                distance: 'euclidean',
+                maxDistance: 0.5,
+            })
+            .toArray();
+        expect(euclidean.map((r) => r._id)).toEqual(['x', 'xy']);
+    });
+
+    test('merges several vector fields by their closest distance', async () => {
+        const results = await items.vectorSearch({
+            field: ['embedding', 'imageEmbedding'],
+            vector: [1, 0, 0],
+            limit: 3,
+        });
+        expect(results.map((r) => r._id)).toEqual(['x', 'y', 'xy']);
+        expect(results[1].distance).toBeCloseTo(0);
+    });
+
+    test('reads the KNN index when nothing narrows the query', async () => {
+        const docs = db.collection(
+            'docs',
+            z.object({ _id: z.string(), embedding: z.array(z.number()) }),
+            {
+                constrainedFields: {
+                    embedding: { ...vectorField, vectorDistance: 'cosine' },
+                },
+            }
+        );
+        await docs.insertBulk(
+            Array.from({ length: 20 }, (_, i) => ({
+                _id: `d${i}`,
+                embedding: [Math.cos(i / 5), Math.sin(i / 5), i % 3],
+            }))
+        );
+
+        const search = (where?: any) =>
+            docs.vectorSearch({
+                field: 'embedding',
+                vector: [1, 0.2, 0],
+                limit: 3,
+                offset: 2,
+                where,
+            });
+        const indexed = await search();
+        // A filter forces per-row distances
+        const scanned = await search(docs.where('_id').neq(''));
+        expect(indexed.map((r) => r._id)).toEqual(scanned.map((r) => r._id));
+        indexed.forEach((r, i) =>
+            expect(r.distance).toBeCloseTo(scanned[i].distance, 5)
+        );
+    });
+
+    test('vectorSearch accepts a QueryBuilder, offset and thresholds', async () => {
+        const results = await items.vectorSearch({
+            field: 'embedding',
+            vector: [1, 0, 0],
+            where: items.where('category').eq('a').or((q) =>
+                q.where('name').eq('mostly x')
+            ),
+            offset: 1,
+            maxDistance: 0.5,
+        });
+        expect(results.map((r) => r._id)).toEqual(['xy']);
+        expect(results[0].document.name).toBe('mostly x');
+        expect(results[0].distance).toBeGreaterThan(0);
+    });
+
+    test('validates fields, vectors and options', async () => {
+        expect(() =>
+            items.query().nearestTo('embedding', [1, 0, 0], { k: 0 })
+        ).toThrow(ValidationError);
+        expect(() =>
+            items.query().nearestTo('embedding', [1, 0, 0], {
+                distance: 'l1',
+                minSimilarity: 0.5,
+            })
+        ).toThrow(ValidationError);
+        await expect(
+            items.query().nearestTo('name', [1, 0, 0]).toArray()
+        ).rejects.toThrow('is not defined as a constrained field');
+        await expect(
+            items.query().nearestTo('embedding', [1, 0]).toArray()
+        ).rejects.toThrow('must have 3 dimensions');
+        await expect(
+            items.query().nearestTo('embedding', [1, 0, 0]).count().toArray()
+        ).rejects.toThrow(ValidationError);
+    });
+});
+
+describe('nearestTo() SQL', () => {
+    test('selects the distance and orders by it before orderBy', () => {
+        const { sql, params } = SQLTranslator.buildSelectQuery(
+            'items',
+            {
+                filters: [{ field: 'category', operator: 'eq', value: 'a' }],
+                orderBy: [{ field: 'price', direction: 'desc' }],
+                nearest: {
+                    fields: ['embedding'],
+                    vector: [1, 0, 0],
+                    maxDistance: 0.3,
+                },
+            },
+            { embedding: vectorField }
+        );
+        expect(sql).toBe(
+            "SELECT items.doc, (SELECT vec_distance_cosine(embedding, ?) AS d FROM items_embedding_vec WHERE rowid = items.rowid) AS _distance FROM items WHERE json_extract(items.doc, '$.category') = ? AND _distance <= ? ORDER BY _distance ASC, json_extract(items.doc, '$.price') DESC LIMIT ?"
+        );
+        expect(params.slice(1)).toEqual(['a', 0.3, 10]);
+    });
+
+    test('joins the KNN index when its metric matches and nothing narrows the query', () => {
+        const nearest = {
+            fields: ['embedding'],
+            vector: [1, 0, 0],
+            distance: 'l2' as const,
+        };
+        const { sql, params } = SQLTranslator.buildSelectQuery(
+            'items',
+            { filters: [], nearest, limit: 5, offset: 5 },
+            { embedding: vectorField }
+        );
+        expect(sql).toBe(
+            'SELECT items.doc, _knn.distance AS _distance FROM items JOIN (SELECT rowid, distance FROM items_embedding_vec WHERE embedding MATCH ? AND k = ?) AS _knn ON _knn.rowid = items.rowid WHERE _distance IS NOT NULL ORDER BY _distance ASC LIMIT ? OFFSET ?'
+        );
+        expect(params.slice(1)).toEqual([10, 5, 5]);
+
+        // The index ranks by l2, so cosine computes every row's distance
+        expect(
+            SQLTranslator.buildSelectQuery(
+                'items',
+                { filters: [], nearest: { ...nearest, distance: 'cosine' } },
+                { embedding: vectorField }
+            ).sql
+        ).toContain('vec_distance_cosine');
+    });
+});
@@ -0,0 +1,189 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { createDB } from '../src/index';
+import { DatabaseError } from '../src/errors';
+import type { UpgradeContext } from '../src/upgrade-types';
+
+const userSchema = z.object({
+    _id: z.string(),
+    name: z.string(),
+});
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+describe('Nested transactions and transaction handles', () => {
+    let db: ReturnType<typeof createDB>;
+    let users: ReturnType<typeof db.collection<typeof userSchema>>;
+
+    beforeEach(() => {
+        db = createDB({ memory: true });
+        users = db.collection('users', userSchema);
+    });
+
+    afterEach(async () => {
+        await db.close();
+    });
+
+    const names = async () =>
+        (await users.query().orderBy('_id').toArray()).map((u) => u.name);
+
+    test('an inner failure rolls back only its savepoint', async () => {
+        await db.transaction(async () => {
+            await users.insert({ _id: '1', name: 'outer' });
+            await expect(
+                db.transaction(async () => {
+                    await users.insert({ _id: '2', name: 'inner' });
+                    throw new Error('inner failed');
+                })
+            ).rejects.toThrow('inner failed');
+            await users.insert({ _id: '3', name: 'after' });
+        });
+
+        expect(await names()).toEqual(['outer', 'after']);
+    });
+
+    test('tx.collection() and tx.transaction() run in the transaction', async () => {
+        const result = await db.transaction(async (tx) => {
+            const txUsers = tx.collection<typeof userSchema>('users');
+            await txUsers.insert({ _id: '1', name: 'Ada' });
+            await tx
+                .transaction(async (inner) => {
+                    await inner
+                        .collection('users')
+                        .insert({ _id: '2', name: 'Bob' });
+                    throw new Error('undo Bob');
+                })
+                .catch(() => {});
+            await tx.transaction(async (inner) => {
+                await inner
+                    .collection('users')
+                    .insert({ _id: '3', name: 'Cy' });
+            });
+            return (await tx.query('SELECT COUNT(*) AS n FROM users'))[0].n;
+        });
+
+        expect(result).toBe(2);
+        expect(await names()).toEqual(['Ada', 'Cy']);
+    });
+
+    test('concurrent code does not run inside another caller’s transaction', async () => {
+        let seenInside = -1;
+        const tx = db.transaction(async (tx) => {
+            await tx.collection('users').insert({ _id: '1', name: 'tx' });
+            await sleep(20);
+            seenInside = (await tx.query('SELECT _id FROM users')).length;
+            throw new Error('rollback');
+        });
+        // Issued while the transaction is open; must not be rolled back with it
+        const outside = users.insert({ _id: '2', name: 'outside' });
+
+        await expect(tx).rejects.toThrow('rollback');
+        await outside;
+        expect(seenInside).toBe(1);
+        expect(await names()).toEqual(['outside']);
+    });
+
+    test('nested transactions take the same options', async () => {
+        const modes: string[] = [];
+        db.use({
+            name: 'modes',
+            onBeforeTransaction: (context: any) => {
+                modes.push(context.data.mode);
+            },
+        });
+        await db.transaction(async (tx) => {
+            await tx.transaction(
+                async (inner) => {
+                    await inner
+                        .collection('users')
+                        .insert({ _id: '1', name: 'inner' });
+                },
+                { mode: 'immediate', retries: 2 }
+            );
+        });
+
+        expect(modes).toEqual(['deferred', 'immediate']);
+        expect(await names()).toEqual(['inner']);
+    });
+
+    test('sync statements from other code do not join the transaction', async () => {
+        let seenInside: string[] = [];
+        const tx = db.transaction(async (tx) => {
+            await tx.collection('users').insert({ _id: '1', name: 'tx' });
+            await sleep(20);
+            seenInside = tx
+                .collection('users')
+                .query()
+                .toArraySync()
+                .map((u: any) => u._id);
+            throw new Error('rollback');
+        });
+        await sleep(5);
+        expect(() => users.query().toArraySync()).toThrow(
+            'Synchronous statements cannot run while a transaction opened elsewhere is in progress'
+        );
+        // Async reads with sync lookups wait for the transaction instead
+        const outside = users.where('name').ilike('TX').toArray();
+
+        await expect(tx).rejects.toThrow('rollback');
+        expect(await outside).toEqual([]);
+        expect(seenInside).toEqual(['1']);
+    });
+
+    test('concurrent transactions are serialized instead of joined', async () => {
+        const order: string[] = [];
+        const first = db.transaction(async (tx) => {
+            order.push('first:start');
+            await tx.collection('users').insert({ _id: '1', name: 'first' });
+            await sleep(10);
+            order.push('first:end');
+        });
+        const second = db.transaction(async (tx) => {
+            order.push('second:start');
+            await tx.collection('users').insert({ _id: '2', name: 'second' });
+            throw new Error('second failed');
+        });
+
+        await first;
+        await expect(second).rejects.toThrow('second failed');
+        expect(order).toEqual(['first:start', 'first:end', 'second:start']);
+        expect(await names()).toEqual(['first']);
+    });
+
+    test('a handle cannot be used after its transaction completes', async () => {
+        let handle: any;
+        await db.transaction(async (tx) => {
+            handle = tx;
+        });
+        await expect(
+            handle.collection('users').insert({ _id: '1', name: 'late' })
+        ).rejects.toThrow(DatabaseError);
+        expect(await names()).toEqual([]);
+    });
+
+    test('upgrade functions can open nested transactions', async () => {
+        const accounts = db.collection('accounts', userSchema, {
+            version: 2,
+            upgrade: {
+                2: async (collection, ctx: UpgradeContext) => {
+                    await collection.insert({ _id: 'a', name: 'kept' });
+                    await ctx
+                        .transaction(async () => {
+                            await collection.insert({ _id: 'b', name: 'dropped' });
+                            throw new Error('undo');
+                        })
+                        .catch(() => {});
+                    await db.transaction(async (tx) => {
+                        await tx
+                            .collection('accounts')
+                            .insert({ _id: 'c', name: 'nested' });
+                    });
+                },
+            },
+        });
+        await accounts.waitForInitialization();
+
+        const rows = await accounts.query().orderBy('_id').toArray();
+        expect(rows.map((r) => r.name)).toEqual(['kept', 'nested']);
+    });
+});
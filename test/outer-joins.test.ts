@@ -0,0 +1,208 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { createDB } from '../src/index';
+import { ValidationError } from '../src/errors';
+import { SQLTranslator } from '../src/sql-translator';
+import { supportsOuterJoins } from '../src/join-resolver';
+
+const authorSchema = z.object({
+    _id: z.string(),
+    name: z.string(),
+});
+
+const bookSchema = z.object({
+    _id: z.string(),
+    title: z.string(),
+    authorId: z.string().optional(),
+});
+
+describe('Outer joins and join row shapes', () => {
+    let db: ReturnType<typeof createDB>;
+    let authors: ReturnType<typeof db.collection<typeof authorSchema>>;
+
+    beforeEach(async () => {
+        db = createDB({ memory: true });
+        authors = db.collection('authors', authorSchema);
+        const books = db.collection('books', bookSchema);
+
+        await authors.insertBulk([
+            { _id: 'a1', name: 'Le Guin' },
+            { _id: 'a2', name: 'Unpublished' },
+        ]);
+        await books.insertBulk([
+            { _id: 'b1', title: 'Earthsea', authorId: 'a1' },
+            { _id: 'b2', title: 'Anonymous', authorId: 'nobody' },
+        ]);
+    });
+
+    afterEach(async () => {
+        await db.close();
+    });
+
+    const titles = (rows: any[]) =>
+        rows.map((r) => [r.authors?._id ?? null, r.books?._id ?? null]);
+
+    test('returns one entry per table, null for the missing side', async () => {
+        const left = await authors
+            .query()
+            .leftJoin('books', '_id', 'authorId')
+            .orderBy('authors._id')
+            .toArray();
+        expect(titles(left)).toEqual([
+            ['a1', 'b1'],
+            ['a2', null],
+        ]);
+        expect((left[0] as any).books.title).toBe('Earthsea');
+
+        const right = await authors
+            .query()
+            .rightJoin('books', '_id', 'authorId')
+            .orderBy('books._id')
+            .toArray();
+        expect(titles(right)).toEqual([
+            ['a1', 'b1'],
+            [null, 'b2'],
+        ]);
+    });
+
+    test('FULL joins keep unmatched rows from both sides', async () => {
+        const rows = await authors
+            .query()
+            .fullJoin('books', '_id', 'authorId')
+            .toArray();
+        expect(titles(rows).map(String).sort()).toEqual([
+            ',b2',
+            'a1,b1',
+            'a2,',
+        ]);
+    });
+
+    test('projections use field names or explicit keys', async () => {
+        const rows = await authors
+            .query()
+            .leftJoin('books', '_id', 'authorId')
+            .select('authors.name as author', 'books.title')
+            .orderBy('authors._id')
+            .toArray();
+        expect(rows).toEqual([
+            { author: 'Le Guin', title: 'Earthsea' },
+            { author: 'Unpublished' },
+        ]);
+
+        await expect(
+            authors
+                .query()
+                .join('authors as other', '_id', '_id')
+                .select('authors.name', 'other.name')
+                .toArray()
+        ).rejects.toThrow(ValidationError);
+    });
+
+    test('orderBy() on a select() key sorts by the selected value', async () => {
+        const books = db.collection<typeof bookSchema>('books');
+        // authorId names the selected title here, not the stored field
+        const byTitle = await books
+            .query()
+            .select('_id', 'title as authorId')
+            .orderBy('authorId')
+            .toArray();
+        expect(byTitle.map((r) => r._id)).toEqual(['b2', 'b1']);
+
+        const joined = await authors
+            .query()
+            .leftJoin('books', '_id', 'authorId')
+            .select('authors.name as author', 'books.title')
+            .orderBy('author' as any, 'desc')
+            .toArray();
+        expect(joined.map((r: any) => r.author)).toEqual([
+            'Unpublished',
+            'Le Guin',
+        ]);
+    });
+});
+
+describe('Outer join emulation', () => {
+    let db: ReturnType<typeof createDB>;
+
+    beforeEach(async () => {
+        db = createDB({ memory: true });
+        const left = db.collection('l', z.object({ _id: z.string(), k: z.number() }));
+        const right = db.collection('r', z.object({ _id: z.string(), k: z.number() }));
+        await left.insertBulk([
+            { _id: 'l1', k: 1 },
+            { _id: 'l2', k: 2 },
+            { _id: 'l3', k: 3 },
+        ]);
+        await right.insertBulk([
+            { _id: 'r2', k: 2 },
+            { _id: 'r4', k: 4 },
+        ]);
+    });
+
+    afterEach(async () => {
+        await db.close();
+    });
+
+    const run = async (type: 'RIGHT' | 'FULL', native: boolean, extra = {}) => {
+        const { sql, params } = SQLTranslator.buildSelectQuery(
+            'l',
+            {
+                filters: [],
+                joins: [
+                    { type, collection: 'r', condition: { left: 'k', right: 'k' } },
+                ],
+                selectFields: ['l._id as left', 'r._id as right'],
+                ...extra,
+            },
+            {},
+            undefined,
+            native
+        );
+        return (db as any).driver.query(sql, params);
+    };
+
+    test('matches native RIGHT and FULL joins', async () => {
+        expect(await run('RIGHT', false)).toEqual(await run('RIGHT', true));
+
+        const options = {
+            orderBy: [
+                { field: 'r._id', direction: 'desc' },
+                { field: 'l._id', direction: 'asc' },
+            ],
+            limit: 3,
+            offset: 1,
+        };
+        const emulated = await run('FULL', false, options);
+        expect(emulated).toEqual(await run('FULL', true, options));
+        expect(emulated).toEqual([
+            { left: 'l2', right: 'r2' },
+            { left: 'l1', right: null },
+            { left: 'l3', right: null },
+        ]);
+    });
+
+    test('orders emulated joins by select() keys', async () => {
+        const orderBy = [{ field: 'left', direction: 'desc' }];
+        const emulated = await run('FULL', false, { orderBy });
+        expect(emulated).toEqual(await run('FULL', true, { orderBy }));
+        expect(emulated.map((r: any) => r.left)).toEqual([
+            'l3',
+            'l2',
+            'l1',
+            null,
+        ]);
+    });
+
+    test('keeps filters on both halves of an emulated FULL join', async () => {
+        const filters = [{ field: 'r.k', operator: 'gt', value: 2 }];
+        const emulated = await run('FULL', false, { filters });
+        expect(emulated).toEqual([{ left: null, right: 'r4' }]);
+        expect(emulated).toEqual(await run('FULL', true, { filters }));
+    });
+
+    test('detects native support from the SQLite version', () => {
+        expect(supportsOuterJoins('3.39.0')).toBe(true);
+        expect(supportsOuterJoins('3.38.5')).toBe(false);
+        expect(supportsOuterJoins('4.0.0')).toBe(true);
+    });
+});
@@ -0,0 +1,352 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { createDB, expr, field, QueryBuilder } from '../src/index';
+import { ValidationError } from '../src/errors';
+
+const userSchema = z.object({
+    _id: z.string(),
+    name: z.string(),
+    age: z.number(),
+    teamId: z.string(),
+    joinedAt: z.date(),
+    tags: z.array(z.string()).default([]),
+});
+
+const teamSchema = z.object({
+    _id: z.string(),
+    city: z.string(),
+});
+
+const postSchema = z.object({
+    _id: z.string(),
+    authorId: z.string(),
+    likes: z.number(),
+});
+
+describe('QueryBuilder.toJSON() / fromJSON()', () => {
+    let db: ReturnType<typeof createDB>;
+    let users: ReturnType<typeof db.collection<typeof userSchema>>;
+    let teams: ReturnType<typeof db.collection<typeof teamSchema>>;
+    let posts: ReturnType<typeof db.collection<typeof postSchema>>;
+
+    beforeEach(async () => {
+        db = createDB({ memory: true });
+        teams = db.collection('teams', teamSchema);
+        posts = db.collection('posts', postSchema);
+        users = db.collection('users', userSchema, {
+            constrainedFields: { age: {} },
+        });
+        await teams.insertBulk([
+            { _id: 't1', city: 'Oslo' },
+            { _id: 't2', city: 'Rome' },
+        ]);
+        await users.insertBulk([
+            {
+                _id: 'u1',
+                name: 'ada',
+                age: 36,
+                teamId: 't1',
+                joinedAt: new Date('2024-01-01T00:00:00Z'),
+                tags: ['math'],
+            },
+            {
+                _id: 'u2',
+                name: 'bob',
+                age: 25,
+                teamId: 't2',
+                joinedAt: new Date('2024-06-01T00:00:00Z'),
+            },
+            {
+                _id: 'u3',
+                name: 'cy',
+                age: 41,
+                teamId: 't1',
+                joinedAt: new Date('2023-03-01T00:00:00Z'),
+                tags: ['art', 'math'],
+            },
+        ]);
+        await posts.insertBulk([
+            { _id: 'p1', authorId: 'u1', likes: 10 },
+            { _id: 'p2', authorId: 'u3', likes: 2 },
+        ]);
+    });
+
+    afterEach(async () => {
+        await db.close();
+    });
+
+    // Ship the query as a string, the way it travels over the wire
+    const roundTrip = <T>(query: QueryBuilder<T>) =>
+        users.fromJSON(JSON.stringify(query));
+
+    test('round-trips filters, groups, subqueries and pagination', async () => {
+        const query = users
+            .query()
+            .where(expr.field('joinedAt'))
+            .gte(new Date('2023-06-01T00:00:00Z'))
+            .where('tags')
+            .exists()
+            .or((q) => q.where('name').startsWith('c'))
+            .where('_id')
+            .inSubquery(
+                posts.query().where('likes').gt(5).select('authorId'),
+                'posts'
+            )
+            .orderBy('age', 'desc')
+            .limit(5)
+            .offset(0);
+
+        const json = query.toJSON();
+        expect(json.version).toBe(1);
+        expect(JSON.stringify(query)).toContain(
+            '{"__type":"Date","value":"2023-06-01T00:00:00.000Z"}'
+        );
+
+        const restored = roundTrip(query);
+        // Dates come back as Dates
+        expect(restored.getOptions()).toEqual(query.getOptions());
+        expect((await restored.toArray()).map((u) => u._id)).toEqual(['u1']);
+
+        const page = await users.query().orderBy('age').paginate({ first: 1 });
+        const next = users
+            .query()
+            .orderBy('age')
+            .after(page.pageInfo.endCursor!);
+        expect(roundTrip(next).toArraySync()).toEqual(next.toArraySync());
+    });
+
+    test('round-trips joins, aggregates, expressions and Mongo-style filters', async () => {
+        const joined = users
+            .query()
+            .join('teams', 'teamId', '_id')
+            .where('city')
+            .eq('Oslo')
+            .where(expr.mul('users.age', 2))
+            .gt(field('users.age'))
+            .select((q) => [
+                'users.name',
+                q.upper(q.field('city')).as('city'),
+                q
+                    .rank()
+                    .over({
+                        orderBy: { field: 'users.age', direction: 'desc' },
+                    })
+                    .as('seniority'),
+            ]);
+        expect(roundTrip(joined).getOptions()).toEqual(joined.getOptions());
+
+        const grouped = users
+            .query()
+            .groupBy('teamId')
+            .count('*', 'members')
+            .avg('age', 'avgAge')
+            .having('members')
+            .gt(1)
+            .orderBy('teamId');
+        expect(await roundTrip(grouped).toArray()).toEqual(
+            await grouped.toArray()
+        );
+
+        const mongo = QueryBuilder.fromFilter(
+            {
+                $nor: [{ age: { $lt: 30 } }],
+                tags: { $elemMatch: { $eq: 'art' } },
+                name: { $regex: '^C', $options: 'i' },
+            },
+            { allowRegex: true }
+        );
+        const restored = users.fromJSON(mongo.toJSON());
+        expect(restored.getOptions()).toEqual(mongo.getOptions());
+        expect((await restored.toArray()).map((u) => u._id)).toEqual(['u3']);
+    });
+
+    test('enforces the field and collection allowlists', () => {
+        const allowed = {
+            allowedFields: ['name', 'age', 'teams'],
+            allowedCollections: ['teams'],
+        };
+        const ok = users
+            .query()
+            .join('teams', 'teamId', 'teams._id')
+            .where('teams.city')
+            .eq('Oslo');
+        expect(() =>
+            QueryBuilder.fromJSON(ok.toJSON(), {
+                ...allowed,
+                allowedFields: [...allowed.allowedFields, 'teamId'],
+            })
+        ).not.toThrow();
+
+        const cases: [QueryBuilder<any>, string][] = [
+            [users.query().where('teamId').eq('t1'), "Field 'teamId'"],
+            [users.query().orderBy('joinedAt'), "Field 'joinedAt'"],
+            [users.query().select('name', 'joinedAt'), "Field 'joinedAt'"],
+            [
+                users.query().where(expr.field('joinedAt')).exists(),
+                "Field 'joinedAt'",
+            ],
+            [
+                users
+                    .query()
+                    .where('_id')
+                    .inSubquery(posts.query().select('authorId'), 'posts'),
+                "Field '_id'",
+            ],
+            [
+                users
+                    .query()
+                    .where('name')
+                    .existsSubquery(posts.query(), 'posts'),
+                "Collection 'posts' is not allowed",
+            ],
+        ];
+        for (const [query, message] of cases) {
+            expect(() =>
+                QueryBuilder.fromJSON(query.toJSON(), allowed)
+            ).toThrow(message);
+        }
+
+        // Aggregate and computed column aliases are not field paths
+        const grouped = users
+            .query()
+            .groupBy('age')
+            .count('*', 'n')
+            .having('n')
+            .gt(1)
+            .orderBy('n' as any);
+        expect(() =>
+            QueryBuilder.fromJSON(grouped.toJSON(), { allowedFields: ['age'] })
+        ).not.toThrow();
+
+        // Soft-deleted documents need an explicit opt-in
+        for (const query of [
+            users.query().withDeleted(),
+            users.query().where('name').eq('Ada').onlyDeleted(),
+        ]) {
+            expect(() =>
+                QueryBuilder.fromJSON(query.toJSON(), {
+                    allowedFields: ['name'],
+                })
+            ).toThrow('cannot read deleted documents');
+            expect(
+                QueryBuilder.fromJSON(query.toJSON(), {
+                    allowedFields: ['name'],
+                    allowDeleted: true,
+                }).getOptions().deleted
+            ).toBe(query.getOptions().deleted);
+        }
+    });
+
+    test('select() keys and join conditions do not widen the allowlists', async () => {
+        // Sorting by a key orders by the selected field, not a hidden one
+        const aliased = await users
+            .fromJSON(
+                {
+                    version: 1,
+                    query: {
+                        filters: [],
+                        selectFields: ['name as joinedAt'],
+                        orderBy: [{ field: 'joinedAt', direction: 'desc' }],
+                    },
+                },
+                { allowedFields: ['name'] }
+            )
+            .toArray();
+        expect(aliased).toEqual([
+            { joinedAt: 'cy' },
+            { joinedAt: 'bob' },
+            { joinedAt: 'ada' },
+        ]);
+
+        // The right side of a join is a field of the joined collection
+        const joined = users.query().join('teams', 'teamId', '_id');
+        expect(() =>
+            QueryBuilder.fromJSON(joined.toJSON(), {
+                allowedFields: ['teamId', 'teams._id'],
+            })
+        ).not.toThrow();
+        expect(() =>
+            QueryBuilder.fromJSON(
+                users.query().join('teams', 'teamId', 'city').toJSON(),
+                { allowedFields: ['teamId', 'city'] }
+            )
+        ).toThrow("Field 'teams.city'");
+    });
+
+    test('rejects malformed and unsafe input', () => {
+        const valid = users.query().where('age').gt(30).toJSON();
+        const withQuery = (query: any) => ({ version: 1 as const, query });
+
+        expect(() => QueryBuilder.fromJSON('{oops')).toThrow(
+            'Serialized query is not valid JSON'
+        );
+        expect(() =>
+            QueryBuilder.fromJSON({ ...valid, version: 2 } as any)
+        ).toThrow('Unsupported serialized query version 2');
+        expect(() =>
+            QueryBuilder.fromJSON(
+                withQuery({
+                    filters: [{ field: 'age', operator: 'raw', value: 1 }],
+                })
+            )
+        ).toThrow(ValidationError);
+        expect(() =>
+            QueryBuilder.fromJSON(
+                withQuery({
+                    filters: [
+                        {
+                            field: "age') OR 1=1 --",
+                            operator: 'eq',
+                            value: 1,
+                        },
+                    ],
+                })
+            )
+        ).toThrow('Invalid field path');
+        expect(() =>
+            QueryBuilder.fromJSON(
+                withQuery({
+                    filters: [],
+                    selectExpressions: [
+                        {
+                            alias: 'x" FROM sqlite_master --',
+                            expression: { kind: 'value', value: 1 },
+                        },
+                    ],
+                })
+            )
+        ).toThrow('Invalid output field');
+        expect(() =>
+            QueryBuilder.fromJSON(
+                withQuery({
+                    filters: [],
+                    joins: [
+                        {
+                            type: 'INNER',
+                            collection: 'teams',
+                            condition: { left: 'teamId', right: '_id' },
+                            constrainedFields: { x: {} },
+                        },
+                    ],
+                })
+            )
+        ).toThrow("Invalid serialized query at 'joins.0'");
+        expect(() =>
+            QueryBuilder.fromJSON(
+                withQuery({
+                    filters: [
+                        {
+                            field: 'name',
+                            operator: 'regex',
+                            value: 'a',
+                            value2: 'g',
+                        },
+                    ],
+                })
+            )
+        ).toThrow("Unsupported regex flags 'g'");
+        expect(() =>
+            QueryBuilder.fromJSON(withQuery({ filters: [], limit: -1 }))
+        ).toThrow("Invalid serialized query at 'limit'");
+    });
+});
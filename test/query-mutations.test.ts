@@ -0,0 +1,218 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { createDB } from '../src/index';
+import { ValidationError } from '../src/errors';
+import { SQLTranslator } from '../src/sql-translator';
+import type { Plugin } from '../src/plugin-system';
+
+const jobSchema = z.object({
+    _id: z.string(),
+    name: z.string(),
+    status: z.enum(['queued', 'running', 'stale', 'done']),
+    attempts: z.number().int().min(0),
+    tags: z.array(z.string()).default([]),
+    meta: z
+        .object({
+            owner: z.string().optional(),
+            retries: z.number().optional(),
+        })
+        .optional(),
+});
+
+describe('Query-based mutations', () => {
+    let db: ReturnType<typeof createDB>;
+    let jobs: ReturnType<typeof db.collection<typeof jobSchema>>;
+    let hookCalls: { hook: string; operation: string; ids: string[] }[];
+
+    beforeEach(async () => {
+        db = createDB({ memory: true });
+        hookCalls = [];
+        const recorder: Plugin = {
+            name: 'recorder',
+            onBeforeUpdate: (ctx) => {
+                hookCalls.push({
+                    hook: 'beforeUpdate',
+                    operation: ctx.operation,
+                    ids: ctx.data.ids,
+                });
+            },
+            onAfterUpdate: (ctx) => {
+                hookCalls.push({
+                    hook: 'afterUpdate',
+                    operation: ctx.operation,
+                    ids: ctx.data.ids,
+                });
+            },
+            onBeforeDelete: (ctx) => {
+                hookCalls.push({
+                    hook: 'beforeDelete',
+                    operation: ctx.operation,
+                    ids: ctx.data.ids,
+                });
+            },
+            onAfterDelete: (ctx) => {
+                hookCalls.push({
+                    hook: 'afterDelete',
+                    operation: ctx.operation,
+                    ids: ctx.data.ids,
+                });
+            },
+        };
+        db.use(recorder);
+        jobs = db.collection('jobs', jobSchema, {
+            constrainedFields: {
+                status: { type: 'TEXT' },
+                attempts: { type: 'INTEGER' },
+                'meta.owner': { type: 'TEXT', nullable: true },
+            },
+        });
+
+        await jobs.insertBulk([
+            { name: 'a', status: 'stale', attempts: 1, meta: { owner: 'x' } },
+            { name: 'b', status: 'stale', attempts: 2 },
+            { name: 'c', status: 'running', attempts: 3 },
+            { name: 'd', status: 'done', attempts: 4 },
+        ]);
+    });
+
+    afterEach(async () => {
+        await db.close();
+    });
+
+    test('delete() removes matching documents and returns the count', async () => {
+        const staleIds = (await jobs.where('status').eq('stale').toArray())
+            .map((j) => j._id)
+            .sort();
+
+        const deleted = await jobs.where('status').eq('stale').delete();
+
+        expect(deleted).toBe(2);
+        expect((await jobs.toArray()).map((j) => j.name).sort()).toEqual([
+            'c',
+            'd',
+        ]);
+        const before = hookCalls.find((c) => c.hook === 'beforeDelete')!;
+        expect(before.operation).toBe('deleteMany');
+        expect(before.ids.slice().sort()).toEqual(staleIds);
+        expect(hookCalls.some((c) => c.hook === 'afterDelete')).toBe(true);
+    });
+
+    test('delete() with no matches returns 0 and skips hooks', async () => {
+        expect(await jobs.where('name').eq('missing').delete()).toBe(0);
+        expect(hookCalls).toHaveLength(0);
+    });
+
+    test('delete() respects orderBy and limit', async () => {
+        const deleted = await jobs
+            .query()
+            .orderBy('attempts', 'desc')
+            .limit(2)
+            .delete();
+        expect(deleted).toBe(2);
+        expect((await jobs.toArray()).map((j) => j.name).sort()).toEqual([
+            'a',
+            'b',
+        ]);
+    });
+
+    test('update() applies operators in one statement and keeps columns in sync', async () => {
+        const updated = await jobs
+            .where('status')
+            .eq('stale')
+            .update({
+                $set: { status: 'queued', 'meta.owner': 'sweeper' },
+                $inc: { attempts: 1, 'meta.retries': 1 },
+            });
+
+        expect(updated).toBe(2);
+        const queued = await jobs
+            .where('status')
+            .eq('queued')
+            .orderBy('name')
+            .toArray();
+        expect(queued.map((j) => [j.name, j.attempts])).toEqual([
+            ['a', 2],
+            ['b', 3],
+        ]);
+        // Missing parent objects are created on the fly
+        expect(queued.map((j) => j.meta)).toEqual([
+            { owner: 'sweeper', retries: 1 },
+            { owner: 'sweeper', retries: 1 },
+        ]);
+        expect(await jobs.where('attempts').gte(2).executeCount()).toBe(4);
+        expect(await jobs.where('meta.owner').eq('sweeper').executeCount()).toBe(2);
+
+        const before = hookCalls.find((c) => c.hook === 'beforeUpdate')!;
+        expect(before.operation).toBe('updateMany');
+        expect(before.ids).toHaveLength(2);
+    });
+
+    test('update() accepts a plain partial document', async () => {
+        const updated = await jobs.where('status').eq('running').update({
+            status: 'done',
+        });
+        expect(updated).toBe(1);
+        expect(await jobs.where('status').eq('done').executeCount()).toBe(2);
+    });
+
+    test('update() falls back to per-document updates for array operators', async () => {
+        const updated = await jobs
+            .where('attempts')
+            .lte(2)
+            .update({ $push: { tags: 'retry' } });
+        expect(updated).toBe(2);
+        const tagged = await jobs.where('tags').contains('retry').toArray();
+        expect(tagged.map((j) => j.name).sort()).toEqual(['a', 'b']);
+    });
+
+    test('update() rolls back every document when validation fails', async () => {
+        await expect(
+            jobs.query().update({ $inc: { attempts: -2 } })
+        ).rejects.toThrow(ValidationError);
+        const attempts = (await jobs.query().orderBy('name').toArray()).map(
+            (j) => j.attempts
+        );
+        expect(attempts).toEqual([1, 2, 3, 4]);
+    });
+
+    test('updateMany shares the query-based implementation', async () => {
+        const count = await jobs.updateMany(jobs.where('status').eq('done'), {
+            $mul: { attempts: 2 },
+        });
+        expect(count).toBe(1);
+        expect((await jobs.where('name').eq('d').first())!.attempts).toBe(8);
+    });
+
+    test('rejects aggregate and join queries', async () => {
+        await expect(jobs.query().count().delete()).rejects.toThrow(
+            ValidationError
+        );
+        await expect(
+            jobs.query().groupBy('status').update({ $set: { name: 'x' } })
+        ).rejects.toThrow(ValidationError);
+    });
+});
+
+describe('Query-based mutation SQL', () => {
+    test('builds DELETE ... WHERE from query filters', () => {
+        const { sql, params } = SQLTranslator.buildDeleteWhereQuery('jobs', {
+            filters: [{ field: 'status', operator: 'eq', value: 'stale' }],
+        });
+        expect(sql).toBe(
+            "DELETE FROM jobs WHERE json_extract(jobs.doc, '$.status') = ?"
+        );
+        expect(params).toEqual(['stale']);
+    });
+
+    test('routes limit through an _id subquery', () => {
+        const { sql, params } = SQLTranslator.buildOperatorUpdateWhereQuery(
+            'jobs',
+            { $set: { name: 'x' } },
+            { filters: [], limit: 5 }
+        );
+        expect(sql).toBe(
+            'UPDATE jobs SET doc = json_set(doc, ?, json(?)) WHERE _id IN (SELECT _id FROM jobs LIMIT ?)'
+        );
+        expect(params).toEqual(['$.name', '"x"', 5]);
+    });
+});
@@ -0,0 +1,280 @@
+import {
+    describe,
+    test,
+    expect,
+    beforeEach,
+    afterEach,
+    expectTypeOf,
+} from 'vitest';
+import { z } from 'zod';
+import { createDB } from '../src/index';
+import { ValidationError } from '../src/errors';
+
+const userSchema = z.object({
+    _id: z.string(),
+    name: z.string(),
+});
+
+const postSchema = z.object({
+    _id: z.string(),
+    title: z.string(),
+    authorId: z.string().optional(),
+});
+
+const commentSchema = z.object({
+    _id: z.string(),
+    postId: z.string(),
+    userId: z.string(),
+    body: z.string(),
+    votes: z.number(),
+});
+
+const tagSchema = z.object({
+    _id: z.string(),
+    label: z.string(),
+});
+
+const postTagSchema = z.object({
+    _id: z.string(),
+    postId: z.string(),
+    tagId: z.string(),
+});
+
+type User = z.infer<typeof userSchema>;
+type Comment = z.infer<typeof commentSchema>;
+
+const postRelations = {
+    author: {
+        type: 'belongsTo',
+        collection: 'users',
+        localField: 'authorId',
+        schema: userSchema,
+    },
+    comments: {
+        type: 'hasMany',
+        collection: 'comments',
+        foreignField: 'postId',
+        schema: commentSchema,
+    },
+    tags: {
+        type: 'manyToMany',
+        collection: 'tags',
+        through: 'postTags',
+        throughLocalField: 'postId',
+        throughForeignField: 'tagId',
+    },
+} as const;
+
+describe('Relations and populate()', () => {
+    let db: ReturnType<typeof createDB>;
+    let posts: ReturnType<
+        typeof db.collection<typeof postSchema, typeof postRelations>
+    >;
+    let queries: string[];
+
+    beforeEach(async () => {
+        db = createDB({ memory: true });
+        const users = db.collection('users', userSchema);
+        posts = db.collection('posts', postSchema, {
+            relations: postRelations,
+        });
+        const comments = db.collection('comments', commentSchema, {
+            relations: {
+                user: {
+                    type: 'belongsTo',
+                    collection: 'users',
+                    localField: 'userId',
+                },
+            },
+        });
+        const tags = db.collection('tags', tagSchema);
+        const postTags = db.collection('postTags', postTagSchema);
+
+        await users.insertBulk([
+            { _id: 'u1', name: 'Ada' },
+            { _id: 'u2', name: 'Linus' },
+        ]);
+        await posts.insertBulk([
+            { _id: 'p1', title: 'First', authorId: 'u1' },
+            { _id: 'p2', title: 'Second', authorId: 'u2' },
+            { _id: 'p3', title: 'Orphan' },
+        ]);
+        await comments.insertBulk([
+            { _id: 'c1', postId: 'p1', userId: 'u2', body: 'a', votes: 1 },
+            { _id: 'c2', postId: 'p1', userId: 'u1', body: 'b', votes: 5 },
+            { _id: 'c3', postId: 'p1', userId: 'u2', body: 'c', votes: 3 },
+            { _id: 'c4', postId: 'p2', userId: 'u1', body: 'd', votes: 2 },
+        ]);
+        await tags.insertBulk([
+            { _id: 't1', label: 'db' },
+            { _id: 't2', label: 'sqlite' },
+        ]);
+        await postTags.insertBulk([
+            { _id: 'l1', postId: 'p1', tagId: 't1' },
+            { _id: 'l2', postId: 'p1', tagId: 't2' },
+            { _id: 'l3', postId: 'p2', tagId: 't2' },
+        ]);
+
+        // Count statements issued against the driver
+        queries = [];
+        const driver = (db as any).driver;
+        const query = driver.query.bind(driver);
+        driver.query = (sql: string, params?: any[]) => {
+            queries.push(sql);
+            return query(sql, params);
+        };
+    });
+
+    afterEach(async () => {
+        await db.close();
+    });
+
+    test('belongsTo attaches the related document or null', async () => {
+        const result = await posts
+            .query()
+            .orderBy('_id')
+            .populate('author')
+            .toArray();
+        expectTypeOf(result[0].author).toEqualTypeOf<User | null>();
+
+        expect(result.map((p) => p.author?.name ?? null)).toEqual([
+            'Ada',
+            'Linus',
+            null,
+        ]);
+        expect(queries).toHaveLength(2);
+    });
+
+    test('hasMany applies orderBy and a per-parent limit', async () => {
+        const result = await posts
+            .query()
+            .orderBy('_id')
+            .populate('comments', (q) => q.orderBy('votes', 'desc').limit(2))
+            .toArray();
+        expectTypeOf(result[0].comments).toEqualTypeOf<Comment[]>();
+
+        expect(result.map((p) => p.comments.map((c) => c._id))).toEqual([
+            ['c2', 'c3'],
+            ['c4'],
+            [],
+        ]);
+        // The limit is applied in SQL, per post
+        expect(queries[1]).toContain('ROW_NUMBER() OVER (PARTITION BY');
+
+        const skipped = await posts
+            .query()
+            .orderBy('_id')
+            .populate('comments', (q) => q.orderBy('votes', 'desc').offset(1))
+            .toArray();
+        expect(skipped.map((p) => p.comments.map((c) => c._id))).toEqual([
+            ['c3', 'c1'],
+            [],
+            [],
+        ]);
+    });
+
+    test('manyToMany loads through the join collection', async () => {
+        const result = await posts
+            .query()
+            .orderBy('_id')
+            .populate('tags', (q) => q.orderBy('label'))
+            .toArray();
+
+        expect(result.map((p) => p.tags.map((t: any) => t.label))).toEqual([
+            ['db', 'sqlite'],
+            ['sqlite'],
+            [],
+        ]);
+        expect(queries).toHaveLength(2);
+
+        const first = await posts
+            .query()
+            .orderBy('_id')
+            .populate('tags', (q) => q.orderBy('label', 'desc').limit(1))
+            .toArray();
+        expect(first.map((p) => p.tags.map((t: any) => t.label))).toEqual([
+            ['sqlite'],
+            ['sqlite'],
+            [],
+        ]);
+    });
+
+    test('batches parent keys in chunks', async () => {
+        await posts.insertBulk(
+            Array.from({ length: 1200 }, (_, i) => ({
+                _id: `bulk${String(i).padStart(4, '0')}`,
+                title: `Bulk ${i}`,
+                authorId: i % 2 === 0 ? 'u1' : 'u2',
+            }))
+        );
+        queries = [];
+
+        const result = await posts
+            .where('_id')
+            .startsWith('bulk')
+            .orderBy('_id')
+            .populate('comments')
+            .populate('author')
+            .toArray();
+        expect(result).toHaveLength(1200);
+        expect(result.every((p) => p.comments.length === 0)).toBe(true);
+        expect(result[1].author!.name).toBe('Linus');
+        // main query + 3 chunks of comments + 1 of authors
+        expect(queries).toHaveLength(5);
+    });
+
+    test('nested populate batches each level', async () => {
+        const result = await posts
+            .where('_id')
+            .in(['p1', 'p2'])
+            .orderBy('_id')
+            .populate('author')
+            .populate('comments', (q) =>
+                q.where('votes').gte(2).orderBy('votes').populate('user')
+            )
+            .toArray();
+
+        expect(result[0].author!.name).toBe('Ada');
+        expect(
+            result[0].comments.map((c: any) => [c._id, c.user.name])
+        ).toEqual([
+            ['c3', 'Linus'],
+            ['c2', 'Ada'],
+        ]);
+        expect(result[1].comments.map((c: any) => c.user.name)).toEqual([
+            'Ada',
+        ]);
+        // main query + author + comments + comment users
+        expect(queries).toHaveLength(4);
+    });
+
+    test('works with first() and paginate()', async () => {
+        const post = await posts
+            .where('_id')
+            .eq('p2')
+            .populate('author')
+            .first();
+        expect(post!.author!.name).toBe('Linus');
+
+        const page = await posts
+            .query()
+            .orderBy('_id')
+            .populate('tags')
+            .paginate({ first: 1 });
+        expect(page.items[0].tags).toHaveLength(2);
+        expect(page.pageInfo.hasNextPage).toBe(true);
+    });
+
+    test('rejects unknown relations and unsupported queries', async () => {
+        await expect(
+            // @ts-expect-error editor is not a declared relation
+            posts.query().populate('editor').toArray()
+        ).rejects.toThrow("Unknown relation 'editor'");
+        await expect(
+            posts.query().select('title').populate('author').toArray()
+        ).rejects.toThrow(ValidationError);
+        expect(() => posts.query().populate('author').toArraySync()).toThrow(
+            ValidationError
+        );
+    });
+});
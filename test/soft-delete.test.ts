@@ -0,0 +1,254 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { z } from 'zod';
+import { createDB } from '../src/index';
+import { NotFoundError, ValidationError } from '../src/errors';
+
+const noteSchema = z.object({
+    _id: z.string(),
+    title: z.string(),
+    body: z.string(),
+    authorId: z.string().optional(),
+});
+
+const authorSchema = z.object({
+    _id: z.string(),
+    name: z.string(),
+});
+
+describe('Soft delete', () => {
+    let db: ReturnType<typeof createDB>;
+    let notes: ReturnType<typeof db.collection<typeof noteSchema>>;
+
+    beforeEach(async () => {
+        db = createDB({ memory: true });
+        notes = db.collection('notes', noteSchema, {
+            softDelete: true,
+            fullText: ['title', 'body'],
+        });
+        await notes.insertBulk([
+            { _id: 'a', title: 'Alpha', body: 'first note' },
+            { _id: 'b', title: 'Beta', body: 'second note' },
+            { _id: 'c', title: 'Gamma', body: 'third note' },
+        ]);
+    });
+
+    afterEach(async () => {
+        await db.close();
+    });
+
+    const ids = (docs: { _id: string }[]) => docs.map((d) => d._id).sort();
+
+    test('delete stamps _deletedAt instead of removing the row', async () => {
+        expect(await notes.delete('a')).toBe(true);
+
+        expect(await notes.findById('a')).toBeNull();
+        expect(ids(await notes.toArray())).toEqual(['b', 'c']);
+        expect(await notes.count()).toBe(2);
+        expect(await notes.where('title').eq('Alpha').executeCount()).toBe(0);
+
+        const rows = await db.query(
+            'SELECT _deletedAt FROM notes WHERE _id = ?',
+            ['a']
+        );
+        expect(typeof rows[0]._deletedAt).toBe('string');
+    });
+
+    test('deleting a missing or already deleted document changes nothing', async () => {
+        await notes.delete('a');
+        const [before] = await db.query(
+            'SELECT _deletedAt FROM notes WHERE _id = ?',
+            ['a']
+        );
+        const deletes: string[] = [];
+        db.use({
+            name: 'deletes',
+            onAfterDelete: (context: any) => {
+                deletes.push(context.data._id);
+            },
+        });
+        const notified: string[] = [];
+        const feed = (notes as any).changeFeed;
+        const notify = feed.notify.bind(feed);
+        feed.notify = (name: string) => {
+            notified.push(name);
+            notify(name);
+        };
+
+        expect(await notes.delete('a')).toBe(false);
+        expect(await notes.delete('missing')).toBe(false);
+        expect(await notes.deleteBulk(['a', 'b', 'missing'])).toBe(1);
+
+        expect(deletes).toEqual(['b']);
+        expect(notified).toEqual(['notes']);
+        const [after] = await db.query(
+            'SELECT _deletedAt FROM notes WHERE _id = ?',
+            ['a']
+        );
+        expect(after._deletedAt).toBe(before._deletedAt);
+    });
+
+    test('withDeleted() and onlyDeleted() widen the scope', async () => {
+        await notes.deleteBulk(['a', 'b']);
+
+        expect(ids(await notes.query().withDeleted().toArray())).toEqual([
+            'a',
+            'b',
+            'c',
+        ]);
+        const deleted = await notes.query().onlyDeleted().toArray();
+        expect(ids(deleted)).toEqual(['a', 'b']);
+        expect(deleted[0]._deletedAt).toEqual(expect.any(String));
+        expect(
+            await notes.where('title').eq('Beta').onlyDeleted().executeCount()
+        ).toBe(1);
+    });
+
+    test('query deletes are soft and only touch live rows', async () => {
+        await notes.delete('a');
+        const [before] = await db.query(
+            'SELECT _deletedAt FROM notes WHERE _id = ?',
+            ['a']
+        );
+
+        expect(await notes.query().withDeleted().delete()).toBe(3);
+        expect(await notes.count()).toBe(0);
+        const [after] = await db.query(
+            'SELECT _deletedAt FROM notes WHERE _id = ?',
+            ['a']
+        );
+        // Already-deleted rows keep their original timestamp
+        expect(after._deletedAt).toBe(before._deletedAt);
+
+        expect(
+            await notes.where('title').eq('Beta').update({ body: 'edited' })
+        ).toBe(0);
+    });
+
+    test('restore() brings a document back', async () => {
+        await notes.delete('b');
+        const restored = await notes.restore('b');
+        expect(restored).toEqual({
+            _id: 'b',
+            title: 'Beta',
+            body: 'second note',
+        });
+        expect(await notes.findById('b')).toEqual(restored);
+
+        await expect(notes.restore('b')).rejects.toThrow(NotFoundError);
+        await expect(notes.restore('missing')).rejects.toThrow(NotFoundError);
+    });
+
+    test('writes to deleted documents behave as if they were gone', async () => {
+        await notes.delete('a');
+        await expect(notes.put('a', { title: 'x' })).rejects.toThrow(
+            NotFoundError
+        );
+        await expect(
+            notes.update('a', { $set: { title: 'x' } })
+        ).rejects.toThrow(NotFoundError);
+
+        // Upserting over a deleted document revives it
+        await notes.upsert('a', { title: 'Alpha 2', body: 'revived' });
+        expect(await notes.findById('a')).toMatchObject({ title: 'Alpha 2' });
+    });
+
+    test('full-text search hides deleted documents until restored', async () => {
+        await notes.delete('a');
+        expect(
+            ids((await notes.search('first')).map((r) => r.document))
+        ).toEqual([]);
+        await notes.restore('a');
+        expect(
+            ids((await notes.search('first')).map((r) => r.document))
+        ).toEqual(['a']);
+    });
+
+    test('purgeDeleted() removes old deleted rows for good', async () => {
+        await notes.deleteBulk(['a', 'b']);
+        await db.exec(
+            `UPDATE notes SET _deletedAt = '2000-01-01T00:00:00.000Z' WHERE _id = 'a'`
+        );
+
+        expect(
+            await notes.purgeDeleted({ olderThan: 30 * 24 * 60 * 60 * 1000 })
+        ).toBe(1);
+        expect(ids(await notes.query().withDeleted().toArray())).toEqual([
+            'b',
+            'c',
+        ]);
+
+        expect(await notes.purgeDeleted()).toBe(1);
+        expect(ids(await notes.query().withDeleted().toArray())).toEqual(['c']);
+        expect(
+            (await db.query('SELECT COUNT(*) AS n FROM notes_fts'))[0].n
+        ).toBe(1);
+
+        await expect(notes.purgeDeleted({ olderThan: -1 })).rejects.toThrow(
+            ValidationError
+        );
+    });
+
+    test('deleted rows never join', async () => {
+        const authors = db.collection('authors', authorSchema, {
+            softDelete: true,
+        });
+        await authors.insertBulk([
+            { _id: 'u1', name: 'Ann' },
+            { _id: 'u2', name: 'Ben' },
+        ]);
+        await notes.put('a', { authorId: 'u1' });
+        await notes.put('b', { authorId: 'u2' });
+        await authors.delete('u2');
+
+        const rows = await notes
+            .query()
+            .join('authors', 'authorId', '_id')
+            .toArray();
+        expect(rows.map((r: any) => r.authors.name)).toEqual(['Ann']);
+    });
+
+    test('soft-delete methods require softDelete: true', async () => {
+        const plain = db.collection('plain', authorSchema);
+        await expect(plain.restore('x')).rejects.toThrow(ValidationError);
+        await expect(plain.purgeDeleted()).rejects.toThrow(ValidationError);
+        await expect(plain.query().onlyDeleted().toArray()).rejects.toThrow(
+            'onlyDeleted() requires softDelete: true'
+        );
+    });
+});
+
+describe('Enabling soft delete on an existing collection', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'skibba-soft-'));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('adds the column and keeps existing rows live', async () => {
+        const path = join(dir, 'notes.db');
+        const before = createDB({ path });
+        await before
+            .collection('notes', noteSchema)
+            .insert({ _id: 'a', title: 'Alpha', body: 'kept' });
+        await before.close();
+
+        const after = createDB({ path });
+        const notes = after.collection('notes', noteSchema, {
+            softDelete: true,
+            versioning: true,
+        });
+        expect(await notes.count()).toBe(1);
+        await notes.delete('a');
+        expect(await notes.count()).toBe(0);
+        // The soft delete is a write, so it bumps the revision
+        expect((await notes.query().withDeleted().first())?._rev).toBe(2);
+        await after.close();
+    });
+});
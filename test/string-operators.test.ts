@@ -0,0 +1,201 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { createDB, QueryBuilder } from '../src/index';
+import { ValidationError } from '../src/errors';
+import {
+    FOLD_FUNCTION,
+    REGEXP_FUNCTION,
+    registerStringFunctions,
+} from '../src/string-functions';
+
+const personSchema = z.object({
+    _id: z.string(),
+    name: z.string(),
+    city: z.string().optional(),
+    pets: z.array(z.object({ name: z.string() })).default([]),
+});
+
+describe('regex, glob and collation-aware string operators', () => {
+    let db: ReturnType<typeof createDB>;
+    let people: ReturnType<typeof db.collection<typeof personSchema>>;
+
+    beforeEach(async () => {
+        db = createDB({ memory: true });
+        people = db.collection('people', personSchema, {
+            constrainedFields: { city: {} },
+        });
+        await people.insertBulk([
+            { _id: 'p1', name: 'Éloïse', city: 'Zürich' },
+            { _id: 'p2', name: 'eloise', city: 'zurich' },
+            { _id: 'p3', name: 'ÉMILE', city: 'Berlin' },
+            { _id: 'p4', name: '100%_real', city: 'Oslo' },
+            { _id: 'p5', name: 'Straße', pets: [{ name: 'Rex' }] },
+        ]);
+    });
+
+    afterEach(async () => {
+        await db.close();
+    });
+
+    const ids = (docs: { _id: string }[]) => docs.map((d) => d._id).sort();
+
+    test('regex and glob', async () => {
+        expect(ids(await people.where('name').regex(/^é/i).toArray())).toEqual([
+            'p1',
+            'p3',
+        ]);
+        expect(
+            ids(await people.where('city').regex('rich$').toArray())
+        ).toEqual(['p1', 'p2']);
+        // GLOB is case-sensitive
+        expect(ids(await people.where('name').glob('[eÉ]*').toArray())).toEqual(
+            ['p1', 'p2', 'p3']
+        );
+        expect(() => people.where('name').regex('a', 'g')).toThrow(
+            "Unsupported regex flags 'g'"
+        );
+        expect(() => people.where('name').regex('(')).toThrow(ValidationError);
+    });
+
+    test('LIKE wildcards in startsWith, endsWith and contains match literally', async () => {
+        expect(
+            ids(await people.where('name').contains('%_').toArray())
+        ).toEqual(['p4']);
+        expect(
+            ids(await people.where('name').startsWith('100%').toArray())
+        ).toEqual(['p4']);
+        expect(await people.where('name').endsWith('_').toArray()).toEqual([]);
+        // like() keeps its wildcards
+        expect(ids(await people.where('name').like('%o_s%').toArray())).toEqual(
+            ['p1', 'p2']
+        );
+    });
+
+    test('collated filters', async () => {
+        const named = (collation: 'nocase' | 'noaccent' | 'nocase_noaccent') =>
+            people.where('name').collate(collation);
+        expect(ids(await named('nocase').eq('éloïse').toArray())).toEqual([
+            'p1',
+        ]);
+        expect(ids(await named('noaccent').eq('Eloise').toArray())).toEqual([
+            'p1',
+        ]);
+        expect(
+            ids(await named('nocase_noaccent').eq('ELOISE').toArray())
+        ).toEqual(['p1', 'p2']);
+        expect(
+            ids(
+                await named('nocase_noaccent')
+                    .in(['emile', 'STRASSE'])
+                    .toArray()
+            )
+        ).toEqual(['p3', 'p5']);
+        expect(
+            ids(await named('nocase_noaccent').startsWith('em').toArray())
+        ).toEqual(['p3']);
+        expect(
+            ids(
+                people
+                    .query()
+                    .where('city')
+                    .collate('nocase_noaccent')
+                    .eq('ZURICH')
+                    .or((q) => q.where('name').regex('ß'))
+                    .toArraySync()
+            )
+        ).toEqual(['p1', 'p2', 'p5']);
+        expect(
+            await people.deleteMany(
+                people.where('name').collate('nocase').eq('straße') as any
+            )
+        ).toBe(1);
+
+        expect(() => named('nocase').gt('a')).toThrow(
+            "Operator 'gt' does not take a collation"
+        );
+        expect(() => people.where('name').collate('turkish' as any)).toThrow(
+            "Unknown collation 'turkish'"
+        );
+    });
+
+    test('ilike folds Unicode case', async () => {
+        expect(
+            ids(await people.where('name').ilike('éloïse').toArray())
+        ).toEqual(['p1']);
+        expect(ids(people.where('name').ilike('%ÏS%').toArraySync())).toEqual([
+            'p1',
+        ]);
+        expect(ids(await people.where('name').ilike('é%').toArray())).toEqual([
+            'p1',
+            'p3',
+        ]);
+        expect(
+            ids(
+                await people
+                    .where('pets')
+                    .elemMatch((q) => q.where('name').ilike('REX'))
+                    .toArray()
+            )
+        ).toEqual(['p5']);
+    });
+
+    test('collated sorting', async () => {
+        // Folded names tie, so _id breaks the tie
+        const sorted = await people
+            .query()
+            .orderBy('name', 'asc', 'nocase_noaccent')
+            .orderBy('_id', 'desc')
+            .toArray();
+        expect(sorted.map((p) => p._id)).toEqual([
+            'p4',
+            'p2',
+            'p1',
+            'p3',
+            'p5',
+        ]);
+        const page = await people
+            .orderBy('name', 'desc', 'nocase_noaccent')
+            .limit(2)
+            .toArray();
+        expect(page.map((p) => p._id)).toEqual(['p5', 'p3']);
+
+        await expect(
+            people
+                .query()
+                .orderBy('name', 'asc', 'nocase')
+                .paginate({ first: 1 })
+        ).rejects.toThrow('Cursors do not support a collated orderBy');
+    });
+
+    test('registered functions and serialization', () => {
+        const fns = new Map<string, (...args: any[]) => any>();
+        registerStringFunctions({
+            function: (name, _options, fn) => fns.set(name, fn),
+        });
+        const fold = fns.get(FOLD_FUNCTION)!;
+        expect(fold('Ärger', 'nocase_noaccent')).toBe('arger');
+        expect(fold('Ärger', 'nocase')).toBe('ärger');
+        expect(fold('Ärger', 'noaccent')).toBe('Arger');
+        expect(fold(42, 'nocase')).toBe(42);
+        expect(fns.get(REGEXP_FUNCTION)!('^a', 'i', 'Ada')).toBe(1);
+        expect(fns.get(REGEXP_FUNCTION)!('^a', '', null)).toBe(0);
+
+        const query = people
+            .where('name')
+            .collate('nocase')
+            .contains('é')
+            .where('name')
+            .glob('*e')
+            .orderBy('city', 'desc', 'noaccent');
+        const restored = QueryBuilder.fromJSON(JSON.stringify(query));
+        expect(restored.getOptions()).toEqual(query.getOptions());
+
+        // Without SQL functions the collection cannot resolve these per element
+        expect(() =>
+            people
+                .where('pets')
+                .elemMatch((q) => q.where('name').regex('^R'))
+                .toArraySync()
+        ).toThrow(ValidationError);
+    });
+});
@@ -0,0 +1,151 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { z } from 'zod';
+import { createDB } from '../src/index';
+import { DatabaseError } from '../src/errors';
+import { MetricsPlugin } from '../src/plugins';
+import { getRetryDelay, isBusyError } from '../src/drivers/base';
+
+const jobSchema = z.object({
+    _id: z.string(),
+    worker: z.string(),
+});
+
+describe('Transaction retries and modes', () => {
+    let dir: string;
+    let worker: ReturnType<typeof createDB>;
+    let other: ReturnType<typeof createDB>;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'skibba-retry-'));
+        const path = join(dir, 'shared.db');
+        // Fail fast on locks so retries, not busy_timeout, do the waiting
+        worker = createDB({ path, sqlite: { busyTimeout: 0 } });
+        other = createDB({ path, sqlite: { busyTimeout: 0 } });
+        worker.collection('jobs', jobSchema);
+        other.collection('jobs', jobSchema);
+    });
+
+    afterEach(async () => {
+        await worker.close();
+        await other.close();
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    // Hold the write lock from the other connection for `ms`
+    const lockFor = (ms: number) => {
+        other.execSync('BEGIN IMMEDIATE');
+        return new Promise<void>((resolve) =>
+            setTimeout(() => {
+                other.execSync('COMMIT');
+                resolve();
+            }, ms)
+        );
+    };
+
+    test('replays the callback after busy errors', async () => {
+        const metrics = new MetricsPlugin();
+        worker.use(metrics);
+        const retries: number[] = [];
+        let calls = 0;
+
+        const released = lockFor(30);
+        const result = await worker.transaction(
+            async (tx) => {
+                calls++;
+                await tx.collection('jobs').insert({ _id: 'j1', worker: 'a' });
+                return 'done';
+            },
+            {
+                mode: 'immediate',
+                retries: 20,
+                backoff: { initialDelay: 5, maxDelay: 10 },
+                onRetry: ({ attempt }) => {
+                    retries.push(attempt);
+                },
+            }
+        );
+        await released;
+
+        expect(result).toBe('done');
+        // BEGIN IMMEDIATE fails before the callback runs
+        expect(calls).toBe(1);
+        expect(retries.length).toBeGreaterThan(0);
+        expect(retries[0]).toBe(1);
+        expect(metrics.getTransactionMetrics()).toEqual({
+            committed: 1,
+            failed: 0,
+            retries: retries.length,
+            retriedTransactions: 1,
+        });
+        expect(await other.collection('jobs').findById('j1')).toEqual({
+            _id: 'j1',
+            worker: 'a',
+        });
+    });
+
+    test('gives up with TRANSACTION_LOCK_TIMEOUT once retries run out', async () => {
+        const released = lockFor(50);
+        const attempt = worker.transaction(async () => {}, {
+            mode: 'immediate',
+            retries: 1,
+            backoff: { initialDelay: 1 },
+        });
+
+        await expect(attempt).rejects.toThrow(DatabaseError);
+        await expect(attempt).rejects.toMatchObject({
+            code: 'TRANSACTION_LOCK_TIMEOUT',
+        });
+        await released;
+    });
+
+    test('does not retry application errors', async () => {
+        let calls = 0;
+        await expect(
+            worker.transaction(
+                async () => {
+                    calls++;
+                    throw new Error('boom');
+                },
+                { retries: 3 }
+            )
+        ).rejects.toThrow('boom');
+        expect(calls).toBe(1);
+    });
+
+    test('rejects unknown modes', async () => {
+        await expect(
+            worker.transaction(async () => {}, { mode: 'eager' as any })
+        ).rejects.toThrow("Unknown transaction mode 'eager'");
+    });
+});
+
+describe('Retry helpers', () => {
+    test('backoff grows exponentially with jitter up to maxDelay', () => {
+        for (let i = 0; i < 20; i++) {
+            const first = getRetryDelay({ initialDelay: 10 }, 1);
+            expect(first).toBeGreaterThanOrEqual(5);
+            expect(first).toBeLessThanOrEqual(10);
+
+            const capped = getRetryDelay(
+                { initialDelay: 10, factor: 3, maxDelay: 50 },
+                5
+            );
+            expect(capped).toBeGreaterThanOrEqual(25);
+            expect(capped).toBeLessThanOrEqual(50);
+        }
+    });
+
+    test('recognizes SQLite busy errors', () => {
+        expect(
+            isBusyError(
+                new DatabaseError(
+                    'Failed to execute: SQLiteError: database is locked'
+                )
+            )
+        ).toBe(true);
+        expect(isBusyError(new Error('UNIQUE constraint failed'))).toBe(false);
+    });
+});
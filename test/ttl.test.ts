@@ -0,0 +1,240 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { createDB } from '../src/index';
+import type { PluginContext } from '../src/index';
+import { NotFoundError, ValidationError } from '../src/errors';
+
+const sessionSchema = z.object({
+    _id: z.string(),
+    userId: z.string(),
+});
+
+const tokenSchema = z.object({
+    _id: z.string(),
+    userId: z.string(),
+    expiresAt: z.date().optional(),
+});
+
+const PAST = '2000-01-01T00:00:00.000Z';
+const HOUR = 60 * 60 * 1000;
+
+describe('TTL collections', () => {
+    let db: ReturnType<typeof createDB>;
+
+    beforeEach(() => {
+        db = createDB({ memory: true, ttlSweep: false });
+    });
+
+    afterEach(async () => {
+        await db.close();
+    });
+
+    const ids = (docs: { _id: string }[]) => docs.map((d) => d._id).sort();
+
+    test('a fixed duration expires documents after their insert', async () => {
+        const sessions = db.collection('sessions', sessionSchema, {
+            ttl: HOUR,
+        });
+        await sessions.insertBulk([
+            { _id: 'a', userId: 'u1' },
+            { _id: 'b', userId: 'u1' },
+        ]);
+        const [{ _expiresAt }] = await db.query(
+            'SELECT _expiresAt FROM sessions WHERE _id = ?',
+            ['a']
+        );
+        const remaining = new Date(_expiresAt).getTime() - Date.now();
+        expect(remaining).toBeGreaterThan(HOUR - 60000);
+        expect(remaining).toBeLessThanOrEqual(HOUR);
+
+        await db.exec(`UPDATE sessions SET _expiresAt = ? WHERE _id = 'a'`, [
+            PAST,
+        ]);
+        expect(await sessions.findById('a')).toBeNull();
+        expect(ids(await sessions.toArray())).toEqual(['b']);
+        expect(await sessions.count()).toBe(1);
+        expect(await sessions.where('userId').eq('u1').executeCount()).toBe(1);
+        await expect(sessions.put('a', { userId: 'u2' })).rejects.toThrow(
+            NotFoundError
+        );
+
+        // Later writes keep the expiry set at insert
+        const [before] = await db.query(
+            'SELECT _expiresAt FROM sessions WHERE _id = ?',
+            ['b']
+        );
+        await sessions.put('b', { userId: 'u2' });
+        await sessions.update('b', { $set: { userId: 'u3' } });
+        const [after] = await db.query(
+            'SELECT _expiresAt FROM sessions WHERE _id = ?',
+            ['b']
+        );
+        expect(after._expiresAt).toBe(before._expiresAt);
+    });
+
+    test('a ttl field expires documents at their own date', async () => {
+        const tokens = db.collection('tokens', tokenSchema, {
+            ttl: { field: 'expiresAt' },
+        });
+        await tokens.insertBulk([
+            { _id: 'old', userId: 'u1', expiresAt: new Date(PAST) },
+            {
+                _id: 'new',
+                userId: 'u1',
+                expiresAt: new Date(Date.now() + HOUR),
+            },
+            { _id: 'forever', userId: 'u1' },
+        ]);
+
+        expect(ids(await tokens.toArray())).toEqual(['forever', 'new']);
+        expect(await tokens.findById('old')).toBeNull();
+        expect(
+            await tokens.where('userId').eq('u1').update({ userId: 'u2' })
+        ).toBe(2);
+    });
+
+    test('ttl fields compare as instants, whatever their offset or precision', async () => {
+        const stamps = db.collection(
+            'stamps',
+            z.object({
+                _id: z.string(),
+                expiresAt: z.string().datetime({ offset: true }),
+            }),
+            { ttl: { field: 'expiresAt' } }
+        );
+        const iso = (ms: number) => new Date(Date.now() + ms).toISOString();
+        // An hour ago in UTC+05:00 sorts after now as text
+        const offset = (ms: number) => {
+            const local = new Date(Date.now() + ms + 5 * HOUR).toISOString();
+            return `${local.slice(0, 19)}+05:00`;
+        };
+        await stamps.insertBulk([
+            { _id: 'offset-past', expiresAt: offset(-HOUR) },
+            { _id: 'offset-future', expiresAt: offset(HOUR) },
+            // The start of this second; as text 'Z' sorts after its '.SSSZ'
+            { _id: 'seconds-past', expiresAt: `${iso(0).slice(0, 19)}Z` },
+            { _id: 'micros-future', expiresAt: iso(HOUR).replace('Z', '123Z') },
+        ]);
+
+        expect(ids(await stamps.toArray())).toEqual([
+            'micros-future',
+            'offset-future',
+        ]);
+        expect(await stamps.sweepExpired()).toBe(2);
+    });
+
+    test('sweepExpired() deletes expired rows in batches with delete hooks', async () => {
+        const contexts: PluginContext[] = [];
+        db.use({
+            name: 'expiry-audit',
+            onAfterDelete: (context: PluginContext) => {
+                contexts.push(context);
+            },
+        });
+        const tokens = db.collection('tokens', tokenSchema, {
+            ttl: { field: 'expiresAt' },
+        });
+        await tokens.insertBulk([
+            ...['a', 'b', 'c'].map((_id) => ({
+                _id,
+                userId: 'u1',
+                expiresAt: new Date(PAST),
+            })),
+            { _id: 'd', userId: 'u1' },
+        ]);
+
+        expect(await tokens.sweepExpired(2)).toBe(3);
+        expect(contexts.map((c) => c.operation)).toEqual(['expire', 'expire']);
+        expect(contexts.flatMap((c) => c.data.ids).sort()).toEqual([
+            'a',
+            'b',
+            'c',
+        ]);
+        expect(
+            (await db.query('SELECT _id FROM tokens')).map((r) => r._id)
+        ).toEqual(['d']);
+
+        expect(await db.sweepExpired()).toBe(0);
+        await expect(
+            db.collection('plain', sessionSchema).sweepExpired()
+        ).rejects.toThrow(ValidationError);
+    });
+
+    test('expired rows never join', async () => {
+        const sessions = db.collection('sessions', sessionSchema);
+        const tokens = db.collection('tokens', tokenSchema, {
+            ttl: { field: 'expiresAt' },
+        });
+        await tokens.insertBulk([
+            { _id: 't1', userId: 'u1', expiresAt: new Date(PAST) },
+            { _id: 't2', userId: 'u2' },
+        ]);
+        await sessions.insertBulk([
+            { _id: 's1', userId: 't1' },
+            { _id: 's2', userId: 't2' },
+        ]);
+
+        const rows = await sessions
+            .query()
+            .join('tokens', 'userId', '_id')
+            .toArray();
+        expect(rows.map((r: any) => r.tokens._id)).toEqual(['t2']);
+    });
+
+    test('rejects invalid ttl options', async () => {
+        expect(() =>
+            db.collection('sessions', sessionSchema, { ttl: -1 })
+        ).toThrow('ttl must be a positive number');
+        expect(() =>
+            db.collection('tokens', tokenSchema, { ttl: { field: '' } })
+        ).toThrow('ttl must be');
+
+        // Epoch numbers and free-form strings do not compare as ISO text
+        for (const expiresAt of [z.number(), z.string().optional()]) {
+            expect(() =>
+                db.collection(
+                    'epochs',
+                    z.object({ _id: z.string(), expiresAt }),
+                    { ttl: { field: 'expiresAt' } }
+                )
+            ).toThrow(
+                "ttl field 'expiresAt' must be a z.date() or z.string().datetime()"
+            );
+        }
+        const isoTokens = db.collection(
+            'isoTokens',
+            z.object({ _id: z.string(), expiresAt: z.string().datetime() }),
+            { ttl: { field: 'expiresAt' } }
+        );
+        await isoTokens.insert({
+            expiresAt: new Date(Date.now() + 3600_000).toISOString(),
+        });
+        expect(await isoTokens.count()).toBe(1);
+    });
+});
+
+describe('TTL sweeper', () => {
+    test('runs in the background and stops on close()', async () => {
+        const db = createDB({ memory: true, ttlSweep: { interval: 10 } });
+        const tokens = db.collection('tokens', tokenSchema, {
+            ttl: { field: 'expiresAt' },
+        });
+        await tokens.insert({
+            _id: 'a',
+            userId: 'u1',
+            expiresAt: new Date(PAST),
+        });
+
+        for (let i = 0; i < 50; i++) {
+            const [{ n }] = await db.query('SELECT COUNT(*) AS n FROM tokens');
+            if (n === 0) break;
+            await new Promise((resolve) => setTimeout(resolve, 10));
+        }
+        expect((await db.query('SELECT COUNT(*) AS n FROM tokens'))[0].n).toBe(
+            0
+        );
+
+        await db.close();
+        expect((db as any).ttlSweepTimer).toBeUndefined();
+    });
+});
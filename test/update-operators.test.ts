@@ -0,0 +1,247 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { createDB } from '../src/index';
+import { ValidationError, NotFoundError } from '../src/errors';
+import {
+    applyUpdateOperators,
+    canCompileUpdateOperators,
+} from '../src/update-operators';
+import { SQLTranslator } from '../src/sql-translator';
+import type { ChangeEvent } from '../src/change-feed';
+
+const productSchema = z.object({
+    _id: z.string(),
+    name: z.string(),
+    stock: z.number().int().min(0),
+    price: z.number(),
+    tags: z.array(z.string()).default([]),
+    meta: z
+        .object({
+            views: z.number().optional(),
+            color: z.string().optional(),
+        })
+        .optional(),
+    note: z.string().optional(),
+});
+
+describe('Update operators', () => {
+    let db: ReturnType<typeof createDB>;
+    let products: ReturnType<typeof db.collection<typeof productSchema>>;
+
+    beforeEach(() => {
+        db = createDB({ memory: true });
+        products = db.collection('products', productSchema, {
+            constrainedFields: {
+                stock: { type: 'INTEGER' },
+                'meta.color': { type: 'TEXT' },
+            },
+        });
+    });
+
+    afterEach(async () => {
+        await db.close();
+    });
+
+    const seed = () =>
+        products.insert({
+            name: 'lamp',
+            stock: 10,
+            price: 20,
+            tags: ['home'],
+            meta: { views: 1, color: 'red' },
+        });
+
+    test('$set updates nested paths and keeps siblings', async () => {
+        const doc = await seed();
+        const updated = await products.update(doc._id, {
+            $set: { 'meta.color': 'blue', name: 'desk lamp' },
+        });
+
+        expect(updated.name).toBe('desk lamp');
+        expect(updated.meta).toEqual({ views: 1, color: 'blue' });
+
+        const blue = await products.where('meta.color').eq('blue').toArray();
+        expect(blue.map((p) => p._id)).toEqual([doc._id]);
+    });
+
+    test('$unset removes fields', async () => {
+        const doc = await products.insert({
+            name: 'lamp',
+            stock: 1,
+            price: 2,
+            note: 'fragile',
+        });
+        const updated = await products.update(doc._id, {
+            $unset: { note: true },
+        });
+        expect(updated.note).toBeUndefined();
+        expect((await products.findById(doc._id))!.note).toBeUndefined();
+    });
+
+    test('$inc and $mul apply to constrained and JSON fields', async () => {
+        const doc = await seed();
+        await products.update(doc._id, {
+            $inc: { stock: -3, 'meta.views': 5 },
+        });
+        const updated = await products.update(doc._id, { $mul: { price: 1.5 } });
+
+        expect(updated.stock).toBe(7);
+        expect(updated.meta!.views).toBe(6);
+        expect(updated.price).toBe(30);
+        expect(await products.where('stock').eq(7).executeCount()).toBe(1);
+    });
+
+    test('concurrent $inc calls do not lose writes', async () => {
+        const doc = await seed();
+        await Promise.all(
+            Array.from({ length: 5 }, () =>
+                products.update(doc._id, { $inc: { stock: 1 } })
+            )
+        );
+        expect((await products.findById(doc._id))!.stock).toBe(15);
+    });
+
+    test('$min and $max only move values in one direction', async () => {
+        const doc = await seed();
+        await products.update(doc._id, { $min: { price: 25 } });
+        expect((await products.findById(doc._id))!.price).toBe(20);
+
+        await products.update(doc._id, { $max: { price: 25 } });
+        expect((await products.findById(doc._id))!.price).toBe(25);
+    });
+
+    test('$push, $addToSet and $pull modify arrays', async () => {
+        const doc = await seed();
+        await products.update(doc._id, {
+            $push: { tags: { $each: ['sale', 'new'] } },
+        });
+        await products.update(doc._id, { $addToSet: { tags: 'sale' } });
+        let current = await products.findById(doc._id);
+        expect(current!.tags).toEqual(['home', 'sale', 'new']);
+
+        await products.update(doc._id, { $pull: { tags: { $in: ['home', 'new'] } } });
+        current = await products.findById(doc._id);
+        expect(current!.tags).toEqual(['sale']);
+    });
+
+    test('$rename moves a value to a new path', async () => {
+        const doc = await products.insert({
+            name: 'lamp',
+            stock: 1,
+            price: 2,
+            meta: { color: 'red' },
+        });
+        const updated = await products.update(doc._id, {
+            $rename: { 'meta.color': 'note' },
+        });
+        expect(updated.note).toBe('red');
+        expect(updated.meta).toEqual({});
+        expect(await products.where('meta.color').eq('red').executeCount()).toBe(0);
+    });
+
+    test('runs schema validation and leaves the document untouched on failure', async () => {
+        const doc = await seed();
+        await expect(
+            products.update(doc._id, { $inc: { stock: -20 } })
+        ).rejects.toThrow(ValidationError);
+        expect((await products.findById(doc._id))!.stock).toBe(10);
+    });
+
+    test('rejects unknown operators, conflicting paths and _id updates', async () => {
+        const doc = await seed();
+        await expect(
+            products.update(doc._id, { $foo: { name: 'x' } } as any)
+        ).rejects.toThrow("Unknown update operator '$foo'");
+        await expect(
+            products.update(doc._id, {
+                $set: { meta: {} },
+                $inc: { 'meta.views': 1 },
+            })
+        ).rejects.toThrow(ValidationError);
+        await expect(
+            products.update(doc._id, { $set: { _id: 'other' } })
+        ).rejects.toThrow(ValidationError);
+    });
+
+    test('throws NotFoundError for missing documents', async () => {
+        await expect(
+            products.update('missing', { $set: { name: 'x' } })
+        ).rejects.toThrow(NotFoundError);
+    });
+
+    test('updateMany applies operators to every match and returns the count', async () => {
+        await products.insertBulk([
+            { name: 'a', stock: 1, price: 1 },
+            { name: 'b', stock: 2, price: 1 },
+            { name: 'c', stock: 0, price: 1 },
+        ]);
+
+        const count = await products.updateMany(
+            products.where('stock').gt(0),
+            { $inc: { stock: 10 }, $push: { tags: 'restocked' } }
+        );
+
+        expect(count).toBe(2);
+        const restocked = await products.where('stock').gte(10).toArray();
+        expect(restocked.map((p) => p.name).sort()).toEqual(['a', 'b']);
+        expect(restocked.every((p) => p.tags.includes('restocked'))).toBe(true);
+    });
+
+    test('notifies watchers once per updateMany', async () => {
+        await products.insertBulk([
+            { name: 'a', stock: 1, price: 1 },
+            { name: 'b', stock: 2, price: 1 },
+        ]);
+        const events: ChangeEvent<z.infer<typeof productSchema>>[] = [];
+        const sub = products.watch((e) => {
+            events.push(e);
+        });
+        await sub.ready;
+
+        await products.updateMany(products.query(), { $inc: { price: 1 } });
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        expect(events).toHaveLength(2);
+        expect(events[1].changed).toHaveLength(2);
+        sub.unsubscribe();
+    });
+});
+
+describe('Update operator compilation', () => {
+    test('compiles $set/$unset/$inc/$mul to json_set and json_remove', () => {
+        const { sql, params } = SQLTranslator.buildOperatorUpdateQuery(
+            'items',
+            { $set: { name: 'x' }, $unset: { note: true }, $inc: { n: 2 } },
+            'id1'
+        );
+        expect(sql).toBe(
+            'UPDATE items SET doc = json_set(json_remove(doc, ?), ?, json(?), ?, COALESCE(json_extract(doc, ?), 0) + ?) WHERE _id = ?'
+        );
+        expect(params).toEqual([
+            '$.note',
+            '$.name',
+            '"x"',
+            '$.n',
+            '$.n',
+            2,
+            'id1',
+        ]);
+    });
+
+    test('falls back when operators or paths cannot be compiled', () => {
+        const doc = { a: { b: 1 }, list: [1] };
+        expect(canCompileUpdateOperators(doc, { $set: { 'a.c': 1 } })).toBe(true);
+        expect(canCompileUpdateOperators(doc, { $set: { 'x.y': 1 } })).toBe(false);
+        expect(canCompileUpdateOperators(doc, { $push: { list: 2 } })).toBe(false);
+        expect(canCompileUpdateOperators(doc, { $set: { 'list.0': 2 } })).toBe(false);
+    });
+
+    test('applyUpdateOperators does not mutate the input', () => {
+        const doc = { tags: ['a'], meta: { n: 1 } };
+        const result = applyUpdateOperators(doc, {
+            $push: { tags: 'b' },
+            $inc: { 'meta.n': 1 },
+        });
+        expect(doc).toEqual({ tags: ['a'], meta: { n: 1 } });
+        expect(result).toEqual({ tags: ['a', 'b'], meta: { n: 2 } });
+    });
+});
@@ -0,0 +1,197 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { z } from 'zod';
+import { createDB } from '../src/index';
+import { ConflictError, ValidationError } from '../src/errors';
+
+const accountSchema = z.object({
+    _id: z.string(),
+    owner: z.string(),
+    balance: z.number(),
+});
+
+describe('Document revisions', () => {
+    let db: ReturnType<typeof createDB>;
+    let accounts: ReturnType<typeof db.collection<typeof accountSchema>>;
+
+    beforeEach(() => {
+        db = createDB({ memory: true });
+        accounts = db.collection('accounts', accountSchema, {
+            versioning: true,
+        });
+    });
+
+    afterEach(async () => {
+        await db.close();
+    });
+
+    test('_rev starts at 1 and increments on every write', async () => {
+        const created = await accounts.insert({
+            _id: 'a',
+            owner: 'Ada',
+            balance: 10,
+        });
+        expect(created._rev).toBe(1);
+        expect((await accounts.findById('a'))?._rev).toBe(1);
+
+        const put = await accounts.put('a', { balance: 20 });
+        expect(put._rev).toBe(2);
+
+        const updated = await accounts.update('a', { $inc: { balance: 5 } });
+        expect(updated).toMatchObject({ balance: 25, _rev: 3 });
+
+        await accounts.updateMany(accounts.where('_id').eq('a'), {
+            $set: { owner: 'Ada L.' },
+        });
+        expect(await accounts.findById('a')).toEqual({
+            _id: 'a',
+            owner: 'Ada L.',
+            balance: 25,
+            _rev: 4,
+        });
+    });
+
+    test('a client-supplied _rev is ignored', async () => {
+        await accounts.insert({ _id: 'a', owner: 'Ada', balance: 10 });
+        const put = await accounts.put('a', { balance: 1, _rev: 99 } as any);
+        expect(put._rev).toBe(2);
+    });
+
+    test('ifMatch rejects stale writes with ConflictError', async () => {
+        await accounts.insert({ _id: 'a', owner: 'Ada', balance: 10 });
+        const first = (await accounts.findById('a'))!;
+        const second = (await accounts.findById('a'))!;
+
+        await accounts.put('a', { balance: 15 }, { ifMatch: first._rev });
+        const stale = accounts.put(
+            'a',
+            { balance: 99 },
+            { ifMatch: second._rev }
+        );
+        await expect(stale).rejects.toThrow(ConflictError);
+        await expect(stale).rejects.toMatchObject({
+            conflicts: [{ _id: 'a', expected: 1, actual: 2 }],
+        });
+
+        await expect(
+            accounts.update('a', { $inc: { balance: 1 } }, { ifMatch: 1 })
+        ).rejects.toThrow(ConflictError);
+        await expect(accounts.delete('a', { ifMatch: 1 })).rejects.toThrow(
+            "Revision conflict on document 'a': expected 1, found 2"
+        );
+        expect(await accounts.findById('a')).toMatchObject({
+            balance: 15,
+            _rev: 2,
+        });
+
+        expect(await accounts.delete('a', { ifMatch: 2 })).toBe(true);
+        expect(await accounts.findById('a')).toBeNull();
+    });
+
+    test('putBulk and upsertBulk report every conflicting item', async () => {
+        await accounts.insertBulk([
+            { _id: 'a', owner: 'Ada', balance: 1 },
+            { _id: 'b', owner: 'Bob', balance: 1 },
+            { _id: 'c', owner: 'Cy', balance: 1 },
+        ]);
+        await accounts.put('b', { balance: 2 });
+        await accounts.put('c', { balance: 2 });
+
+        const put = accounts.putBulk([
+            { _id: 'a', doc: { balance: 5 }, ifMatch: 1 },
+            { _id: 'b', doc: { balance: 5 }, ifMatch: 1 },
+            { _id: 'c', doc: { balance: 5 }, ifMatch: 1 },
+        ]);
+        await expect(put).rejects.toThrow('Revision conflicts on 2 documents');
+        await expect(put).rejects.toMatchObject({
+            conflicts: [
+                { _id: 'b', expected: 1, actual: 2 },
+                { _id: 'c', expected: 1, actual: 2 },
+            ],
+        });
+
+        await expect(
+            accounts.upsertBulk([
+                { _id: 'a', doc: { owner: 'Ada', balance: 7 }, ifMatch: 1 },
+                { _id: 'z', doc: { owner: 'Zed', balance: 7 }, ifMatch: 1 },
+            ])
+        ).rejects.toMatchObject({
+            conflicts: [{ _id: 'z', expected: 1, actual: null }],
+        });
+
+        // Nothing from either failed batch was written
+        const balances = (await accounts.query().orderBy('_id').toArray()).map(
+            (a) => [a._id, a.balance, a._rev]
+        );
+        expect(balances).toEqual([
+            ['a', 1, 1],
+            ['b', 2, 2],
+            ['c', 2, 2],
+        ]);
+
+        const written = await accounts.putBulk([
+            { _id: 'b', doc: { balance: 9 }, ifMatch: 2 },
+            { _id: 'c', doc: { balance: 9 } },
+        ]);
+        expect(written.map((a) => a._rev)).toEqual([3, 3]);
+    });
+
+    test('upserts keep counting revisions', async () => {
+        const inserted = await accounts.upsert('a', {
+            owner: 'Ada',
+            balance: 1,
+        });
+        expect(inserted._rev).toBe(1);
+        const replaced = await accounts.upsert('a', {
+            owner: 'Ada',
+            balance: 2,
+        });
+        expect(replaced._rev).toBe(2);
+
+        const bulk = await accounts.upsertBulk([
+            { _id: 'a', doc: { owner: 'Ada', balance: 3 }, ifMatch: 2 },
+            { _id: 'b', doc: { owner: 'Bob', balance: 3 } },
+        ]);
+        expect(bulk.map((a) => a._rev)).toEqual([3, 1]);
+    });
+
+    test('ifMatch requires a versioned collection', async () => {
+        const plain = db.collection('plain', accountSchema);
+        await plain.insert({ _id: 'a', owner: 'Ada', balance: 1 });
+        expect(await plain.findById('a')).not.toHaveProperty('_rev');
+        await expect(
+            plain.put('a', { balance: 2 }, { ifMatch: 1 })
+        ).rejects.toThrow(ValidationError);
+    });
+});
+
+describe('Enabling versioning on an existing collection', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'skibba-rev-'));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('backfills existing documents at revision 1', async () => {
+        const path = join(dir, 'accounts.db');
+        const before = createDB({ path });
+        await before
+            .collection('accounts', accountSchema)
+            .insert({ _id: 'a', owner: 'Ada', balance: 1 });
+        await before.close();
+
+        const after = createDB({ path });
+        const accounts = after.collection('accounts', accountSchema, {
+            versioning: true,
+        });
+        expect((await accounts.findById('a'))?._rev).toBe(1);
+        expect((await accounts.put('a', { balance: 2 }))._rev).toBe(2);
+        await after.close();
+    });
+});